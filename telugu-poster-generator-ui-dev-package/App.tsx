@@ -1,71 +1,144 @@
 
-import React, { useState, useCallback, useRef, useEffect } from 'react';
+import React, { useState, useCallback, useRef, useEffect, useMemo, useSyncExternalStore } from 'react';
 import { PromptInput } from './components/PromptInput';
 import { ImageDisplay } from './components/ImageDisplay';
 import { LoadingSpinner } from './components/LoadingSpinner';
 import { ErrorMessage } from './components/ErrorMessage';
-import { generateImageWithGemini, extractPosterDetailsFromPrompt, summarizePromptForTitle } from './services/geminiService';
+import { generateImageWithGemini, extractPosterDetailsFromPrompt, refinePosterDetails, summarizePromptForTitle, getActiveProviderId, type RequestOptions } from './services/geminiService';
+import type { RefinementScope } from './services/generationProvider';
+import { toGenerationError, type GenerationErrorKind } from './services/generationErrors';
 import { Header } from './components/Header';
 import { Sidebar } from './components/Sidebar';
 import { LanguageSelectionModal } from './components/LanguageSelectionModal'; // New Modal
+import { PosterTextEditor } from './components/PosterTextEditor';
+import { FormatPicker } from './components/FormatPicker';
+import { VariantCountPicker } from './components/VariantCountPicker';
+import { VariantGrid } from './components/VariantGrid';
+import { renderPoster, type PosterRenderOptions } from './services/posterRenderer';
+import { LayoutPicker } from './components/LayoutPicker';
+import { NEW_POSTER_LAYOUT_TEMPLATE_ID, type LayoutTemplateId } from './utils/layoutTemplates';
+import { FontPairingPicker } from './components/FontPairingPicker';
+import type { FontPairingId } from './utils/fontRegistry';
+import { DEFAULT_POSTER_FORMAT_ID, getPosterFormat, type PosterFormatId } from './utils/posterFormats';
+import { buildBackgroundPrompt } from './utils/backgroundPrompt';
+import { loadSessions, saveSessions, deleteSession, isImageUrl } from './services/storageService';
+import { clearBrandKit, isBrandKitEmpty, loadBrandKit, saveBrandKit, type BrandKit } from './services/brandKitStorage';
+import { BrandKitPanel } from './components/BrandKitPanel';
+import { BrandKitToggle } from './components/BrandKitToggle';
+import { PosterVersionBadge } from './components/PosterVersionBadge';
+import { ExportDialog } from './components/ExportDialog';
+import { PosterLayoutEditor } from './components/PosterLayoutEditor';
+import { TemplateGallery } from './components/TemplateGallery';
+import { BatchPanel } from './components/BatchPanel';
+import { UsagePanel } from './components/UsagePanel';
+import { SessionTransferDialog } from './components/SessionTransferDialog';
+import { mergeImportedSessions, type SessionImportResult } from './services/sessionTransfer';
+import { loadSessionFolders, loadSessionSortOrder, saveSessionFolders, saveSessionSortOrder, type SessionFolder } from './services/sessionFolderStorage';
+import { sortSessions, type SessionSortOrder } from './utils/sessionList';
+import { DEFAULT_PHOTO_FIT, photoForPrompt, preparePhotoBackground, type AttachedPhoto, type PhotoFit } from './services/photoBackground';
+import { clearUsageRecords, getUsageRecords, loadUsageBudgets, saveUsageBudgets, subscribeToUsage, type UsageBudgets } from './services/usageLog';
+import { estimateGenerationCostUsd, findBudgetWarnings, startOfDay, totalUsage, usageBySession, usageSince, type GenerationPlan } from './utils/usageSummary';
+import { describeDaysUntil, getPosterTemplate, getUpcomingFestivals, templateGreetings, type PosterTemplateId } from './utils/posterTemplates';
+import { isAbortError } from './utils/retry';
+import type { TextLayerOverrides } from './utils/textLayers';
+import type { LanguageId } from './utils/languages';
+import { applyLanguagePreference, EMPTY_SECONDARY_TEXT, leadHeadlineText, secondaryTextOf, type PosterText } from './utils/posterContent';
+import { loadPosterLanguages, loadSpeechLanguage, savePosterLanguages, saveSpeechLanguage } from './services/languageStorage';
 
 // Types
-export interface PosterDetails { // Exporting for geminiService if needed, though it defines its own
+export interface PosterHeadline {
+  language: LanguageId;
+  text: string; // Empty when there is nothing to say in this language
+}
+
+export interface PosterDetails { // Shared by geminiService and the generation providers; see utils/posterContent
   theme: string;
-  englishText: string;
-  teluguText: string;
+  headlines: PosterHeadline[]; // One per language of the poster, in the order they are stacked
+  // Secondary lines; empty when the poster has none.
+  subheadline: string;
+  dateTime: string;
+  venue: string;
+  callToAction: string; // e.g. "Call 98480 12345" or "All are welcome"
+  attribution: string; // e.g. "- A thought by Hemanth"
 }
 
-export type LanguagePreference = 'english' | 'telugu' | 'both';
+// The languages picked for a poster, in the order their headlines are stacked.
+export type LanguagePreference = LanguageId[];
+
+// One background of a multi-variant generation, with the same text drawn on it.
+export interface PosterVariant {
+  id: string;
+  baseImageUrl: string;
+  imageUrl: string;
+}
 
-interface ConversationItem {
+export interface ConversationItem {
   id: string;
   type: 'userPrompt' | 'aiResponse';
   promptText?: string;
   imageUrl?: string | null;
+  baseImageUrl?: string | null; // Background without text, kept so the text can be re-rendered
+  posterDetails?: PosterDetails; // Text currently drawn on imageUrl
+  formatId?: PosterFormatId; // Missing on posters made before size presets existed
+  variants?: PosterVariant[]; // Only set when more than one background was generated
+  selectedVariantId?: string; // The variant currently shown as imageUrl/baseImageUrl
+  layoutId?: LayoutTemplateId; // Missing means the original centred layout
+  fontPairingId?: FontPairingId; // Missing means the classic Noto Sans Telugu + Inter pairing
+  textLayers?: TextLayerOverrides; // Text boxes placed by hand in the layout editor
+  brandKitApplied?: boolean; // Whether the saved brand kit is stamped on this poster
+  parentItemId?: string; // The earlier poster this one refines, if it came from a follow-up prompt
+  version?: number; // 1 for a fresh poster, counting up along a chain of refinements; missing means 1
+  refinementScope?: Exclude<RefinementScope, 'new'>; // What the follow-up changed compared to the parent
+  templateId?: PosterTemplateId; // The gallery template the poster was started from, if any
+  photoFit?: PhotoFit; // Set when the background is the user's own photo, fitted to the format this way
   isLoading?: boolean;
   loadingStep?: string;
   errorText?: string | null;
+  errorKind?: GenerationErrorKind; // Why the generation failed; missing on errors saved before error kinds existed
+  retryAt?: number; // For 'quota' errors, when trying again should work
   originalUserQuery?: string;
 }
 
+// Greetings picked in the template gallery, waiting for the language choice.
+interface TemplatePreset {
+  templateId: PosterTemplateId;
+  greetings: PosterHeadline[];
+}
+
+// A photo attached in the prompt box, to be used as the background of the next poster.
+interface PhotoBackgroundChoice {
+  photo: AttachedPhoto;
+  fit: PhotoFit;
+}
+
 export interface ConversationSession {
   id: string;
   title: string;
   items: ConversationItem[];
   createdAt: number;
+  updatedAt?: number; // Last change to the items or title; missing on chats saved before it was tracked
+  pinned?: boolean; // Listed above everything else in the sidebar
+  folderId?: string; // The sidebar folder the chat is filed in; missing means no folder
 }
 
-// Utility functions
-const wrapText = (
-  context: CanvasRenderingContext2D,
-  text: string,
-  maxWidth: number
-): string[] => {
-  if (!text) return [];
-  const words = text.split(' ');
-  const lines: string[] = [];
-  let currentLine = '';
-
-  for (let i = 0; i < words.length; i++) {
-    const word = words[i];
-    const testLine = currentLine ? currentLine + ' ' + word : word;
-    const metrics = context.measureText(testLine);
-    const testWidth = metrics.width;
-
-    if (testWidth > maxWidth && currentLine) {
-      lines.push(currentLine);
-      currentLine = word;
-    } else {
-      currentLine = testLine;
-    }
-  }
-  if (currentLine) {
-    lines.push(currentLine);
-  }
-  return lines;
-};
+// Everything the renderer needs to redraw an item's poster on one of its backgrounds.
+// The brand kit is not stored per poster, so redraws pick up the current one.
+const renderOptionsForItem = (item: ConversationItem, details: PosterDetails, baseImageUrl: string, brandKit: BrandKit | null): PosterRenderOptions => ({
+  baseImageUrl,
+  headlines: details.headlines,
+  ...secondaryTextOf(details),
+  formatId: item.formatId,
+  layoutId: item.layoutId,
+  fontPairingId: item.fontPairingId,
+  textLayers: item.textLayers,
+  brandKit: item.brandKitApplied ? brandKit : null,
+});
 
+// Download file names start with the prompt, e.g. "happy_ugadi_from_hemanth_poster".
+const posterFileBaseName = (originalUserQuery?: string): string => {
+  const promptStart = originalUserQuery ? originalUserQuery.substring(0, 30).replace(/[^a-z0-9]/gi, '_').toLowerCase() : 'ai_poster';
+  return `${promptStart}_poster`;
+};
 
 const App: React.FC = () => {
   const initialSessionId = `session-${Date.now()}`;
@@ -77,19 +150,79 @@ const App: React.FC = () => {
   const [isOverallLoading, setIsOverallLoading] = useState<boolean>(false);
   const [isSidebarCollapsed, setIsSidebarCollapsed] = useState<boolean>(false);
   const [promptBarPosition, setPromptBarPosition] = useState<'middle' | 'bottom'>('middle');
+  const [isHydrated, setIsHydrated] = useState<boolean>(false);
+  const [editingItemId, setEditingItemId] = useState<string | null>(null);
+  const [isRerendering, setIsRerendering] = useState<boolean>(false);
+  const [selectedFormatId, setSelectedFormatId] = useState<PosterFormatId>(DEFAULT_POSTER_FORMAT_ID);
+  const [variantCount, setVariantCount] = useState<number>(1);
+  const [brandKit, setBrandKit] = useState<BrandKit | null>(() => loadBrandKit());
+  const [isBrandKitPanelOpen, setIsBrandKitPanelOpen] = useState<boolean>(false);
+  const [applyBrandKit, setApplyBrandKit] = useState<boolean>(true);
+  const [exportingItemId, setExportingItemId] = useState<string | null>(null);
+  const [layoutEditingItemId, setLayoutEditingItemId] = useState<string | null>(null);
+  const [isTemplateGalleryOpen, setIsTemplateGalleryOpen] = useState<boolean>(false);
+  const [isBatchPanelOpen, setIsBatchPanelOpen] = useState<boolean>(false);
+  const [pendingTemplatePreset, setPendingTemplatePreset] = useState<TemplatePreset | null>(null);
+  const usageRecords = useSyncExternalStore(subscribeToUsage, getUsageRecords);
+  const [usageBudgets, setUsageBudgets] = useState<UsageBudgets>(() => loadUsageBudgets());
+  const [isUsagePanelOpen, setIsUsagePanelOpen] = useState<boolean>(false);
+  const [transferSessionId, setTransferSessionId] = useState<string | null>(null); // Open dialog's single-chat export
+  const [isSessionTransferOpen, setIsSessionTransferOpen] = useState<boolean>(false);
+  const [sessionFolders, setSessionFolders] = useState<SessionFolder[]>(() => loadSessionFolders());
+  const [sessionSortOrder, setSessionSortOrder] = useState<SessionSortOrder>(() => loadSessionSortOrder());
+  const [attachedPhoto, setAttachedPhoto] = useState<AttachedPhoto | null>(null);
+  const [photoFit, setPhotoFit] = useState<PhotoFit>(DEFAULT_PHOTO_FIT);
 
 
   // States for language selection modal
   const [showLanguageModal, setShowLanguageModal] = useState<boolean>(false);
   const [pendingPrompt, setPendingPrompt] = useState<string>('');
   const [languagePreferenceForGeneration, setLanguagePreferenceForGeneration] = useState<LanguagePreference | null>(null);
+  const [posterLanguages, setPosterLanguages] = useState<LanguagePreference>(() => loadPosterLanguages());
+  const [speechLanguage, setSpeechLanguage] = useState<LanguageId>(() => loadSpeechLanguage());
 
 
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const conversationEndRef = useRef<HTMLDivElement>(null);
+  // The poster being generated right now, so its loading bubble can cancel it.
+  const activeGenerationRef = useRef<{ itemId: string; controller: AbortController } | null>(null);
 
   const activeSession = allSessions.find(s => s.id === activeSessionId);
   const currentConversationItems = activeSession?.items ?? [];
+  const exportingItem = exportingItemId ? currentConversationItems.find(item => item.id === exportingItemId) : undefined;
+  const layoutEditingItem = layoutEditingItemId ? currentConversationItems.find(item => item.id === layoutEditingItemId) : undefined;
+  // Kept stable between renders, because the layout editor starts over whenever its options change.
+  const layoutEditingOptions = useMemo(() =>
+    layoutEditingItem?.baseImageUrl && layoutEditingItem.posterDetails
+      ? renderOptionsForItem(layoutEditingItem, layoutEditingItem.posterDetails, layoutEditingItem.baseImageUrl, brandKit)
+      : null,
+  [layoutEditingItem, brandKit]);
+  const upcomingFestivals = getUpcomingFestivals();
+
+  // Restore saved chats once on startup; nothing is persisted until this has finished.
+  useEffect(() => {
+    let cancelled = false;
+    loadSessions()
+      .then(storedSessions => {
+        if (cancelled || storedSessions.length === 0) return;
+        setAllSessions(storedSessions);
+        // Carry on with the chat worked on last, whatever order the sidebar shows.
+        setActiveSessionId(sortSessions(storedSessions, 'modified')[0].id);
+      })
+      .catch(error => console.error('Error restoring saved sessions:', error))
+      .finally(() => {
+        if (!cancelled) setIsHydrated(true);
+      });
+    return () => { cancelled = true; };
+  }, []);
+
+  useEffect(() => {
+    if (!isHydrated) return;
+    const saveTimer = setTimeout(() => {
+      saveSessions(allSessions).catch(error => console.error('Error saving sessions:', error));
+    }, 400);
+    return () => clearTimeout(saveTimer);
+  }, [allSessions, isHydrated]);
 
   useEffect(() => {
     const lastItem = currentConversationItems[currentConversationItems.length - 1];
@@ -125,155 +258,12 @@ const App: React.FC = () => {
 
 
   const drawImageWithTextOverlay = useCallback(
-    async (baseImageUrl: string, engText: string, telText: string): Promise<string> => {
-      return new Promise((resolve, reject) => {
-        const canvas = canvasRef.current;
-        if (!canvas) {
-          reject(new Error('Canvas element not found'));
-          return;
-        }
-        const ctx = canvas.getContext('2d');
-        if (!ctx) {
-          reject(new Error('Failed to get canvas context'));
-          return;
-        }
-
-        const img = new Image();
-        img.crossOrigin = 'anonymous';
-        img.onload = () => {
-          canvas.width = img.width;
-          canvas.height = img.height;
-          ctx.drawImage(img, 0, 0);
-
-          ctx.textAlign = 'center';
-          ctx.textBaseline = 'middle';
-
-          const hasEnglish = engText && engText.trim() !== '';
-          const hasTelugu = telText && telText.trim() !== '';
-          const textMaxWidth = canvas.width * 0.85; 
-          const textX = canvas.width / 2;
-          const availableHeightForText = canvas.height * 0.85; 
-          const minFontSize = Math.max(8, canvas.width / 70); 
-          const interTextPadding = Math.max(15, canvas.height * 0.03); 
-
-          let englishFontSize = Math.max(minFontSize, Math.min(img.width / 18, img.height / 15));
-          let teluguFontSize = Math.max(minFontSize, Math.min(img.width / 16, img.height / 12));
-          
-          let englishLines: string[] = [];
-          let teluguLines: string[] = [];
-          let englishLineHeight = 0;
-          let teluguLineHeight = 0;
-          let englishBlockHeight = 0;
-          let teluguBlockHeight = 0;
-
-          const maxIterations = 20; 
-          for (let i = 0; i < maxIterations; i++) {
-            englishLineHeight = englishFontSize * 1.2;
-            teluguLineHeight = teluguFontSize * 1.2;
-
-            if (hasEnglish) {
-              ctx.font = `bold ${englishFontSize}px Inter, Arial, sans-serif`;
-              englishLines = wrapText(ctx, engText, textMaxWidth);
-              englishBlockHeight = englishLines.length * englishLineHeight;
-            } else {
-              englishLines = [];
-              englishBlockHeight = 0;
-            }
-
-            if (hasTelugu) {
-              ctx.font = `bold ${teluguFontSize}px 'Noto Sans Telugu', sans-serif`;
-              teluguLines = wrapText(ctx, telText, textMaxWidth);
-              teluguBlockHeight = teluguLines.length * teluguLineHeight;
-            } else {
-              teluguLines = [];
-              teluguBlockHeight = 0;
-            }
-            
-            const totalTextHeight = englishBlockHeight + 
-                                   (hasEnglish && hasTelugu && englishLines.length > 0 && teluguLines.length > 0 ? interTextPadding : 0) + 
-                                   teluguBlockHeight;
-
-            if (totalTextHeight <= availableHeightForText) break;
-            if (englishFontSize <= minFontSize && teluguFontSize <= minFontSize) break;
-
-            if (hasEnglish && englishFontSize > minFontSize) englishFontSize = Math.max(minFontSize, englishFontSize * 0.9); 
-            if (hasTelugu && teluguFontSize > minFontSize) teluguFontSize = Math.max(minFontSize, teluguFontSize * 0.9); 
-            if (i === maxIterations -1) console.warn("Max font size reduction iterations reached. Text may still be large.");
-          }
-          
-          englishLineHeight = englishFontSize * 1.2;
-          teluguLineHeight = teluguFontSize * 1.2;
-          if (hasEnglish) {
-            ctx.font = `bold ${englishFontSize}px Inter, Arial, sans-serif`;
-            englishLines = wrapText(ctx, engText, textMaxWidth);
-            englishBlockHeight = englishLines.length * englishLineHeight;
-          } else {
-             englishLines = []; englishBlockHeight = 0;
-          }
-          if (hasTelugu) {
-            ctx.font = `bold ${teluguFontSize}px 'Noto Sans Telugu', sans-serif`;
-            teluguLines = wrapText(ctx, telText, textMaxWidth);
-            teluguBlockHeight = teluguLines.length * teluguLineHeight;
-          } else {
-            teluguLines = []; teluguBlockHeight = 0;
-          }
-
-          const totalActualTextHeight = englishBlockHeight + 
-                                        (hasEnglish && hasTelugu && englishLines.length > 0 && teluguLines.length > 0 ? interTextPadding : 0) + 
-                                        teluguBlockHeight;
-          let currentY = (canvas.height - totalActualTextHeight) / 2;
-
-          ctx.shadowColor = 'rgba(0, 0, 0, 0.7)';
-          ctx.shadowBlur = Math.max(3, canvas.width / 250);
-          ctx.shadowOffsetX = Math.max(1, canvas.width / 400);
-          ctx.shadowOffsetY = Math.max(1, canvas.width / 400);
-
-          if (hasEnglish && englishLines.length > 0) {
-            ctx.font = `bold ${englishFontSize}px Inter, Arial, sans-serif`;
-            ctx.fillStyle = 'white';
-            ctx.strokeStyle = 'black';
-            ctx.lineWidth = Math.max(1, Math.min(4, englishFontSize / 18));
-            
-            currentY += englishBlockHeight / 2; 
-            for (let i = 0; i < englishLines.length; i++) {
-              const lineY = currentY - ((englishLines.length - 1) / 2 - i) * englishLineHeight;
-              ctx.strokeText(englishLines[i], textX, lineY);
-              ctx.fillText(englishLines[i], textX, lineY);
-            }
-            currentY += englishBlockHeight / 2 + (hasTelugu && teluguLines.length > 0 ? interTextPadding : 0);
-          } else if (hasTelugu && teluguLines.length > 0) { 
-            currentY += teluguBlockHeight / 2; 
-          }
-
-          if (hasTelugu && teluguLines.length > 0) {
-            ctx.font = `bold ${teluguFontSize}px 'Noto Sans Telugu', sans-serif`;
-            ctx.fillStyle = 'white';
-            ctx.strokeStyle = 'black';
-            ctx.lineWidth = Math.max(1, Math.min(4, teluguFontSize / 18));
-
-            if (!hasEnglish || englishLines.length === 0) { /* currentY is already correct */ } 
-            else { currentY += teluguBlockHeight / 2; }
-
-            for (let i = 0; i < teluguLines.length; i++) {
-              const lineY = currentY - ((teluguLines.length - 1) / 2 - i) * teluguLineHeight;
-              ctx.strokeText(teluguLines[i], textX, lineY);
-              ctx.fillText(teluguLines[i], textX, lineY);
-            }
-          }
-          
-          ctx.shadowColor = 'transparent';
-          ctx.shadowBlur = 0;
-          ctx.shadowOffsetX = 0;
-          ctx.shadowOffsetY = 0;
-
-          resolve(canvas.toDataURL('image/png'));
-        };
-        img.onerror = (errEvent) => {
-          console.error('Error loading base image to canvas:', errEvent);
-          reject(new Error('Failed to load base image.'));
-        };
-        img.src = baseImageUrl;
-      });
+    async (options: PosterRenderOptions): Promise<string> => {
+      const canvas = canvasRef.current;
+      if (!canvas) {
+        throw new Error('Canvas element not found');
+      }
+      return renderPoster(canvas, options);
     },
     []
   );
@@ -281,20 +271,20 @@ const App: React.FC = () => {
   const updateSessionItems = (sessionId: string, updateFn: (items: ConversationItem[]) => ConversationItem[]) => {
     setAllSessions(prevSessions =>
       prevSessions.map(session =>
-        session.id === sessionId ? { ...session, items: updateFn(session.items) } : session
-      ).sort((a,b) => b.createdAt - a.createdAt)
+        session.id === sessionId ? { ...session, items: updateFn(session.items), updatedAt: Date.now() } : session
+      )
     );
   };
   
   const updateSessionTitle = useCallback((sessionId: string, newTitle: string) => {
     setAllSessions(prevSessions =>
       prevSessions.map(session =>
-        session.id === sessionId ? { ...session, title: newTitle } : session
-      ).sort((a,b) => b.createdAt - a.createdAt)
+        session.id === sessionId ? { ...session, title: newTitle, updatedAt: Date.now() } : session
+      )
     );
   }, []);
 
-  const proceedWithGeneration = useCallback(async (promptToGenerate: string, langPref: LanguagePreference) => {
+  const proceedWithGeneration = useCallback(async (promptToGenerate: string, langPref: LanguagePreference, formatId: PosterFormatId, numberOfVariants: number, withBrandKit: boolean, templatePreset: TemplatePreset | null = null, photoChoice: PhotoBackgroundChoice | null = null) => {
     if (!promptToGenerate.trim() || !activeSessionId) {
       setIsOverallLoading(false); 
       return;
@@ -306,122 +296,386 @@ const App: React.FC = () => {
     const userMessageId = `user-${Date.now()}`;
     const aiResponseId = `ai-${Date.now()}`;
 
+    const template = templatePreset ? getPosterTemplate(templatePreset.templateId) : undefined;
+    // Follow-up prompts are applied to the most recent finished poster in the chat; a template or a photo always starts a new one.
+    const previousItem = template || photoChoice ? undefined : [...(allSessions.find(s => s.id === activeSessionId)?.items ?? [])]
+      .reverse()
+      .find(item => item.type === 'aiResponse' && !item.isLoading && item.baseImageUrl && item.posterDetails);
+
+    const firstStep = photoChoice ? 'Looking at your photo...' : previousItem ? 'Reviewing your previous poster...' : 'Analyzing your idea...';
     const userMessage: ConversationItem = { id: userMessageId, type: 'userPrompt', promptText: promptToGenerate };
-    const aiInitialMessage: ConversationItem = { id: aiResponseId, type: 'aiResponse', isLoading: true, loadingStep: 'Analyzing your idea...', originalUserQuery: promptToGenerate };
+    const aiInitialMessage: ConversationItem = {
+      id: aiResponseId,
+      type: 'aiResponse',
+      isLoading: true,
+      loadingStep: firstStep,
+      originalUserQuery: promptToGenerate,
+      formatId,
+      layoutId: template?.layoutId ?? NEW_POSTER_LAYOUT_TEMPLATE_ID,
+      fontPairingId: template?.fontPairingId,
+      templateId: template?.id,
+      photoFit: photoChoice?.fit,
+      brandKitApplied: withBrandKit && brandKit !== null,
+    };
+    const format = getPosterFormat(formatId);
     
-    const currentSessionForTitleUpdate = allSessions.find(s => s.id === activeSessionId);
-    let titleUpdatedBySummarization = false;
-
-    if (currentSessionForTitleUpdate && currentSessionForTitleUpdate.title === 'New Chat' && promptToGenerate.trim() !== '') {
-      try {
-        const summarizedTitle = await summarizePromptForTitle(promptToGenerate);
-        if (summarizedTitle && summarizedTitle.trim() !== '') {
-          updateSessionTitle(activeSessionId, summarizedTitle.trim());
-          titleUpdatedBySummarization = true;
-        }
-      } catch (titleError) {
-        console.error("Error summarizing prompt for title:", titleError);
-         if(!titleUpdatedBySummarization) {
-            const fallbackTitle = promptToGenerate.substring(0, 40) + (promptToGenerate.length > 40 ? '...' : '');
-            updateSessionTitle(activeSessionId, fallbackTitle);
-         }
-      }
-    }
-
+    const controller = new AbortController();
+    activeGenerationRef.current = { itemId: aiResponseId, controller };
+    const setLoadingStep = (loadingStep: string) =>
+      updateSessionItems(activeSessionId, items => items.map(item => item.id === aiResponseId ? {...item, loadingStep } : item));
+    // Retries of a slow or rate-limited call show up in the loading bubble.
+    const requestFor = (loadingStep: string): RequestOptions => ({
+      signal: controller.signal,
+      sessionId: activeSessionId,
+      onAttempt: (attempt, maxAttempts) => {
+        if (attempt > 1) setLoadingStep(`${loadingStep} (attempt ${attempt} of ${maxAttempts})`);
+      },
+    });
 
+    // The loading bubble goes up first, so the whole generation can be cancelled from it.
     setAllSessions(prevSessions =>
       prevSessions.map(session =>
         session.id === activeSessionId
           ? {
               ...session,
               items: [...session.items, userMessage, aiInitialMessage],
+              updatedAt: Date.now(),
             }
           : session
-      ).sort((a,b) => b.createdAt - a.createdAt)
+      )
     );
 
+    const currentSessionForTitleUpdate = allSessions.find(s => s.id === activeSessionId);
+    let titleUpdatedBySummarization = false;
 
     try {
-      const posterDetails: PosterDetails = await extractPosterDetailsFromPrompt(promptToGenerate, langPref);
-      updateSessionItems(activeSessionId, items => items.map(item => item.id === aiResponseId ? {...item, loadingStep: 'Creating background image...' } : item));
+      // Template posters are titled from their greeting below, so the prompt needs no summarising.
+      if (!template && currentSessionForTitleUpdate && currentSessionForTitleUpdate.title === 'New Chat' && promptToGenerate.trim() !== '') {
+        try {
+          // Tried once only: the poster waits on this call, and the prompt makes a good enough title if it fails.
+          const summarizedTitle = await summarizePromptForTitle(promptToGenerate, { signal: controller.signal, sessionId: activeSessionId, maxAttempts: 1 });
+          if (summarizedTitle && summarizedTitle.trim() !== '') {
+            updateSessionTitle(activeSessionId, summarizedTitle.trim());
+            titleUpdatedBySummarization = true;
+          }
+        } catch (titleError) {
+          if (isAbortError(titleError)) throw titleError;
+          console.error("Error summarizing prompt for title:", titleError);
+           if(!titleUpdatedBySummarization) {
+              const fallbackTitle = promptToGenerate.substring(0, 40) + (promptToGenerate.length > 40 ? '...' : '');
+              updateSessionTitle(activeSessionId, fallbackTitle);
+           }
+        }
+      }
+
+      let posterDetails: PosterDetails;
+      let versionItem: ConversationItem = aiInitialMessage;
+      let reusedBaseImageUrl: string | null = null;
+      if (template && templatePreset) {
+        // The template already says what the poster shows, so there is nothing to extract from the prompt.
+        posterDetails = applyLanguagePreference({
+          ...EMPTY_SECONDARY_TEXT,
+          theme: template.themePrompt,
+          headlines: templatePreset.greetings,
+        }, langPref);
+      } else if (previousItem?.posterDetails && previousItem.baseImageUrl) {
+        const refinement = await refinePosterDetails(promptToGenerate, langPref, {
+          previousPrompt: previousItem.originalUserQuery ?? '',
+          previousDetails: previousItem.posterDetails,
+        }, requestFor(firstStep));
+        posterDetails = refinement.details;
+        if (refinement.scope !== 'new') {
+          // Only a text change keeps the old background, and with it the old poster size.
+          // The user's own photo is never swapped for a generated background, so on a photo poster every change is a text change.
+          const keepsBackground = refinement.scope === 'text' || !!previousItem.photoFit;
+          // A new version keeps the layout, fonts and hand-placed text boxes of the poster it refines.
+          versionItem = {
+            ...aiInitialMessage,
+            parentItemId: previousItem.id,
+            version: (previousItem.version ?? 1) + 1,
+            refinementScope: keepsBackground ? 'text' : refinement.scope,
+            layoutId: previousItem.layoutId,
+            fontPairingId: previousItem.fontPairingId,
+            textLayers: previousItem.textLayers,
+            formatId: keepsBackground ? previousItem.formatId : formatId,
+            photoFit: previousItem.photoFit,
+          };
+          if (keepsBackground) reusedBaseImageUrl = previousItem.baseImageUrl;
+        }
+      } else {
+        // Gemini sees the photo too, so the wording suits what is in it.
+        posterDetails = await extractPosterDetailsFromPrompt(promptToGenerate, langPref, requestFor(firstStep), photoChoice ? await photoForPrompt(photoChoice.photo) : undefined);
+      }
+      const nextStep = reusedBaseImageUrl ? 'Keeping your background...' : photoChoice ? 'Fitting your photo to the poster...' : 'Creating background image...';
+      updateSessionItems(activeSessionId, items => items.map(item => item.id === aiResponseId ? {...item, ...versionItem, loadingStep: nextStep } : item));
       
       if (!posterDetails.theme) {
         throw new Error("Could not determine a theme from your prompt. Please try rephrasing more clearly about the visual style.");
       }
       
       const currentActiveSessionForTextTitle = allSessions.find(s => s.id === activeSessionId); 
-      if (currentActiveSessionForTextTitle && (!titleUpdatedBySummarization || currentActiveSessionForTextTitle.title === 'New Chat' || currentActiveSessionForTextTitle.title === (promptToGenerate.substring(0, 40) + (promptToGenerate.length > 40 ? '...' : '')))) {
-        if (posterDetails.englishText) {
-          updateSessionTitle(activeSessionId, posterDetails.englishText.substring(0, 40) + (posterDetails.englishText.length > 40 ? '...' : ''));
-        } else if (posterDetails.teluguText) {
-          updateSessionTitle(activeSessionId, posterDetails.teluguText.substring(0, 40) + (posterDetails.teluguText.length > 40 ? '...' : ''));
+      if (currentActiveSessionForTextTitle && !versionItem.parentItemId && (!titleUpdatedBySummarization || currentActiveSessionForTextTitle.title === 'New Chat' || currentActiveSessionForTextTitle.title === (promptToGenerate.substring(0, 40) + (promptToGenerate.length > 40 ? '...' : '')))) {
+        const headlineText = leadHeadlineText(posterDetails);
+        if (headlineText) {
+          updateSessionTitle(activeSessionId, headlineText.substring(0, 40) + (headlineText.length > 40 ? '...' : ''));
         }
       }
 
-      const backgroundPrompt = `IMPORTANT: Generate a background image ONLY. This image MUST be 100% free of any text, letters, words, numbers, symbols, glyphs, characters, lettering, typography, or writing.
-The image is for a visual backdrop.
-Visual theme inspiration: "${posterDetails.theme}".
-The theme description above is for VISUAL INSPIRATION ONLY. Do NOT render any words from the theme description as text on the image. For example, if the theme is "Mystical Forest", show a mystical forest, DO NOT write "Mystical Forest".
-Image style: High-quality, visually rich, suitable for poster background.
-Composition: Provide ample clear space or negative space suitable for text overlay. The background should complement, not compete with, text that will be added later.
-Aspect ratio: 16:9.
-The final image MUST be PURELY PICTORIAL, containing absolutely NO TEXTUAL ELEMENTS of any kind.
-Focus on: colors, patterns, textures, scenery, abstract visuals. NO TEXT.
-Confirm: NO TEXT.`;
-
-      const baseImageUrl = await generateImageWithGemini(backgroundPrompt);
-      if (!baseImageUrl) {
+      const backgroundPrompt = buildBackgroundPrompt(posterDetails.theme, format, template?.colorNames);
+
+      // The text is generated once above, so variants only differ in their backgrounds. A photo gives a single poster.
+      const baseImageUrls = reusedBaseImageUrl
+        ? [reusedBaseImageUrl]
+        : photoChoice
+        ? [await preparePhotoBackground(photoChoice.photo, format, photoChoice.fit)]
+        : await generateImageWithGemini(backgroundPrompt, { aspectRatio: format.imagenAspectRatio, numberOfImages: numberOfVariants }, requestFor(nextStep));
+      if (baseImageUrls.length === 0) {
         throw new Error("The AI failed to generate a background image. Try simplifying your theme or try again later.");
       }
-      updateSessionItems(activeSessionId, items => items.map(item => item.id === aiResponseId ? {...item, loadingStep: 'Adding text to your poster...' } : item));
+      const overlayStep = baseImageUrls.length > 1 ? `Adding text to ${baseImageUrls.length} variants...` : 'Adding text to your poster...';
+      setLoadingStep(overlayStep);
 
-      const finalImageUrl = await drawImageWithTextOverlay(baseImageUrl, posterDetails.englishText, posterDetails.teluguText);
-      updateSessionItems(activeSessionId, items => items.map(item => item.id === aiResponseId ? {...item, isLoading: false, imageUrl: finalImageUrl, errorText: null } : item));
+      const variants: PosterVariant[] = [];
+      for (const [index, baseImageUrl] of baseImageUrls.entries()) {
+        controller.signal.throwIfAborted();
+        const variantImageUrl = await drawImageWithTextOverlay(renderOptionsForItem(versionItem, posterDetails, baseImageUrl, brandKit));
+        variants.push({ id: `${aiResponseId}-v${index + 1}`, baseImageUrl, imageUrl: variantImageUrl });
+      }
+      const chosenVariant = variants[0];
+      updateSessionItems(activeSessionId, items => items.map(item => item.id === aiResponseId ? {
+        ...item,
+        isLoading: false,
+        imageUrl: chosenVariant.imageUrl,
+        baseImageUrl: chosenVariant.baseImageUrl,
+        variants: variants.length > 1 ? variants : undefined,
+        selectedVariantId: variants.length > 1 ? chosenVariant.id : undefined,
+        posterDetails,
+        errorText: null,
+      } : item));
 
     } catch (err) {
-      console.error('Error in generation process:', err);
-      const errorMessage = (err instanceof Error) ? `Failed to create poster: ${err.message}` : 'An unknown error occurred.';
-      updateSessionItems(activeSessionId, items => items.map(item => item.id === aiResponseId ? {...item, isLoading: false, errorText: errorMessage, imageUrl: null } : item));
+      const generationError = toGenerationError(err);
+      if (generationError.kind === 'cancelled') {
+        console.log('Generation cancelled by the user.');
+      } else {
+        console.error('Error in generation process:', err);
+      }
+      const errorText = generationError.kind === 'unknown' ? `Failed to create poster: ${generationError.message}` : generationError.message;
+      // Put the photo back in the prompt box, so trying again uses it rather than a generated background.
+      if (photoChoice) setAttachedPhoto(current => current ?? photoChoice.photo);
+      updateSessionItems(activeSessionId, items => items.map(item => item.id === aiResponseId ? {
+        ...item,
+        isLoading: false,
+        errorText,
+        errorKind: generationError.kind,
+        retryAt: generationError.retryAt,
+        imageUrl: null,
+      } : item));
     } finally {
+      if (activeGenerationRef.current?.controller === controller) activeGenerationRef.current = null;
       setIsOverallLoading(false);
       setPendingPrompt('');
       setLanguagePreferenceForGeneration(null);
     }
-  }, [drawImageWithTextOverlay, activeSessionId, allSessions, updateSessionTitle, setPromptBarPosition] // Added setPromptBarPosition
+  }, [drawImageWithTextOverlay, activeSessionId, allSessions, updateSessionTitle, setPromptBarPosition, brandKit] // Added setPromptBarPosition
   );
 
 
+  const handleCancelGeneration = useCallback((itemId: string) => {
+    if (activeGenerationRef.current?.itemId === itemId) {
+      activeGenerationRef.current.controller.abort();
+    }
+  }, []);
+
   const handleInitiateGeneration = useCallback(() => {
     if (!userPrompt.trim() || isOverallLoading) {
       return;
     }
     setPendingPrompt(userPrompt);
+    setPendingTemplatePreset(null);
     setShowLanguageModal(true);
   }, [userPrompt, isOverallLoading]);
 
+  // Error card actions. Trying again goes through the language choice like a fresh prompt would.
+  const handleRetryItem = useCallback((item: ConversationItem) => {
+    if (!item.originalUserQuery || isOverallLoading) return;
+    const template = item.templateId ? getPosterTemplate(item.templateId) : undefined;
+    setPendingPrompt(item.originalUserQuery);
+    setPendingTemplatePreset(template ? { templateId: template.id, greetings: templateGreetings(template) } : null);
+    setShowLanguageModal(true);
+  }, [isOverallLoading]);
+
+  // Puts the failed prompt back in the prompt box for editing.
+  const handleRephraseItem = useCallback((item: ConversationItem) => {
+    setUserPrompt(item.originalUserQuery ?? '');
+  }, []);
+
+  const handleUseTemplate = useCallback((templateId: PosterTemplateId, greetings: PosterHeadline[]) => {
+    const template = getPosterTemplate(templateId);
+    if (!template || isOverallLoading) return;
+    setIsTemplateGalleryOpen(false);
+    // The chat shows the greetings in the languages last picked; the modal may still change them.
+    const shownGreetings = greetings.filter(greeting => greeting.text && posterLanguages.includes(greeting.language));
+    setPendingPrompt(`${template.label} poster: ${shownGreetings.map(greeting => greeting.text).join(' / ')}`);
+    setPendingTemplatePreset({ templateId, greetings });
+    setShowLanguageModal(true);
+  }, [isOverallLoading, posterLanguages]);
+
   const handleLanguageSelected = useCallback((selectedPreference: LanguagePreference) => {
     setShowLanguageModal(false);
-    setUserPrompt(''); 
+    setPosterLanguages(selectedPreference);
+    savePosterLanguages(selectedPreference);
+    if (!pendingTemplatePreset) setUserPrompt(''); 
     if (pendingPrompt) {
-      proceedWithGeneration(pendingPrompt, selectedPreference);
+      // Templates bring their own background, so an attached photo waits for the next prompt.
+      const photoChoice = attachedPhoto && !pendingTemplatePreset ? { photo: attachedPhoto, fit: photoFit } : null;
+      proceedWithGeneration(pendingPrompt, selectedPreference, selectedFormatId, variantCount, applyBrandKit, pendingTemplatePreset, photoChoice);
+      setPendingTemplatePreset(null);
+      if (photoChoice) setAttachedPhoto(null);
     } else {
       console.warn("Language selected but no pending prompt found.");
       setIsOverallLoading(false); 
     }
-  }, [pendingPrompt, proceedWithGeneration]);
+  }, [pendingPrompt, pendingTemplatePreset, proceedWithGeneration, selectedFormatId, variantCount, applyBrandKit, attachedPhoto, photoFit]);
 
   const handleCloseLanguageModal = () => {
     setShowLanguageModal(false);
     setPendingPrompt(''); 
+    setPendingTemplatePreset(null);
   };
 
+  const handleSpeechLanguageChange = useCallback((language: LanguageId) => {
+    setSpeechLanguage(language);
+    saveSpeechLanguage(language);
+  }, []);
+
 
-  const handleDownloadImageForItem = (imageUrlToDownload: string | undefined | null, originalUserQuery?: string) => {
-    if (!imageUrlToDownload) return;
+  // Applies a text or layout change to a finished poster, redrawing it and every variant on the same backgrounds.
+  const rerenderItem = async (item: ConversationItem, changes: Pick<ConversationItem, 'posterDetails' | 'layoutId' | 'fontPairingId' | 'brandKitApplied' | 'textLayers'>, errorPrefix: string): Promise<boolean> => {
+    const updatedItem: ConversationItem = { ...item, ...changes };
+    const details = updatedItem.posterDetails;
+    if (!item.baseImageUrl || !details) return false;
+    const sessionId = activeSessionId;
+    setIsRerendering(true);
+    try {
+      const updatedImageUrl = await drawImageWithTextOverlay(renderOptionsForItem(updatedItem, details, item.baseImageUrl, brandKit));
+      let updatedVariants: PosterVariant[] | undefined;
+      if (item.variants) {
+        updatedVariants = [];
+        for (const variant of item.variants) {
+          const variantImageUrl = variant.id === item.selectedVariantId
+            ? updatedImageUrl
+            : await drawImageWithTextOverlay(renderOptionsForItem(updatedItem, details, variant.baseImageUrl, brandKit));
+          updatedVariants.push({ ...variant, imageUrl: variantImageUrl });
+        }
+      }
+      updateSessionItems(sessionId, items => items.map(existing => existing.id === item.id ? { ...existing, ...changes, imageUrl: updatedImageUrl, variants: updatedVariants, errorText: null } : existing));
+      return true;
+    } catch (err) {
+      console.error('Error re-rendering poster:', err);
+      const errorMessage = (err instanceof Error) ? `${errorPrefix}: ${err.message}` : 'An unknown error occurred.';
+      updateSessionItems(sessionId, items => items.map(existing => existing.id === item.id ? { ...existing, errorText: errorMessage } : existing));
+      return false;
+    } finally {
+      setIsRerendering(false);
+    }
+  };
+
+  const handleApplyTextEdit = async (item: ConversationItem, text: PosterText) => {
+    if (!item.posterDetails) return;
+    const updatedDetails: PosterDetails = { ...item.posterDetails, ...text };
+    if (await rerenderItem(item, { posterDetails: updatedDetails }, 'Failed to update poster text')) {
+      setEditingItemId(null);
+    }
+  };
+
+  // Picking a layout places all the text afresh, so boxes placed by hand are let go.
+  const handleChangeLayout = (item: ConversationItem, layoutId: LayoutTemplateId) => {
+    rerenderItem(item, { layoutId, textLayers: undefined }, 'Failed to apply the layout');
+  };
+
+  const handleSaveTextLayers = async (item: ConversationItem, textLayers: TextLayerOverrides | undefined) => {
+    if (await rerenderItem(item, { textLayers }, 'Failed to apply the layout changes')) {
+      setLayoutEditingItemId(null);
+    }
+  };
+
+  const handleChangeFontPairing = (item: ConversationItem, fontPairingId: FontPairingId) => {
+    rerenderItem(item, { fontPairingId }, 'Failed to apply the fonts');
+  };
+
+  const handleToggleBrandKitForItem = (item: ConversationItem) => {
+    rerenderItem(item, { brandKitApplied: !item.brandKitApplied }, 'Failed to update the brand kit');
+  };
+
+  // Saving throws when localStorage is full; the panel reports that and stays open.
+  const handleSaveBrandKit = (updatedKit: BrandKit) => {
+    if (isBrandKitEmpty(updatedKit)) {
+      clearBrandKit();
+      setBrandKit(null);
+    } else {
+      saveBrandKit(updatedKit);
+      setBrandKit(updatedKit);
+      setApplyBrandKit(true);
+    }
+    setIsBrandKitPanelOpen(false);
+  };
+
+  const handleClearBrandKit = () => {
+    clearBrandKit();
+    setBrandKit(null);
+    setIsBrandKitPanelOpen(false);
+  };
+
+  const handleSaveUsageBudgets = (budgets: UsageBudgets) => {
+    saveUsageBudgets(budgets);
+    setUsageBudgets(budgets);
+  };
+
+  const sessionUsage = useMemo(() => usageBySession(usageRecords), [usageRecords]);
+  const todayCostUsd = totalUsage(usageSince(usageRecords, startOfDay(Date.now()))).costUsd;
+
+  // The pending generation's likely cost, checked against the soft budgets while the language is being picked.
+  // A follow-up may turn out to reuse the background, so this errs on the side of warning.
+  const pendingBudgetWarnings = useMemo(() => {
+    if (!showLanguageModal || (usageBudgets.dailyUsd === null && usageBudgets.sessionUsd === null)) return [];
+    const session = allSessions.find(s => s.id === activeSessionId);
+    const hasPreviousPoster = session?.items.some(item => item.type === 'aiResponse' && !item.isLoading && item.baseImageUrl && item.posterDetails) ?? false;
+    // An attached photo replaces the generated background and always starts a new poster.
+    const usesPhoto = attachedPhoto !== null && !pendingTemplatePreset;
+    const plan: GenerationPlan = pendingTemplatePreset
+      ? { operations: [], images: variantCount }
+      : {
+          operations: [...(session?.title === 'New Chat' ? ['title' as const] : []), hasPreviousPoster && !usesPhoto ? 'refinement' : 'posterDetails'],
+          images: usesPhoto ? 0 : variantCount,
+        };
+    const estimatedCostUsd = estimateGenerationCostUsd(usageRecords, plan, getActiveProviderId());
+    return findBudgetWarnings(usageRecords, usageBudgets, activeSessionId, estimatedCostUsd);
+  }, [showLanguageModal, usageBudgets, allSessions, activeSessionId, pendingTemplatePreset, variantCount, usageRecords, attachedPhoto]);
+
+  const handleSelectVariant = (itemId: string, variantId: string) => {
+    updateSessionItems(activeSessionId, items => items.map(item => {
+      if (item.id !== itemId) return item;
+      const variant = item.variants?.find(v => v.id === variantId);
+      if (!variant) return item;
+      return { ...item, selectedVariantId: variant.id, imageUrl: variant.imageUrl, baseImageUrl: variant.baseImageUrl };
+    }));
+  };
+
+  const handleDownloadAllVariants = (item: ConversationItem) => {
+    const baseName = posterFileBaseName(item.originalUserQuery);
+    // Browsers drop downloads fired in the same tick, so they are spaced out slightly.
+    item.variants?.forEach((variant, index) => {
+      setTimeout(() => handleDownloadImageForItem(variant.imageUrl, item.originalUserQuery, `${baseName}_${index + 1}.png`), index * 300);
+    });
+  };
+
+  const handleDownloadImageForItem = (imageUrlToDownload: string | undefined | null, originalUserQuery?: string, fileName?: string) => {
+    // Anything else could navigate the page instead of saving an image.
+    if (!isImageUrl(imageUrlToDownload)) return;
     const link = document.createElement('a');
     link.href = imageUrlToDownload;
-    const promptStart = originalUserQuery ? originalUserQuery.substring(0, 30).replace(/[^a-z0-9]/gi, '_').toLowerCase() : 'ai_poster';
-    link.download = `${promptStart}_poster.png`;
+    link.download = fileName ?? `${posterFileBaseName(originalUserQuery)}.png`;
     document.body.appendChild(link);
     link.click();
     document.body.removeChild(link);
@@ -445,7 +699,7 @@ Confirm: NO TEXT.`;
       items: [],
       createdAt: Date.now(),
     };
-    setAllSessions(prev => [newSession, ...prev].sort((a,b) => b.createdAt - a.createdAt));
+    setAllSessions(prev => [newSession, ...prev]);
     setActiveSessionId(newId);
     setUserPrompt('');
     setIsOverallLoading(false);
@@ -465,6 +719,7 @@ Confirm: NO TEXT.`;
   };
 
   const handleDeleteSession = (sessionIdToDelete: string) => {
+    deleteSession(sessionIdToDelete).catch(error => console.error('Error deleting stored session:', error));
     const remainingSessions = allSessions.filter(s => s.id !== sessionIdToDelete);
 
     if (remainingSessions.length === 0) {
@@ -478,15 +733,82 @@ Confirm: NO TEXT.`;
       setAllSessions([newDefaultSession]);
       setActiveSessionId(newDefaultSessionId);
     } else {
-      setAllSessions(remainingSessions.sort((a,b) => b.createdAt - a.createdAt));
+      setAllSessions(remainingSessions);
       if (activeSessionId === sessionIdToDelete) {
-        setActiveSessionId(remainingSessions[0].id); 
+        setActiveSessionId(sortSessions(remainingSessions, sessionSortOrder)[0].id);
       }
     }
     setUserPrompt('');
     setIsOverallLoading(false);
   };
 
+  const handleRenameSession = (sessionId: string, title: string) => {
+    if (title.trim() !== '') updateSessionTitle(sessionId, title.trim());
+  };
+
+  // Pinning and filing only change where a chat is listed, so they leave "last modified" alone.
+  const updateSession = (sessionId: string, changes: Pick<ConversationSession, 'pinned' | 'folderId'>) => {
+    setAllSessions(prev => prev.map(session => session.id === sessionId ? { ...session, ...changes } : session));
+  };
+
+  const handleTogglePinSession = (sessionId: string) => {
+    const session = allSessions.find(s => s.id === sessionId);
+    if (session) updateSession(sessionId, { pinned: !session.pinned });
+  };
+
+  const handleMoveSessionToFolder = (sessionId: string, folderId: string | null) => {
+    updateSession(sessionId, { folderId: folderId ?? undefined });
+  };
+
+  const updateSessionFolders = (folders: SessionFolder[]) => {
+    setSessionFolders(folders);
+    saveSessionFolders(folders);
+  };
+
+  const handleCreateFolder = (name: string): string => {
+    const folder: SessionFolder = { id: `folder-${Date.now()}`, name };
+    updateSessionFolders([...sessionFolders, folder]);
+    return folder.id;
+  };
+
+  const handleRenameFolder = (folderId: string, name: string) => {
+    if (name.trim() === '') return;
+    updateSessionFolders(sessionFolders.map(folder => folder.id === folderId ? { ...folder, name: name.trim() } : folder));
+  };
+
+  // The chats in a deleted folder are kept and go back to the main list.
+  const handleDeleteFolder = (folderId: string) => {
+    updateSessionFolders(sessionFolders.filter(folder => folder.id !== folderId));
+    setAllSessions(prev => prev.map(session => session.folderId === folderId ? { ...session, folderId: undefined } : session));
+  };
+
+  const handleSortOrderChange = (order: SessionSortOrder) => {
+    setSessionSortOrder(order);
+    saveSessionSortOrder(order);
+  };
+
+  const handleOpenSessionTransfer = (sessionId: string) => {
+    setTransferSessionId(sessionId);
+    setIsSessionTransferOpen(true);
+  };
+
+  // Imported chats join the list and the first of them is opened.
+  const handleImportSessions = (importedSessions: ConversationSession[]): SessionImportResult => {
+    const result = mergeImportedSessions(allSessions, importedSessions);
+    const added = result.sessions.filter(session => result.importedIds.includes(session.id));
+    // Appended to the latest list, so a generation running meanwhile keeps its updates.
+    setAllSessions(prev => [...prev, ...added]);
+    if (result.importedIds.length > 0 && !isOverallLoading) {
+      setActiveSessionId(result.importedIds[0]);
+      setUserPrompt('');
+    }
+    return result;
+  };
+
+  const scrollToItem = (itemId: string) => {
+    document.getElementById(`ai-response-${itemId}`)?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+  };
+
   const toggleSidebar = () => {
     setIsSidebarCollapsed(prev => !prev);
   };
@@ -499,8 +821,25 @@ Confirm: NO TEXT.`;
         onNewSession={handleNewSession}
         onSelectSession={handleSelectSession}
         onDeleteSession={handleDeleteSession}
+        onExportSession={handleOpenSessionTransfer}
+        onRenameSession={handleRenameSession}
+        onTogglePinSession={handleTogglePinSession}
+        onMoveSessionToFolder={handleMoveSessionToFolder}
+        folders={sessionFolders}
+        onCreateFolder={handleCreateFolder}
+        onRenameFolder={handleRenameFolder}
+        onDeleteFolder={handleDeleteFolder}
+        sortOrder={sessionSortOrder}
+        onSortOrderChange={handleSortOrderChange}
+        onOpenSessionTransfer={() => handleOpenSessionTransfer(activeSessionId)}
         isCollapsed={isSidebarCollapsed}
         onToggleCollapse={toggleSidebar}
+        isLoadingHistory={!isHydrated}
+        onOpenBrandKit={() => setIsBrandKitPanelOpen(true)}
+        hasBrandKit={brandKit !== null}
+        sessionUsage={sessionUsage}
+        todayCostUsd={todayCostUsd}
+        onOpenUsage={() => setIsUsagePanelOpen(true)}
       />
       <div className="flex-grow flex flex-col overflow-hidden">
         {promptBarPosition === 'middle' ? (
@@ -510,18 +849,84 @@ Confirm: NO TEXT.`;
               {currentConversationItems.length === 0 && !isOverallLoading && (
                  <div className="mt-4 sm:mt-8 text-center text-gray-500 bg-white/80 p-4 sm:p-6 rounded-xl shadow-lg">
                   <p className="text-base sm:text-lg">Welcome to the AI Poster Generator!</p>
-                  <p className="mt-2 text-sm sm:text-base">Describe your poster idea, then choose your language preference to get started.</p>
+                  <p className="mt-2 text-sm sm:text-base">Describe your poster idea, then choose your language preference to get started. Follow-up messages change the latest poster.</p>
                   <p className="mt-2 text-xs sm:text-sm">Example: "Happy Ugadi from Hemanth with 'Happy Ugadi' and 'ఉగాది శుభాకాంక్షలు'"</p>
+                  {upcomingFestivals.length > 0 && (
+                    <div className="mt-4 flex flex-wrap justify-center gap-2">
+                      {upcomingFestivals.map(({ template, daysUntil }) => (
+                        <button
+                          key={template.id}
+                          type="button"
+                          onClick={() => handleUseTemplate(template.id, templateGreetings(template))}
+                          disabled={!isHydrated}
+                          className="px-3 py-1.5 rounded-full text-xs sm:text-sm font-medium border border-amber-400 bg-amber-50 text-amber-900 hover:bg-amber-100 focus:outline-none focus:ring-2 focus:ring-purple-500"
+                        >
+                          {template.label} <span className="telugu-text-display">{template.teluguLabel}</span> · {describeDaysUntil(daysUntil)}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                  <button
+                    type="button"
+                    onClick={() => setIsTemplateGalleryOpen(true)}
+                    className="mt-3 text-sm font-semibold text-purple-700 hover:underline focus:outline-none focus:ring-2 focus:ring-purple-500 rounded"
+                  >
+                    Browse festival &amp; occasion templates
+                  </button>
                 </div>
               )}
             </div>
             <div className="flex-grow flex items-center justify-center w-full px-3 sm:px-4 md:px-6 pb-4 md:pb-8"> {/* Vertically centers PromptInput in remaining space */}
-              <div className="max-w-3xl w-full bg-white/90 backdrop-blur-md p-3 sm:p-4 md:p-6 rounded-xl shadow-xl">
+              <div className="max-w-3xl w-full bg-white/90 backdrop-blur-md p-3 sm:p-4 md:p-6 rounded-xl shadow-xl space-y-3">
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <FormatPicker
+                    selectedFormatId={selectedFormatId}
+                    onSelectFormat={setSelectedFormatId}
+                    disabled={isOverallLoading}
+                  />
+                  <div className="flex flex-wrap items-center gap-3">
+                    <button
+                      type="button"
+                      onClick={() => setIsTemplateGalleryOpen(true)}
+                      disabled={isOverallLoading}
+                      className={`text-xs sm:text-sm text-purple-700 hover:underline focus:outline-none focus:ring-2 focus:ring-purple-500 rounded ${isOverallLoading ? 'opacity-60 cursor-not-allowed' : ''}`}
+                    >
+                      Templates
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setIsBatchPanelOpen(true)}
+                      disabled={isOverallLoading}
+                      title="One poster per row of a CSV or pasted table"
+                      className={`text-xs sm:text-sm text-purple-700 hover:underline focus:outline-none focus:ring-2 focus:ring-purple-500 rounded ${isOverallLoading ? 'opacity-60 cursor-not-allowed' : ''}`}
+                    >
+                      Batch
+                    </button>
+                    <BrandKitToggle
+                      hasBrandKit={brandKit !== null}
+                      isOn={applyBrandKit}
+                      onToggle={() => setApplyBrandKit(prev => !prev)}
+                      onOpenSettings={() => setIsBrandKitPanelOpen(true)}
+                      disabled={isOverallLoading}
+                    />
+                    <VariantCountPicker
+                      variantCount={variantCount}
+                      onChangeVariantCount={setVariantCount}
+                      disabled={isOverallLoading}
+                    />
+                  </div>
+                </div>
                 <PromptInput
                   userPrompt={userPrompt}
                   setUserPrompt={setUserPrompt}
                   onSubmit={handleInitiateGeneration}
-                  isLoading={isOverallLoading || showLanguageModal}
+                  isLoading={isOverallLoading || showLanguageModal || !isHydrated}
+                  attachedPhoto={attachedPhoto}
+                  onPhotoChange={setAttachedPhoto}
+                  photoFit={photoFit}
+                  onPhotoFitChange={setPhotoFit}
+                  speechLanguage={speechLanguage}
+                  onSpeechLanguageChange={handleSpeechLanguageChange}
                 />
               </div>
             </div>
@@ -531,7 +936,10 @@ Confirm: NO TEXT.`;
             <main className="flex-grow overflow-y-auto p-3 sm:p-4 md:p-6 space-y-4 sm:space-y-6 custom-scrollbar">
               <div className="max-w-3xl mx-auto w-full">
                 <Header />
-                {currentConversationItems.map((item) => (
+                {currentConversationItems.map((item) => {
+                  const parentItem = item.parentItemId ? currentConversationItems.find(other => other.id === item.parentItemId) : undefined;
+                  const hasNewerVersion = currentConversationItems.some(other => other.parentItemId === item.id);
+                  return (
                   <React.Fragment key={item.id}>
                     {item.type === 'userPrompt' && item.promptText && (
                       <div id={`user-prompt-${item.id}`} className="p-3 sm:p-4 bg-indigo-500 text-white rounded-xl shadow-md ml-auto max-w-[85%] sm:max-w-[80%] md:max-w-[70%] clear-both float-right my-2 sm:my-3">
@@ -541,8 +949,30 @@ Confirm: NO TEXT.`;
                     )}
                     {item.type === 'aiResponse' && (
                       <div id={`ai-response-${item.id}`} className="p-3 sm:p-4 bg-white rounded-xl shadow-2xl my-2 sm:my-3 max-w-full sm:max-w-[95%] md:max-w-[85%] clear-both float-left transform transition-all hover:scale-[1.01] duration-300">
-                        {item.isLoading && <LoadingSpinner message={item.loadingStep || 'Generating...'} />}
-                        {item.errorText && <ErrorMessage message={item.errorText} />}
+                        {(item.parentItemId || hasNewerVersion) && (
+                          <PosterVersionBadge
+                            version={item.version ?? 1}
+                            refinementScope={item.refinementScope}
+                            parentVersion={parentItem ? parentItem.version ?? 1 : undefined}
+                            onShowParent={parentItem ? () => scrollToItem(parentItem.id) : undefined}
+                          />
+                        )}
+                        {item.isLoading && (
+                          <LoadingSpinner
+                            message={item.loadingStep || 'Generating...'}
+                            onCancel={() => handleCancelGeneration(item.id)}
+                          />
+                        )}
+                        {item.errorText && (
+                          // A poster that is already drawn only failed a re-render, which has nothing to retry.
+                          <ErrorMessage
+                            message={item.errorText}
+                            kind={item.imageUrl ? undefined : item.errorKind ?? 'unknown'}
+                            retryAt={item.retryAt}
+                            onRetry={isOverallLoading ? undefined : () => handleRetryItem(item)}
+                            onRephrase={() => handleRephraseItem(item)}
+                          />
+                        )}
                         {item.imageUrl && !item.isLoading && (
                           <>
                             <ImageDisplay
@@ -563,7 +993,34 @@ Confirm: NO TEXT.`;
                                 }
                               }}
                             />
-                            <div className="mt-3 sm:mt-4 text-center">
+                            <div className="mt-3 sm:mt-4 flex flex-wrap justify-center gap-2 sm:gap-3">
+                              {item.baseImageUrl && item.posterDetails && (
+                                <button
+                                  onClick={() => setEditingItemId(prev => (prev === item.id ? null : item.id))}
+                                  disabled={isRerendering}
+                                  className="px-4 py-2 sm:px-6 sm:py-3 border border-purple-300 text-sm sm:text-base font-medium rounded-lg shadow-md text-purple-700 bg-white hover:bg-purple-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-purple-500 transition-all duration-300 ease-in-out transform hover:scale-105 active:scale-95"
+                                  aria-label="Edit the text on this poster"
+                                  aria-expanded={editingItemId === item.id}
+                                >
+                                  <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 sm:h-5 sm:w-5 inline-block mr-1 sm:mr-2 -mt-0.5 sm:-mt-1" viewBox="0 0 20 20" fill="currentColor">
+                                    <path d="M13.586 3.586a2 2 0 112.828 2.828l-.793.793-2.828-2.828.793-.793zM11.379 5.793L3 14.172V17h2.828l8.38-8.379-2.83-2.828z" />
+                                  </svg>
+                                  Edit text
+                                </button>
+                              )}
+                              {item.baseImageUrl && item.posterDetails && (
+                                <button
+                                  onClick={() => setLayoutEditingItemId(item.id)}
+                                  disabled={isRerendering}
+                                  className="px-4 py-2 sm:px-6 sm:py-3 border border-purple-300 text-sm sm:text-base font-medium rounded-lg shadow-md text-purple-700 bg-white hover:bg-purple-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-purple-500 transition-all duration-300 ease-in-out transform hover:scale-105 active:scale-95"
+                                  aria-label="Move and restyle the text boxes on this poster"
+                                >
+                                  <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 sm:h-5 sm:w-5 inline-block mr-1 sm:mr-2 -mt-0.5 sm:-mt-1" viewBox="0 0 20 20" fill="currentColor">
+                                    <path d="M5 3a2 2 0 00-2 2v2a2 2 0 002 2h2a2 2 0 002-2V5a2 2 0 00-2-2H5zM5 11a2 2 0 00-2 2v2a2 2 0 002 2h2a2 2 0 002-2v-2a2 2 0 00-2-2H5zM11 5a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2h-2a2 2 0 01-2-2V5zM11 13a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2h-2a2 2 0 01-2-2v-2z" />
+                                  </svg>
+                                  Edit layout
+                                </button>
+                              )}
                               <button
                                 onClick={() => handleDownloadImageForItem(item.imageUrl, item.originalUserQuery)}
                                 className="px-4 py-2 sm:px-6 sm:py-3 border border-transparent text-sm sm:text-base font-medium rounded-lg shadow-md text-white bg-green-600 hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500 transition-all duration-300 ease-in-out transform hover:scale-105 active:scale-95"
@@ -574,23 +1031,120 @@ Confirm: NO TEXT.`;
                                 </svg>
                                 Download Poster
                               </button>
+                              {item.baseImageUrl && item.posterDetails && (
+                                <button
+                                  onClick={() => setExportingItemId(item.id)}
+                                  disabled={isRerendering}
+                                  className="px-4 py-2 sm:px-6 sm:py-3 border border-green-300 text-sm sm:text-base font-medium rounded-lg shadow-md text-green-700 bg-white hover:bg-green-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500 transition-all duration-300 ease-in-out transform hover:scale-105 active:scale-95"
+                                  aria-label="Export this poster as PDF, JPEG, WebP or SVG"
+                                >
+                                  Export...
+                                </button>
+                              )}
                             </div>
+                            {item.baseImageUrl && item.posterDetails && brandKit && (
+                              <div className="mt-3 flex justify-center">
+                                <BrandKitToggle
+                                  hasBrandKit
+                                  isOn={!!item.brandKitApplied}
+                                  onToggle={() => handleToggleBrandKitForItem(item)}
+                                  onOpenSettings={() => setIsBrandKitPanelOpen(true)}
+                                  disabled={isRerendering}
+                                />
+                              </div>
+                            )}
+                            {item.baseImageUrl && item.posterDetails && (
+                              <LayoutPicker
+                                selectedLayoutId={item.layoutId}
+                                onSelectLayout={(layoutId) => handleChangeLayout(item, layoutId)}
+                                disabled={isRerendering}
+                              />
+                            )}
+                            {item.baseImageUrl && item.posterDetails && (
+                              <FontPairingPicker
+                                selectedPairingId={item.fontPairingId}
+                                onSelectPairing={(fontPairingId) => handleChangeFontPairing(item, fontPairingId)}
+                                disabled={isRerendering}
+                              />
+                            )}
+                            {item.variants && item.variants.length > 1 && (
+                              <VariantGrid
+                                variants={item.variants}
+                                selectedVariantId={item.selectedVariantId}
+                                onSelectVariant={(variantId) => handleSelectVariant(item.id, variantId)}
+                                onDownloadAll={() => handleDownloadAllVariants(item)}
+                                disabled={isRerendering}
+                              />
+                            )}
+                            {editingItemId === item.id && item.posterDetails && (
+                              <PosterTextEditor
+                                initialText={item.posterDetails}
+                                onApply={text => handleApplyTextEdit(item, text)}
+                                onCancel={() => setEditingItemId(null)}
+                                isApplying={isRerendering}
+                              />
+                            )}
                           </>
                         )}
                       </div>
                     )}
                   </React.Fragment>
-                ))}
+                  );
+                })}
                 <div ref={conversationEndRef} style={{ height: '1px' }} />
               </div>
             </main>
             <div className="bg-white/90 backdrop-blur-md p-3 sm:p-4 md:p-6 border-t border-gray-200 shadow-top">
-              <div className="max-w-3xl mx-auto">
+              <div className="max-w-3xl mx-auto space-y-3">
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <FormatPicker
+                    selectedFormatId={selectedFormatId}
+                    onSelectFormat={setSelectedFormatId}
+                    disabled={isOverallLoading}
+                  />
+                  <div className="flex flex-wrap items-center gap-3">
+                    <button
+                      type="button"
+                      onClick={() => setIsTemplateGalleryOpen(true)}
+                      disabled={isOverallLoading}
+                      className={`text-xs sm:text-sm text-purple-700 hover:underline focus:outline-none focus:ring-2 focus:ring-purple-500 rounded ${isOverallLoading ? 'opacity-60 cursor-not-allowed' : ''}`}
+                    >
+                      Templates
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setIsBatchPanelOpen(true)}
+                      disabled={isOverallLoading}
+                      title="One poster per row of a CSV or pasted table"
+                      className={`text-xs sm:text-sm text-purple-700 hover:underline focus:outline-none focus:ring-2 focus:ring-purple-500 rounded ${isOverallLoading ? 'opacity-60 cursor-not-allowed' : ''}`}
+                    >
+                      Batch
+                    </button>
+                    <BrandKitToggle
+                      hasBrandKit={brandKit !== null}
+                      isOn={applyBrandKit}
+                      onToggle={() => setApplyBrandKit(prev => !prev)}
+                      onOpenSettings={() => setIsBrandKitPanelOpen(true)}
+                      disabled={isOverallLoading}
+                    />
+                    <VariantCountPicker
+                      variantCount={variantCount}
+                      onChangeVariantCount={setVariantCount}
+                      disabled={isOverallLoading}
+                    />
+                  </div>
+                </div>
                 <PromptInput
                   userPrompt={userPrompt}
                   setUserPrompt={setUserPrompt}
                   onSubmit={handleInitiateGeneration}
-                  isLoading={isOverallLoading || showLanguageModal} 
+                  isLoading={isOverallLoading || showLanguageModal || !isHydrated}
+                  attachedPhoto={attachedPhoto}
+                  onPhotoChange={setAttachedPhoto}
+                  photoFit={photoFit}
+                  onPhotoFitChange={setPhotoFit}
+                  speechLanguage={speechLanguage}
+                  onSpeechLanguageChange={handleSpeechLanguageChange}
                 />
               </div>
             </div>
@@ -602,6 +1156,60 @@ Confirm: NO TEXT.`;
         isOpen={showLanguageModal}
         onClose={handleCloseLanguageModal}
         onSelectLanguage={handleLanguageSelected}
+        initialLanguages={posterLanguages}
+        budgetWarnings={pendingBudgetWarnings}
+      />
+      <PosterLayoutEditor
+        isOpen={layoutEditingItem !== undefined}
+        onClose={() => setLayoutEditingItemId(null)}
+        renderOptions={layoutEditingOptions}
+        onSave={(textLayers) => layoutEditingItem && handleSaveTextLayers(layoutEditingItem, textLayers)}
+        isSaving={isRerendering}
+      />
+      <ExportDialog
+        isOpen={exportingItem !== undefined}
+        onClose={() => setExportingItemId(null)}
+        renderOptions={exportingItem?.baseImageUrl && exportingItem.posterDetails
+          ? renderOptionsForItem(exportingItem, exportingItem.posterDetails, exportingItem.baseImageUrl, brandKit)
+          : null}
+        fileBaseName={posterFileBaseName(exportingItem?.originalUserQuery)}
+        title={(exportingItem?.posterDetails && leadHeadlineText(exportingItem.posterDetails)) || exportingItem?.originalUserQuery}
+      />
+      <TemplateGallery
+        isOpen={isTemplateGalleryOpen}
+        onClose={() => setIsTemplateGalleryOpen(false)}
+        onUseTemplate={handleUseTemplate}
+      />
+      <BatchPanel
+        isOpen={isBatchPanelOpen}
+        onClose={() => setIsBatchPanelOpen(false)}
+        formatId={selectedFormatId}
+        brandKit={applyBrandKit ? brandKit : null}
+        languages={posterLanguages}
+      />
+      <BrandKitPanel
+        isOpen={isBrandKitPanelOpen}
+        brandKit={brandKit}
+        onClose={() => setIsBrandKitPanelOpen(false)}
+        onSave={handleSaveBrandKit}
+        onClear={handleClearBrandKit}
+      />
+      <SessionTransferDialog
+        isOpen={isSessionTransferOpen}
+        onClose={() => setIsSessionTransferOpen(false)}
+        sessions={allSessions}
+        selectedSessionId={transferSessionId}
+        onImportSessions={handleImportSessions}
+      />
+      <UsagePanel
+        isOpen={isUsagePanelOpen}
+        onClose={() => setIsUsagePanelOpen(false)}
+        records={usageRecords}
+        sessions={allSessions}
+        activeSessionId={activeSessionId}
+        budgets={usageBudgets}
+        onSaveBudgets={handleSaveUsageBudgets}
+        onClearHistory={clearUsageRecords}
       />
     </div>
   );
@@ -0,0 +1,506 @@
+
+import React, { useRef, useState } from 'react';
+import { extractPosterDetailsFromPrompt, generateImageWithGemini, getActiveProviderId, type RequestOptions } from '../services/geminiService';
+import {
+  batchFileName,
+  batchRowText,
+  buildBatchZip,
+  MAX_BATCH_ROWS,
+  renderBatch,
+  type BatchRenderSettings,
+  type BatchRowResult,
+} from '../services/batchGeneration';
+import { downloadBlob } from '../services/posterExport';
+import type { BrandKit } from '../services/brandKitStorage';
+import { getUsageRecords, loadUsageBudgets } from '../services/usageLog';
+import { parseTable, type ParsedTable } from '../utils/csv';
+import { fillPlaceholders, findPlaceholders, findUnknownPlaceholders } from '../utils/placeholders';
+import { buildBackgroundPrompt } from '../utils/backgroundPrompt';
+import { getPosterFormat, type PosterFormatId } from '../utils/posterFormats';
+import { NEW_POSTER_LAYOUT_TEMPLATE_ID } from '../utils/layoutTemplates';
+import { isAbortError } from '../utils/retry';
+import { estimateGenerationCostUsd, findBudgetWarnings } from '../utils/usageSummary';
+import { EMPTY_SECONDARY_TEXT, secondaryTextOf, textLinesOf, type PosterSecondaryText, type PosterText } from '../utils/posterContent';
+import { describeLanguages } from '../utils/languages';
+import type { LanguagePreference, PosterHeadline } from '../App'; // Import type
+import { HeadlineFields } from './HeadlineFields';
+import { SecondaryTextFields } from './SecondaryTextFields';
+
+interface BatchPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  formatId: PosterFormatId;
+  brandKit: BrandKit | null; // Null when the brand kit is switched off
+  languages: LanguagePreference; // The languages last picked for a poster
+}
+
+type BatchStep = 'setup' | 'text' | 'run';
+
+const MAX_BACKGROUNDS = 4;
+
+const EXAMPLE_PROMPT = "Birthday poster with 'Happy Birthday {{name}}' and 'పుట్టినరోజు శుభాకాంక్షలు {{name}} గారు', from the staff on {{date}}";
+
+const STATUS_STYLES: Record<BatchRowResult['status'], { label: string; className: string }> = {
+  pending: { label: 'Waiting', className: 'bg-gray-100 text-gray-600' },
+  rendering: { label: 'Drawing...', className: 'bg-purple-100 text-purple-700 animate-pulse' },
+  done: { label: 'Done', className: 'bg-green-100 text-green-700' },
+  failed: { label: 'Failed', className: 'bg-red-100 text-red-700' },
+};
+
+const chipClass = (isSelected: boolean) =>
+  `px-3 py-1 rounded-full text-xs sm:text-sm font-medium border transition-all duration-200 focus:outline-none focus:ring-2 focus:ring-purple-500
+   ${isSelected ? 'bg-purple-600 border-purple-600 text-white shadow-md' : 'bg-white border-gray-300 text-gray-700 hover:border-purple-400 hover:text-purple-700'}`;
+
+const inputClass = 'mt-1 w-full p-2 border border-gray-300 rounded-lg font-normal focus:ring-2 focus:ring-purple-500 focus:border-purple-500';
+
+// Makes one poster per table row: the prompt is read once, one to four backgrounds are generated,
+// and every row's text is drawn locally before the lot is downloaded as a ZIP.
+export const BatchPanel: React.FC<BatchPanelProps> = ({ isOpen, onClose, formatId, brandKit, languages }) => {
+  const [step, setStep] = useState<BatchStep>('setup');
+  const [tableText, setTableText] = useState('');
+  const [table, setTable] = useState<ParsedTable | null>(null);
+  const [promptTemplate, setPromptTemplate] = useState('');
+  const [backgroundCount, setBackgroundCount] = useState(1);
+  const [theme, setTheme] = useState('');
+  const [headlineTemplates, setHeadlineTemplates] = useState<PosterHeadline[]>([]);
+  const [secondaryTemplate, setSecondaryTemplate] = useState<PosterSecondaryText>(EMPTY_SECONDARY_TEXT);
+  const [backgroundUrls, setBackgroundUrls] = useState<string[]>([]);
+  const [results, setResults] = useState<BatchRowResult[]>([]);
+  const [busyText, setBusyText] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const stopRequestedRef = useRef(false);
+  const requestControllerRef = useRef<AbortController | null>(null); // The AI call in flight, if any
+
+  if (!isOpen) {
+    return null;
+  }
+
+  const rows = table?.rows ?? [];
+  const headers = table?.headers ?? [];
+  const textTemplate: PosterText = { headlines: headlineTemplates, ...secondaryTemplate };
+  const placeholders = findPlaceholders(...textLinesOf(textTemplate));
+  const unknownPlaceholders = findUnknownPlaceholders(placeholders, headers);
+  const isBusy = busyText !== null;
+  const isRendering = results.some(result => result.status === 'rendering' || result.status === 'pending') && isBusy;
+  const doneCount = results.filter(result => result.status === 'done').length;
+  const failedCount = results.filter(result => result.status === 'failed').length;
+
+  // Starts an AI call that Cancel or closing the panel can abort; retries show up in the busy text.
+  const startRequest = (text: string): RequestOptions => {
+    const controller = new AbortController();
+    requestControllerRef.current = controller;
+    setBusyText(text);
+    return {
+      signal: controller.signal,
+      onAttempt: (attempt, maxAttempts) => {
+        if (attempt > 1) setBusyText(`${text} (attempt ${attempt} of ${maxAttempts})`);
+      },
+    };
+  };
+
+  const handleCancelRequest = () => {
+    requestControllerRef.current?.abort();
+  };
+
+  const handleTableTextChange = (text: string) => {
+    setTableText(text);
+    setTable(text.trim() ? parseTable(text) : null);
+    setError(null);
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ''; // Allow picking the same file again after editing it
+    if (!file) return;
+    try {
+      handleTableTextChange(await file.text());
+    } catch (err) {
+      console.error('Batch: Failed to read the table file:', err);
+      setError('Could not read that file. Please save it as CSV and try again.');
+    }
+  };
+
+  const handleReadPrompt = async () => {
+    if (rows.length === 0) {
+      setError('Add a table with a header row and at least one row of names.');
+      return;
+    }
+    if (rows.length > MAX_BATCH_ROWS) {
+      setError(`A batch can have up to ${MAX_BATCH_ROWS} rows; this table has ${rows.length}.`);
+      return;
+    }
+    if (!promptTemplate.trim()) {
+      setError('Describe the poster, using {{column}} wherever a row value should go.');
+      return;
+    }
+    setError(null);
+    const request = startRequest('Reading your prompt...');
+    try {
+      const details = await extractPosterDetailsFromPrompt(promptTemplate, languages, request);
+      setTheme(details.theme);
+      setHeadlineTemplates(details.headlines);
+      setSecondaryTemplate(secondaryTextOf(details));
+      setStep('text');
+    } catch (err) {
+      if (isAbortError(err)) return;
+      console.error('Batch: Failed to read the prompt:', err);
+      setError(err instanceof Error ? err.message : 'Could not read the prompt.');
+    } finally {
+      requestControllerRef.current = null;
+      setBusyText(null);
+    }
+  };
+
+  const runRows = async (rowIndexes: number[], urls: string[]) => {
+    const settings: BatchRenderSettings = {
+      textTemplate,
+      backgroundUrls: urls,
+      renderOptions: { formatId, layoutId: NEW_POSTER_LAYOUT_TEMPLATE_ID, brandKit },
+    };
+    stopRequestedRef.current = false;
+    setBusyText('Drawing posters...');
+    // A separate canvas keeps the batch from disturbing the one the chat renders with.
+    const canvas = document.createElement('canvas');
+    try {
+      await renderBatch(canvas, rows, rowIndexes, settings,
+        (rowIndex, result) => setResults(prev => prev.map((existing, index) => index === rowIndex ? result : existing)),
+        () => stopRequestedRef.current);
+    } catch (err) {
+      console.error('Batch: Rendering stopped:', err);
+      setError(err instanceof Error ? err.message : 'Drawing the posters failed.');
+    } finally {
+      // Rows skipped by Stop go back to waiting, so "Retry" picks them up.
+      setResults(prev => prev.map(result => result.status === 'rendering' ? { status: 'pending' } : result));
+      canvas.width = 0;
+      canvas.height = 0;
+      setBusyText(null);
+    }
+  };
+
+  const handleGenerate = async () => {
+    if (headlineTemplates.every(headline => !headline.text.trim())) {
+      setError('Add a headline for the posters in at least one language.');
+      return;
+    }
+    if (unknownPlaceholders.length > 0) {
+      setError(`The table has no column for ${unknownPlaceholders.map(name => `{{${name}}}`).join(', ')}.`);
+      return;
+    }
+    setError(null);
+    const request = startRequest(backgroundCount > 1 ? `Creating ${backgroundCount} backgrounds...` : 'Creating the background...');
+    try {
+      const format = getPosterFormat(formatId);
+      const urls = await generateImageWithGemini(buildBackgroundPrompt(theme, format), {
+        aspectRatio: format.imagenAspectRatio,
+        numberOfImages: backgroundCount,
+      }, request);
+      requestControllerRef.current = null;
+      if (urls.length === 0) {
+        throw new Error('The AI failed to generate a background image. Try simplifying the theme or try again later.');
+      }
+      setBackgroundUrls(urls);
+      setResults(rows.map(() => ({ status: 'pending' })));
+      setStep('run');
+      await runRows(rows.map((_, index) => index), urls);
+    } catch (err) {
+      requestControllerRef.current = null;
+      if (isAbortError(err)) {
+        setBusyText(null);
+        return;
+      }
+      console.error('Batch: Failed to create backgrounds:', err);
+      setError(err instanceof Error ? `Failed to create backgrounds: ${err.message}` : 'Failed to create backgrounds.');
+      setBusyText(null);
+    }
+  };
+
+  const handleRetry = () => {
+    const rowIndexes = results
+      .map((result, index) => (result.status === 'failed' || result.status === 'pending' ? index : -1))
+      .filter(index => index >= 0);
+    setResults(prev => prev.map(result => result.status === 'failed' ? { status: 'pending' } : result));
+    runRows(rowIndexes, backgroundUrls);
+  };
+
+  const handleDownloadZip = () => {
+    const files = results.flatMap((result, index) =>
+      result.status === 'done' && result.imageUrl
+        ? [{ fileName: batchFileName(index, rows[index], placeholders, rows.length), imageUrl: result.imageUrl }]
+        : []);
+    downloadBlob(buildBatchZip(files), 'batch_posters.zip');
+  };
+
+  const handleStartOver = () => {
+    setStep('setup');
+    setResults([]);
+    setBackgroundUrls([]);
+    setError(null);
+  };
+
+  const handleClose = () => {
+    stopRequestedRef.current = true;
+    handleCancelRequest();
+    onClose();
+  };
+
+  // Rows are listed by the value of the first placeholder, usually the name.
+  const rowLabel = (row: Record<string, string>): string =>
+    (placeholders.length > 0 ? fillPlaceholders(`{{${placeholders[0]}}}`, row) : '') || Object.values(row)[0] || '';
+
+  let previewText = '';
+  if (step === 'text' && rows.length > 0 && unknownPlaceholders.length === 0) {
+    try {
+      const text = batchRowText(textTemplate, rows[0]);
+      previewText = text.headlines.map(headline => headline.text).filter(Boolean).join(' / ');
+    } catch (err) {
+      previewText = err instanceof Error ? err.message : '';
+    }
+  }
+
+  // Only the backgrounds are still to be paid for; batches are not part of a chat, so only the daily budget applies.
+  let budgetWarnings: string[] = [];
+  if (step === 'text') {
+    const usageRecords = getUsageRecords();
+    const estimatedCostUsd = estimateGenerationCostUsd(usageRecords, { operations: [], images: backgroundCount }, getActiveProviderId());
+    budgetWarnings = findBudgetWarnings(usageRecords, loadUsageBudgets(), null, estimatedCostUsd);
+  }
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-60 backdrop-blur-sm flex items-center justify-center z-50 p-4"
+      aria-labelledby="batch-panel-title"
+      role="dialog"
+      aria-modal="true"
+    >
+      <div className="bg-white rounded-xl shadow-2xl p-6 md:p-8 w-full max-w-2xl max-h-full overflow-y-auto custom-scrollbar">
+        <div className="flex justify-between items-center mb-4">
+          <h2 id="batch-panel-title" className="text-2xl font-bold text-gray-800">Batch Posters</h2>
+          <button
+            onClick={handleClose}
+            className="p-1 text-gray-400 hover:text-gray-600 rounded-full hover:bg-gray-100 focus:outline-none focus:ring-2 focus:ring-purple-500"
+            aria-label="Close batch posters"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {step === 'setup' && (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600">
+              One poster per row of a table, for example a birthday greeting for every staff member. The background is made once and each row's text is drawn on it.
+            </p>
+            <div>
+              <div className="flex flex-wrap justify-between items-center gap-2">
+                <label htmlFor="batch-table" className="text-sm font-semibold text-gray-700">Table (first row is the column names)</label>
+                <label className="text-xs sm:text-sm text-purple-700 hover:underline cursor-pointer">
+                  Open CSV file
+                  <input type="file" accept=".csv,.tsv,.txt,text/csv,text/plain" className="sr-only" onChange={handleFileChange} />
+                </label>
+              </div>
+              <textarea
+                id="batch-table"
+                value={tableText}
+                onChange={(e) => handleTableTextChange(e.target.value)}
+                rows={5}
+                placeholder={'name,date\nRavi,12 March\nLakshmi,14 March\n\n(or paste cells from Excel or Google Sheets)'}
+                className={`${inputClass} font-mono text-sm resize-y`}
+              />
+              {table && (
+                <p className="text-xs text-gray-500">
+                  {rows.length} {rows.length === 1 ? 'row' : 'rows'}; columns: {headers.map(header => `{{${header}}}`).join(', ')}
+                </p>
+              )}
+            </div>
+            <label className="block text-sm font-semibold text-gray-700">
+              Poster prompt
+              <textarea
+                value={promptTemplate}
+                onChange={(e) => setPromptTemplate(e.target.value)}
+                rows={3}
+                placeholder={EXAMPLE_PROMPT}
+                className={`${inputClass} resize-y`}
+              />
+            </label>
+            <p className="text-xs text-gray-500">The text is written in {describeLanguages(languages)}, the languages you last picked for a poster.</p>
+            <div className="flex items-center gap-2" role="radiogroup" aria-label="Number of backgrounds">
+              <span className="text-sm text-gray-600">Backgrounds:</span>
+              {Array.from({ length: MAX_BACKGROUNDS }, (_, index) => index + 1).map(count => (
+                <button
+                  key={count}
+                  type="button"
+                  role="radio"
+                  aria-checked={count === backgroundCount}
+                  onClick={() => setBackgroundCount(count)}
+                  className={chipClass(count === backgroundCount)}
+                >
+                  {count}
+                </button>
+              ))}
+              <span className="text-xs text-gray-500">Rows take turns</span>
+            </div>
+          </div>
+        )}
+
+        {step === 'text' && (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600">Check the poster text. Placeholders such as {'{{name}}'} are replaced with each row's value.</p>
+            <HeadlineFields
+              headlines={headlineTemplates}
+              onChange={(language, text) => setHeadlineTemplates(prev => prev.map(headline => headline.language === language ? { ...headline, text } : headline))}
+              idPrefix="batch-headline"
+              fieldLabel="text"
+              transliterateByDefault={false}
+              inputClassName={inputClass}
+            />
+            <SecondaryTextFields
+              value={secondaryTemplate}
+              onChange={(field, text) => setSecondaryTemplate(prev => ({ ...prev, [field]: text }))}
+              idPrefix="batch-secondary"
+              inputClassName={inputClass}
+            />
+            <label className="block text-sm font-semibold text-gray-700">
+              Background theme
+              <textarea value={theme} onChange={(e) => setTheme(e.target.value)} rows={2} className={`${inputClass} resize-y`} />
+            </label>
+            {placeholders.length === 0 ? (
+              <p className="text-sm text-amber-700">The text has no placeholders, so every poster will say the same thing.</p>
+            ) : unknownPlaceholders.length > 0 ? (
+              <p className="text-sm text-red-600">
+                No column for {unknownPlaceholders.map(name => `{{${name}}}`).join(', ')}. Columns: {headers.join(', ')}.
+              </p>
+            ) : (
+              previewText && <p className="text-sm text-gray-600"><span className="font-semibold">Row 1:</span> <span className="telugu-text-display">{previewText}</span></p>
+            )}
+            {budgetWarnings.map(warning => (
+              <p key={warning} className="text-sm text-amber-700" role="status">{warning} Generating will still go ahead.</p>
+            ))}
+          </div>
+        )}
+
+        {step === 'run' && (
+          <div className="space-y-3">
+            <div>
+              <div className="flex justify-between text-sm text-gray-600 mb-1">
+                <span>{doneCount + failedCount} of {results.length} posters</span>
+                {failedCount > 0 && <span className="text-red-600">{failedCount} failed</span>}
+              </div>
+              <div className="h-2 rounded-full bg-gray-200 overflow-hidden" role="progressbar" aria-valuemin={0} aria-valuemax={results.length} aria-valuenow={doneCount + failedCount}>
+                <div className="h-full bg-purple-600 transition-all duration-300" style={{ width: `${results.length ? ((doneCount + failedCount) / results.length) * 100 : 0}%` }} />
+              </div>
+            </div>
+            <ul className="max-h-80 overflow-y-auto custom-scrollbar divide-y divide-gray-100 border border-gray-200 rounded-lg">
+              {results.map((result, index) => (
+                <li key={index} className="flex items-center gap-3 p-2">
+                  <span className="w-8 text-right text-xs text-gray-400">{index + 1}</span>
+                  {result.imageUrl ? (
+                    <img src={result.imageUrl} alt="" className="h-12 w-12 object-cover rounded border border-gray-200" />
+                  ) : (
+                    <span className="h-12 w-12 rounded bg-gray-100" aria-hidden="true" />
+                  )}
+                  <span className="flex-1 min-w-0">
+                    <span className="block text-sm text-gray-800 truncate telugu-text-display">{rowLabel(rows[index])}</span>
+                    {result.errorText && <span className="block text-xs text-red-600">{result.errorText}</span>}
+                  </span>
+                  <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[result.status].className}`}>
+                    {STATUS_STYLES[result.status].label}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {busyText && !isRendering && (
+          <div className="mt-4 flex items-center gap-3">
+            <p className="text-sm text-purple-700 animate-pulse" role="status">{busyText}</p>
+            {step !== 'run' && (
+              <button
+                type="button"
+                onClick={handleCancelRequest}
+                className="text-xs text-purple-700 hover:underline focus:outline-none focus:ring-2 focus:ring-purple-500 rounded"
+              >
+                Cancel
+              </button>
+            )}
+          </div>
+        )}
+        {error && <p className="mt-4 text-sm text-red-600" role="alert">{error}</p>}
+
+        <div className="flex flex-wrap justify-end gap-2 mt-6">
+          {step === 'text' && (
+            <button
+              type="button"
+              onClick={() => setStep('setup')}
+              disabled={isBusy}
+              className="px-4 py-2 text-sm font-medium rounded-lg text-gray-600 hover:bg-gray-100 focus:outline-none focus:ring-2 focus:ring-purple-500 disabled:opacity-60"
+            >
+              Back
+            </button>
+          )}
+          {step === 'run' && (
+            isRendering ? (
+              <button
+                type="button"
+                onClick={() => { stopRequestedRef.current = true; }}
+                className="px-4 py-2 text-sm font-medium rounded-lg text-gray-700 bg-white border border-gray-300 hover:bg-gray-100 focus:outline-none focus:ring-2 focus:ring-purple-500"
+              >
+                Stop
+              </button>
+            ) : (
+              <>
+                <button
+                  type="button"
+                  onClick={handleStartOver}
+                  className="px-4 py-2 text-sm font-medium rounded-lg text-gray-600 hover:bg-gray-100 focus:outline-none focus:ring-2 focus:ring-purple-500"
+                >
+                  Start Over
+                </button>
+                {doneCount < results.length && (
+                  <button
+                    type="button"
+                    onClick={handleRetry}
+                    className="px-4 py-2 text-sm font-medium rounded-lg text-purple-700 bg-white border border-purple-300 hover:bg-purple-50 focus:outline-none focus:ring-2 focus:ring-purple-500"
+                  >
+                    {failedCount > 0 ? 'Retry Failed' : 'Continue'}
+                  </button>
+                )}
+              </>
+            )
+          )}
+          {step === 'setup' && (
+            <button
+              type="button"
+              onClick={handleReadPrompt}
+              disabled={isBusy}
+              className="px-4 py-2 text-sm font-semibold rounded-lg text-white bg-purple-600 hover:bg-purple-700 shadow-md focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-purple-500 disabled:opacity-60 disabled:cursor-wait"
+            >
+              Next
+            </button>
+          )}
+          {step === 'text' && (
+            <button
+              type="button"
+              onClick={handleGenerate}
+              disabled={isBusy}
+              className="px-4 py-2 text-sm font-semibold rounded-lg text-white bg-purple-600 hover:bg-purple-700 shadow-md focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-purple-500 disabled:opacity-60 disabled:cursor-wait"
+            >
+              Generate {rows.length} {rows.length === 1 ? 'Poster' : 'Posters'}
+            </button>
+          )}
+          {step === 'run' && (
+            <button
+              type="button"
+              onClick={handleDownloadZip}
+              disabled={doneCount === 0 || isRendering}
+              className="px-4 py-2 text-sm font-semibold rounded-lg text-white bg-green-600 hover:bg-green-700 shadow-md focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500 disabled:opacity-60 disabled:cursor-not-allowed"
+            >
+              Download ZIP ({doneCount})
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
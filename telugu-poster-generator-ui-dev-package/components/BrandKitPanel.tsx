@@ -0,0 +1,216 @@
+
+import React, { useEffect, useState } from 'react';
+import { EMPTY_BRAND_KIT, MAX_CONTACT_LINES, type BrandKit } from '../services/brandKitStorage';
+import { TransliterationInput } from './TransliterationInput';
+import { TransliterationToggle } from './TransliterationToggle';
+
+interface BrandKitPanelProps {
+  isOpen: boolean;
+  brandKit: BrandKit | null;
+  onClose: () => void;
+  onSave: (brandKit: BrandKit) => void;
+  onClear: () => void;
+}
+
+// Logos are kept in localStorage, so they are shrunk before saving to stay well inside its quota.
+const MAX_LOGO_DIMENSION = 320;
+
+const downscaleLogo = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const objectUrl = URL.createObjectURL(file);
+    const img = new Image();
+    img.onload = () => {
+      const scale = Math.min(1, MAX_LOGO_DIMENSION / Math.max(img.width, img.height));
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.max(1, Math.round(img.width * scale));
+      canvas.height = Math.max(1, Math.round(img.height * scale));
+      const ctx = canvas.getContext('2d');
+      URL.revokeObjectURL(objectUrl);
+      if (!ctx) {
+        reject(new Error('Failed to get canvas context'));
+        return;
+      }
+      ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+      resolve(canvas.toDataURL('image/png'));
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(objectUrl);
+      reject(new Error('That file could not be read as an image.'));
+    };
+    img.src = objectUrl;
+  });
+
+export const BrandKitPanel: React.FC<BrandKitPanelProps> = ({ isOpen, brandKit, onClose, onSave, onClear }) => {
+  const [draft, setDraft] = useState<BrandKit>(brandKit ?? EMPTY_BRAND_KIT);
+  const [contactText, setContactText] = useState('');
+  const [isTransliterating, setIsTransliterating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Start from the saved kit every time the panel opens so cancelled edits are dropped.
+  useEffect(() => {
+    if (!isOpen) return;
+    const initial = brandKit ?? EMPTY_BRAND_KIT;
+    setDraft(initial);
+    setContactText(initial.contactLines.join('\n'));
+    setError(null);
+  }, [isOpen, brandKit]);
+
+  if (!isOpen) {
+    return null;
+  }
+
+  const handleLogoChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    if (!file.type.startsWith('image/')) {
+      setError('Please choose an image file for the logo.');
+      return;
+    }
+    try {
+      const logoDataUrl = await downscaleLogo(file);
+      setDraft(prev => ({ ...prev, logoDataUrl }));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to read the logo.');
+    }
+  };
+
+  const contactLines = contactText.split('\n').map(line => line.trim()).filter(Boolean);
+
+  const handleSave = () => {
+    if (contactLines.length > MAX_CONTACT_LINES) {
+      setError(`Please keep the footer to ${MAX_CONTACT_LINES} lines.`);
+      return;
+    }
+    try {
+      onSave({ ...draft, contactLines });
+    } catch (err) {
+      console.error('Brand Kit: Failed to save:', err);
+      setError('The brand kit could not be saved. Try a smaller logo.');
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-60 backdrop-blur-sm flex items-center justify-center z-50 p-4"
+      aria-labelledby="brand-kit-title"
+      role="dialog"
+      aria-modal="true"
+    >
+      <div className="bg-white rounded-xl shadow-2xl p-6 md:p-8 w-full max-w-lg max-h-full overflow-y-auto">
+        <div className="flex justify-between items-center mb-4">
+          <h2 id="brand-kit-title" className="text-2xl font-bold text-gray-800">Brand Kit</h2>
+          <button
+            onClick={onClose}
+            className="p-1 text-gray-400 hover:text-gray-600 rounded-full hover:bg-gray-100 focus:outline-none focus:ring-2 focus:ring-purple-500"
+            aria-label="Close brand kit"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+        <p className="text-gray-600 mb-6 text-sm">
+          Your logo, colours and contact details are stamped on new posters. They are saved in this browser only.
+        </p>
+
+        <div className="space-y-5">
+          <div>
+            <p className="text-sm font-semibold text-gray-700 mb-2">Logo</p>
+            <div className="flex items-center gap-4">
+              <div className="w-20 h-20 rounded-lg border border-dashed border-gray-300 bg-gray-50 flex items-center justify-center overflow-hidden">
+                {draft.logoDataUrl
+                  ? <img src={draft.logoDataUrl} alt="Brand logo preview" className="max-w-full max-h-full object-contain" />
+                  : <span className="text-xs text-gray-400">No logo</span>}
+              </div>
+              <div className="flex flex-col gap-2">
+                <label className="cursor-pointer px-3 py-1.5 text-sm font-medium rounded-lg border border-purple-300 text-purple-700 hover:bg-purple-50 focus-within:ring-2 focus-within:ring-purple-500">
+                  Upload logo
+                  <input type="file" accept="image/*" className="sr-only" onChange={handleLogoChange} />
+                </label>
+                {draft.logoDataUrl && (
+                  <button
+                    type="button"
+                    onClick={() => setDraft(prev => ({ ...prev, logoDataUrl: null }))}
+                    className="px-3 py-1.5 text-sm font-medium rounded-lg text-gray-600 hover:bg-gray-100 focus:outline-none focus:ring-2 focus:ring-purple-500"
+                  >
+                    Remove logo
+                  </button>
+                )}
+              </div>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <label className="text-sm font-semibold text-gray-700">
+              Primary colour
+              <input
+                type="color"
+                value={draft.primaryColor}
+                onChange={(e) => setDraft(prev => ({ ...prev, primaryColor: e.target.value }))}
+                className="mt-1 block w-full h-10 rounded-lg border border-gray-300 cursor-pointer"
+              />
+            </label>
+            <label className="text-sm font-semibold text-gray-700">
+              Secondary colour
+              <input
+                type="color"
+                value={draft.secondaryColor}
+                onChange={(e) => setDraft(prev => ({ ...prev, secondaryColor: e.target.value }))}
+                className="mt-1 block w-full h-10 rounded-lg border border-gray-300 cursor-pointer"
+              />
+            </label>
+          </div>
+
+          <div>
+            <div className="flex flex-wrap justify-between items-center gap-2">
+              <label htmlFor="brand-kit-contact-lines" className="text-sm font-semibold text-gray-700">
+                Footer contact lines <span className="font-normal text-gray-500">(up to {MAX_CONTACT_LINES})</span>
+              </label>
+              <TransliterationToggle isOn={isTransliterating} onToggle={() => setIsTransliterating(prev => !prev)} />
+            </div>
+            <TransliterationInput
+              id="brand-kit-contact-lines"
+              value={contactText}
+              onValueChange={setContactText}
+              isTransliterating={isTransliterating}
+              rows={MAX_CONTACT_LINES}
+              placeholder={'Sri Lakshmi Textiles, Main Road, Guntur\n📞 98765 43210'}
+              className="mt-1 w-full p-2 border border-gray-300 rounded-lg font-normal focus:ring-2 focus:ring-purple-500 focus:border-purple-500 resize-y"
+            />
+          </div>
+
+          {error && <p className="text-sm text-red-600" role="alert">{error}</p>}
+        </div>
+
+        <div className="flex flex-wrap justify-between gap-2 mt-6">
+          <button
+            type="button"
+            onClick={onClear}
+            disabled={!brandKit}
+            className="px-4 py-2 text-sm font-medium rounded-lg text-red-600 hover:bg-red-50 focus:outline-none focus:ring-2 focus:ring-red-400 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Delete brand kit
+          </button>
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-sm font-medium rounded-lg text-gray-600 hover:bg-gray-100 focus:outline-none focus:ring-2 focus:ring-purple-500"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={handleSave}
+              className="px-4 py-2 text-sm font-semibold rounded-lg text-white bg-purple-600 hover:bg-purple-700 shadow-md focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-purple-500"
+            >
+              Save
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,45 @@
+import React from 'react';
+
+interface BrandKitToggleProps {
+  hasBrandKit: boolean;
+  isOn: boolean;
+  onToggle: () => void;
+  onOpenSettings: () => void;
+  disabled?: boolean;
+}
+
+// A switch for stamping the brand kit; without a saved kit it offers to set one up instead.
+export const BrandKitToggle: React.FC<BrandKitToggleProps> = ({ hasBrandKit, isOn, onToggle, onOpenSettings, disabled = false }) => {
+  if (!hasBrandKit) {
+    return (
+      <button
+        type="button"
+        onClick={onOpenSettings}
+        disabled={disabled}
+        className={`text-xs sm:text-sm text-purple-700 hover:underline focus:outline-none focus:ring-2 focus:ring-purple-500 rounded ${disabled ? 'opacity-60 cursor-not-allowed' : ''}`}
+      >
+        Set up brand kit
+      </button>
+    );
+  }
+
+  return (
+    <button
+      type="button"
+      role="switch"
+      aria-checked={isOn}
+      onClick={onToggle}
+      disabled={disabled}
+      title={isOn ? 'Logo, colours and footer will be added' : 'Poster will be made without the brand kit'}
+      className={`flex items-center space-x-2 text-xs sm:text-sm text-gray-600 focus:outline-none focus:ring-2 focus:ring-purple-500 rounded-full ${disabled ? 'opacity-60 cursor-not-allowed' : ''}`}
+    >
+      <span
+        className={`relative inline-flex h-5 w-9 flex-shrink-0 rounded-full transition-colors duration-200 ${isOn ? 'bg-purple-600' : 'bg-gray-300'}`}
+        aria-hidden="true"
+      >
+        <span className={`absolute top-0.5 left-0.5 h-4 w-4 rounded-full bg-white shadow transform transition-transform duration-200 ${isOn ? 'translate-x-4' : ''}`} />
+      </span>
+      <span>Brand kit</span>
+    </button>
+  );
+};
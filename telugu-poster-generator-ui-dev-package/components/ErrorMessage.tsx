@@ -1,17 +1,128 @@
-
-import React from 'react';
+import React, { useEffect, useState } from 'react';
+import type { GenerationErrorKind } from '../services/generationErrors';
 
 interface ErrorMessageProps {
   message: string;
+  kind?: GenerationErrorKind; // Missing for errors that have no way out beyond the message, e.g. a failed re-render
+  retryAt?: number; // For 'quota': epoch ms before which Try Again stays disabled
+  onRetry?: () => void;
+  onRephrase?: () => void;
+}
+
+type ErrorAction = 'retry' | 'rephrase' | 'settings' | 'wait';
+
+interface ErrorCard {
+  title: string;
+  hint?: string; // Shown instead of the raw message; kinds without a hint show the message
+  action: ErrorAction;
+  isNotice?: boolean; // Neutral styling, for outcomes the user chose
 }
 
-export const ErrorMessage: React.FC<ErrorMessageProps> = ({ message }) => {
+const API_KEY_SETTINGS_URL = 'https://aistudio.google.com/app/apikey';
+
+const ERROR_CARDS: Record<GenerationErrorKind, ErrorCard> = {
+  'invalid-key': {
+    title: 'API key problem',
+    hint: 'The Gemini API key is missing, wrong or not allowed to use these models. Check GEMINI_API_KEY in .env.local and restart the app and the poster server.',
+    action: 'settings',
+  },
+  quota: {
+    title: 'Usage limit reached',
+    hint: 'The Gemini quota for this key is used up for now.',
+    action: 'wait',
+  },
+  safety: {
+    title: 'Blocked by safety filters',
+    hint: 'Gemini would not make this poster. Try describing it differently, leaving out anything that could read as violent, explicit or about real people.',
+    action: 'rephrase',
+  },
+  'malformed-response': {
+    title: 'Unexpected AI answer',
+    hint: 'The AI replied in a form the app could not read. This is usually a one-off.',
+    action: 'retry',
+  },
+  unavailable: {
+    title: 'Service busy',
+    hint: 'Gemini is overloaded or having trouble right now, even after a few automatic retries.',
+    action: 'retry',
+  },
+  offline: {
+    title: 'No connection',
+    hint: 'The request could not reach the server. Check your internet connection.',
+    action: 'retry',
+  },
+  cancelled: {
+    title: 'Cancelled',
+    hint: 'You stopped this poster before it was finished.',
+    action: 'retry',
+    isNotice: true,
+  },
+  unknown: {
+    title: 'Oops!',
+    action: 'retry',
+  },
+};
+
+const formatClockTime = (time: number): string =>
+  new Date(time).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+// Re-renders once a second until `until` has passed, so the wait countdown stays current.
+const useSecondsLeft = (until?: number): number => {
+  const [now, setNow] = useState(() => Date.now());
+  useEffect(() => {
+    if (!until || until <= Date.now()) return;
+    const timer = setInterval(() => {
+      setNow(Date.now());
+      if (Date.now() >= until) clearInterval(timer);
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [until]);
+  return until ? Math.max(0, Math.ceil((until - now) / 1000)) : 0;
+};
+
+const actionButtonClass = 'px-3 py-1.5 text-sm font-medium rounded-lg bg-white border focus:outline-none focus:ring-2 focus:ring-purple-500 disabled:opacity-60 disabled:cursor-not-allowed';
+
+export const ErrorMessage: React.FC<ErrorMessageProps> = ({ message, kind, retryAt, onRetry, onRephrase }) => {
+  const secondsLeft = useSecondsLeft(retryAt);
   if (!message) return null;
 
+  const card = ERROR_CARDS[kind ?? 'unknown'];
+  const tone = card.isNotice
+    ? 'bg-gray-50 border-gray-300 text-gray-700'
+    : 'bg-red-100 border-red-400 text-red-700';
+  const buttonTone = card.isNotice ? 'border-gray-300 text-gray-700 hover:bg-gray-100' : 'border-red-300 text-red-700 hover:bg-red-50';
+
   return (
-    <div className="mt-6 p-4 bg-red-100 border border-red-400 text-red-700 rounded-lg shadow-md" role="alert">
-      <strong className="font-bold">Oops! </strong>
-      <span className="block sm:inline">{message}</span>
+    <div className={`mt-6 p-4 border rounded-lg shadow-md ${tone}`} role={card.isNotice ? 'status' : 'alert'}>
+      <strong className="font-bold">{card.title} </strong>
+      <span className="block sm:inline">{kind && card.hint ? card.hint : message}</span>
+      {card.action === 'wait' && secondsLeft > 0 && retryAt && (
+        <span className="block mt-1 text-sm">You can try again at {formatClockTime(retryAt)}.</span>
+      )}
+      {kind && (
+        <div className="flex flex-wrap gap-2 mt-3">
+          {card.action === 'settings' && (
+            <a
+              href={API_KEY_SETTINGS_URL}
+              target="_blank"
+              rel="noopener noreferrer"
+              className={`${actionButtonClass} ${buttonTone}`}
+            >
+              Open API key settings
+            </a>
+          )}
+          {card.action === 'rephrase' && onRephrase && (
+            <button type="button" onClick={onRephrase} className={`${actionButtonClass} ${buttonTone}`}>
+              Rephrase Prompt
+            </button>
+          )}
+          {(card.action === 'retry' || card.action === 'wait') && onRetry && (
+            <button type="button" onClick={onRetry} disabled={secondsLeft > 0} className={`${actionButtonClass} ${buttonTone}`}>
+              {secondsLeft > 0 ? `Try Again in ${Math.floor(secondsLeft / 60)}:${String(secondsLeft % 60).padStart(2, '0')}` : 'Try Again'}
+            </button>
+          )}
+        </div>
+      )}
     </div>
   );
 };
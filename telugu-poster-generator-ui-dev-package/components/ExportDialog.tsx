@@ -0,0 +1,242 @@
+
+import React, { useState } from 'react';
+import type { PosterRenderOptions } from '../services/posterRenderer';
+import {
+  downloadBlob,
+  exportPdf,
+  exportRaster,
+  exportSvg,
+  PDF_PAGE_SIZES,
+  type ExportFileFormat,
+  type PdfPageSizeId,
+} from '../services/posterExport';
+
+interface ExportDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  renderOptions: PosterRenderOptions | null;
+  fileBaseName: string; // Without extension
+  title?: string;
+}
+
+const FORMAT_OPTIONS: { id: ExportFileFormat; label: string; hint: string }[] = [
+  { id: 'png', label: 'PNG', hint: 'Lossless image, same as the quick download' },
+  { id: 'jpeg', label: 'JPEG', hint: 'Small files for WhatsApp and social media' },
+  { id: 'webp', label: 'WebP', hint: 'Even smaller files for the web' },
+  { id: 'pdf', label: 'PDF', hint: 'Print-ready, with bleed and crop marks' },
+  { id: 'svg', label: 'SVG', hint: 'Editable text layers for Inkscape or Illustrator' },
+];
+
+const WIDTH_OPTIONS: { value: number | null; label: string }[] = [
+  { value: null, label: 'Full size' },
+  { value: 1080, label: '1080 px wide' },
+  { value: 720, label: '720 px wide' },
+];
+
+const BLEED_OPTIONS_MM = [0, 3, 5];
+
+const FILE_EXTENSIONS: Record<ExportFileFormat, string> = { png: 'png', jpeg: 'jpg', webp: 'webp', pdf: 'pdf', svg: 'svg' };
+
+const chipClass = (isSelected: boolean) =>
+  `px-3 py-1.5 rounded-full text-xs sm:text-sm font-medium border transition-all duration-200 focus:outline-none focus:ring-2 focus:ring-purple-500
+   ${isSelected ? 'bg-purple-600 border-purple-600 text-white shadow-md' : 'bg-white border-gray-300 text-gray-700 hover:border-purple-400 hover:text-purple-700'}`;
+
+export const ExportDialog: React.FC<ExportDialogProps> = ({ isOpen, onClose, renderOptions, fileBaseName, title }) => {
+  const [format, setFormat] = useState<ExportFileFormat>('jpeg');
+  const [quality, setQuality] = useState<number>(85);
+  const [maxWidth, setMaxWidth] = useState<number | null>(null);
+  const [pageSizeId, setPageSizeId] = useState<PdfPageSizeId>('a4');
+  const [bleedMm, setBleedMm] = useState<number>(3);
+  const [cropMarks, setCropMarks] = useState<boolean>(true);
+  const [isExporting, setIsExporting] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!isOpen || !renderOptions) {
+    return null;
+  }
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setError(null);
+    // A separate canvas keeps large exports from disturbing the one the chat renders with.
+    const canvas = document.createElement('canvas');
+    try {
+      let blob: Blob;
+      if (format === 'pdf') {
+        blob = await exportPdf(canvas, renderOptions, { pageSizeId, bleedMm, cropMarks }, title);
+      } else if (format === 'svg') {
+        blob = await exportSvg(canvas, renderOptions);
+      } else {
+        blob = await exportRaster(canvas, renderOptions, { format, quality: quality / 100, maxWidth });
+      }
+      downloadBlob(blob, `${fileBaseName}.${FILE_EXTENSIONS[format]}`);
+      onClose();
+    } catch (err) {
+      console.error('Error exporting poster:', err);
+      setError(err instanceof Error ? `Export failed: ${err.message}` : 'Export failed.');
+    } finally {
+      // Release the pixel memory of print-size canvases right away.
+      canvas.width = 0;
+      canvas.height = 0;
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-60 backdrop-blur-sm flex items-center justify-center z-50 p-4"
+      aria-labelledby="export-dialog-title"
+      role="dialog"
+      aria-modal="true"
+    >
+      <div className="bg-white rounded-xl shadow-2xl p-6 md:p-8 w-full max-w-lg max-h-full overflow-y-auto">
+        <div className="flex justify-between items-center mb-4">
+          <h2 id="export-dialog-title" className="text-2xl font-bold text-gray-800">Export Poster</h2>
+          <button
+            onClick={onClose}
+            disabled={isExporting}
+            className="p-1 text-gray-400 hover:text-gray-600 rounded-full hover:bg-gray-100 focus:outline-none focus:ring-2 focus:ring-purple-500"
+            aria-label="Close export dialog"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <p id="export-format-label" className="text-sm font-semibold text-gray-700 mb-2">Format</p>
+        <div role="radiogroup" aria-labelledby="export-format-label" className="flex flex-wrap gap-2">
+          {FORMAT_OPTIONS.map(option => (
+            <button
+              key={option.id}
+              type="button"
+              role="radio"
+              aria-checked={option.id === format}
+              onClick={() => setFormat(option.id)}
+              disabled={isExporting}
+              title={option.hint}
+              className={chipClass(option.id === format)}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        <p className="mt-2 text-xs sm:text-sm text-gray-500">{FORMAT_OPTIONS.find(option => option.id === format)?.hint}</p>
+
+        <div className="mt-5 space-y-4">
+          {(format === 'png' || format === 'jpeg' || format === 'webp') && (
+            <label className="block text-sm font-semibold text-gray-700">
+              Size
+              <select
+                value={maxWidth ?? ''}
+                onChange={(e) => setMaxWidth(e.target.value ? Number(e.target.value) : null)}
+                disabled={isExporting}
+                className="mt-1 block w-full p-2 border border-gray-300 rounded-lg font-normal focus:ring-2 focus:ring-purple-500 focus:border-purple-500"
+              >
+                {WIDTH_OPTIONS.map(option => (
+                  <option key={option.label} value={option.value ?? ''}>{option.label}</option>
+                ))}
+              </select>
+            </label>
+          )}
+
+          {(format === 'jpeg' || format === 'webp') && (
+            <label className="block text-sm font-semibold text-gray-700">
+              Quality: <span className="font-normal">{quality}%</span>
+              <input
+                type="range"
+                min={40}
+                max={100}
+                step={5}
+                value={quality}
+                onChange={(e) => setQuality(Number(e.target.value))}
+                disabled={isExporting}
+                className="mt-1 block w-full accent-purple-600"
+              />
+              <span className="flex justify-between text-xs font-normal text-gray-500">
+                <span>Smaller file</span>
+                <span>Better quality</span>
+              </span>
+            </label>
+          )}
+
+          {format === 'pdf' && (
+            <>
+              <label className="block text-sm font-semibold text-gray-700">
+                Page size
+                <select
+                  value={pageSizeId}
+                  onChange={(e) => setPageSizeId(e.target.value as PdfPageSizeId)}
+                  disabled={isExporting}
+                  className="mt-1 block w-full p-2 border border-gray-300 rounded-lg font-normal focus:ring-2 focus:ring-purple-500 focus:border-purple-500"
+                >
+                  {PDF_PAGE_SIZES.map(size => (
+                    <option key={size.id} value={size.id}>{size.label} ({size.widthMm} × {size.heightMm} mm)</option>
+                  ))}
+                </select>
+              </label>
+              <div>
+                <p id="export-bleed-label" className="text-sm font-semibold text-gray-700 mb-2">Bleed</p>
+                <div role="radiogroup" aria-labelledby="export-bleed-label" className="flex flex-wrap gap-2">
+                  {BLEED_OPTIONS_MM.map(option => (
+                    <button
+                      key={option}
+                      type="button"
+                      role="radio"
+                      aria-checked={option === bleedMm}
+                      onClick={() => setBleedMm(option)}
+                      disabled={isExporting}
+                      className={chipClass(option === bleedMm)}
+                    >
+                      {option === 0 ? 'None' : `${option} mm`}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <label className="flex items-center space-x-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={cropMarks}
+                  onChange={(e) => setCropMarks(e.target.checked)}
+                  disabled={isExporting}
+                  className="h-4 w-4 rounded border-gray-300 text-purple-600 focus:ring-purple-500"
+                />
+                <span>Crop marks</span>
+              </label>
+              <p className="text-xs text-gray-500">
+                The artwork is placed at 300 dpi and the text is set as real text with its fonts embedded, so it prints sharp and the print shop needs no fonts installed.
+              </p>
+            </>
+          )}
+
+          {format === 'svg' && (
+            <p className="text-xs text-gray-500">
+              The background is kept as an image and every line of text is a separate, editable text element with its font embedded.
+            </p>
+          )}
+
+          {error && <p className="text-sm text-red-600" role="alert">{error}</p>}
+        </div>
+
+        <div className="flex justify-end gap-2 mt-6">
+          <button
+            type="button"
+            onClick={onClose}
+            disabled={isExporting}
+            className="px-4 py-2 text-sm font-medium rounded-lg text-gray-600 hover:bg-gray-100 focus:outline-none focus:ring-2 focus:ring-purple-500 disabled:opacity-60"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={handleExport}
+            disabled={isExporting}
+            className="px-4 py-2 text-sm font-semibold rounded-lg text-white bg-green-600 hover:bg-green-700 shadow-md focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500 disabled:opacity-60 disabled:cursor-wait"
+          >
+            {isExporting ? 'Exporting...' : `Export ${FORMAT_OPTIONS.find(option => option.id === format)?.label}`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,49 @@
+
+import React from 'react';
+import {
+  DEFAULT_FONT_PAIRING_ID,
+  FONT_PAIRINGS,
+  fontFamilyStack,
+  type FontPairingId,
+} from '../utils/fontRegistry';
+import { getPosterLanguage, posterFontFor } from '../utils/languages';
+
+interface FontPairingPickerProps {
+  selectedPairingId?: FontPairingId;
+  onSelectPairing: (pairingId: FontPairingId) => void;
+  disabled?: boolean;
+}
+
+export const FontPairingPicker: React.FC<FontPairingPickerProps> = ({ selectedPairingId = DEFAULT_FONT_PAIRING_ID, onSelectPairing, disabled = false }) => {
+  return (
+    <div className="mt-3 sm:mt-4">
+      <p id="font-pairing-picker-label" className="text-sm font-semibold text-gray-700 mb-2">Fonts</p>
+      <div role="radiogroup" aria-labelledby="font-pairing-picker-label" className="flex flex-wrap gap-2">
+        {FONT_PAIRINGS.map(pairing => {
+          const isSelected = pairing.id === selectedPairingId;
+          const teluguFont = posterFontFor(pairing, getPosterLanguage('te'));
+          const latinFont = posterFontFor(pairing, getPosterLanguage('en'));
+          return (
+            <button
+              key={pairing.id}
+              type="button"
+              role="radio"
+              aria-checked={isSelected}
+              onClick={() => { if (!isSelected) onSelectPairing(pairing.id); }}
+              disabled={disabled}
+              title={`${pairing.label}: ${teluguFont.family} with ${latinFont.family}`}
+              className={`flex items-baseline px-3 py-1.5 rounded-lg border transition-all duration-200 focus:outline-none focus:ring-2 focus:ring-purple-500
+                          ${isSelected
+                            ? 'bg-purple-600 border-purple-600 text-white shadow-md'
+                            : 'bg-white border-gray-300 text-gray-700 hover:border-purple-400 hover:text-purple-700'}
+                          ${disabled ? 'opacity-60 cursor-not-allowed' : ''}`}
+            >
+              <span className="text-base mr-1.5" style={{ fontFamily: fontFamilyStack(teluguFont), fontWeight: teluguFont.weight }}>తెలుగు</span>
+              <span className="text-sm" style={{ fontFamily: fontFamilyStack(latinFont), fontWeight: latinFont.weight }}>{pairing.label}</span>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
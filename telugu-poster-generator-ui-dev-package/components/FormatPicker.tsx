@@ -0,0 +1,45 @@
+
+import React from 'react';
+import { POSTER_FORMATS, type PosterFormatId } from '../utils/posterFormats';
+
+interface FormatPickerProps {
+  selectedFormatId: PosterFormatId;
+  onSelectFormat: (formatId: PosterFormatId) => void;
+  disabled?: boolean;
+}
+
+export const FormatPicker: React.FC<FormatPickerProps> = ({ selectedFormatId, onSelectFormat, disabled = false }) => {
+  return (
+    <div role="radiogroup" aria-label="Poster size" className="flex flex-wrap gap-2">
+      {POSTER_FORMATS.map(format => {
+        const isSelected = format.id === selectedFormatId;
+        // Small proportional frame so the shape is recognisable at a glance.
+        const iconScale = 16 / Math.max(format.width, format.height);
+        return (
+          <button
+            key={format.id}
+            type="button"
+            role="radio"
+            aria-checked={isSelected}
+            onClick={() => onSelectFormat(format.id)}
+            disabled={disabled}
+            title={format.description}
+            className={`flex items-center px-2.5 py-1.5 rounded-full text-xs sm:text-sm font-medium border transition-all duration-200 focus:outline-none focus:ring-2 focus:ring-purple-500
+                        ${isSelected
+                          ? 'bg-purple-600 border-purple-600 text-white shadow-md'
+                          : 'bg-white border-gray-300 text-gray-700 hover:border-purple-400 hover:text-purple-700'}
+                        ${disabled ? 'opacity-60 cursor-not-allowed' : ''}`}
+          >
+            <span
+              aria-hidden="true"
+              className={`inline-block mr-1.5 border-2 rounded-sm ${isSelected ? 'border-white' : 'border-current'}`}
+              style={{ width: `${Math.round(format.width * iconScale)}px`, height: `${Math.round(format.height * iconScale)}px` }}
+            />
+            {format.label}
+            <span className={`ml-1 ${isSelected ? 'text-purple-100' : 'text-gray-400'}`}>{format.aspectLabel}</span>
+          </button>
+        );
+      })}
+    </div>
+  );
+};
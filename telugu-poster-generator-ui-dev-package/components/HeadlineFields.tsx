@@ -0,0 +1,72 @@
+import React, { useState } from 'react';
+import type { PosterHeadline } from '../App'; // Import type
+import { TransliterationInput } from './TransliterationInput';
+import { TransliterationToggle } from './TransliterationToggle';
+import { getPosterLanguage, languageFontStack, type LanguageId } from '../utils/languages';
+
+interface HeadlineFieldsProps {
+  headlines: PosterHeadline[];
+  onChange: (language: LanguageId, text: string) => void;
+  idPrefix: string;
+  inputClassName: string;
+  fieldLabel?: string; // e.g. "headline" or "text", after the language name
+  transliterateByDefault?: boolean;
+  disabled?: boolean;
+}
+
+// One box per headline, in the order they are stacked on the poster. Languages with phonetic typing get a switch for it.
+export const HeadlineFields: React.FC<HeadlineFieldsProps> = ({
+  headlines,
+  onChange,
+  idPrefix,
+  inputClassName,
+  fieldLabel = 'headline',
+  transliterateByDefault = true,
+  disabled = false,
+}) => {
+  const [isTransliterating, setIsTransliterating] = useState(transliterateByDefault);
+
+  return (
+    <div className="space-y-3">
+      {headlines.map(headline => {
+        const language = getPosterLanguage(headline.language);
+        const id = `${idPrefix}-${language.id}`;
+        const fontStyle = { fontFamily: languageFontStack(language) };
+        return (
+          <div key={language.id}>
+            <div className="flex justify-between items-center mb-1">
+              <label htmlFor={id} className="block text-sm font-semibold text-gray-700">
+                <span style={fontStyle}>{language.nativeName}</span> {fieldLabel}
+              </label>
+              {language.phoneticTyping && (
+                <TransliterationToggle isOn={isTransliterating} onToggle={() => setIsTransliterating(prev => !prev)} disabled={disabled} />
+              )}
+            </div>
+            {language.phoneticTyping ? (
+              <TransliterationInput
+                id={id}
+                value={headline.text}
+                onValueChange={text => onChange(language.id, text)}
+                isTransliterating={isTransliterating}
+                rows={2}
+                disabled={disabled}
+                className={`${inputClassName} resize-none`}
+                style={fontStyle}
+              />
+            ) : (
+              <textarea
+                id={id}
+                value={headline.text}
+                onChange={(e) => onChange(language.id, e.target.value)}
+                rows={2}
+                disabled={disabled}
+                className={`${inputClassName} resize-none`}
+                style={fontStyle}
+              />
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -1,24 +1,40 @@
 
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import type { LanguagePreference } from '../App'; // Assuming LanguagePreference is exported from App.tsx
+import { getPosterLanguage, languageFontStack, POSTER_LANGUAGES, type LanguageId } from '../utils/languages';
 
 interface LanguageSelectionModalProps {
   isOpen: boolean;
   onClose: () => void;
   onSelectLanguage: (preference: LanguagePreference) => void;
+  initialLanguages: LanguagePreference; // Ticked when the dialog opens, usually the languages picked last time
+  budgetWarnings?: string[]; // Soft budgets this generation is expected to go over
 }
 
 export const LanguageSelectionModal: React.FC<LanguageSelectionModalProps> = ({
   isOpen,
   onClose,
   onSelectLanguage,
+  initialLanguages,
+  budgetWarnings = [],
 }) => {
+  // In the order they were ticked, which is the order the headlines are stacked on the poster.
+  const [selected, setSelected] = useState<LanguageId[]>(initialLanguages);
+
+  useEffect(() => {
+    if (isOpen) setSelected(initialLanguages);
+  }, [isOpen, initialLanguages]);
+
   if (!isOpen) {
     return null;
   }
 
-  const handleSelection = (preference: LanguagePreference) => {
-    onSelectLanguage(preference);
+  const toggleLanguage = (languageId: LanguageId) => {
+    setSelected(prev => prev.includes(languageId) ? prev.filter(id => id !== languageId) : [...prev, languageId]);
+  };
+
+  const handleCreate = () => {
+    if (selected.length > 0) onSelectLanguage(selected);
   };
 
   return (
@@ -44,33 +60,70 @@ export const LanguageSelectionModal: React.FC<LanguageSelectionModalProps> = ({
           </button>
         </div>
 
-        <p className="text-gray-600 mb-8">
-          Select the language(s) you'd like for the text on your poster:
+        {budgetWarnings.length > 0 && (
+          <div className="mb-6 rounded-lg border border-amber-300 bg-amber-50 p-3 text-sm text-amber-800" role="status">
+            <p className="font-semibold">This poster may go over your budget</p>
+            <ul className="mt-1 list-disc pl-5 space-y-0.5">
+              {budgetWarnings.map(warning => <li key={warning}>{warning}</li>)}
+            </ul>
+            <p className="mt-1">Create the poster to go ahead anyway, or close this to stop.</p>
+          </div>
+        )}
+
+        <p className="text-gray-600 mb-4">
+          Select the language(s) you'd like for the text on your poster. Headlines are stacked in the order you tick them.
         </p>
 
-        <div className="space-y-4">
-          <button
-            onClick={() => handleSelection('english')}
-            className="w-full flex items-center justify-center px-6 py-4 border border-transparent text-lg font-semibold rounded-lg shadow-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-all duration-300 ease-in-out transform hover:scale-105 active:scale-95"
-            aria-label="Generate poster with English text only"
-          >
-            English Only
-          </button>
-          <button
-            onClick={() => handleSelection('telugu')}
-            className="w-full flex items-center justify-center px-6 py-4 border border-transparent text-lg font-semibold rounded-lg shadow-md text-white bg-green-600 hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500 transition-all duration-300 ease-in-out transform hover:scale-105 active:scale-95"
-            aria-label="Generate poster with Telugu text only"
-          >
-            <span className="telugu-text-display">తెలుగు మాత్రమే</span> (Telugu Only)
-          </button>
-          <button
-            onClick={() => handleSelection('both')}
-            className="w-full flex items-center justify-center px-6 py-4 border border-transparent text-lg font-semibold rounded-lg shadow-md text-white bg-purple-600 hover:bg-purple-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-purple-500 transition-all duration-300 ease-in-out transform hover:scale-105 active:scale-95"
-            aria-label="Generate poster with both English and Telugu text"
-          >
-            English & <span className="telugu-text-display ml-1">తెలుగు</span> (Both)
-          </button>
+        <div className="space-y-2" role="group" aria-label="Poster languages">
+          {POSTER_LANGUAGES.map(language => {
+            const position = selected.indexOf(language.id);
+            const isSelected = position !== -1;
+            return (
+              <button
+                key={language.id}
+                type="button"
+                role="checkbox"
+                aria-checked={isSelected}
+                onClick={() => toggleLanguage(language.id)}
+                className={`w-full flex items-center px-4 py-3 rounded-lg border text-left transition-all duration-200 focus:outline-none focus:ring-2 focus:ring-purple-500
+                            ${isSelected ? 'bg-purple-50 border-purple-600 shadow-sm' : 'bg-white border-gray-300 hover:border-purple-400'}`}
+              >
+                <span
+                  className={`flex-shrink-0 w-7 h-7 mr-3 rounded-full flex items-center justify-center text-sm font-bold
+                              ${isSelected ? 'bg-purple-600 text-white' : 'border-2 border-gray-300'}`}
+                  aria-hidden="true"
+                >
+                  {isSelected ? position + 1 : ''}
+                </span>
+                <span className="text-lg font-semibold text-gray-800" style={{ fontFamily: languageFontStack(language) }}>{language.nativeName}</span>
+                {language.nativeName !== language.name && <span className="ml-2 text-sm text-gray-500">({language.name})</span>}
+              </button>
+            );
+          })}
         </div>
+
+        <p className="mt-4 text-sm text-gray-600 min-h-[1.25rem]" aria-live="polite">
+          {selected.length > 0
+            ? <>On the poster: {selected.map((id, index) => {
+                const language = getPosterLanguage(id);
+                return (
+                  <React.Fragment key={id}>
+                    {index > 0 && ' → '}
+                    <span style={{ fontFamily: languageFontStack(language) }}>{language.nativeName}</span>
+                  </React.Fragment>
+                );
+              })}</>
+            : 'Pick at least one language.'}
+        </p>
+
+        <button
+          type="button"
+          onClick={handleCreate}
+          disabled={selected.length === 0}
+          className="mt-6 w-full flex items-center justify-center px-6 py-3 border border-transparent text-lg font-semibold rounded-lg shadow-md text-white bg-purple-600 hover:bg-purple-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-purple-500 transition-all duration-300 ease-in-out disabled:bg-gray-400 disabled:cursor-not-allowed"
+        >
+          Create Poster
+        </button>
          <style>{`
           @keyframes modalEnter {
             0% { transform: scale(0.95); opacity: 0; }
@@ -0,0 +1,40 @@
+
+import React from 'react';
+import { DEFAULT_LAYOUT_TEMPLATE_ID, LAYOUT_TEMPLATES, type LayoutTemplateId } from '../utils/layoutTemplates';
+
+interface LayoutPickerProps {
+  selectedLayoutId?: LayoutTemplateId;
+  onSelectLayout: (layoutId: LayoutTemplateId) => void;
+  disabled?: boolean;
+}
+
+export const LayoutPicker: React.FC<LayoutPickerProps> = ({ selectedLayoutId = DEFAULT_LAYOUT_TEMPLATE_ID, onSelectLayout, disabled = false }) => {
+  return (
+    <div className="mt-3 sm:mt-4">
+      <p id="layout-picker-label" className="text-sm font-semibold text-gray-700 mb-2">Layout</p>
+      <div role="radiogroup" aria-labelledby="layout-picker-label" className="flex flex-wrap gap-2">
+        {LAYOUT_TEMPLATES.map(template => {
+          const isSelected = template.id === selectedLayoutId;
+          return (
+            <button
+              key={template.id}
+              type="button"
+              role="radio"
+              aria-checked={isSelected}
+              onClick={() => { if (!isSelected) onSelectLayout(template.id); }}
+              disabled={disabled}
+              title={template.description}
+              className={`px-3 py-1.5 rounded-full text-xs sm:text-sm font-medium border transition-all duration-200 focus:outline-none focus:ring-2 focus:ring-purple-500
+                          ${isSelected
+                            ? 'bg-purple-600 border-purple-600 text-white shadow-md'
+                            : 'bg-white border-gray-300 text-gray-700 hover:border-purple-400 hover:text-purple-700'}
+                          ${disabled ? 'opacity-60 cursor-not-allowed' : ''}`}
+            >
+              {template.label}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
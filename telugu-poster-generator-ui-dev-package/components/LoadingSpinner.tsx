@@ -3,15 +3,25 @@ import React from 'react';
 
 interface LoadingSpinnerProps {
   message?: string;
+  onCancel?: () => void; // Shows a Cancel button when set
 }
 
-export const LoadingSpinner: React.FC<LoadingSpinnerProps> = ({ message }) => {
+export const LoadingSpinner: React.FC<LoadingSpinnerProps> = ({ message, onCancel }) => {
   return (
     <div className="flex flex-col justify-center items-center py-8 text-center">
       <div className="animate-spin rounded-full h-16 w-16 border-t-4 border-b-4 border-purple-600"></div>
-      <p className="mt-4 text-purple-700 font-semibold">
+      <p className="mt-4 text-purple-700 font-semibold" aria-live="polite">
         {message || 'Generating your poster, please wait...'}
       </p>
+      {onCancel && (
+        <button
+          type="button"
+          onClick={onCancel}
+          className="mt-3 px-4 py-1.5 text-sm rounded-full border border-purple-300 text-purple-700 hover:bg-purple-50 focus:outline-none focus:ring-2 focus:ring-purple-500"
+        >
+          Cancel
+        </button>
+      )}
     </div>
   );
 };
@@ -0,0 +1,493 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { drawPoster, type LaidOutBlock, type PosterLayout, type PosterRenderOptions } from '../services/posterRenderer';
+import type { TextAlign } from '../utils/layoutTemplates';
+import { getPosterFormat } from '../utils/posterFormats';
+import {
+  clampTextLayer,
+  MAX_LAYER_FONT_SIZE,
+  MIN_LAYER_FONT_SIZE,
+  MIN_LAYER_WIDTH,
+  snapBox,
+  snapEdge,
+  snapTargetsFor,
+  textLayerLabel,
+  type LayerBox,
+  type SnapGuide,
+  type TextLayerId,
+  type TextLayerOverride,
+  type TextLayerOverrides,
+} from '../utils/textLayers';
+
+interface PosterLayoutEditorProps {
+  isOpen: boolean;
+  onClose: () => void;
+  renderOptions: PosterRenderOptions | null; // The poster as it is drawn now, including boxes placed earlier
+  onSave: (textLayers: TextLayerOverrides | undefined) => void;
+  isSaving: boolean;
+}
+
+type DragMode = 'move' | 'resizeLeft' | 'resizeRight' | 'scale';
+
+interface DragState {
+  pointerId: number;
+  layer: TextLayerId;
+  mode: DragMode;
+  // Where the pointer went down, as fractions of the poster.
+  startX: number;
+  startY: number;
+  start: TextLayerOverride;
+  height: number; // The block's height as a fraction of the poster, for snapping its bottom edge and centre
+}
+
+// Distance on screen within which a box snaps to a guide.
+const SNAP_DISTANCE_PX = 8;
+// Arrow keys move the selected box by this many poster pixels, or the larger step with Shift.
+const NUDGE_PX = 2;
+const LARGE_NUDGE_PX = 20;
+// Posters made before formats existed have no safe area of their own.
+const FALLBACK_SAFE_INSETS = { top: 0.075, right: 0.075, bottom: 0.075, left: 0.075 };
+const ARROW_KEY_DIRECTIONS: Record<string, [number, number]> = {
+  ArrowLeft: [-1, 0],
+  ArrowRight: [1, 0],
+  ArrowUp: [0, -1],
+  ArrowDown: [0, 1],
+};
+const ALIGN_OPTIONS: { id: TextAlign; label: string }[] = [
+  { id: 'left', label: 'Left' },
+  { id: 'center', label: 'Centre' },
+  { id: 'right', label: 'Right' },
+];
+
+// The block's current box as a layer, for the first time it is moved or restyled.
+// One pixel of slack on each side keeps the text wrapping exactly as it does now.
+const layerFromBlock = (block: LaidOutBlock, layout: PosterLayout): TextLayerOverride => ({
+  x: (block.bounds.x - 1) / layout.trim.width,
+  y: block.bounds.y / layout.trim.height,
+  width: (block.bounds.width + 2) / layout.trim.width,
+  fontSize: block.fontSize / layout.unit,
+});
+
+const boxOf = (block: LaidOutBlock, layer: TextLayerOverride | undefined, layout: PosterLayout): LayerBox => {
+  const height = block.bounds.height / layout.trim.height;
+  return layer
+    ? { x: layer.x, y: layer.y, width: layer.width, height }
+    : { x: block.bounds.x / layout.trim.width, y: block.bounds.y / layout.trim.height, width: block.bounds.width / layout.trim.width, height };
+};
+
+const percent = (fraction: number) => `${fraction * 100}%`;
+
+// Full-screen editor for the text on a finished poster: every text block is a box that can be dragged,
+// resized and restyled with the mouse, by touch or with the arrow keys. The poster is redrawn as it changes.
+export const PosterLayoutEditor: React.FC<PosterLayoutEditorProps> = ({ isOpen, onClose, renderOptions, onSave, isSaving }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const stageRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<DragState | null>(null);
+  // The next options to draw; a change made while a redraw runs is drawn as soon as that one ends.
+  const redrawRef = useRef<{ isDrawing: boolean; next: PosterRenderOptions | null }>({ isDrawing: false, next: null });
+  const [textLayers, setTextLayers] = useState<TextLayerOverrides>({});
+  const [layout, setLayout] = useState<PosterLayout | null>(null);
+  const [selectedLayer, setSelectedLayer] = useState<TextLayerId | null>(null);
+  const [guides, setGuides] = useState<SnapGuide[]>([]);
+  const [isSnapping, setIsSnapping] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Start from the poster's saved boxes every time the editor opens, so cancelled changes are dropped.
+  useEffect(() => {
+    if (!isOpen) return;
+    setTextLayers(renderOptions?.textLayers ?? {});
+    setLayout(null);
+    setSelectedLayer(null);
+    setGuides([]);
+    setError(null);
+  }, [isOpen, renderOptions]);
+
+  useEffect(() => {
+    if (!isOpen || !renderOptions) return;
+    const redraw = redrawRef.current;
+    redraw.next = { ...renderOptions, textLayers };
+    if (redraw.isDrawing) return;
+    redraw.isDrawing = true;
+    (async () => {
+      try {
+        while (redraw.next && canvasRef.current) {
+          const options = redraw.next;
+          redraw.next = null;
+          setLayout(await drawPoster(canvasRef.current, options));
+        }
+      } catch (err) {
+        console.error('Poster Editor: Failed to draw the poster:', err);
+        setError('The poster could not be drawn. Close the editor and try again.');
+      } finally {
+        redraw.isDrawing = false;
+      }
+    })();
+  }, [isOpen, renderOptions, textLayers]);
+
+  if (!isOpen || !renderOptions) {
+    return null;
+  }
+
+  const format = renderOptions.formatId ? getPosterFormat(renderOptions.formatId) : null;
+  const safeInsets = format?.safeInsets ?? FALLBACK_SAFE_INSETS;
+  const aspectRatio = format ? format.width / format.height : layout ? layout.trim.width / layout.trim.height : 1;
+  const blocks = layout?.blocks ?? [];
+  const selectedBlock = blocks.find(block => block.layer === selectedLayer);
+  const hasChanges = Object.keys(textLayers).length > 0;
+
+  const layerFor = (id: TextLayerId): TextLayerOverride | null => {
+    const saved = textLayers[id];
+    if (saved) return saved;
+    const block = blocks.find(candidate => candidate.layer === id);
+    return block && layout ? layerFromBlock(block, layout) : null;
+  };
+
+  const setLayer = (id: TextLayerId, layer: TextLayerOverride) =>
+    setTextLayers(prev => ({ ...prev, [id]: clampTextLayer(layer) }));
+
+  const updateSelectedLayer = (changes: Partial<TextLayerOverride>) => {
+    const layer = selectedLayer ? layerFor(selectedLayer) : null;
+    if (selectedLayer && layer) setLayer(selectedLayer, { ...layer, ...changes });
+  };
+
+  const resetLayer = (id: TextLayerId) =>
+    setTextLayers(prev => {
+      const { [id]: _removed, ...rest } = prev;
+      return rest;
+    });
+
+  const pointerPosition = (e: React.PointerEvent) => {
+    const rect = stageRef.current!.getBoundingClientRect();
+    return { x: (e.clientX - rect.left) / rect.width, y: (e.clientY - rect.top) / rect.height, rect };
+  };
+
+  const handleBoxPointerDown = (e: React.PointerEvent, id: TextLayerId, mode: DragMode) => {
+    const block = blocks.find(candidate => candidate.layer === id);
+    const start = layerFor(id);
+    if (isSaving || !layout || !block || !start || !stageRef.current) return;
+    e.stopPropagation();
+    e.preventDefault();
+    stageRef.current.setPointerCapture(e.pointerId);
+    stageRef.current.focus({ preventScroll: true });
+    const { x, y } = pointerPosition(e);
+    dragRef.current = { pointerId: e.pointerId, layer: id, mode, startX: x, startY: y, start, height: block.bounds.height / layout.trim.height };
+    setSelectedLayer(id);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    if (!drag || drag.pointerId !== e.pointerId || !layout) return;
+    const { x, y, rect } = pointerPosition(e);
+    const dx = x - drag.startX;
+    const dy = y - drag.startY;
+    const threshold = { x: SNAP_DISTANCE_PX / rect.width, y: SNAP_DISTANCE_PX / rect.height };
+    const otherBoxes = blocks.filter(block => block.layer !== drag.layer).map(block => boxOf(block, textLayers[block.layer], layout));
+    const targets = snapTargetsFor(safeInsets, otherBoxes);
+    const snapVerticalEdge = (edge: number) => isSnapping ? snapEdge(edge, targets.vertical, threshold.x) : { edge, guide: null };
+    const { start } = drag;
+    let next: TextLayerOverride;
+    let nextGuides: SnapGuide[] = [];
+
+    switch (drag.mode) {
+      case 'move': {
+        const moved: LayerBox = { x: start.x + dx, y: start.y + dy, width: start.width, height: drag.height };
+        const snapped = isSnapping ? snapBox(moved, targets, threshold) : { box: moved, guides: [] };
+        next = { ...start, x: snapped.box.x, y: snapped.box.y };
+        nextGuides = snapped.guides;
+        break;
+      }
+      case 'resizeLeft': {
+        const right = start.x + start.width;
+        const { edge, guide } = snapVerticalEdge(start.x + dx);
+        const left = Math.min(edge, right - MIN_LAYER_WIDTH);
+        next = { ...start, x: left, width: right - left };
+        if (guide !== null) nextGuides = [{ orientation: 'vertical', position: guide }];
+        break;
+      }
+      case 'resizeRight': {
+        const { edge, guide } = snapVerticalEdge(start.x + start.width + dx);
+        next = { ...start, width: Math.max(MIN_LAYER_WIDTH, edge - start.x) };
+        if (guide !== null) nextGuides = [{ orientation: 'vertical', position: guide }];
+        break;
+      }
+      case 'scale': {
+        // The corner grows the text and its box together, so the wrapping stays the same.
+        const factor = Math.min(
+          MAX_LAYER_FONT_SIZE / start.fontSize,
+          Math.max(MIN_LAYER_FONT_SIZE / start.fontSize, (start.width + dx) / start.width)
+        );
+        next = { ...start, width: start.width * factor, fontSize: start.fontSize * factor };
+        break;
+      }
+    }
+    setGuides(nextGuides);
+    setLayer(drag.layer, next);
+  };
+
+  const handlePointerEnd = (e: React.PointerEvent) => {
+    if (dragRef.current?.pointerId !== e.pointerId) return;
+    dragRef.current = null;
+    setGuides([]);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (!selectedLayer || !layout) return;
+    if (e.key === 'Escape') {
+      e.preventDefault();
+      e.stopPropagation();
+      setSelectedLayer(null);
+      return;
+    }
+    const direction = ARROW_KEY_DIRECTIONS[e.key];
+    const layer = layerFor(selectedLayer);
+    if (!direction || !layer) return;
+    e.preventDefault();
+    const step = e.shiftKey ? LARGE_NUDGE_PX : NUDGE_PX;
+    setLayer(selectedLayer, { ...layer, x: layer.x + (direction[0] * step) / layout.trim.width, y: layer.y + (direction[1] * step) / layout.trim.height });
+  };
+
+  const selectedLayerValues = selectedLayer ? layerFor(selectedLayer) : null;
+  const selectedStyle = selectedBlock && layout ? selectedBlock.style ?? layout.textStyle : null;
+  const secondaryButtonClass = 'px-3 py-1.5 text-xs sm:text-sm font-medium rounded-lg border border-purple-300 text-purple-700 hover:bg-purple-50 focus:outline-none focus:ring-2 focus:ring-purple-500 disabled:opacity-50 disabled:cursor-not-allowed';
+  const chipClass = (isSelected: boolean) =>
+    `px-3 py-1.5 rounded-full text-xs sm:text-sm font-medium border transition-all duration-200 focus:outline-none focus:ring-2 focus:ring-purple-500
+     ${isSelected ? 'bg-purple-600 border-purple-600 text-white shadow-md' : 'bg-white border-gray-300 text-gray-700 hover:border-purple-400 hover:text-purple-700'}`;
+  const handleClass = 'absolute w-5 h-5 sm:w-4 sm:h-4 -translate-x-1/2 -translate-y-1/2 bg-white border-2 border-purple-600 rounded-full shadow';
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-60 backdrop-blur-sm flex items-center justify-center z-50 p-2 sm:p-4"
+      aria-labelledby="poster-layout-editor-title"
+      role="dialog"
+      aria-modal="true"
+    >
+      <div className="bg-white rounded-xl shadow-2xl p-4 md:p-6 w-full max-w-5xl max-h-full overflow-y-auto">
+        <div className="flex justify-between items-center mb-3">
+          <h2 id="poster-layout-editor-title" className="text-xl sm:text-2xl font-bold text-gray-800">Edit Layout</h2>
+          <button
+            onClick={onClose}
+            className="p-1 text-gray-400 hover:text-gray-600 rounded-full hover:bg-gray-100 focus:outline-none focus:ring-2 focus:ring-purple-500"
+            aria-label="Close the layout editor"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex flex-col md:flex-row gap-4 md:gap-6">
+          <div className="md:flex-1 min-w-0">
+            <div
+              ref={stageRef}
+              tabIndex={0}
+              role="application"
+              aria-label="Poster layout. Drag a text box to move it, or select it and use the arrow keys (Shift for bigger steps)."
+              onPointerDown={() => setSelectedLayer(null)}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerEnd}
+              onPointerCancel={handlePointerEnd}
+              onKeyDown={handleKeyDown}
+              className="relative mx-auto touch-none select-none rounded-md shadow-md overflow-hidden bg-gray-100 focus:outline-none focus-visible:ring-2 focus-visible:ring-purple-500"
+              style={{ aspectRatio: `${aspectRatio}`, width: `min(100%, calc(65vh * ${aspectRatio}))` }}
+            >
+              <canvas ref={canvasRef} className="block w-full h-full" aria-hidden="true" />
+              {!layout && !error && (
+                <p className="absolute inset-0 flex items-center justify-center text-sm text-gray-600 animate-pulse">Drawing the poster...</p>
+              )}
+              {layout && blocks.map(block => {
+                const box = boxOf(block, textLayers[block.layer], layout);
+                const isSelected = block.layer === selectedLayer;
+                return (
+                  <div
+                    key={block.layer}
+                    role="button"
+                    aria-label={textLayerLabel(block.layer)}
+                    aria-pressed={isSelected}
+                    onPointerDown={e => handleBoxPointerDown(e, block.layer, 'move')}
+                    className={`absolute cursor-move ${isSelected ? 'outline outline-2 outline-purple-500' : 'hover:outline hover:outline-1 hover:outline-white/80'}`}
+                    style={{ left: percent(box.x), top: percent(box.y), width: percent(box.width), height: percent(box.height) }}
+                  >
+                    {isSelected && (
+                      <>
+                        <span
+                          className={`${handleClass} left-0 top-1/2 cursor-ew-resize`}
+                          onPointerDown={e => handleBoxPointerDown(e, block.layer, 'resizeLeft')}
+                          aria-hidden="true"
+                        />
+                        <span
+                          className={`${handleClass} left-full top-1/2 cursor-ew-resize`}
+                          onPointerDown={e => handleBoxPointerDown(e, block.layer, 'resizeRight')}
+                          aria-hidden="true"
+                        />
+                        <span
+                          className={`${handleClass} left-full top-full cursor-nwse-resize bg-purple-600`}
+                          onPointerDown={e => handleBoxPointerDown(e, block.layer, 'scale')}
+                          aria-hidden="true"
+                        />
+                      </>
+                    )}
+                  </div>
+                );
+              })}
+              {guides.map(guide => (
+                <div
+                  key={`${guide.orientation}-${guide.position}`}
+                  className={`absolute bg-pink-500 pointer-events-none ${guide.orientation === 'vertical' ? 'top-0 bottom-0 w-px' : 'left-0 right-0 h-px'}`}
+                  style={guide.orientation === 'vertical' ? { left: percent(guide.position) } : { top: percent(guide.position) }}
+                />
+              ))}
+            </div>
+            <p className="text-xs text-gray-500 mt-2 text-center">
+              Drag a box to move it. The side handles change where the text wraps and the corner makes it bigger or smaller.
+            </p>
+          </div>
+
+          <div className="md:w-72 space-y-4">
+            <div>
+              <p className="text-sm font-semibold text-gray-700 mb-2">Text boxes</p>
+              <div className="flex flex-wrap gap-2">
+                {blocks.map(block => (
+                  <button
+                    key={block.layer}
+                    type="button"
+                    onClick={() => {
+                      setSelectedLayer(block.layer);
+                      stageRef.current?.focus({ preventScroll: true });
+                    }}
+                    className={chipClass(block.layer === selectedLayer)}
+                    aria-pressed={block.layer === selectedLayer}
+                  >
+                    {textLayerLabel(block.layer)}{textLayers[block.layer] ? ' •' : ''}
+                  </button>
+                ))}
+              </div>
+              {blocks.length > 0 && <p className="text-xs text-gray-500 mt-1">• placed by hand</p>}
+            </div>
+
+            {selectedLayer && selectedLayerValues && selectedStyle && layout ? (
+              <div className="space-y-3 border-t border-gray-200 pt-3">
+                <label className="block text-sm text-gray-700">
+                  Font size: {Math.round(selectedLayerValues.fontSize * layout.unit)} px
+                  <input
+                    type="range"
+                    min={MIN_LAYER_FONT_SIZE}
+                    max={MAX_LAYER_FONT_SIZE}
+                    step={0.001}
+                    value={selectedLayerValues.fontSize}
+                    onChange={e => updateSelectedLayer({ fontSize: Number(e.target.value) })}
+                    className="w-full accent-purple-600"
+                  />
+                </label>
+
+                <div>
+                  <p className="text-sm text-gray-700 mb-1">Alignment</p>
+                  <div className="flex gap-2">
+                    {ALIGN_OPTIONS.map(option => (
+                      <button
+                        key={option.id}
+                        type="button"
+                        onClick={() => updateSelectedLayer({ align: option.id })}
+                        className={chipClass((selectedBlock?.align ?? 'center') === option.id)}
+                        aria-pressed={selectedBlock?.align === option.id}
+                      >
+                        {option.label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="flex flex-wrap items-center gap-x-4 gap-y-2 text-sm text-gray-700">
+                  <label className="flex items-center gap-2">
+                    Colour
+                    <input
+                      type="color"
+                      value={selectedStyle.fill}
+                      onChange={e => updateSelectedLayer({ fill: e.target.value })}
+                      className="h-8 w-10 rounded border border-gray-300 cursor-pointer"
+                    />
+                  </label>
+                  <label className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={selectedStyle.stroke !== null}
+                      onChange={e => updateSelectedLayer({ stroke: e.target.checked ? '#000000' : null })}
+                      className="accent-purple-600"
+                    />
+                    Outline
+                  </label>
+                  {selectedStyle.stroke !== null && (
+                    <input
+                      type="color"
+                      value={selectedStyle.stroke}
+                      onChange={e => updateSelectedLayer({ stroke: e.target.value })}
+                      className="h-8 w-10 rounded border border-gray-300 cursor-pointer"
+                      aria-label="Outline colour"
+                    />
+                  )}
+                  <label className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={selectedStyle.shadow}
+                      onChange={e => updateSelectedLayer({ shadow: e.target.checked })}
+                      className="accent-purple-600"
+                    />
+                    Shadow
+                  </label>
+                </div>
+
+                <button
+                  type="button"
+                  onClick={() => resetLayer(selectedLayer)}
+                  disabled={!textLayers[selectedLayer]}
+                  className={secondaryButtonClass}
+                >
+                  Put this text back
+                </button>
+              </div>
+            ) : (
+              <p className="text-sm text-gray-500 border-t border-gray-200 pt-3">Select a text box on the poster or above to change its size, colour and alignment.</p>
+            )}
+
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input type="checkbox" checked={isSnapping} onChange={e => setIsSnapping(e.target.checked)} className="accent-purple-600" />
+              Snap to guides
+            </label>
+
+            {error && <p className="text-sm text-red-600" role="alert">{error}</p>}
+          </div>
+        </div>
+
+        <div className="flex flex-wrap justify-between gap-2 mt-5">
+          <button
+            type="button"
+            onClick={() => {
+              setTextLayers({});
+              setSelectedLayer(null);
+            }}
+            disabled={!hasChanges || isSaving}
+            className={secondaryButtonClass}
+            title="Return every text box to the layout's own placement"
+          >
+            Reset all
+          </button>
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-sm font-medium rounded-lg text-gray-600 hover:bg-gray-100 focus:outline-none focus:ring-2 focus:ring-purple-500"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={() => onSave(hasChanges ? textLayers : undefined)}
+              disabled={isSaving || !layout}
+              className="px-4 py-2 text-sm font-medium rounded-lg text-white bg-purple-600 hover:bg-purple-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-purple-500 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isSaving ? 'Saving...' : 'Save layout'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
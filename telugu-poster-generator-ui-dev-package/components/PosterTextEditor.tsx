@@ -0,0 +1,84 @@
+
+import React, { useState } from 'react';
+import { HeadlineFields } from './HeadlineFields';
+import { SecondaryTextFields } from './SecondaryTextFields';
+import {
+  posterTextOf,
+  SECONDARY_TEXT_FIELDS,
+  textLinesOf,
+  type PosterSecondaryText,
+  type PosterText,
+  type SecondaryTextField,
+} from '../utils/posterContent';
+import type { LanguageId } from '../utils/languages';
+
+interface PosterTextEditorProps {
+  initialText: PosterText;
+  onApply: (text: PosterText) => void;
+  onCancel: () => void;
+  isApplying: boolean;
+}
+
+export const PosterTextEditor: React.FC<PosterTextEditorProps> = ({
+  initialText,
+  onApply,
+  onCancel,
+  isApplying,
+}) => {
+  const [text, setText] = useState<PosterText>(() => posterTextOf(initialText));
+
+  const initialLines = textLinesOf(initialText);
+  const hasChanges = textLinesOf(text).some((line, index) => line !== initialLines[index]);
+  const setField = (field: SecondaryTextField, value: string) => setText(prev => ({ ...prev, [field]: value }));
+  const setHeadline = (language: LanguageId, value: string) => setText(prev => ({
+    ...prev,
+    headlines: prev.headlines.map(headline => headline.language === language ? { ...headline, text: value } : headline),
+  }));
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!hasChanges || isApplying) return;
+    onApply({
+      headlines: text.headlines.map(headline => ({ ...headline, text: headline.text.trim() })),
+      ...Object.fromEntries(SECONDARY_TEXT_FIELDS.map(field => [field, text[field].trim()])) as PosterSecondaryText,
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="mt-3 sm:mt-4 p-3 sm:p-4 bg-purple-50 border border-purple-200 rounded-lg space-y-3">
+      <HeadlineFields
+        headlines={text.headlines}
+        onChange={setHeadline}
+        idPrefix="edit-headline"
+        disabled={isApplying}
+        inputClassName="w-full p-2 border border-gray-300 rounded-lg shadow-sm focus:ring-2 focus:ring-purple-500 focus:border-purple-500 custom-scrollbar"
+      />
+      <SecondaryTextFields
+        value={text}
+        onChange={setField}
+        idPrefix="edit-secondary"
+        disabled={isApplying}
+        inputClassName="mt-1 w-full p-2 text-sm font-normal text-gray-800 border border-gray-300 rounded-lg shadow-sm focus:ring-2 focus:ring-purple-500 focus:border-purple-500"
+      />
+      <p className="text-xs text-gray-500">Leave a field empty to remove that text. The background image stays the same.</p>
+      <div className="flex justify-end space-x-2">
+        <button
+          type="button"
+          onClick={onCancel}
+          disabled={isApplying}
+          className="px-4 py-2 text-sm font-medium rounded-lg text-gray-700 bg-white border border-gray-300 hover:bg-gray-100 focus:outline-none focus:ring-2 focus:ring-purple-500"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={!hasChanges || isApplying}
+          className={`px-4 py-2 text-sm font-medium rounded-lg text-white shadow-md focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-purple-500
+                      ${!hasChanges || isApplying ? 'bg-gray-400 cursor-not-allowed' : 'bg-purple-600 hover:bg-purple-700'}`}
+        >
+          {isApplying ? 'Updating...' : 'Update Poster'}
+        </button>
+      </div>
+    </form>
+  );
+};
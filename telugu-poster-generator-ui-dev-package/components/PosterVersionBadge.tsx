@@ -0,0 +1,33 @@
+import React from 'react';
+import type { ConversationItem } from '../App'; // Import type
+
+interface PosterVersionBadgeProps {
+  version: number;
+  refinementScope?: ConversationItem['refinementScope'];
+  parentVersion?: number;
+  onShowParent?: () => void;
+}
+
+const SCOPE_LABELS: Record<NonNullable<ConversationItem['refinementScope']>, string> = {
+  text: 'New text, same background',
+  theme: 'New background',
+  both: 'New text and background',
+};
+
+export const PosterVersionBadge: React.FC<PosterVersionBadgeProps> = ({ version, refinementScope, parentVersion, onShowParent }) => {
+  return (
+    <div className="flex flex-wrap items-center gap-2 mb-2 text-xs sm:text-sm">
+      <span className="px-2 py-0.5 rounded-full bg-purple-100 text-purple-800 font-semibold">Version {version}</span>
+      {refinementScope && <span className="text-gray-600">{SCOPE_LABELS[refinementScope]}</span>}
+      {parentVersion !== undefined && onShowParent && (
+        <button
+          type="button"
+          onClick={onShowParent}
+          className="text-purple-700 hover:underline focus:outline-none focus:ring-2 focus:ring-purple-500 rounded"
+        >
+          Based on version {parentVersion}
+        </button>
+      )}
+    </div>
+  );
+};
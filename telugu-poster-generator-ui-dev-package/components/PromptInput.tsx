@@ -1,5 +1,9 @@
 
 import React, { useEffect, useRef, useState } from 'react';
+import { TransliterationInput } from './TransliterationInput';
+import { TransliterationToggle } from './TransliterationToggle';
+import { PHOTO_FITS, readPhotoFile, type AttachedPhoto, type PhotoFit } from '../services/photoBackground';
+import { getPosterLanguage, POSTER_LANGUAGES, type LanguageId } from '../utils/languages';
 
 // Declare SpeechRecognitionEvent types if not globally available
 // These are often available in modern browser environments with "dom" lib in tsconfig
@@ -59,18 +63,38 @@ interface PromptInputProps {
   setUserPrompt: React.Dispatch<React.SetStateAction<string>>;
   onSubmit: () => void;
   isLoading: boolean;
+  // A photo to use as the background instead of a generated one, and how to fit it to the poster.
+  attachedPhoto: AttachedPhoto | null;
+  onPhotoChange: (photo: AttachedPhoto | null) => void;
+  photoFit: PhotoFit;
+  onPhotoFitChange: (fit: PhotoFit) => void;
+  speechLanguage: LanguageId; // What the microphone listens for
+  onSpeechLanguageChange: (language: LanguageId) => void;
 }
 
+const firstImageFile = (files: FileList | undefined): File | undefined =>
+  Array.from(files ?? []).find(file => file.type.startsWith('image/'));
+
 export const PromptInput: React.FC<PromptInputProps> = ({
   userPrompt,
   setUserPrompt,
   onSubmit,
-  isLoading
+  isLoading,
+  attachedPhoto,
+  onPhotoChange,
+  photoFit,
+  onPhotoFitChange,
+  speechLanguage,
+  onSpeechLanguageChange,
 }) => {
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const recognitionRef = useRef<SpeechRecognitionInstance | null>(null);
   const [isListening, setIsListening] = useState(false);
   const [speechApiSupported, setSpeechApiSupported] = useState(true);
+  const [isTransliterating, setIsTransliterating] = useState(false);
+  const [isReadingPhoto, setIsReadingPhoto] = useState(false);
+  const [isDraggingPhoto, setIsDraggingPhoto] = useState(false);
+  const [photoError, setPhotoError] = useState<string | null>(null);
 
   const canSubmit = !isLoading && userPrompt.trim() !== '';
 
@@ -86,7 +110,7 @@ export const PromptInput: React.FC<PromptInputProps> = ({
     const recognition = recognitionRef.current;
     if (!recognition) return; // Should not happen if SpeechRecognitionAPI was valid
 
-    recognition.lang = 'te-IN'; // Prioritize Telugu, should handle English too
+    recognition.lang = getPosterLanguage(speechLanguage).speechLocale; // Kept up to date by the effect below
     recognition.interimResults = false; 
     recognition.continuous = false; // Stop after first pause leading to a result
 
@@ -125,6 +149,10 @@ export const PromptInput: React.FC<PromptInputProps> = ({
     };
   }, [setUserPrompt]);
 
+  useEffect(() => {
+    if (recognitionRef.current) recognitionRef.current.lang = getPosterLanguage(speechLanguage).speechLocale;
+  }, [speechLanguage]);
+
 
   const handleMicrophoneClick = () => {
     if (!speechApiSupported || !recognitionRef.current || isLoading) return;
@@ -173,30 +201,130 @@ export const PromptInput: React.FC<PromptInputProps> = ({
     }
   };
 
+  const attachPhoto = async (file: File) => {
+    if (isLoading || isReadingPhoto) return;
+    setIsReadingPhoto(true);
+    setPhotoError(null);
+    try {
+      onPhotoChange(await readPhotoFile(file));
+    } catch (err) {
+      setPhotoError(err instanceof Error ? err.message : 'Failed to read the photo.');
+    } finally {
+      setIsReadingPhoto(false);
+    }
+  };
+
+  const handlePhotoInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) attachPhoto(file);
+  };
+
+  // A copied image pasted into the prompt is attached; pasted text is left to the textarea.
+  const handlePaste = (e: React.ClipboardEvent<HTMLDivElement>) => {
+    const file = firstImageFile(e.clipboardData.files);
+    if (!file) return;
+    e.preventDefault();
+    attachPhoto(file);
+  };
+
+  const handleDragOver = (e: React.DragEvent<HTMLDivElement>) => {
+    if (isLoading || !e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'copy';
+    setIsDraggingPhoto(true);
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    setIsDraggingPhoto(false);
+    const file = firstImageFile(e.dataTransfer.files);
+    if (!file) return;
+    e.preventDefault();
+    attachPhoto(file);
+  };
+
   return (
     <div className="space-y-3">
-      <div>
-        <div className="relative flex items-center">
-          <textarea
-            ref={textareaRef}
+      <div
+        onPaste={handlePaste}
+        onDragOver={handleDragOver}
+        onDragLeave={() => setIsDraggingPhoto(false)}
+        onDrop={handleDrop}
+      >
+        {attachedPhoto && (
+          <div className="flex flex-wrap items-center gap-3 mb-2 p-2 bg-purple-50 border border-purple-200 rounded-lg">
+            <img src={attachedPhoto.dataUrl} alt="" className="h-12 w-12 object-cover rounded-md border border-purple-200" />
+            <div className="min-w-0 flex-1">
+              <p className="text-sm font-medium text-gray-800 truncate" title={attachedPhoto.name}>{attachedPhoto.name}</p>
+              <p className="text-xs text-gray-500">Used as the background instead of a generated one</p>
+            </div>
+            <div className="flex rounded-lg border border-purple-300 overflow-hidden" role="radiogroup" aria-label="How to fit the photo">
+              {PHOTO_FITS.map(fit => (
+                <button
+                  key={fit.id}
+                  type="button"
+                  role="radio"
+                  aria-checked={photoFit === fit.id}
+                  onClick={() => onPhotoFitChange(fit.id)}
+                  disabled={isLoading}
+                  title={fit.description}
+                  className={`px-3 py-1 text-xs font-medium focus:outline-none focus:ring-2 focus:ring-inset focus:ring-purple-500 disabled:opacity-50 ${
+                    photoFit === fit.id ? 'bg-purple-600 text-white' : 'bg-white text-purple-700 hover:bg-purple-50'
+                  }`}
+                >
+                  {fit.label}
+                </button>
+              ))}
+            </div>
+            <button
+              type="button"
+              onClick={() => onPhotoChange(null)}
+              disabled={isLoading}
+              className="p-1 text-gray-400 hover:text-gray-600 rounded-full hover:bg-white focus:outline-none focus:ring-2 focus:ring-purple-500 disabled:opacity-50"
+              aria-label="Remove photo"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+        )}
+        <div className={`relative flex items-center rounded-lg ${isDraggingPhoto ? 'ring-2 ring-purple-500 ring-offset-2' : ''}`}>
+          <TransliterationInput
+            textareaRef={textareaRef}
             id="userPrompt"
             value={userPrompt}
-            onChange={(e) => setUserPrompt(e.target.value)}
+            onValueChange={setUserPrompt}
+            isTransliterating={isTransliterating}
+            suggestionsPlacement="above"
             onKeyDown={handleSubmitOnEnter}
-            placeholder="Describe your poster idea (or use the mic)..."
+            placeholder={attachedPhoto ? 'Describe the greeting for your photo...' : 'Describe your poster idea (or use the mic)...'}
             rows={1}
-            className="w-full p-3 pr-[5.75rem] border border-gray-300 rounded-lg shadow-sm focus:ring-2 focus:ring-purple-500 focus:border-purple-500 transition-shadow duration-200 resize-none overflow-y-auto custom-scrollbar"
+            className="w-full p-3 pr-[8.25rem] border border-gray-300 rounded-lg shadow-sm focus:ring-2 focus:ring-purple-500 focus:border-purple-500 transition-shadow duration-200 resize-none overflow-y-auto custom-scrollbar"
             disabled={isLoading}
             aria-describedby="prompt-description"
             style={{ lineHeight: '1.5rem' }}
           />
-          
+
+          <label
+            title="Use your own photo as the background (you can also drop or paste one here)"
+            className={`absolute right-[5.75rem] top-1/2 transform -translate-y-1/2 p-1.5 rounded-full transition-all duration-200 ease-in-out focus-within:ring-2 focus-within:ring-purple-500
+                        ${isLoading || isReadingPhoto ? 'text-gray-400 cursor-not-allowed' : 'text-purple-600 hover:bg-purple-100 cursor-pointer'} ${isReadingPhoto ? 'animate-pulse' : ''}`}
+          >
+            {/* Photo Icon */}
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" aria-hidden="true">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
+            </svg>
+            <span className="sr-only">{attachedPhoto ? 'Replace photo' : 'Attach a photo'}</span>
+            <input type="file" accept="image/*" className="sr-only" onChange={handlePhotoInputChange} disabled={isLoading || isReadingPhoto} />
+          </label>
+
           <button
             type="button"
             onClick={handleMicrophoneClick}
             disabled={isLoading || !speechApiSupported || isListening}
             aria-label={isListening ? "Stop listening" : "Use microphone"}
-            title={!speechApiSupported ? "Speech recognition not supported by your browser" : (isListening ? "Listening..." : "Use microphone (Supports Telugu & English)")}
+            title={!speechApiSupported ? "Speech recognition not supported by your browser" : (isListening ? "Listening..." : `Use microphone (${getPosterLanguage(speechLanguage).name})`)}
             className={`absolute right-[3.25rem] top-1/2 transform -translate-y-1/2 p-1.5 rounded-full text-white transition-all duration-200 ease-in-out focus:outline-none focus:ring-2 focus:ring-offset-1 focus:ring-offset-white
                         ${isLoading || !speechApiSupported ? 'bg-gray-400 cursor-not-allowed scale-95 opacity-80' 
                           : isListening ? 'bg-red-600 hover:bg-red-700 active:bg-red-800 animate-pulse' 
@@ -224,10 +352,32 @@ export const PromptInput: React.FC<PromptInputProps> = ({
             </svg>
           </button>
         </div>
+        {photoError && <p className="text-sm text-red-600 mt-1" role="alert">{photoError}</p>}
         <div className="flex justify-between items-center mt-1">
             <p id="prompt-description" className="text-xs text-gray-500">
-              Press Enter or click the arrow to send. Shift+Enter for new line. Click mic for voice input.
+              {isTransliterating
+                ? 'Type Telugu in English letters (ugadi → ఉగాది); Esc keeps a word in English. Press Enter to send.'
+                : 'Press Enter or click the arrow to send. Shift+Enter for new line. Click mic for voice input, or the photo icon to use your own picture.'}
             </p>
+            <div className="flex items-center gap-3 flex-shrink-0 ml-2">
+              <select
+                value={speechLanguage}
+                onChange={(e) => onSpeechLanguageChange(e.target.value as LanguageId)}
+                disabled={isLoading || !speechApiSupported}
+                aria-label="Voice input language"
+                title="Language the microphone listens for"
+                className="text-xs sm:text-sm text-gray-600 bg-transparent border border-gray-300 rounded-md py-0.5 pl-1 focus:outline-none focus:ring-2 focus:ring-purple-500"
+              >
+                {POSTER_LANGUAGES.map(language => (
+                  <option key={language.id} value={language.id}>🎤 {language.nativeName}</option>
+                ))}
+              </select>
+              <TransliterationToggle
+                isOn={isTransliterating}
+                onToggle={() => setIsTransliterating(prev => !prev)}
+                disabled={isLoading}
+              />
+            </div>
         </div>
       </div>
     </div>
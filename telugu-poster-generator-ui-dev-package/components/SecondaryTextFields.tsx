@@ -0,0 +1,62 @@
+
+import React, { useState } from 'react';
+import {
+  SECONDARY_TEXT_FIELDS,
+  SECONDARY_TEXT_LABELS,
+  type PosterSecondaryText,
+  type SecondaryTextField,
+} from '../utils/posterContent';
+
+interface SecondaryTextFieldsProps {
+  value: PosterSecondaryText;
+  onChange: (field: SecondaryTextField, text: string) => void;
+  idPrefix: string;
+  inputClassName: string;
+  disabled?: boolean;
+}
+
+const PLACEHOLDERS: Record<SecondaryTextField, string> = {
+  subheadline: 'Fresh sweets, made with pure ghee',
+  dateTime: '14 April, 10 AM',
+  venue: 'Main Road, Guntur',
+  callToAction: 'All are welcome!',
+  attribution: '- Ravi & family',
+};
+
+// The lines under the headline, folded away until they are needed.
+export const SecondaryTextFields: React.FC<SecondaryTextFieldsProps> = ({ value, onChange, idPrefix, inputClassName, disabled }) => {
+  const filledCount = SECONDARY_TEXT_FIELDS.filter(field => value[field].trim() !== '').length;
+  const [isOpen, setIsOpen] = useState(filledCount > 0);
+
+  return (
+    <div>
+      <button
+        type="button"
+        onClick={() => setIsOpen(prev => !prev)}
+        aria-expanded={isOpen}
+        aria-controls={`${idPrefix}-fields`}
+        className="text-sm font-semibold text-purple-700 hover:underline focus:outline-none focus:ring-2 focus:ring-purple-500 rounded"
+      >
+        {isOpen ? '▾' : '▸'} More details{filledCount > 0 ? ` (${filledCount})` : ''}
+      </button>
+      {isOpen && (
+        <div id={`${idPrefix}-fields`} className="mt-2 grid grid-cols-1 sm:grid-cols-2 gap-2">
+          {SECONDARY_TEXT_FIELDS.map(field => (
+            <label key={field} htmlFor={`${idPrefix}-${field}`} className="block text-xs font-semibold text-gray-600">
+              {SECONDARY_TEXT_LABELS[field]}
+              <input
+                id={`${idPrefix}-${field}`}
+                type="text"
+                value={value[field]}
+                onChange={(e) => onChange(field, e.target.value)}
+                placeholder={PLACEHOLDERS[field]}
+                disabled={disabled}
+                className={inputClassName}
+              />
+            </label>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
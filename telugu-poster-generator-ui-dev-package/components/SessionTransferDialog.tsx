@@ -0,0 +1,156 @@
+import React, { useEffect, useState } from 'react';
+import type { ConversationSession } from '../App'; // Import type
+import { downloadBlob } from '../services/posterExport';
+import {
+  buildSessionFile,
+  readSessionFile,
+  SESSION_FILE_EXTENSION,
+  SessionFileError,
+  sessionFileName,
+  type SessionImportResult,
+} from '../services/sessionTransfer';
+
+interface SessionTransferDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  sessions: ConversationSession[];
+  selectedSessionId: string | null; // The chat offered for a single-chat export
+  onImportSessions: (sessions: ConversationSession[]) => SessionImportResult;
+}
+
+type TransferStatus = { kind: 'busy' | 'done' | 'error'; message: string } | null;
+
+// Moves chats between browsers: export one chat or all of them to a file, or add the chats from such a file.
+export const SessionTransferDialog: React.FC<SessionTransferDialogProps> = ({
+  isOpen,
+  onClose,
+  sessions,
+  selectedSessionId,
+  onImportSessions,
+}) => {
+  const [status, setStatus] = useState<TransferStatus>(null);
+
+  useEffect(() => {
+    if (isOpen) setStatus(null);
+  }, [isOpen]);
+
+  if (!isOpen) {
+    return null;
+  }
+
+  // The empty "New Chat" placeholder has nothing worth sending.
+  const exportableSessions = sessions.filter(session => session.items.length > 0);
+  const selectedSession = exportableSessions.find(session => session.id === selectedSessionId);
+  const isBusy = status?.kind === 'busy';
+
+  const handleExport = async (toExport: ConversationSession[]) => {
+    setStatus({ kind: 'busy', message: 'Preparing the file...' });
+    try {
+      downloadBlob(await buildSessionFile(toExport), sessionFileName(toExport));
+      setStatus({ kind: 'done', message: `Exported ${toExport.length} ${toExport.length === 1 ? 'chat' : 'chats'}.` });
+    } catch (err) {
+      console.error('Session Transfer: Export failed:', err);
+      setStatus({ kind: 'error', message: 'The chats could not be exported. Some images may no longer be available.' });
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setStatus({ kind: 'busy', message: `Reading ${file.name}...` });
+    try {
+      const { importedIds, renamedCount } = onImportSessions(await readSessionFile(file));
+      setStatus({
+        kind: 'done',
+        message: `Imported ${importedIds.length} ${importedIds.length === 1 ? 'chat' : 'chats'}.` +
+          (renamedCount > 0 ? ` ${renamedCount} already existed here and ${renamedCount === 1 ? 'was' : 'were'} added as a copy.` : ''),
+      });
+    } catch (err) {
+      console.error('Session Transfer: Import failed:', err);
+      setStatus({ kind: 'error', message: err instanceof SessionFileError ? err.message : 'The file could not be imported.' });
+    }
+  };
+
+  const secondaryButtonClass = 'px-4 py-2 text-sm font-medium rounded-lg border border-purple-300 text-purple-700 hover:bg-purple-50 focus:outline-none focus:ring-2 focus:ring-purple-500 disabled:opacity-50 disabled:cursor-not-allowed';
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-60 backdrop-blur-sm flex items-center justify-center z-50 p-4"
+      aria-labelledby="session-transfer-title"
+      role="dialog"
+      aria-modal="true"
+    >
+      <div className="bg-white rounded-xl shadow-2xl p-6 md:p-8 w-full max-w-lg max-h-full overflow-y-auto">
+        <div className="flex justify-between items-center mb-4">
+          <h2 id="session-transfer-title" className="text-2xl font-bold text-gray-800">Export &amp; Import Chats</h2>
+          <button
+            onClick={onClose}
+            className="p-1 text-gray-400 hover:text-gray-600 rounded-full hover:bg-gray-100 focus:outline-none focus:ring-2 focus:ring-purple-500"
+            aria-label="Close export and import"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+        <p className="text-gray-600 mb-6 text-sm">
+          A chat file holds the prompts, poster text and every image, so a colleague can open the chat in their own browser and carry on.
+        </p>
+
+        <div className="space-y-6">
+          <div>
+            <p className="text-sm font-semibold text-gray-700 mb-2">Export</p>
+            <div className="flex flex-wrap gap-2">
+              <button
+                type="button"
+                onClick={() => selectedSession && handleExport([selectedSession])}
+                disabled={!selectedSession || isBusy}
+                className={`${secondaryButtonClass} max-w-full truncate`}
+                title={selectedSession?.title}
+              >
+                {selectedSession ? `This chat: ${selectedSession.title || 'Untitled Chat'}` : 'This chat (empty)'}
+              </button>
+              <button
+                type="button"
+                onClick={() => handleExport(exportableSessions)}
+                disabled={exportableSessions.length === 0 || isBusy}
+                className={secondaryButtonClass}
+              >
+                All chats ({exportableSessions.length})
+              </button>
+            </div>
+          </div>
+
+          <div>
+            <p className="text-sm font-semibold text-gray-700 mb-2">Import</p>
+            <label className={`inline-block cursor-pointer focus-within:ring-2 focus-within:ring-purple-500 ${secondaryButtonClass} ${isBusy ? 'opacity-50 pointer-events-none' : ''}`}>
+              Choose a chat file...
+              <input type="file" accept={`${SESSION_FILE_EXTENSION},application/json`} className="sr-only" onChange={handleImport} disabled={isBusy} />
+            </label>
+            <p className="text-xs text-gray-500 mt-2">Imported chats are added to your list; nothing here is replaced.</p>
+          </div>
+
+          {status && (
+            <p
+              className={`text-sm ${status.kind === 'error' ? 'text-red-600' : status.kind === 'busy' ? 'text-gray-600 animate-pulse' : 'text-green-700'}`}
+              role={status.kind === 'error' ? 'alert' : 'status'}
+            >
+              {status.message}
+            </p>
+          )}
+        </div>
+
+        <div className="flex justify-end mt-6">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium rounded-lg text-gray-600 hover:bg-gray-100 focus:outline-none focus:ring-2 focus:ring-purple-500"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
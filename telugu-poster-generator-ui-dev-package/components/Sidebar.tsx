@@ -1,5 +1,9 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import type { ConversationSession } from '../App'; // Import type
+import type { SessionFolder } from '../services/sessionFolderStorage';
+import { searchSessions, SESSION_SORT_ORDERS, sortSessions, type SessionSortOrder } from '../utils/sessionList';
+import type { UsageTotals } from '../utils/usageSummary';
+import { formatUsd } from '../utils/usagePricing';
 
 interface SidebarProps {
   sessions: ConversationSession[];
@@ -7,8 +11,25 @@ interface SidebarProps {
   onNewSession: () => void;
   onSelectSession: (sessionId: string) => void;
   onDeleteSession: (sessionId: string) => void;
+  onExportSession: (sessionId: string) => void;
+  onOpenSessionTransfer: () => void;
+  onRenameSession: (sessionId: string, title: string) => void;
+  onTogglePinSession: (sessionId: string) => void;
+  onMoveSessionToFolder: (sessionId: string, folderId: string | null) => void;
+  folders: SessionFolder[];
+  onCreateFolder: (name: string) => string; // Returns the new folder's id
+  onRenameFolder: (folderId: string, name: string) => void;
+  onDeleteFolder: (folderId: string) => void;
+  sortOrder: SessionSortOrder;
+  onSortOrderChange: (order: SessionSortOrder) => void;
   isCollapsed: boolean;
   onToggleCollapse: () => void;
+  isLoadingHistory?: boolean; // True while saved chats are being restored from the browser
+  onOpenBrandKit: () => void;
+  hasBrandKit?: boolean;
+  sessionUsage?: Partial<Record<string, UsageTotals>>; // AI usage per chat id
+  todayCostUsd?: number;
+  onOpenUsage: () => void;
 }
 
 const AppLogo: React.FC<{ isCollapsed: boolean }> = ({ isCollapsed }) => (
@@ -49,6 +70,49 @@ const AppLogo: React.FC<{ isCollapsed: boolean }> = ({ isCollapsed }) => (
   </svg>
 );
 
+// Chats are dragged between folders with their id under this type, so other drags (files, text) are ignored.
+const SESSION_DRAG_TYPE = 'application/x-poster-chat-id';
+const UNFILED_DROP_TARGET = 'unfiled';
+
+const MENU_ITEM_CLASS = 'w-full flex items-center px-4 py-2 text-sm text-gray-700 hover:bg-purple-50 hover:text-purple-900 focus:bg-purple-50 focus:text-purple-900';
+const TOOLBAR_CONTROL_CLASS = 'rounded-md bg-white/15 text-sm text-white focus:outline-none focus:ring-2 focus:ring-purple-300';
+
+// Saves on Enter or when focus moves away; Escape gives up.
+const InlineNameInput: React.FC<{ initialValue: string; label: string; onCommit: (value: string) => void; onCancel: () => void }> = ({
+  initialValue,
+  label,
+  onCommit,
+  onCancel,
+}) => {
+  const [value, setValue] = useState(initialValue);
+  const isCancelledRef = useRef(false);
+  return (
+    <input
+      type="text"
+      value={value}
+      autoFocus
+      onFocus={(e) => e.target.select()}
+      onChange={(e) => setValue(e.target.value)}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') e.currentTarget.blur();
+        if (e.key === 'Escape') {
+          isCancelledRef.current = true;
+          onCancel();
+        }
+      }}
+      onBlur={() => {
+        if (!isCancelledRef.current) onCommit(value);
+      }}
+      onClick={(e) => e.stopPropagation()}
+      aria-label={label}
+      className="w-full px-2 py-1.5 rounded-md text-sm text-gray-800 bg-white focus:outline-none focus:ring-2 focus:ring-purple-300"
+    />
+  );
+};
+
+const SectionHeading: React.FC<{ children: React.ReactNode }> = ({ children }) => (
+  <p className="px-3 pt-3 pb-1 text-xs font-semibold uppercase tracking-wide text-indigo-300">{children}</p>
+);
 
 export const Sidebar: React.FC<SidebarProps> = ({
   sessions,
@@ -56,12 +120,45 @@ export const Sidebar: React.FC<SidebarProps> = ({
   onNewSession,
   onSelectSession,
   onDeleteSession,
+  onExportSession,
+  onOpenSessionTransfer,
+  onRenameSession,
+  onTogglePinSession,
+  onMoveSessionToFolder,
+  folders,
+  onCreateFolder,
+  onRenameFolder,
+  onDeleteFolder,
+  sortOrder,
+  onSortOrderChange,
   isCollapsed,
   onToggleCollapse,
+  isLoadingHistory = false,
+  onOpenBrandKit,
+  hasBrandKit = false,
+  sessionUsage = {},
+  todayCostUsd = 0,
+  onOpenUsage,
 }) => {
   const [menuOpenForSessionId, setMenuOpenForSessionId] = useState<string | null>(null);
+  const [renamingSessionId, setRenamingSessionId] = useState<string | null>(null);
+  const [renamingFolderId, setRenamingFolderId] = useState<string | null>(null);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [collapsedFolderIds, setCollapsedFolderIds] = useState<string[]>([]);
+  const [dropTarget, setDropTarget] = useState<string | null>(null); // A folder id or UNFILED_DROP_TARGET
   const menuRef = useRef<HTMLDivElement>(null);
 
+  const sortedSessions = useMemo(() => sortSessions(sessions, sortOrder), [sessions, sortOrder]);
+  const searchMatches = useMemo(
+    () => (searchQuery.trim() === '' ? null : searchSessions(sortedSessions, searchQuery)),
+    [sortedSessions, searchQuery]
+  );
+  // A chat filed in a folder that no longer exists is listed as unfiled.
+  const folderIdOf = (session: ConversationSession): string | null =>
+    session.folderId && folders.some(folder => folder.id === session.folderId) ? session.folderId : null;
+  const pinnedSessions = sortedSessions.filter(session => session.pinned);
+  const unpinnedSessions = sortedSessions.filter(session => !session.pinned);
+
   const handleToggleMenu = (e: React.MouseEvent, sessionId: string) => {
     e.stopPropagation();
     setMenuOpenForSessionId(prev => (prev === sessionId ? null : sessionId));
@@ -73,6 +170,60 @@ export const Sidebar: React.FC<SidebarProps> = ({
     setMenuOpenForSessionId(null);
   };
 
+  const handleExportClick = (e: React.MouseEvent, sessionId: string) => {
+    e.stopPropagation();
+    onExportSession(sessionId);
+    setMenuOpenForSessionId(null);
+  };
+
+  const handleRenameClick = (e: React.MouseEvent, sessionId: string) => {
+    e.stopPropagation();
+    setRenamingSessionId(sessionId);
+    setMenuOpenForSessionId(null);
+  };
+
+  const handlePinClick = (e: React.MouseEvent, sessionId: string) => {
+    e.stopPropagation();
+    onTogglePinSession(sessionId);
+    setMenuOpenForSessionId(null);
+  };
+
+  const handleMoveClick = (e: React.MouseEvent, sessionId: string, folderId: string | null) => {
+    e.stopPropagation();
+    onMoveSessionToFolder(sessionId, folderId);
+    setMenuOpenForSessionId(null);
+  };
+
+  const handleNewFolderClick = () => {
+    const folderId = onCreateFolder('New folder');
+    setRenamingFolderId(folderId);
+  };
+
+  const toggleFolderCollapsed = (folderId: string) => {
+    setCollapsedFolderIds(prev => prev.includes(folderId) ? prev.filter(id => id !== folderId) : [...prev, folderId]);
+  };
+
+  const dropZoneProps = (target: string) => ({
+    onDragOver: (e: React.DragEvent) => {
+      if (!e.dataTransfer.types.includes(SESSION_DRAG_TYPE)) return;
+      e.preventDefault();
+      e.dataTransfer.dropEffect = 'move';
+      setDropTarget(target);
+    },
+    onDragLeave: (e: React.DragEvent) => {
+      if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setDropTarget(prev => (prev === target ? null : prev));
+    },
+    onDrop: (e: React.DragEvent) => {
+      e.preventDefault();
+      setDropTarget(null);
+      const sessionId = e.dataTransfer.getData(SESSION_DRAG_TYPE);
+      if (sessionId) onMoveSessionToFolder(sessionId, target === UNFILED_DROP_TARGET ? null : target);
+    },
+  });
+
+  const dropZoneClass = (target: string) =>
+    `rounded-md transition-colors ${dropTarget === target ? 'bg-white/10 ring-2 ring-purple-300' : ''}`;
+
   const handleNewSessionClick = () => {
     onNewSession();
     setMenuOpenForSessionId(null); 
@@ -104,6 +255,211 @@ export const Sidebar: React.FC<SidebarProps> = ({
     }
   }, [isCollapsed]);
 
+  const renderSessionRow = (session: ConversationSession, snippet: string | null = null) => {
+    const usage = sessionUsage[session.id];
+    const currentFolderId = folderIdOf(session);
+    const isActive = session.id === activeSessionId;
+    return (
+      <div
+        key={session.id}
+        className="relative group"
+        draggable={!isCollapsed && renamingSessionId !== session.id}
+        onDragStart={(e) => {
+          e.dataTransfer.setData(SESSION_DRAG_TYPE, session.id);
+          e.dataTransfer.effectAllowed = 'move';
+          setMenuOpenForSessionId(null);
+        }}
+        onDragEnd={() => setDropTarget(null)}
+      >
+        {renamingSessionId === session.id ? (
+          <div className="py-1">
+            <InlineNameInput
+              initialValue={session.title}
+              label="Chat name"
+              onCommit={(title) => {
+                onRenameSession(session.id, title);
+                setRenamingSessionId(null);
+              }}
+              onCancel={() => setRenamingSessionId(null)}
+            />
+          </div>
+        ) : (
+          <button
+            onClick={() => handleSelectSessionClick(session.id)}
+            onDoubleClick={() => !isCollapsed && setRenamingSessionId(session.id)}
+            className={`w-full text-left ${isCollapsed ? 'h-10 flex items-center justify-center' : 'pl-3 pr-10 py-2.5'} rounded-md text-sm font-medium transition-all duration-150 ease-in-out block truncate focus:outline-none focus:ring-1 focus:ring-purple-300
+              ${isActive
+                ? 'bg-purple-600 shadow-md text-white scale-[1.02]'
+                : 'text-indigo-100 hover:bg-indigo-600/70 hover:text-white active:bg-indigo-500/80'
+              }`}
+            title={session.title}
+            aria-current={isActive ? "page" : undefined}
+          >
+            {isCollapsed ? (
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="2">
+                    <path strokeLinecap="round" strokeLinejoin="round" d="M8 12h.01M12 12h.01M16 12h.01M21 12c0 4.418-4.03 8-9 8a9.863 9.863 0 01-4.255-.949L3 20l1.395-3.72C3.512 15.042 3 13.574 3 12c0-4.418 4.03-8 9-8s9 3.582 9 8z" />
+                </svg>
+            ) : (
+                <>
+                  <span className="block truncate">{session.title || 'Untitled Chat'}</span>
+                  {snippet && (
+                    <span className={`block text-xs font-normal truncate telugu-text-display ${isActive ? 'text-purple-100' : 'text-indigo-200'}`}>{snippet}</span>
+                  )}
+                  {usage && (
+                    <span className={`block text-xs font-normal truncate ${isActive ? 'text-purple-200' : 'text-indigo-300'}`}>
+                      ≈ {formatUsd(usage.costUsd)} · {usage.calls} AI {usage.calls === 1 ? 'call' : 'calls'}
+                    </span>
+                  )}
+                </>
+            )}
+          </button>
+        )}
+        {!isCollapsed && renamingSessionId !== session.id && (
+           <button
+              onClick={(e) => handleToggleMenu(e, session.id)}
+              aria-label={`Options for chat: ${session.title}`}
+              className="menu-toggle-button absolute right-1 top-1/2 transform -translate-y-1/2 p-1.5 rounded-full text-indigo-200 hover:text-white hover:bg-indigo-500/50 opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
+          >
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+                  <path d="M10 6a2 2 0 110-4 2 2 0 010 4zM10 12a2 2 0 110-4 2 2 0 010 4zM10 18a2 2 0 110-4 2 2 0 010 4z" />
+              </svg>
+          </button>
+        )}
+        {!isCollapsed && menuOpenForSessionId === session.id && (
+          <div 
+            ref={menuOpenForSessionId === session.id ? menuRef : null}
+            className="absolute z-10 left-full ml-1 top-0 mt-0 w-48 bg-white rounded-md shadow-lg ring-1 ring-black ring-opacity-5 focus:outline-none py-1"
+            role="menu" 
+            aria-orientation="vertical" 
+            aria-labelledby={`options-menu-${session.id}`}
+          >
+            <button onClick={(e) => handleRenameClick(e, session.id)} className={MENU_ITEM_CLASS} role="menuitem">
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 mr-2 text-purple-500" viewBox="0 0 20 20" fill="currentColor">
+                  <path d="M13.586 3.586a2 2 0 112.828 2.828l-.793.793-2.828-2.828.793-.793zM11.379 5.793L3 14.172V17h2.828l8.38-8.379-2.83-2.828z" />
+              </svg>
+              Rename
+            </button>
+            <button onClick={(e) => handlePinClick(e, session.id)} className={MENU_ITEM_CLASS} role="menuitem">
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 mr-2 text-purple-500" viewBox="0 0 20 20" fill="currentColor">
+                  <path d="M5 4a2 2 0 012-2h6a2 2 0 012 2v14l-5-2.5L5 18V4z" />
+              </svg>
+              {session.pinned ? 'Unpin' : 'Pin to Top'}
+            </button>
+            {session.items.length > 0 && (
+              <button onClick={(e) => handleExportClick(e, session.id)} className={MENU_ITEM_CLASS} role="menuitem">
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 mr-2 text-purple-500" viewBox="0 0 20 20" fill="currentColor">
+                    <path fillRule="evenodd" d="M3 17a1 1 0 011-1h12a1 1 0 110 2H4a1 1 0 01-1-1zm3.293-7.707a1 1 0 011.414 0L9 10.586V3a1 1 0 112 0v7.586l1.293-1.293a1 1 0 111.414 1.414l-3 3a1 1 0 01-1.414 0l-3-3a1 1 0 010-1.414z" clipRule="evenodd" />
+                </svg>
+                Export Chat
+              </button>
+            )}
+            {folders.length > 0 && (
+              <>
+                <div className="border-t border-gray-100 my-1" />
+                <p className="px-4 pt-1 pb-0.5 text-xs font-semibold uppercase tracking-wide text-gray-400">Move to</p>
+                {folders.filter(folder => folder.id !== currentFolderId).map(folder => (
+                  <button key={folder.id} onClick={(e) => handleMoveClick(e, session.id, folder.id)} className={MENU_ITEM_CLASS} role="menuitem">
+                    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 mr-2 shrink-0 text-purple-400" viewBox="0 0 20 20" fill="currentColor">
+                        <path d="M2 6a2 2 0 012-2h5l2 2h5a2 2 0 012 2v6a2 2 0 01-2 2H4a2 2 0 01-2-2V6z" />
+                    </svg>
+                    <span className="truncate">{folder.name}</span>
+                  </button>
+                ))}
+                {currentFolderId && (
+                  <button onClick={(e) => handleMoveClick(e, session.id, null)} className={MENU_ITEM_CLASS} role="menuitem">
+                    <span className="w-5 mr-2" aria-hidden="true" />
+                    No folder
+                  </button>
+                )}
+                <div className="border-t border-gray-100 my-1" />
+              </>
+            )}
+            <button
+              onClick={(e) => handleDeleteClick(e, session.id)}
+              className="w-full flex items-center px-4 py-2 text-sm text-red-700 hover:bg-red-50 hover:text-red-900 focus:bg-red-50 focus:text-red-900"
+              role="menuitem"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 mr-2 text-red-500" viewBox="0 0 20 20" fill="currentColor">
+                  <path fillRule="evenodd" d="M9 2a1 1 0 00-.894.553L7.382 4H4a1 1 0 000 2v10a2 2 0 002 2h8a2 2 0 002-2V6a1 1 0 100-2h-3.382l-.724-1.447A1 1 0 0011 2H9zM7 8a1 1 0 012 0v6a1 1 0 11-2 0V8zm5-1a1 1 0 00-1 1v6a1 1 0 102 0V8a1 1 0 00-1-1z" clipRule="evenodd" />
+              </svg>
+              Delete Chat
+            </button>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const renderFolder = (folder: SessionFolder) => {
+    const folderSessions = unpinnedSessions.filter(session => folderIdOf(session) === folder.id);
+    const isFolderCollapsed = collapsedFolderIds.includes(folder.id);
+    return (
+      <section key={folder.id} className={dropZoneClass(folder.id)} aria-label={`Folder: ${folder.name}`} {...dropZoneProps(folder.id)}>
+        {renamingFolderId === folder.id ? (
+          <div className="py-1">
+            <InlineNameInput
+              initialValue={folder.name}
+              label="Folder name"
+              onCommit={(name) => {
+                onRenameFolder(folder.id, name);
+                setRenamingFolderId(null);
+              }}
+              onCancel={() => setRenamingFolderId(null)}
+            />
+          </div>
+        ) : (
+          <div className="relative group flex items-center">
+            <button
+              onClick={() => toggleFolderCollapsed(folder.id)}
+              onDoubleClick={() => setRenamingFolderId(folder.id)}
+              className="flex-1 min-w-0 flex items-center pl-1 pr-16 py-2 rounded-md text-sm font-semibold text-indigo-100 hover:bg-indigo-600/50 focus:outline-none focus:ring-1 focus:ring-purple-300"
+              aria-expanded={!isFolderCollapsed}
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" className={`h-4 w-4 mr-1 shrink-0 transition-transform ${isFolderCollapsed ? '' : 'rotate-90'}`} viewBox="0 0 20 20" fill="currentColor">
+                <path fillRule="evenodd" d="M7.293 14.707a1 1 0 010-1.414L10.586 10 7.293 6.707a1 1 0 011.414-1.414l4 4a1 1 0 010 1.414l-4 4a1 1 0 01-1.414 0z" clipRule="evenodd" />
+              </svg>
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 mr-1.5 shrink-0 text-indigo-300" viewBox="0 0 20 20" fill="currentColor">
+                <path d="M2 6a2 2 0 012-2h5l2 2h5a2 2 0 012 2v6a2 2 0 01-2 2H4a2 2 0 01-2-2V6z" />
+              </svg>
+              <span className="truncate">{folder.name}</span>
+              <span className="ml-1.5 text-xs font-normal text-indigo-300">{folderSessions.length}</span>
+            </button>
+            <div className="absolute right-1 flex opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+              <button
+                onClick={() => setRenamingFolderId(folder.id)}
+                className="p-1.5 rounded-full text-indigo-200 hover:text-white hover:bg-indigo-500/50"
+                aria-label={`Rename folder: ${folder.name}`}
+                title="Rename folder"
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor">
+                  <path d="M13.586 3.586a2 2 0 112.828 2.828l-.793.793-2.828-2.828.793-.793zM11.379 5.793L3 14.172V17h2.828l8.38-8.379-2.83-2.828z" />
+                </svg>
+              </button>
+              <button
+                onClick={() => onDeleteFolder(folder.id)}
+                className="p-1.5 rounded-full text-indigo-200 hover:text-white hover:bg-indigo-500/50"
+                aria-label={`Delete folder: ${folder.name} (its chats are kept)`}
+                title="Delete folder (its chats are kept)"
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor">
+                  <path fillRule="evenodd" d="M9 2a1 1 0 00-.894.553L7.382 4H4a1 1 0 000 2v10a2 2 0 002 2h8a2 2 0 002-2V6a1 1 0 100-2h-3.382l-.724-1.447A1 1 0 0011 2H9zM7 8a1 1 0 012 0v6a1 1 0 11-2 0V8zm5-1a1 1 0 00-1 1v6a1 1 0 102 0V8a1 1 0 00-1-1z" clipRule="evenodd" />
+                </svg>
+              </button>
+            </div>
+          </div>
+        )}
+        {!isFolderCollapsed && (
+          <div className="pl-3 space-y-1">
+            {folderSessions.length > 0
+              ? folderSessions.map(session => renderSessionRow(session))
+              : <p className="px-3 py-1.5 text-xs text-indigo-300">Drag chats here.</p>}
+          </div>
+        )}
+      </section>
+    );
+  };
+
+
   return (
     <div
       className={`bg-gradient-to-b from-indigo-700 to-purple-800 text-white flex flex-col shadow-2xl h-full transition-all duration-300 ease-in-out ${
@@ -152,68 +508,108 @@ export const Sidebar: React.FC<SidebarProps> = ({
           </svg>
           {!isCollapsed && <span className="truncate">New Chat</span>}
         </button>
-      </div>
-
-      <nav className="flex-grow overflow-y-auto custom-scrollbar p-3 space-y-1">
-        {sessions.length > 0 ? (
-          sessions.map((session) => (
-            <div key={session.id} className="relative group">
+        {!isCollapsed && (
+          <div className="mt-3 space-y-2">
+            <input
+              type="search"
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              placeholder="Search chats..."
+              aria-label="Search chats by title, prompt or poster text"
+              className={`w-full px-3 py-2 placeholder-indigo-200 ${TOOLBAR_CONTROL_CLASS}`}
+            />
+            <div className="flex items-center gap-2">
+              <label htmlFor="sidebar-sort-order" className="sr-only">Sort chats by</label>
+              <select
+                id="sidebar-sort-order"
+                value={sortOrder}
+                onChange={(e) => onSortOrderChange(e.target.value as SessionSortOrder)}
+                className={`flex-1 min-w-0 px-2 py-1.5 ${TOOLBAR_CONTROL_CLASS}`}
+              >
+                {SESSION_SORT_ORDERS.map(order => (
+                  <option key={order.id} value={order.id} className="text-gray-800">{order.label}</option>
+                ))}
+              </select>
               <button
-                onClick={() => handleSelectSessionClick(session.id)}
-                className={`w-full text-left ${isCollapsed ? 'h-10 flex items-center justify-center' : 'pl-3 pr-10 py-2.5'} rounded-md text-sm font-medium transition-all duration-150 ease-in-out block truncate focus:outline-none focus:ring-1 focus:ring-purple-300
-                  ${session.id === activeSessionId
-                    ? 'bg-purple-600 shadow-md text-white scale-[1.02]'
-                    : 'text-indigo-100 hover:bg-indigo-600/70 hover:text-white active:bg-indigo-500/80'
-                  }`}
-                title={session.title}
-                aria-current={session.id === activeSessionId ? "page" : undefined}
+                type="button"
+                onClick={handleNewFolderClick}
+                className="p-1.5 rounded-md hover:bg-white/20 focus:outline-none focus:ring-2 focus:ring-purple-300"
+                aria-label="New folder"
+                title="New folder"
               >
-                {isCollapsed ? (
-                    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="2">
-                        <path strokeLinecap="round" strokeLinejoin="round" d="M8 12h.01M12 12h.01M16 12h.01M21 12c0 4.418-4.03 8-9 8a9.863 9.863 0 01-4.255-.949L3 20l1.395-3.72C3.512 15.042 3 13.574 3 12c0-4.418 4.03-8 9-8s9 3.582 9 8z" />
-                    </svg>
-                ) : (
-                    session.title || 'Untitled Chat'
-                )}
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+                  <path fillRule="evenodd" d="M4 4a2 2 0 00-2 2v8a2 2 0 002 2h12a2 2 0 002-2V8a2 2 0 00-2-2h-5L9 4H4zm7 5a1 1 0 10-2 0v1H8a1 1 0 100 2h1v1a1 1 0 102 0v-1h1a1 1 0 100-2h-1V9z" clipRule="evenodd" />
+                </svg>
               </button>
-              {!isCollapsed && sessions.length > 0 && ( 
-                 <button
-                    onClick={(e) => handleToggleMenu(e, session.id)}
-                    aria-label={`Options for chat: ${session.title}`}
-                    className="menu-toggle-button absolute right-1 top-1/2 transform -translate-y-1/2 p-1.5 rounded-full text-indigo-200 hover:text-white hover:bg-indigo-500/50 opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
-                >
-                    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
-                        <path d="M10 6a2 2 0 110-4 2 2 0 010 4zM10 12a2 2 0 110-4 2 2 0 010 4zM10 18a2 2 0 110-4 2 2 0 010 4z" />
-                    </svg>
-                </button>
-              )}
-              {!isCollapsed && menuOpenForSessionId === session.id && (
-                <div 
-                  ref={menuOpenForSessionId === session.id ? menuRef : null}
-                  className="absolute z-10 left-full ml-1 top-0 mt-0 w-40 bg-white rounded-md shadow-lg ring-1 ring-black ring-opacity-5 focus:outline-none py-1"
-                  role="menu" 
-                  aria-orientation="vertical" 
-                  aria-labelledby={`options-menu-${session.id}`}
-                >
-                  <button
-                    onClick={(e) => handleDeleteClick(e, session.id)}
-                    className="w-full flex items-center px-4 py-2 text-sm text-red-700 hover:bg-red-50 hover:text-red-900 focus:bg-red-50 focus:text-red-900"
-                    role="menuitem"
-                  >
-                    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 mr-2 text-red-500" viewBox="0 0 20 20" fill="currentColor">
-                        <path fillRule="evenodd" d="M9 2a1 1 0 00-.894.553L7.382 4H4a1 1 0 000 2v10a2 2 0 002 2h8a2 2 0 002-2V6a1 1 0 100-2h-3.382l-.724-1.447A1 1 0 0011 2H9zM7 8a1 1 0 012 0v6a1 1 0 11-2 0V8zm5-1a1 1 0 00-1 1v6a1 1 0 102 0V8a1 1 0 00-1-1z" clipRule="evenodd" />
-                    </svg>
-                    Delete Chat
-                  </button>
-                </div>
-              )}
             </div>
-          ))
-        ) : (
+          </div>
+        )}
+      </div>
+
+      <nav className="flex-grow overflow-y-auto custom-scrollbar p-3 space-y-1">
+        {isLoadingHistory ? (
+          !isCollapsed && <p className="p-3 text-sm text-indigo-300 animate-pulse">Restoring your chats...</p>
+        ) : sessions.length === 0 ? (
           !isCollapsed && <p className="p-3 text-sm text-indigo-300">No chats yet.</p>
+        ) : isCollapsed ? (
+          [...pinnedSessions, ...unpinnedSessions].map(session => renderSessionRow(session))
+        ) : searchMatches ? (
+          searchMatches.length > 0
+            ? searchMatches.map(({ session, snippet }) => renderSessionRow(session, snippet))
+            : <p className="p-3 text-sm text-indigo-300">No chats match "{searchQuery.trim()}".</p>
+        ) : (
+          <>
+            {pinnedSessions.length > 0 && (
+              <section aria-label="Pinned chats" className="space-y-1">
+                <SectionHeading>Pinned</SectionHeading>
+                {pinnedSessions.map(session => renderSessionRow(session))}
+              </section>
+            )}
+            {folders.map(renderFolder)}
+            <section aria-label="Chats" className={`space-y-1 min-h-[2.5rem] ${dropZoneClass(UNFILED_DROP_TARGET)}`} {...dropZoneProps(UNFILED_DROP_TARGET)}>
+              {(pinnedSessions.length > 0 || folders.length > 0) && <SectionHeading>Chats</SectionHeading>}
+              {unpinnedSessions.filter(session => folderIdOf(session) === null).map(session => renderSessionRow(session))}
+            </section>
+          </>
         )}
       </nav>
-      {/* Removed redundant footer text from here, brand is now at top */}
+      <div className="p-3 border-t border-indigo-600/50">
+        <button
+          onClick={onOpenBrandKit}
+          className={`w-full flex items-center ${isCollapsed ? 'justify-center h-10' : 'px-3 py-2.5'} rounded-md text-sm font-medium text-indigo-100 hover:bg-indigo-600/70 hover:text-white transition-all duration-150 focus:outline-none focus:ring-2 focus:ring-purple-400`}
+          aria-label="Open brand kit settings"
+          title={isCollapsed ? "Brand Kit" : ""}
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" className={`h-5 w-5 ${!isCollapsed ? 'mr-2' : ''}`} viewBox="0 0 20 20" fill="currentColor">
+            <path fillRule="evenodd" d="M4 2a2 2 0 00-2 2v11a3 3 0 106 0V4a2 2 0 00-2-2H4zm1 14a1 1 0 100-2 1 1 0 000 2zm5-1.757l4.9-4.9a2 2 0 000-2.828L13.485 5.1a2 2 0 00-2.828 0L10 5.757v8.486zM16 18H9.071l6-6H16a2 2 0 012 2v2a2 2 0 01-2 2z" clipRule="evenodd" />
+          </svg>
+          {!isCollapsed && <span className="truncate">Brand Kit</span>}
+          {!isCollapsed && hasBrandKit && <span className="ml-auto w-2 h-2 rounded-full bg-green-400" aria-label="Brand kit saved" />}
+        </button>
+        <button
+          onClick={onOpenSessionTransfer}
+          className={`w-full flex items-center ${isCollapsed ? 'justify-center h-10' : 'px-3 py-2.5'} rounded-md text-sm font-medium text-indigo-100 hover:bg-indigo-600/70 hover:text-white transition-all duration-150 focus:outline-none focus:ring-2 focus:ring-purple-400`}
+          aria-label="Export or import chats"
+          title={isCollapsed ? "Export & Import" : ""}
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" className={`h-5 w-5 ${!isCollapsed ? 'mr-2' : ''}`} viewBox="0 0 20 20" fill="currentColor">
+            <path d="M8 5a1 1 0 100 2h5.586l-1.293 1.293a1 1 0 001.414 1.414l3-3a1 1 0 000-1.414l-3-3a1 1 0 10-1.414 1.414L13.586 5H8zM12 15a1 1 0 100-2H6.414l1.293-1.293a1 1 0 10-1.414-1.414l-3 3a1 1 0 000 1.414l3 3a1 1 0 001.414-1.414L6.414 15H12z" />
+          </svg>
+          {!isCollapsed && <span className="truncate">Export &amp; Import</span>}
+        </button>
+        <button
+          onClick={onOpenUsage}
+          className={`w-full flex items-center ${isCollapsed ? 'justify-center h-10' : 'px-3 py-2.5'} rounded-md text-sm font-medium text-indigo-100 hover:bg-indigo-600/70 hover:text-white transition-all duration-150 focus:outline-none focus:ring-2 focus:ring-purple-400`}
+          aria-label="Open AI usage and costs"
+          title={isCollapsed ? "Usage" : ""}
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" className={`h-5 w-5 ${!isCollapsed ? 'mr-2' : ''}`} viewBox="0 0 20 20" fill="currentColor">
+            <path d="M2 11a1 1 0 011-1h2a1 1 0 011 1v5a1 1 0 01-1 1H3a1 1 0 01-1-1v-5zM8 7a1 1 0 011-1h2a1 1 0 011 1v9a1 1 0 01-1 1H9a1 1 0 01-1-1V7zM14 4a1 1 0 011-1h2a1 1 0 011 1v12a1 1 0 01-1 1h-2a1 1 0 01-1-1V4z" />
+          </svg>
+          {!isCollapsed && <span className="truncate">Usage</span>}
+          {!isCollapsed && <span className="ml-auto text-xs text-indigo-300">{formatUsd(todayCostUsd)} today</span>}
+        </button>
+      </div>
     </div>
   );
 };
\ No newline at end of file
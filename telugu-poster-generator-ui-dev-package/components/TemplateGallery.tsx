@@ -0,0 +1,166 @@
+
+import React, { useState } from 'react';
+import {
+  daysUntilFestival,
+  describeDaysUntil,
+  nextFestivalDate,
+  POSTER_TEMPLATES,
+  templateGreetings,
+  UPCOMING_FESTIVAL_DAYS,
+  type PosterTemplate,
+  type PosterTemplateId,
+} from '../utils/posterTemplates';
+import { getLayoutTemplate } from '../utils/layoutTemplates';
+import { getFontPairing } from '../utils/fontRegistry';
+import { HeadlineFields } from './HeadlineFields';
+import type { PosterHeadline } from '../App'; // Import type
+
+interface TemplateGalleryProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onUseTemplate: (templateId: PosterTemplateId, greetings: PosterHeadline[]) => void;
+}
+
+const formatFestivalDate = (date: Date): string =>
+  date.toLocaleDateString('en-IN', { weekday: 'short', day: 'numeric', month: 'short', year: 'numeric' });
+
+export const TemplateGallery: React.FC<TemplateGalleryProps> = ({ isOpen, onClose, onUseTemplate }) => {
+  const [selectedId, setSelectedId] = useState<PosterTemplateId | null>(null);
+  const [greetings, setGreetings] = useState<PosterHeadline[]>([]);
+
+  if (!isOpen) {
+    return null;
+  }
+
+  const today = new Date();
+  const festivals = POSTER_TEMPLATES
+    .filter(template => template.category === 'festival')
+    .map(template => ({ template, daysUntil: daysUntilFestival(template, today) }))
+    // Soonest first; festivals with no date listed yet go last.
+    .sort((a, b) => (a.daysUntil ?? Infinity) - (b.daysUntil ?? Infinity));
+  const occasions = POSTER_TEMPLATES.filter(template => template.category === 'occasion');
+  const selectedTemplate = POSTER_TEMPLATES.find(template => template.id === selectedId);
+  const hasGreeting = greetings.some(greeting => greeting.text.trim() !== '');
+
+  const handleSelect = (template: PosterTemplate) => {
+    setSelectedId(template.id);
+    setGreetings(templateGreetings(template));
+  };
+
+  const handleClose = () => {
+    setSelectedId(null);
+    onClose();
+  };
+
+  const handleUse = () => {
+    if (!selectedTemplate || !hasGreeting) return;
+    onUseTemplate(selectedTemplate.id, greetings.map(greeting => ({ ...greeting, text: greeting.text.trim() })));
+    setSelectedId(null);
+  };
+
+  const renderCard = (template: PosterTemplate, daysUntil: number | null = null) => {
+    const isSelected = template.id === selectedId;
+    const isUpcoming = daysUntil !== null && daysUntil <= UPCOMING_FESTIVAL_DAYS;
+    const date = template.category === 'festival' ? nextFestivalDate(template, today) : null;
+    return (
+      <button
+        key={template.id}
+        type="button"
+        role="radio"
+        aria-checked={isSelected}
+        onClick={() => handleSelect(template)}
+        className={`relative text-left rounded-lg border overflow-hidden bg-white transition-all duration-200 focus:outline-none focus:ring-2 focus:ring-purple-500
+                    ${isSelected ? 'border-purple-600 shadow-md ring-2 ring-purple-600' : isUpcoming ? 'border-amber-400 shadow' : 'border-gray-200 hover:border-purple-400'}`}
+      >
+        <span
+          className="block h-12"
+          style={{ background: `linear-gradient(135deg, ${template.colors.join(', ')})` }}
+          aria-hidden="true"
+        />
+        {isUpcoming && daysUntil !== null && (
+          <span className="absolute top-2 right-2 px-2 py-0.5 rounded-full text-xs font-semibold bg-amber-400 text-amber-950 shadow">
+            {describeDaysUntil(daysUntil)}
+          </span>
+        )}
+        <span className="block p-2">
+          <span className="block text-sm font-semibold text-gray-800">{template.label}</span>
+          <span className="block text-sm text-gray-600 telugu-text-display">{template.teluguLabel}</span>
+          {template.category === 'festival' && (
+            <span className="block mt-1 text-xs text-gray-500">{date ? formatFestivalDate(date) : 'Date not listed yet'}</span>
+          )}
+        </span>
+      </button>
+    );
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-60 backdrop-blur-sm flex items-center justify-center z-50 p-4"
+      aria-labelledby="template-gallery-title"
+      role="dialog"
+      aria-modal="true"
+    >
+      <div className="bg-white rounded-xl shadow-2xl p-6 md:p-8 w-full max-w-3xl max-h-full overflow-y-auto custom-scrollbar">
+        <div className="flex justify-between items-center mb-4">
+          <h2 id="template-gallery-title" className="text-2xl font-bold text-gray-800">Festival &amp; Occasion Templates</h2>
+          <button
+            onClick={handleClose}
+            className="p-1 text-gray-400 hover:text-gray-600 rounded-full hover:bg-gray-100 focus:outline-none focus:ring-2 focus:ring-purple-500"
+            aria-label="Close template gallery"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <p id="template-festivals-label" className="text-sm font-semibold text-gray-700 mb-2">Festivals</p>
+        <div role="radiogroup" aria-labelledby="template-festivals-label" className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+          {festivals.map(({ template, daysUntil }) => renderCard(template, daysUntil))}
+        </div>
+
+        <p id="template-occasions-label" className="text-sm font-semibold text-gray-700 mt-5 mb-2">Occasions</p>
+        <div role="radiogroup" aria-labelledby="template-occasions-label" className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+          {occasions.map(template => renderCard(template))}
+        </div>
+
+        {selectedTemplate && (
+          <div className="mt-6 p-4 bg-purple-50 border border-purple-200 rounded-lg space-y-3">
+            <p className="text-sm text-gray-700">
+              <span className="font-semibold">{selectedTemplate.label}:</span> {selectedTemplate.themePrompt}.
+            </p>
+            <p className="text-xs text-gray-500">
+              Layout: {getLayoutTemplate(selectedTemplate.layoutId).label} · Fonts: {getFontPairing(selectedTemplate.fontPairingId).label} · Colours: {selectedTemplate.colorNames}
+            </p>
+            <HeadlineFields
+              headlines={greetings}
+              onChange={(language, text) => setGreetings(prev => prev.map(greeting => greeting.language === language ? { ...greeting, text } : greeting))}
+              idPrefix="template-greeting"
+              fieldLabel="greeting"
+              inputClassName="w-full p-2 border border-gray-300 rounded-lg font-normal focus:ring-2 focus:ring-purple-500 focus:border-purple-500"
+            />
+            <p className="text-xs text-gray-500">Add a name or shop to the greetings if you like. You will choose the poster language next.</p>
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2 mt-6">
+          <button
+            type="button"
+            onClick={handleClose}
+            className="px-4 py-2 text-sm font-medium rounded-lg text-gray-600 hover:bg-gray-100 focus:outline-none focus:ring-2 focus:ring-purple-500"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={handleUse}
+            disabled={!selectedTemplate || !hasGreeting}
+            className="px-4 py-2 text-sm font-semibold rounded-lg text-white bg-purple-600 hover:bg-purple-700 shadow-md focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-purple-500 disabled:bg-gray-400 disabled:cursor-not-allowed"
+          >
+            Use Template
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,190 @@
+
+import React, { useEffect, useId, useLayoutEffect, useRef, useState } from 'react';
+import { getTransliterationSuggestions, LATIN_WORD_PATTERN } from '../utils/transliteration';
+
+type TextareaProps = Omit<React.TextareaHTMLAttributes<HTMLTextAreaElement>, 'value' | 'onChange'>;
+
+interface TransliterationInputProps extends TextareaProps {
+  value: string;
+  onValueChange: (value: string) => void;
+  isTransliterating: boolean;
+  textareaRef?: React.RefObject<HTMLTextAreaElement | null>;
+  suggestionsPlacement?: 'above' | 'below'; // 'above' for boxes pinned to the bottom of the screen
+  containerClassName?: string;
+}
+
+// The Latin word being typed, by its position in the text.
+interface PendingWord {
+  start: number;
+  end: number;
+  word: string;
+}
+
+// Typing one of these finishes the word before it, which is then replaced by the chosen suggestion.
+const WORD_BREAK_PATTERN = /[\s.,!?;:()"'-]/;
+
+const findPendingWord = (text: string, caret: number): PendingWord | null => {
+  const match = LATIN_WORD_PATTERN.exec(text.slice(0, caret));
+  // Editing inside an existing word is left alone.
+  if (!match || /[A-Za-z~]/.test(text.charAt(caret))) return null;
+  return { start: caret - match[0].length, end: caret, word: match[0] };
+};
+
+// A textarea that turns phonetic English into Telugu as you type: the word under the caret is shown
+// in Telugu in a suggestion list and replaced when the word is finished. Works entirely offline.
+export const TransliterationInput: React.FC<TransliterationInputProps> = ({
+  value,
+  onValueChange,
+  isTransliterating,
+  textareaRef,
+  suggestionsPlacement = 'below',
+  containerClassName = 'relative w-full',
+  onKeyDown,
+  onBlur,
+  ...textareaProps
+}) => {
+  const ownRef = useRef<HTMLTextAreaElement>(null);
+  const ref = textareaRef ?? ownRef;
+  const listId = useId();
+  const [pending, setPending] = useState<PendingWord | null>(null);
+  const [suggestions, setSuggestions] = useState<string[]>([]);
+  const [activeIndex, setActiveIndex] = useState(0);
+  // Start of a word the user chose to keep in English with Escape.
+  const [keptLatinStart, setKeptLatinStart] = useState<number | null>(null);
+  const caretAfterUpdateRef = useRef<number | null>(null);
+
+  const isOpen = isTransliterating && pending !== null && suggestions.length > 0;
+
+  const closeSuggestions = () => {
+    setPending(null);
+    setSuggestions([]);
+    setActiveIndex(0);
+  };
+
+  // Put the caret back after a replacement; React moves it to the end when the value changes.
+  useLayoutEffect(() => {
+    const caret = caretAfterUpdateRef.current;
+    if (caret !== null && ref.current) {
+      ref.current.setSelectionRange(caret, caret);
+      caretAfterUpdateRef.current = null;
+    }
+  }, [value, ref]);
+
+  useEffect(() => {
+    if (!isTransliterating) closeSuggestions();
+  }, [isTransliterating]);
+
+  // The text can also change from outside (voice input, clearing after send).
+  useEffect(() => {
+    if (pending && value.slice(pending.start, pending.end) !== pending.word) closeSuggestions();
+  }, [value, pending]);
+
+  const refreshSuggestions = (text: string, caret: number) => {
+    const word = isTransliterating ? findPendingWord(text, caret) : null;
+    if (!word || word.start === keptLatinStart) {
+      closeSuggestions();
+      return;
+    }
+    if (pending && pending.start === word.start && pending.word === word.word) return;
+    setPending(word);
+    setSuggestions(getTransliterationSuggestions(word.word));
+    setActiveIndex(0);
+  };
+
+  const commit = (word: PendingWord, replacement: string, typedBreak = '') => {
+    caretAfterUpdateRef.current = word.start + replacement.length + typedBreak.length;
+    onValueChange(value.slice(0, word.start) + replacement + typedBreak + value.slice(word.end));
+    closeSuggestions();
+  };
+
+  const handleChange = (event: React.ChangeEvent<HTMLTextAreaElement>) => {
+    const text = event.target.value;
+    const caret = event.target.selectionStart;
+    const typedBreak = text.charAt(caret - 1);
+    if (
+      isOpen && pending &&
+      text.length === value.length + 1 && caret === pending.end + 1 &&
+      text.slice(0, pending.end) === value.slice(0, pending.end) &&
+      WORD_BREAK_PATTERN.test(typedBreak)
+    ) {
+      commit(pending, suggestions[activeIndex], typedBreak);
+      return;
+    }
+    onValueChange(text);
+    refreshSuggestions(text, caret);
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (isOpen && pending) {
+      if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+        event.preventDefault();
+        const step = event.key === 'ArrowDown' ? 1 : -1;
+        setActiveIndex(index => (index + step + suggestions.length) % suggestions.length);
+        return;
+      }
+      if (event.key === 'Enter' || event.key === 'Tab') {
+        event.preventDefault();
+        commit(pending, suggestions[activeIndex]);
+        return;
+      }
+      if (event.key === 'Escape') {
+        event.preventDefault();
+        event.stopPropagation();
+        setKeptLatinStart(pending.start);
+        closeSuggestions();
+        return;
+      }
+    }
+    onKeyDown?.(event);
+  };
+
+  return (
+    <div className={containerClassName}>
+      <textarea
+        ref={ref}
+        {...textareaProps}
+        value={value}
+        onChange={handleChange}
+        onKeyDown={handleKeyDown}
+        onSelect={(e) => refreshSuggestions(e.currentTarget.value, e.currentTarget.selectionStart)}
+        onBlur={(e) => {
+          closeSuggestions();
+          onBlur?.(e);
+        }}
+        aria-autocomplete={isTransliterating ? 'list' : undefined}
+        aria-controls={isOpen ? listId : undefined}
+        aria-activedescendant={isOpen ? `${listId}-option-${activeIndex}` : undefined}
+      />
+      {isOpen && pending && (
+        <ul
+          id={listId}
+          role="listbox"
+          aria-label={`Telugu for "${pending.word}"`}
+          className={`absolute left-0 z-20 min-w-[12rem] max-w-full bg-white border border-gray-200 rounded-lg shadow-lg py-1
+                      ${suggestionsPlacement === 'above' ? 'bottom-full mb-1' : 'top-full mt-1'}`}
+        >
+          {suggestions.map((suggestion, index) => (
+            <li
+              key={suggestion}
+              id={`${listId}-option-${index}`}
+              role="option"
+              aria-selected={index === activeIndex}
+              // Mouse down rather than click, so the textarea keeps focus.
+              onMouseDown={(e) => {
+                e.preventDefault();
+                commit(pending, suggestion);
+              }}
+              onMouseEnter={() => setActiveIndex(index)}
+              className={`px-3 py-1.5 cursor-pointer telugu-text-display ${index === activeIndex ? 'bg-purple-100 text-purple-800' : 'text-gray-800'}`}
+            >
+              {suggestion}
+            </li>
+          ))}
+          <li role="presentation" className="px-3 pt-1 mt-1 border-t border-gray-100 text-xs text-gray-500">
+            Space or Enter to use, Esc keeps "{pending.word}"
+          </li>
+        </ul>
+      )}
+    </div>
+  );
+};
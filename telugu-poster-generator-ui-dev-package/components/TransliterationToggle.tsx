@@ -0,0 +1,28 @@
+import React from 'react';
+
+interface TransliterationToggleProps {
+  isOn: boolean;
+  onToggle: () => void;
+  disabled?: boolean;
+}
+
+// Switches phonetic Telugu typing on and off for the text box it sits next to.
+export const TransliterationToggle: React.FC<TransliterationToggleProps> = ({ isOn, onToggle, disabled = false }) => (
+  <button
+    type="button"
+    role="switch"
+    aria-checked={isOn}
+    onClick={onToggle}
+    disabled={disabled}
+    title={isOn ? 'Type Telugu in English letters, e.g. "ugadi" for ఉగాది' : 'Typing in English; switch on to type Telugu phonetically'}
+    className={`flex items-center space-x-2 text-xs sm:text-sm text-gray-600 focus:outline-none focus:ring-2 focus:ring-purple-500 rounded-full ${disabled ? 'opacity-60 cursor-not-allowed' : ''}`}
+  >
+    <span
+      className={`relative inline-flex h-5 w-9 flex-shrink-0 rounded-full transition-colors duration-200 ${isOn ? 'bg-purple-600' : 'bg-gray-300'}`}
+      aria-hidden="true"
+    >
+      <span className={`absolute top-0.5 left-0.5 h-4 w-4 rounded-full bg-white shadow transform transition-transform duration-200 ${isOn ? 'translate-x-4' : ''}`} />
+    </span>
+    <span><span className="telugu-text-display">అ</span> Telugu typing</span>
+  </button>
+);
@@ -0,0 +1,359 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import type { ConversationSession } from '../App'; // Import type
+import { USAGE_OPERATIONS, type UsageBudgets, type UsageOperation, type UsageRecord } from '../services/usageLog';
+import { formatUsd } from '../utils/usagePricing';
+import {
+  dailyUsage,
+  startOfDay,
+  totalUsage,
+  usageByOperation,
+  usageBySession,
+  usageSince,
+  type DailyUsage,
+  type UsageTotals,
+} from '../utils/usageSummary';
+
+interface UsagePanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  records: UsageRecord[];
+  sessions: ConversationSession[];
+  activeSessionId: string | null;
+  budgets: UsageBudgets;
+  onSaveBudgets: (budgets: UsageBudgets) => void;
+  onClearHistory: () => void;
+}
+
+const CHART_DAYS = 14;
+const TOP_CHATS = 5;
+
+const OPERATION_LABELS: Record<UsageOperation, string> = {
+  title: 'Chat titles',
+  posterDetails: 'Poster text',
+  refinement: 'Follow-up changes',
+  images: 'Backgrounds',
+};
+
+const dayLabel = (dayStart: number): string =>
+  new Date(dayStart).toLocaleDateString(undefined, { day: 'numeric', month: 'short' });
+
+const budgetText = (value: number | null): string => (value === null ? '' : String(value));
+
+// Blank means no budget; anything that is not a positive amount is refused.
+const parseBudget = (text: string): number | null | undefined => {
+  if (text.trim() === '') return null;
+  const value = Number(text);
+  return Number.isFinite(value) && value > 0 ? value : undefined;
+};
+
+const StatCard: React.FC<{ label: string; totals: UsageTotals }> = ({ label, totals }) => (
+  <div className="rounded-lg border border-purple-100 bg-purple-50/60 p-3">
+    <p className="text-xs font-semibold uppercase tracking-wide text-purple-700">{label}</p>
+    <p className="text-xl font-bold text-gray-800 mt-1">{formatUsd(totals.costUsd)}</p>
+    <p className="text-xs text-gray-500">
+      {totals.calls} {totals.calls === 1 ? 'call' : 'calls'}{totals.failedCalls > 0 ? `, ${totals.failedCalls} failed` : ''}
+    </p>
+  </div>
+);
+
+const BudgetBar: React.FC<{ label: string; spentUsd: number; budgetUsd: number }> = ({ label, spentUsd, budgetUsd }) => {
+  const share = spentUsd / budgetUsd;
+  return (
+    <div>
+      <div className="flex justify-between text-xs text-gray-600 mb-1">
+        <span>{label}</span>
+        <span>{formatUsd(spentUsd)} of {formatUsd(budgetUsd)}</span>
+      </div>
+      <div className="h-2 rounded-full bg-gray-100 overflow-hidden">
+        <div
+          className={`h-full rounded-full ${share >= 1 ? 'bg-red-500' : share >= 0.8 ? 'bg-amber-500' : 'bg-purple-500'}`}
+          style={{ width: `${Math.min(100, share * 100)}%` }}
+        />
+      </div>
+    </div>
+  );
+};
+
+// Bars are plain divs; each day's figures are in its tooltip and in the accessible label.
+const DailyBarChart: React.FC<{
+  title: string;
+  days: DailyUsage[];
+  valueOf: (totals: UsageTotals) => number;
+  failedOf?: (totals: UsageTotals) => number;
+  describe: (totals: UsageTotals) => string;
+}> = ({ title, days, valueOf, failedOf, describe }) => {
+  const maxValue = Math.max(...days.map(day => valueOf(day.totals)), 0);
+  return (
+    <figure>
+      <figcaption className="text-sm font-semibold text-gray-700 mb-2">{title}</figcaption>
+      <div className="flex items-end gap-1 h-28 border-b border-gray-200" role="list">
+        {days.map(day => {
+          const value = valueOf(day.totals);
+          const failed = failedOf?.(day.totals) ?? 0;
+          const label = `${dayLabel(day.dayStart)}: ${describe(day.totals)}`;
+          return (
+            <div key={day.dayStart} className="flex-1 h-full flex flex-col justify-end" role="listitem" aria-label={label} title={label}>
+              {value > 0 && (
+                <div className="w-full flex flex-col justify-end" style={{ height: `${Math.max(4, (value / maxValue) * 100)}%` }}>
+                  {failed > 0 && <div className="w-full bg-red-400 rounded-t-sm" style={{ height: `${(failed / value) * 100}%` }} />}
+                  <div className={`w-full flex-1 bg-purple-500 ${failed > 0 ? '' : 'rounded-t-sm'}`} />
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+      <div className="flex justify-between text-[11px] text-gray-400 mt-1">
+        <span>{dayLabel(days[0].dayStart)}</span>
+        <span>Today</span>
+      </div>
+    </figure>
+  );
+};
+
+export const UsagePanel: React.FC<UsagePanelProps> = ({
+  isOpen,
+  onClose,
+  records,
+  sessions,
+  activeSessionId,
+  budgets,
+  onSaveBudgets,
+  onClearHistory,
+}) => {
+  const [dailyBudgetText, setDailyBudgetText] = useState('');
+  const [sessionBudgetText, setSessionBudgetText] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  // Start from the saved budgets every time the panel opens so cancelled edits are dropped.
+  useEffect(() => {
+    if (!isOpen) return;
+    setDailyBudgetText(budgetText(budgets.dailyUsd));
+    setSessionBudgetText(budgetText(budgets.sessionUsd));
+    setError(null);
+  }, [isOpen, budgets]);
+
+  const summary = useMemo(() => {
+    const now = Date.now();
+    const todayStart = startOfDay(now);
+    const weekStart = new Date(todayStart).setDate(new Date(todayStart).getDate() - 6);
+    const bySession = usageBySession(records);
+    return {
+      today: totalUsage(usageSince(records, todayStart)),
+      lastSevenDays: totalUsage(usageSince(records, weekStart)),
+      activeSession: (activeSessionId && bySession[activeSessionId]) || totalUsage([]),
+      days: dailyUsage(records, CHART_DAYS, now),
+      byOperation: usageByOperation(records),
+      topChats: Object.entries(bySession)
+        .map(([sessionId, totals]) => ({ sessionId, totals: totals! }))
+        .sort((a, b) => b.totals.costUsd - a.totals.costUsd)
+        .slice(0, TOP_CHATS),
+      outsideChats: totalUsage(records.filter(record => record.sessionId === null)),
+    };
+  }, [records, activeSessionId]);
+
+  if (!isOpen) {
+    return null;
+  }
+
+  const titleOf = (sessionId: string) =>
+    sessions.find(session => session.id === sessionId)?.title || 'Deleted chat';
+
+  const handleSaveBudgets = () => {
+    const dailyUsd = parseBudget(dailyBudgetText);
+    const sessionUsd = parseBudget(sessionBudgetText);
+    if (dailyUsd === undefined || sessionUsd === undefined) {
+      setError('Budgets should be amounts in US dollars, such as 0.50, or left blank.');
+      return;
+    }
+    try {
+      onSaveBudgets({ dailyUsd, sessionUsd });
+      setError(null);
+    } catch (err) {
+      console.error('Usage: Failed to save budgets:', err);
+      setError('The budgets could not be saved.');
+    }
+  };
+
+  const handleClearHistory = () => {
+    if (window.confirm('Clear the usage history of this browser? Totals and charts start again from zero.')) {
+      onClearHistory();
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-60 backdrop-blur-sm flex items-center justify-center z-50 p-4"
+      aria-labelledby="usage-panel-title"
+      role="dialog"
+      aria-modal="true"
+    >
+      <div className="bg-white rounded-xl shadow-2xl p-6 md:p-8 w-full max-w-2xl max-h-full overflow-y-auto">
+        <div className="flex justify-between items-center mb-4">
+          <h2 id="usage-panel-title" className="text-2xl font-bold text-gray-800">Usage &amp; Costs</h2>
+          <button
+            onClick={onClose}
+            className="p-1 text-gray-400 hover:text-gray-600 rounded-full hover:bg-gray-100 focus:outline-none focus:ring-2 focus:ring-purple-500"
+            aria-label="Close usage and costs"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+        <p className="text-gray-600 mb-6 text-sm">
+          Every AI call made from this browser, including failed and retried ones. Costs are estimated from list prices
+          and may differ from your bill, for example while you are on a free tier.
+        </p>
+
+        <div className="space-y-6">
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+            <StatCard label="Today" totals={summary.today} />
+            <StatCard label="Last 7 days" totals={summary.lastSevenDays} />
+            <StatCard label="This chat" totals={summary.activeSession} />
+          </div>
+
+          {(budgets.dailyUsd !== null || budgets.sessionUsd !== null) && (
+            <div className="space-y-3">
+              {budgets.dailyUsd !== null && <BudgetBar label="Today" spentUsd={summary.today.costUsd} budgetUsd={budgets.dailyUsd} />}
+              {budgets.sessionUsd !== null && <BudgetBar label="This chat" spentUsd={summary.activeSession.costUsd} budgetUsd={budgets.sessionUsd} />}
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <DailyBarChart
+              title={`Estimated cost per day (last ${CHART_DAYS} days)`}
+              days={summary.days}
+              valueOf={totals => totals.costUsd}
+              describe={totals => formatUsd(totals.costUsd)}
+            />
+            <DailyBarChart
+              title="Calls per day"
+              days={summary.days}
+              valueOf={totals => totals.calls}
+              failedOf={totals => totals.failedCalls}
+              describe={totals => `${totals.calls} calls, ${totals.failedCalls} failed`}
+            />
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm text-left">
+              <thead>
+                <tr className="text-xs uppercase tracking-wide text-gray-500 border-b border-gray-200">
+                  <th className="py-2 pr-3 font-semibold">Call</th>
+                  <th className="py-2 pr-3 font-semibold text-right">Calls</th>
+                  <th className="py-2 pr-3 font-semibold text-right">Failed</th>
+                  <th className="py-2 pr-3 font-semibold text-right">Avg. time</th>
+                  <th className="py-2 pr-3 font-semibold text-right">Used</th>
+                  <th className="py-2 font-semibold text-right">Cost</th>
+                </tr>
+              </thead>
+              <tbody>
+                {USAGE_OPERATIONS.map(operation => {
+                  const totals = summary.byOperation[operation] ?? totalUsage([]);
+                  return (
+                    <tr key={operation} className="border-b border-gray-100 text-gray-700">
+                      <td className="py-2 pr-3">{OPERATION_LABELS[operation]}</td>
+                      <td className="py-2 pr-3 text-right">{totals.calls}</td>
+                      <td className="py-2 pr-3 text-right">{totals.failedCalls}</td>
+                      <td className="py-2 pr-3 text-right">{totals.calls > 0 ? `${(totals.latencyMs / totals.calls / 1000).toFixed(1)} s` : '–'}</td>
+                      <td className="py-2 pr-3 text-right">
+                        {operation === 'images'
+                          ? `${totals.images} ${totals.images === 1 ? 'image' : 'images'}`
+                          : `${(totals.inputTokens + totals.outputTokens).toLocaleString()} tokens`}
+                      </td>
+                      <td className="py-2 text-right">{formatUsd(totals.costUsd)}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          {(summary.topChats.length > 0 || summary.outsideChats.calls > 0) && (
+            <div>
+              <p className="text-sm font-semibold text-gray-700 mb-2">Most expensive chats</p>
+              <ul className="text-sm text-gray-700 divide-y divide-gray-100">
+                {summary.topChats.map(({ sessionId, totals }) => (
+                  <li key={sessionId} className="flex justify-between gap-3 py-1.5">
+                    <span className="truncate">{titleOf(sessionId)}</span>
+                    <span className="shrink-0 text-gray-500">{totals.calls} calls · {formatUsd(totals.costUsd)}</span>
+                  </li>
+                ))}
+                {summary.outsideChats.calls > 0 && (
+                  <li className="flex justify-between gap-3 py-1.5">
+                    <span className="truncate italic">Batch posters</span>
+                    <span className="shrink-0 text-gray-500">{summary.outsideChats.calls} calls · {formatUsd(summary.outsideChats.costUsd)}</span>
+                  </li>
+                )}
+              </ul>
+            </div>
+          )}
+
+          <div>
+            <p className="text-sm font-semibold text-gray-700">Soft budgets</p>
+            <p className="text-xs text-gray-500 mb-2">
+              You are warned before a generation would go over a budget; nothing is blocked. Leave blank for no budget.
+            </p>
+            <div className="grid grid-cols-2 gap-4">
+              <label className="text-sm font-semibold text-gray-700">
+                Per day (US$)
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  inputMode="decimal"
+                  value={dailyBudgetText}
+                  onChange={(e) => setDailyBudgetText(e.target.value)}
+                  placeholder="No budget"
+                  className="mt-1 w-full p-2 border border-gray-300 rounded-lg font-normal focus:ring-2 focus:ring-purple-500 focus:border-purple-500"
+                />
+              </label>
+              <label className="text-sm font-semibold text-gray-700">
+                Per chat (US$)
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  inputMode="decimal"
+                  value={sessionBudgetText}
+                  onChange={(e) => setSessionBudgetText(e.target.value)}
+                  placeholder="No budget"
+                  className="mt-1 w-full p-2 border border-gray-300 rounded-lg font-normal focus:ring-2 focus:ring-purple-500 focus:border-purple-500"
+                />
+              </label>
+            </div>
+            {error && <p className="text-sm text-red-600 mt-2" role="alert">{error}</p>}
+          </div>
+        </div>
+
+        <div className="flex flex-wrap justify-between gap-2 mt-6">
+          <button
+            type="button"
+            onClick={handleClearHistory}
+            disabled={records.length === 0}
+            className="px-4 py-2 text-sm font-medium rounded-lg text-red-600 hover:bg-red-50 focus:outline-none focus:ring-2 focus:ring-red-400 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Clear usage history
+          </button>
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-sm font-medium rounded-lg text-gray-600 hover:bg-gray-100 focus:outline-none focus:ring-2 focus:ring-purple-500"
+            >
+              Close
+            </button>
+            <button
+              type="button"
+              onClick={handleSaveBudgets}
+              className="px-4 py-2 text-sm font-semibold rounded-lg text-white bg-purple-600 hover:bg-purple-700 shadow-md focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-purple-500"
+            >
+              Save budgets
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
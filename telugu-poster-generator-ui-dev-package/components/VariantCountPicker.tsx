@@ -0,0 +1,36 @@
+
+import React from 'react';
+
+export const MAX_VARIANT_COUNT = 4;
+
+interface VariantCountPickerProps {
+  variantCount: number;
+  onChangeVariantCount: (count: number) => void;
+  disabled?: boolean;
+}
+
+export const VariantCountPicker: React.FC<VariantCountPickerProps> = ({ variantCount, onChangeVariantCount, disabled = false }) => {
+  return (
+    <div className="flex items-center space-x-2" role="radiogroup" aria-label="Number of variants">
+      <span className="text-xs sm:text-sm text-gray-600">Variants:</span>
+      <div className="inline-flex rounded-full border border-gray-300 overflow-hidden">
+        {Array.from({ length: MAX_VARIANT_COUNT }, (_, index) => index + 1).map(count => (
+          <button
+            key={count}
+            type="button"
+            role="radio"
+            aria-checked={count === variantCount}
+            onClick={() => onChangeVariantCount(count)}
+            disabled={disabled}
+            title={count === 1 ? 'One poster' : `${count} posters with different backgrounds`}
+            className={`px-3 py-1 text-xs sm:text-sm font-medium transition-colors duration-200 focus:outline-none focus:ring-2 focus:ring-inset focus:ring-purple-500
+                        ${count === variantCount ? 'bg-purple-600 text-white' : 'bg-white text-gray-700 hover:bg-purple-50'}
+                        ${disabled ? 'opacity-60 cursor-not-allowed' : ''}`}
+          >
+            {count}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,60 @@
+
+import React from 'react';
+import type { PosterVariant } from '../App'; // Import type
+
+interface VariantGridProps {
+  variants: PosterVariant[];
+  selectedVariantId?: string;
+  onSelectVariant: (variantId: string) => void;
+  onDownloadAll: () => void;
+  disabled?: boolean;
+}
+
+export const VariantGrid: React.FC<VariantGridProps> = ({
+  variants,
+  selectedVariantId,
+  onSelectVariant,
+  onDownloadAll,
+  disabled = false,
+}) => {
+  return (
+    <div className="mt-3 sm:mt-4">
+      <div className="flex items-center justify-between mb-2">
+        <p className="text-sm font-semibold text-gray-700">
+          {variants.length} variants <span className="font-normal text-gray-500">– tap one to use it as your poster</span>
+        </p>
+        <button
+          type="button"
+          onClick={onDownloadAll}
+          className="text-sm font-medium text-green-700 hover:text-green-800 hover:underline focus:outline-none focus:ring-2 focus:ring-green-500 rounded"
+        >
+          Download all
+        </button>
+      </div>
+      <div className="grid grid-cols-2 gap-2 sm:gap-3" role="radiogroup" aria-label="Poster variants">
+        {variants.map((variant, index) => {
+          const isSelected = variant.id === selectedVariantId;
+          return (
+            <button
+              key={variant.id}
+              type="button"
+              role="radio"
+              aria-checked={isSelected}
+              aria-label={`Variant ${index + 1}${isSelected ? ' (chosen)' : ''}`}
+              onClick={() => onSelectVariant(variant.id)}
+              disabled={disabled}
+              className={`relative rounded-lg overflow-hidden bg-gray-100 transition-all duration-200 focus:outline-none focus:ring-2 focus:ring-purple-500
+                          ${isSelected ? 'ring-4 ring-purple-500 shadow-lg' : 'opacity-80 hover:opacity-100 hover:shadow-md'}
+                          ${disabled ? 'cursor-not-allowed' : ''}`}
+            >
+              <img src={variant.imageUrl} alt={`Poster variant ${index + 1}`} className="w-full h-full object-contain" style={{ maxHeight: '30vh' }} />
+              <span className={`absolute top-1.5 left-1.5 px-2 py-0.5 rounded-full text-xs font-semibold ${isSelected ? 'bg-purple-600 text-white' : 'bg-white/90 text-gray-700'}`}>
+                {isSelected ? 'Chosen' : `#${index + 1}`}
+              </span>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,15 @@
+// Bundles the poster fonts listed in utils/fontRegistry.ts. Only the weights the renderer uses are included.
+import '@fontsource/noto-sans-telugu/700.css';
+import '@fontsource/ramabhadra/400.css';
+import '@fontsource/mandali/400.css';
+import '@fontsource/ntr/400.css';
+import '@fontsource/suranna/400.css';
+import '@fontsource/timmana/400.css';
+import '@fontsource/gurajada/400.css';
+import '@fontsource/noto-sans-kannada/700.css';
+import '@fontsource/noto-sans-tamil/700.css';
+import '@fontsource/inter/700.css';
+import '@fontsource/poppins/700.css';
+import '@fontsource/playfair-display/700.css';
+import '@fontsource/merriweather/700.css';
+import '@fontsource/oswald/600.css';
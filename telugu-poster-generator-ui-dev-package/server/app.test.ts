@@ -0,0 +1,131 @@
+import type { IncomingMessage } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterEach, describe, expect, it } from 'vitest';
+import { mockProvider } from '../services/providers/mockProvider';
+import { PROXY_ROUTES } from '../services/proxyProtocol';
+import { EMPTY_SECONDARY_TEXT } from '../utils/posterContent';
+import { API_PREFIX, clientIdOf, createProxyServer } from './app';
+import type { ProxyConfig } from './config';
+
+// The server runs with the offline mock upstream on a free local port, so these tests need no key or network.
+
+const CONFIG: ProxyConfig = {
+  host: '127.0.0.1',
+  port: 0,
+  upstream: 'mock',
+  apiKey: '',
+  textRequestsPerMinute: 30,
+  imagesPerMinute: 12,
+};
+
+const DETAILS = { theme: 'Diyas on a dark blue background', headlines: [{ language: 'en', text: 'Happy Diwali' }], ...EMPTY_SECONDARY_TEXT };
+
+let close: (() => Promise<void>) | undefined;
+
+afterEach(async () => {
+  await close?.();
+  close = undefined;
+});
+
+// Starts a server and returns a function that posts JSON to one of its routes.
+const startServer = async (config: Partial<ProxyConfig> = {}) => {
+  const server = createProxyServer(mockProvider, { ...CONFIG, ...config });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  close = () => new Promise(resolve => {
+    server.closeAllConnections();
+    server.close(() => resolve());
+  });
+  const { port } = server.address() as AddressInfo;
+  return (route: string, body: unknown, headers: Record<string, string> = {}) =>
+    fetch(`http://127.0.0.1:${port}${API_PREFIX}${route}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: typeof body === 'string' ? body : JSON.stringify(body),
+    });
+};
+
+describe('createProxyServer', () => {
+  it('answers every route from the upstream provider', async () => {
+    const post = await startServer();
+
+    const title = await post(PROXY_ROUTES.title, { prompt: 'Ugadi wishes for my family' });
+    expect(title.status).toBe(200);
+    expect(await title.json()).toMatchObject({ title: 'Ugadi Festival Poster', usage: { model: 'mock' } });
+
+    const details = await post(PROXY_ROUTES.posterDetails, { prompt: 'Ugadi wishes for my family', languagePreference: ['te', 'en'] });
+    expect(details.status).toBe(200);
+    const { details: posterDetails } = await details.json();
+    expect(posterDetails.headlines.map((headline: { language: string }) => headline.language)).toEqual(['te', 'en']);
+
+    const refinement = await post(PROXY_ROUTES.posterRefinement, {
+      prompt: 'Make the background darker',
+      languagePreference: ['en'],
+      previous: { previousPrompt: 'Diwali wishes', previousDetails: DETAILS },
+    });
+    expect(refinement.status).toBe(200);
+    expect((await refinement.json()).refinement.scope).toBe('theme');
+
+    const images = await post(PROXY_ROUTES.images, { prompt: 'Diyas', options: { numberOfImages: 2 } });
+    expect(images.status).toBe(200);
+    const { images: urls } = await images.json();
+    expect(urls).toHaveLength(2);
+    expect(urls[0]).toMatch(/^data:image\/svg\+xml/);
+  });
+
+  it.each([
+    ['malformed JSON', PROXY_ROUTES.title, '{"prompt": '],
+    ['a missing prompt', PROXY_ROUTES.title, {}],
+    ['an unknown language', PROXY_ROUTES.posterDetails, { prompt: 'Diwali', languagePreference: ['fr'] }],
+    ['too many images', PROXY_ROUTES.images, { prompt: 'Diyas', options: { numberOfImages: 9 } }],
+  ])('answers 400 to %s', async (_, route, body) => {
+    const post = await startServer();
+    const response = await post(route, body);
+    expect(response.status).toBe(400);
+    expect((await response.json()).error.kind).toBe('unknown');
+  });
+
+  it('answers 413 to a body over the size limit', async () => {
+    const post = await startServer();
+    const response = await post(PROXY_ROUTES.title, { prompt: 'x'.repeat(70 * 1024) });
+    expect(response.status).toBe(413);
+  });
+
+  it('answers 429 with Retry-After once a client has used up its requests', async () => {
+    const post = await startServer({ textRequestsPerMinute: 2 });
+    const client = { 'X-Forwarded-For': '203.0.113.7' };
+    expect((await post(PROXY_ROUTES.title, { prompt: 'Diwali' }, client)).status).toBe(200);
+    expect((await post(PROXY_ROUTES.title, { prompt: 'Diwali' }, client)).status).toBe(200);
+
+    const limited = await post(PROXY_ROUTES.title, { prompt: 'Diwali' }, client);
+    expect(limited.status).toBe(429);
+    expect(Number(limited.headers.get('Retry-After'))).toBeGreaterThan(0);
+    expect((await limited.json()).error.kind).toBe('quota');
+
+    // Another browser behind the same local proxy has its own bucket.
+    expect((await post(PROXY_ROUTES.title, { prompt: 'Diwali' }, { 'X-Forwarded-For': '203.0.113.8' })).status).toBe(200);
+  });
+
+  it('counts every requested image against the image limit', async () => {
+    const post = await startServer({ imagesPerMinute: 3 });
+    expect((await post(PROXY_ROUTES.images, { prompt: 'Diyas', options: { numberOfImages: 2 } })).status).toBe(200);
+    expect((await post(PROXY_ROUTES.images, { prompt: 'Diyas', options: { numberOfImages: 2 } })).status).toBe(429);
+  });
+});
+
+describe('clientIdOf', () => {
+  const request = (remoteAddress: string, forwardedFor?: string) =>
+    ({ socket: { remoteAddress }, headers: forwardedFor === undefined ? {} : { 'x-forwarded-for': forwardedFor } }) as unknown as IncomingMessage;
+
+  it.each(['127.0.0.1', '::1', '::ffff:127.0.0.1'])('trusts X-Forwarded-For from %s', peer => {
+    expect(clientIdOf(request(peer, '203.0.113.7, 10.0.0.1'))).toBe('203.0.113.7');
+  });
+
+  it('ignores X-Forwarded-For from any other peer', () => {
+    expect(clientIdOf(request('198.51.100.4', '203.0.113.7'))).toBe('198.51.100.4');
+  });
+
+  it('uses the peer when there is no X-Forwarded-For', () => {
+    expect(clientIdOf(request('127.0.0.1'))).toBe('127.0.0.1');
+    expect(clientIdOf(request('127.0.0.1', ' '))).toBe('127.0.0.1');
+  });
+});
@@ -0,0 +1,223 @@
+import http, { type IncomingMessage, type ServerResponse } from 'node:http';
+import type { CallUsage, GenerationProvider, UsageListener } from '../services/generationProvider';
+import { toGenerationError, type GenerationErrorKind } from '../services/generationErrors';
+import {
+  ERROR_STATUS_CODES,
+  PROXY_ROUTES,
+  type ImagesResponse,
+  type PosterDetailsResponse,
+  type PosterRefinementResponse,
+  type ProxyErrorBody,
+  type TitleResponse,
+} from '../services/proxyProtocol';
+import type { ProxyConfig } from './config';
+import { createRateLimiter, type RateLimiter } from './rateLimiter';
+import {
+  BadRequestError,
+  MAX_PHOTO_BASE64_LENGTH,
+  readImagesRequest,
+  readPosterDetailsRequest,
+  readPosterRefinementRequest,
+  readTitleRequest,
+} from './requestValidation';
+
+// The HTTP side of the poster server: JSON routes under /api that forward to a GenerationProvider,
+// with per-client rate limits and one log line per request.
+
+export const API_PREFIX = '/api';
+const MAX_BODY_BYTES = 64 * 1024;
+const RATE_LIMIT_WINDOW_MS = 60_000;
+const LOOPBACK_ADDRESSES = ['127.0.0.1', '::1', '::ffff:127.0.0.1'];
+
+type RateLimitBucket = 'text' | 'images';
+
+interface Route {
+  bucket: RateLimitBucket;
+  maxBodyBytes?: number; // Defaults to MAX_BODY_BYTES
+  cost: (body: unknown) => number;
+  handle: (body: unknown, signal: AbortSignal, onUsage: UsageListener) => Promise<unknown>;
+}
+
+class PayloadTooLargeError extends Error {
+  constructor(maxBytes: number) {
+    super(`The request body is larger than ${Math.round(maxBytes / 1024)} KB.`);
+    this.name = 'PayloadTooLargeError';
+  }
+}
+
+const createRoutes = (upstream: GenerationProvider): Record<string, Route> => ({
+  [PROXY_ROUTES.title]: {
+    bucket: 'text',
+    cost: () => 1,
+    handle: async (body, signal, onUsage): Promise<TitleResponse> => {
+      const request = readTitleRequest(body);
+      return { title: await upstream.summarizePromptForTitle(request.prompt, signal, onUsage) };
+    },
+  },
+  [PROXY_ROUTES.posterDetails]: {
+    bucket: 'text',
+    // Room for an attached photo on top of the prompt.
+    maxBodyBytes: MAX_BODY_BYTES + MAX_PHOTO_BASE64_LENGTH,
+    cost: () => 1,
+    handle: async (body, signal, onUsage): Promise<PosterDetailsResponse> => {
+      const request = readPosterDetailsRequest(body);
+      return { details: await upstream.extractPosterDetailsFromPrompt(request.prompt, request.languagePreference, signal, onUsage, request.photo) };
+    },
+  },
+  [PROXY_ROUTES.posterRefinement]: {
+    bucket: 'text',
+    cost: () => 1,
+    handle: async (body, signal, onUsage): Promise<PosterRefinementResponse> => {
+      const request = readPosterRefinementRequest(body);
+      return { refinement: await upstream.refinePosterDetails(request.prompt, request.languagePreference, request.previous, signal, onUsage) };
+    },
+  },
+  [PROXY_ROUTES.images]: {
+    bucket: 'images',
+    // Each image counts, so asking for four variants uses up the limit four times as fast.
+    cost: body => readImagesRequest(body).options.numberOfImages ?? 1,
+    handle: async (body, signal, onUsage): Promise<ImagesResponse> => {
+      const request = readImagesRequest(body);
+      return { images: await upstream.generateImages(request.prompt, request.options, signal, onUsage) };
+    },
+  },
+});
+
+// Behind the Vite dev server or a reverse proxy on the same machine, every request arrives from loopback,
+// so the browser's address is taken from X-Forwarded-For. Other peers cannot pick their own address that way.
+export const clientIdOf = (req: IncomingMessage): string => {
+  const peer = req.socket.remoteAddress ?? 'unknown';
+  const forwardedFor = req.headers['x-forwarded-for'];
+  if (LOOPBACK_ADDRESSES.includes(peer) && typeof forwardedFor === 'string' && forwardedFor.trim() !== '') {
+    return forwardedFor.split(',')[0].trim();
+  }
+  return peer;
+};
+
+const readJsonBody = (req: IncomingMessage, maxBytes: number): Promise<unknown> =>
+  new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      // Keep reading so the answer can still be sent, but stop holding on to the data.
+      if (size <= maxBytes) chunks.push(chunk);
+    });
+    req.on('end', () => {
+      if (size > maxBytes) {
+        reject(new PayloadTooLargeError(maxBytes));
+        return;
+      }
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+      } catch {
+        reject(new BadRequestError('The request body is not valid JSON.'));
+      }
+    });
+    req.on('error', reject);
+  });
+
+const describeUsage = (usage: CallUsage): string =>
+  usage.images !== undefined
+    ? `${usage.model} images=${usage.images}`
+    : `${usage.model} tokens=${usage.inputTokens ?? 0}/${(usage.outputTokens ?? 0) + (usage.thinkingTokens ?? 0)}`;
+
+const sendJson = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8', 'Cache-Control': 'no-store', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+const sendError = (res: ServerResponse, status: number, kind: GenerationErrorKind, message: string, retryAfterMs?: number, usage?: CallUsage) => {
+  const body: ProxyErrorBody = { error: { kind, message, retryAfterMs }, usage };
+  const headers: Record<string, string> = retryAfterMs === undefined ? {} : { 'Retry-After': String(Math.ceil(retryAfterMs / 1000)) };
+  sendJson(res, status, body, headers);
+};
+
+export const createProxyServer = (upstream: GenerationProvider, config: ProxyConfig): http.Server => {
+  const routes = createRoutes(upstream);
+  const limiters: Record<RateLimitBucket, RateLimiter> = {
+    text: createRateLimiter(config.textRequestsPerMinute, RATE_LIMIT_WINDOW_MS),
+    images: createRateLimiter(config.imagesPerMinute, RATE_LIMIT_WINDOW_MS),
+  };
+
+  const handleRequest = async (
+    req: IncomingMessage,
+    res: ServerResponse,
+    clientId: string,
+    onUsage: UsageListener
+  ): Promise<GenerationErrorKind | undefined> => {
+    const path = (req.url ?? '/').split('?')[0];
+    if (path === `${API_PREFIX}/health` && req.method === 'GET') {
+      sendJson(res, 200, { status: 'ok', upstream: upstream.id });
+      return;
+    }
+    const route = path.startsWith(API_PREFIX) ? routes[path.slice(API_PREFIX.length)] : undefined;
+    if (!route) {
+      sendError(res, 404, 'unknown', `No such route: ${path}`);
+      return 'unknown';
+    }
+    if (req.method !== 'POST') {
+      res.setHeader('Allow', 'POST');
+      sendError(res, 405, 'unknown', `${path} only accepts POST requests.`);
+      return 'unknown';
+    }
+
+    // An abandoned request (the user pressed Cancel or closed the tab) stops the upstream call too.
+    const controller = new AbortController();
+    let usage: CallUsage | undefined;
+    res.on('close', () => {
+      if (!res.writableEnded) controller.abort();
+    });
+
+    try {
+      const body = await readJsonBody(req, route.maxBodyBytes ?? MAX_BODY_BYTES);
+      const limit = limiters[route.bucket].take(clientId, route.cost(body));
+      if (!limit.allowed) {
+        const seconds = Math.ceil(limit.retryAfterMs / 1000);
+        sendError(res, 429, 'quota', `Too many ${route.bucket === 'images' ? 'images' : 'requests'} from this browser. Try again in ${seconds} s.`, limit.retryAfterMs);
+        return 'quota';
+      }
+      const result = await route.handle(body, controller.signal, callUsage => {
+        usage = callUsage;
+        onUsage(callUsage);
+      });
+      sendJson(res, 200, { ...(result as object), usage });
+      return;
+    } catch (error) {
+      if (controller.signal.aborted) return 'cancelled';
+      if (error instanceof BadRequestError) {
+        sendError(res, 400, 'unknown', error.message);
+        return 'unknown';
+      }
+      if (error instanceof PayloadTooLargeError) {
+        sendError(res, 413, 'unknown', error.message);
+        return 'unknown';
+      }
+      const generationError = toGenerationError(error);
+      // Gemini being out of reach is this server's problem; to the browser the service is simply unavailable.
+      const kind = generationError.kind === 'offline' ? 'unavailable' : generationError.kind;
+      const retryAfterMs = generationError.retryAt === undefined ? undefined : Math.max(0, generationError.retryAt - Date.now());
+      if (kind === 'unknown') console.error(`Proxy: ${path} failed:`, error);
+      sendError(res, ERROR_STATUS_CODES[kind], kind, generationError.message, retryAfterMs, usage);
+      return kind;
+    }
+  };
+
+  return http.createServer((req, res) => {
+    const startedAt = Date.now();
+    const clientId = clientIdOf(req);
+    let usage: CallUsage | undefined;
+    handleRequest(req, res, clientId, callUsage => { usage = callUsage; })
+      .catch(error => {
+        console.error('Proxy: Unexpected failure:', error);
+        if (!res.headersSent) sendError(res, 500, 'unknown', 'The poster server failed unexpectedly.');
+        return 'unknown' as const;
+      })
+      .then(outcome => {
+        // Prompts are not logged; they may contain names and phone numbers.
+        const status = outcome === 'cancelled' ? ERROR_STATUS_CODES.cancelled : res.statusCode;
+        console.log(`Proxy: ${req.method} ${req.url} ${status} ${Date.now() - startedAt} ms client=${clientId}` +
+          `${usage ? ` ${describeUsage(usage)}` : ''}${outcome ? ` (${outcome})` : ''}`);
+      });
+  });
+};
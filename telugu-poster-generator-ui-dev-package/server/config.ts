@@ -0,0 +1,65 @@
+import { existsSync, readFileSync } from 'node:fs';
+import path from 'node:path';
+
+// Settings of the poster server, read from the environment and the same .env files Vite reads.
+
+export type ProxyUpstream = 'gemini' | 'mock';
+
+export interface ProxyConfig {
+  host: string;
+  port: number;
+  upstream: ProxyUpstream;
+  apiKey: string;
+  // Per client: text calls (titles, poster text, refinements) and generated images per minute.
+  textRequestsPerMinute: number;
+  imagesPerMinute: number;
+}
+
+export const DEFAULT_PROXY_PORT = 8787;
+
+// Later files win, and variables already set in the environment win over all of them.
+const ENV_FILES = ['.env', '.env.local'];
+
+export const loadEnvFiles = (directory: string) => {
+  const fromFiles: Record<string, string> = {};
+  for (const file of ENV_FILES) {
+    const filePath = path.join(directory, file);
+    if (!existsSync(filePath)) continue;
+    for (const line of readFileSync(filePath, 'utf8').split(/\r?\n/)) {
+      const match = line.match(/^\s*(?:export\s+)?([\w.-]+)\s*=\s*(.*?)\s*$/);
+      if (match) fromFiles[match[1]] = match[2].replace(/^(['"])(.*)\1$/, '$2');
+    }
+  }
+  for (const [name, value] of Object.entries(fromFiles)) {
+    if (process.env[name] === undefined) process.env[name] = value;
+  }
+};
+
+const readPositiveInteger = (env: NodeJS.ProcessEnv, name: string, fallback: number): number => {
+  const raw = env[name]?.trim();
+  if (!raw) return fallback;
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value <= 0) {
+    throw new Error(`${name} must be a whole number above 0, got "${raw}".`);
+  }
+  return value;
+};
+
+export const readProxyConfig = (env: NodeJS.ProcessEnv = process.env): ProxyConfig => {
+  const upstream = (env.PROXY_UPSTREAM || 'gemini').trim().toLowerCase();
+  if (upstream !== 'gemini' && upstream !== 'mock') {
+    throw new Error(`PROXY_UPSTREAM must be "gemini" or "mock", got "${upstream}".`);
+  }
+  const apiKey = env.GEMINI_API_KEY?.trim() ?? '';
+  if (upstream === 'gemini' && !apiKey) {
+    throw new Error('GEMINI_API_KEY is not set. Add it to .env.local, or set PROXY_UPSTREAM=mock to run without Gemini.');
+  }
+  return {
+    host: env.PROXY_HOST?.trim() || '127.0.0.1',
+    port: readPositiveInteger(env, 'PROXY_PORT', DEFAULT_PROXY_PORT),
+    upstream,
+    apiKey,
+    textRequestsPerMinute: readPositiveInteger(env, 'PROXY_TEXT_RATE_LIMIT', 30),
+    imagesPerMinute: readPositiveInteger(env, 'PROXY_IMAGE_RATE_LIMIT', 12),
+  };
+};
@@ -0,0 +1,40 @@
+import type { GenerationProvider } from '../services/generationProvider';
+import { geminiProvider } from '../services/providers/geminiProvider';
+import { mockProvider } from '../services/providers/mockProvider';
+import { loadEnvFiles, readProxyConfig, type ProxyConfig, type ProxyUpstream } from './config';
+import { API_PREFIX, createProxyServer } from './app';
+
+// Entry point of `npm run server`: the poster server that keeps the Gemini key away from the browser.
+// PROXY_UPSTREAM=mock answers with the offline mock provider, so the server also runs without a key or network.
+
+const UPSTREAMS: Record<ProxyUpstream, GenerationProvider> = {
+  gemini: geminiProvider,
+  mock: mockProvider,
+};
+
+loadEnvFiles(process.cwd());
+
+let config: ProxyConfig;
+try {
+  config = readProxyConfig();
+} catch (error) {
+  console.error(`Proxy: ${error instanceof Error ? error.message : error}`);
+  process.exit(1);
+}
+
+// geminiProvider reads the key from API_KEY, the name the client bundle has always used.
+process.env.API_KEY = config.apiKey;
+
+const server = createProxyServer(UPSTREAMS[config.upstream], config);
+server.listen(config.port, config.host, () => {
+  console.log(`Proxy: Listening on http://${config.host}:${config.port}${API_PREFIX} (upstream: ${config.upstream}, ` +
+    `limits per client: ${config.textRequestsPerMinute} text requests and ${config.imagesPerMinute} images a minute).`);
+});
+
+const shutDown = () => {
+  console.log('Proxy: Shutting down.');
+  server.close(() => process.exit(0));
+  server.closeAllConnections();
+};
+process.on('SIGINT', shutDown);
+process.on('SIGTERM', shutDown);
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { createRateLimiter } from './rateLimiter';
+
+const MINUTE = 60_000;
+
+describe('createRateLimiter', () => {
+  it('lets a client spend a full bucket at once, then refuses with the wait for the next token', () => {
+    const limiter = createRateLimiter(3, MINUTE);
+    for (let i = 0; i < 3; i++) expect(limiter.take('a', 1, 0).allowed).toBe(true);
+    expect(limiter.take('a', 1, 0)).toEqual({ allowed: false, retryAfterMs: 20_000 });
+  });
+
+  it('refills evenly over the window', () => {
+    const limiter = createRateLimiter(3, MINUTE);
+    limiter.take('a', 3, 0);
+    expect(limiter.take('a', 1, 19_999).allowed).toBe(false);
+    expect(limiter.take('a', 1, 20_000).allowed).toBe(true);
+    expect(limiter.take('a', 1, 20_000).allowed).toBe(false);
+  });
+
+  it('keeps a bucket per client', () => {
+    const limiter = createRateLimiter(1, MINUTE);
+    expect(limiter.take('a', 1, 0).allowed).toBe(true);
+    expect(limiter.take('a', 1, 0).allowed).toBe(false);
+    expect(limiter.take('b', 1, 0).allowed).toBe(true);
+  });
+
+  it('charges a request by its cost, but never more than a full bucket', () => {
+    const limiter = createRateLimiter(4, MINUTE);
+    expect(limiter.take('a', 3, 0).allowed).toBe(true);
+    expect(limiter.take('a', 2, 0)).toEqual({ allowed: false, retryAfterMs: 15_000 });
+    expect(limiter.take('b', 10, 0).allowed).toBe(true);
+    expect(limiter.take('b', 1, 0).allowed).toBe(false);
+  });
+
+  it('does not charge a refused request', () => {
+    const limiter = createRateLimiter(2, MINUTE);
+    limiter.take('a', 2, 0);
+    expect(limiter.take('a', 1, 0).allowed).toBe(false);
+    expect(limiter.take('a', 1, 30_000).allowed).toBe(true);
+  });
+});
@@ -0,0 +1,45 @@
+// Token buckets per client: a client may spend up to `capacity` tokens at once,
+// and its bucket refills evenly so that it is full again after `refillMs`.
+
+export interface RateLimitResult {
+  allowed: boolean;
+  retryAfterMs: number; // 0 when allowed
+}
+
+export interface RateLimiter {
+  take: (clientId: string, cost?: number, now?: number) => RateLimitResult;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+// Beyond this many clients, full buckets are dropped; a full bucket is the same as no bucket.
+const MAX_TRACKED_CLIENTS = 10_000;
+
+export const createRateLimiter = (capacity: number, refillMs: number): RateLimiter => {
+  const buckets = new Map<string, Bucket>();
+  const tokensPerMs = capacity / refillMs;
+  const currentTokens = (bucket: Bucket, now: number) => Math.min(capacity, bucket.tokens + (now - bucket.updatedAt) * tokensPerMs);
+
+  const take = (clientId: string, cost: number = 1, now: number = Date.now()): RateLimitResult => {
+    if (buckets.size > MAX_TRACKED_CLIENTS) {
+      buckets.forEach((bucket, id) => {
+        if (currentTokens(bucket, now) >= capacity) buckets.delete(id);
+      });
+    }
+    // A request can never cost more than a full bucket, or it could not go through at all.
+    const price = Math.min(cost, capacity);
+    const bucket = buckets.get(clientId) ?? { tokens: capacity, updatedAt: now };
+    const tokens = currentTokens(bucket, now);
+    if (tokens < price) {
+      buckets.set(clientId, { tokens, updatedAt: now });
+      return { allowed: false, retryAfterMs: Math.ceil((price - tokens) / tokensPerMs) };
+    }
+    buckets.set(clientId, { tokens: tokens - price, updatedAt: now });
+    return { allowed: true, retryAfterMs: 0 };
+  };
+
+  return { take };
+};
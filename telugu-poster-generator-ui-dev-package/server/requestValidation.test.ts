@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { EMPTY_SECONDARY_TEXT } from '../utils/posterContent';
+import {
+  BadRequestError,
+  MAX_PHOTO_BASE64_LENGTH,
+  readImagesRequest,
+  readPosterDetailsRequest,
+  readPosterRefinementRequest,
+  readTitleRequest,
+} from './requestValidation';
+
+const DETAILS = { theme: 'Diyas on a dark blue background', headlines: [{ language: 'en', text: 'Happy Diwali' }], ...EMPTY_SECONDARY_TEXT };
+
+describe('readTitleRequest', () => {
+  it('reads the prompt', () => {
+    expect(readTitleRequest({ prompt: 'Diwali wishes' })).toEqual({ prompt: 'Diwali wishes' });
+  });
+
+  it.each([null, [], 'Diwali wishes', {}, { prompt: '  ' }, { prompt: 42 }, { prompt: 'x'.repeat(4001) }])('rejects %j', body => {
+    expect(() => readTitleRequest(body)).toThrow(BadRequestError);
+  });
+});
+
+describe('readPosterDetailsRequest', () => {
+  it('reads the prompt, languages and photo', () => {
+    const photo = { mimeType: 'image/jpeg', data: 'AAAA' };
+    expect(readPosterDetailsRequest({ prompt: 'Diwali wishes', languagePreference: ['te', 'en'], photo })).toEqual({
+      prompt: 'Diwali wishes',
+      languagePreference: ['te', 'en'],
+      photo,
+    });
+  });
+
+  it.each([
+    ['no languages', { languagePreference: [] }],
+    ['an unknown language', { languagePreference: ['fr'] }],
+    ['a language twice', { languagePreference: ['te', 'te'] }],
+    ['a photo of another type', { photo: { mimeType: 'image/gif', data: 'AAAA' } }],
+    ['a photo that is not base64', { photo: { mimeType: 'image/jpeg', data: 'not base64!' } }],
+    ['an oversized photo', { photo: { mimeType: 'image/jpeg', data: 'A'.repeat(MAX_PHOTO_BASE64_LENGTH + 4) } }],
+  ])('rejects %s', (_, changes) => {
+    expect(() => readPosterDetailsRequest({ prompt: 'Diwali wishes', languagePreference: ['te'], ...changes })).toThrow(BadRequestError);
+  });
+});
+
+describe('readPosterRefinementRequest', () => {
+  it('reads the previous poster', () => {
+    const request = readPosterRefinementRequest({ prompt: 'Make it darker', languagePreference: ['en'], previous: { previousPrompt: 'Diwali wishes', previousDetails: DETAILS } });
+    expect(request.previous.previousDetails.headlines).toEqual(DETAILS.headlines);
+  });
+
+  it('rejects previous poster text that is not valid', () => {
+    const previous = { previousPrompt: 'Diwali wishes', previousDetails: { theme: 7 } };
+    expect(() => readPosterRefinementRequest({ prompt: 'Make it darker', languagePreference: ['en'], previous })).toThrow(BadRequestError);
+  });
+});
+
+describe('readImagesRequest', () => {
+  it('reads the image options, which are optional', () => {
+    expect(readImagesRequest({ prompt: 'Diyas' })).toEqual({ prompt: 'Diyas', options: {} });
+    expect(readImagesRequest({ prompt: 'Diyas', options: { aspectRatio: '9:16', numberOfImages: 4 } }).options).toEqual({ aspectRatio: '9:16', numberOfImages: 4 });
+  });
+
+  it.each([{ aspectRatio: '2:1' }, { numberOfImages: 0 }, { numberOfImages: 5 }, { numberOfImages: 1.5 }, []])('rejects options %j', options => {
+    expect(() => readImagesRequest({ prompt: 'Diyas', options })).toThrow(BadRequestError);
+  });
+});
@@ -0,0 +1,131 @@
+import type { LanguagePreference } from '../App'; // Import type
+import type { ImageGenerationOptions, PromptPhoto, RefinementContext } from '../services/generationProvider';
+import type {
+  ImagesRequest,
+  PosterDetailsRequest,
+  PosterRefinementRequest,
+  TitleRequest,
+} from '../services/proxyProtocol';
+import type { ImagenAspectRatio } from '../utils/posterFormats';
+import { validatePosterDetails } from '../utils/posterContent';
+import { isLanguageId, LANGUAGE_IDS } from '../utils/languages';
+
+// Checks the JSON bodies sent by browsers before anything is passed on to the upstream provider.
+
+export class BadRequestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BadRequestError';
+  }
+}
+
+const MAX_PROMPT_LENGTH = 4000;
+const MAX_IMAGES_PER_REQUEST = 4;
+// The browser sends a 768 px JPEG, which is far below this; anything bigger is not from the app.
+export const MAX_PHOTO_BASE64_LENGTH = 1024 * 1024;
+const PHOTO_MIME_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+const ASPECT_RATIOS: ImagenAspectRatio[] = ['1:1', '3:4', '4:3', '9:16', '16:9'];
+
+const readObject = (value: unknown, what: string): Record<string, unknown> => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new BadRequestError(`${what} should be a JSON object.`);
+  }
+  return value as Record<string, unknown>;
+};
+
+const readPrompt = (value: unknown, field: string): string => {
+  if (typeof value !== 'string' || value.trim() === '') {
+    throw new BadRequestError(`"${field}" should be a non-empty string.`);
+  }
+  if (value.length > MAX_PROMPT_LENGTH) {
+    throw new BadRequestError(`"${field}" is longer than ${MAX_PROMPT_LENGTH} characters.`);
+  }
+  return value;
+};
+
+const readLanguagePreference = (value: unknown): LanguagePreference => {
+  if (!Array.isArray(value) || value.length === 0 || !value.every(isLanguageId)) {
+    throw new BadRequestError(`"languagePreference" should be a non-empty list of ${LANGUAGE_IDS.join(', ')}.`);
+  }
+  if (new Set(value).size !== value.length) {
+    throw new BadRequestError('"languagePreference" lists a language more than once.');
+  }
+  return value;
+};
+
+const readImageOptions = (value: unknown): ImageGenerationOptions => {
+  const record = readObject(value ?? {}, '"options"');
+  const options: ImageGenerationOptions = {};
+  if (record.aspectRatio !== undefined) {
+    if (!ASPECT_RATIOS.includes(record.aspectRatio as ImagenAspectRatio)) {
+      throw new BadRequestError(`"options.aspectRatio" should be one of ${ASPECT_RATIOS.join(', ')}.`);
+    }
+    options.aspectRatio = record.aspectRatio as ImagenAspectRatio;
+  }
+  if (record.numberOfImages !== undefined) {
+    const count = record.numberOfImages;
+    if (typeof count !== 'number' || !Number.isInteger(count) || count < 1 || count > MAX_IMAGES_PER_REQUEST) {
+      throw new BadRequestError(`"options.numberOfImages" should be a whole number from 1 to ${MAX_IMAGES_PER_REQUEST}.`);
+    }
+    options.numberOfImages = count;
+  }
+  return options;
+};
+
+const readPhoto = (value: unknown): PromptPhoto | undefined => {
+  if (value === undefined || value === null) return undefined;
+  const record = readObject(value, '"photo"');
+  if (!PHOTO_MIME_TYPES.includes(record.mimeType as string)) {
+    throw new BadRequestError(`"photo.mimeType" should be one of ${PHOTO_MIME_TYPES.join(', ')}.`);
+  }
+  if (typeof record.data !== 'string' || record.data === '' || !/^[A-Za-z0-9+/]+={0,2}$/.test(record.data)) {
+    throw new BadRequestError('"photo.data" should be a base64 string.');
+  }
+  if (record.data.length > MAX_PHOTO_BASE64_LENGTH) {
+    throw new BadRequestError(`"photo.data" is longer than ${MAX_PHOTO_BASE64_LENGTH} characters.`);
+  }
+  return { mimeType: record.mimeType as string, data: record.data };
+};
+
+const readRefinementContext = (value: unknown): RefinementContext => {
+  const record = readObject(value, '"previous"');
+  if (typeof record.previousPrompt !== 'string' || record.previousPrompt.length > MAX_PROMPT_LENGTH) {
+    throw new BadRequestError(`"previous.previousPrompt" should be a string of at most ${MAX_PROMPT_LENGTH} characters.`);
+  }
+  const { details, problems } = validatePosterDetails(record.previousDetails);
+  if (!details) {
+    throw new BadRequestError(`"previous.previousDetails" is not valid: ${problems.join('; ')}.`);
+  }
+  return { previousPrompt: record.previousPrompt, previousDetails: details };
+};
+
+export const readTitleRequest = (body: unknown): TitleRequest => {
+  const record = readObject(body, 'The request body');
+  return { prompt: readPrompt(record.prompt, 'prompt') };
+};
+
+export const readPosterDetailsRequest = (body: unknown): PosterDetailsRequest => {
+  const record = readObject(body, 'The request body');
+  return {
+    prompt: readPrompt(record.prompt, 'prompt'),
+    languagePreference: readLanguagePreference(record.languagePreference),
+    photo: readPhoto(record.photo),
+  };
+};
+
+export const readPosterRefinementRequest = (body: unknown): PosterRefinementRequest => {
+  const record = readObject(body, 'The request body');
+  return {
+    prompt: readPrompt(record.prompt, 'prompt'),
+    languagePreference: readLanguagePreference(record.languagePreference),
+    previous: readRefinementContext(record.previous),
+  };
+};
+
+export const readImagesRequest = (body: unknown): ImagesRequest => {
+  const record = readObject(body, 'The request body');
+  return {
+    prompt: readPrompt(record.prompt, 'prompt'),
+    options: readImageOptions(record.options),
+  };
+};
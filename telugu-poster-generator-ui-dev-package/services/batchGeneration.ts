@@ -0,0 +1,82 @@
+import { renderPoster, type PosterRenderOptions } from './posterRenderer';
+import { dataUrlToBytes } from './posterExport';
+import { fillPlaceholders, findEmptyPlaceholders, findPlaceholders } from '../utils/placeholders';
+import { buildZip } from '../utils/zipWriter';
+import { textLinesOf, type PosterText } from '../utils/posterContent';
+
+// Batch mode: the same poster for every row of a table, with {{placeholders}} in the text filled from the row.
+// Backgrounds are generated once up front; each row only costs a local redraw.
+
+export const MAX_BATCH_ROWS = 200;
+
+export type BatchRowStatus = 'pending' | 'rendering' | 'done' | 'failed';
+
+export interface BatchRowResult {
+  status: BatchRowStatus;
+  imageUrl?: string;
+  errorText?: string;
+}
+
+export interface BatchRenderSettings {
+  textTemplate: PosterText;
+  backgroundUrls: string[]; // Rows take turns over these
+  renderOptions: Omit<PosterRenderOptions, 'baseImageUrl' | keyof PosterText>;
+}
+
+// The poster text for one row; throws when a placeholder the text uses is blank in that row.
+export const batchRowText = (textTemplate: PosterText, row: Record<string, string>): PosterText => {
+  const emptyPlaceholders = findEmptyPlaceholders(findPlaceholders(...textLinesOf(textTemplate)), row);
+  if (emptyPlaceholders.length > 0) {
+    throw new Error(`No value for ${emptyPlaceholders.map(name => `{{${name}}}`).join(', ')} in this row.`);
+  }
+  const fill = (template: string) => fillPlaceholders(template, row).trim();
+  return {
+    headlines: textTemplate.headlines.map(headline => ({ ...headline, text: fill(headline.text) })),
+    subheadline: fill(textTemplate.subheadline),
+    dateTime: fill(textTemplate.dateTime),
+    venue: fill(textTemplate.venue),
+    callToAction: fill(textTemplate.callToAction),
+    attribution: fill(textTemplate.attribution),
+  };
+};
+
+// Renders the rows at `rowIndexes` one at a time. A failing row is reported and the rest carry on.
+export const renderBatch = async (
+  canvas: HTMLCanvasElement,
+  rows: Record<string, string>[],
+  rowIndexes: number[],
+  settings: BatchRenderSettings,
+  onRowUpdate: (rowIndex: number, result: BatchRowResult) => void,
+  shouldStop: () => boolean = () => false
+): Promise<void> => {
+  if (settings.backgroundUrls.length === 0) {
+    throw new Error('A batch needs at least one background.');
+  }
+  for (const rowIndex of rowIndexes) {
+    if (shouldStop()) return;
+    onRowUpdate(rowIndex, { status: 'rendering' });
+    try {
+      const text = batchRowText(settings.textTemplate, rows[rowIndex]);
+      const imageUrl = await renderPoster(canvas, {
+        ...settings.renderOptions,
+        ...text,
+        baseImageUrl: settings.backgroundUrls[rowIndex % settings.backgroundUrls.length],
+      });
+      onRowUpdate(rowIndex, { status: 'done', imageUrl });
+    } catch (err) {
+      console.error(`Batch: Row ${rowIndex + 1} failed:`, err);
+      onRowUpdate(rowIndex, { status: 'failed', errorText: err instanceof Error ? err.message : 'Could not draw this poster.' });
+    }
+  }
+};
+
+// File names start with the row number so the ZIP keeps the table order, followed by the row's first filled value.
+export const batchFileName = (rowIndex: number, row: Record<string, string>, placeholders: string[], rowCount: number): string => {
+  const label = placeholders.length > 0 ? fillPlaceholders(`{{${placeholders[0]}}}`, row) : '';
+  const slug = label.normalize('NFC').replace(/[^\p{L}\p{M}\p{N}]+/gu, '_').replace(/^_+|_+$/g, '').substring(0, 40);
+  const number = String(rowIndex + 1).padStart(String(rowCount).length, '0');
+  return `${number}${slug ? `_${slug}` : ''}.png`;
+};
+
+export const buildBatchZip = (files: { fileName: string; imageUrl: string }[]): Blob =>
+  new Blob([buildZip(files.map(file => ({ name: file.fileName, data: dataUrlToBytes(file.imageUrl) })))], { type: 'application/zip' });
@@ -0,0 +1,50 @@
+// The brand kit is a single small settings object, so it lives in localStorage rather than IndexedDB.
+
+export interface BrandKit {
+  logoDataUrl: string | null;
+  primaryColor: string;
+  secondaryColor: string;
+  contactLines: string[];
+}
+
+const BRAND_KIT_STORAGE_KEY = 'poster-brand-kit';
+
+export const MAX_CONTACT_LINES = 3;
+
+export const EMPTY_BRAND_KIT: BrandKit = {
+  logoDataUrl: null,
+  primaryColor: '#4f46e5',
+  secondaryColor: '#f59e0b',
+  contactLines: [],
+};
+
+export const isBrandKitEmpty = (kit: BrandKit): boolean =>
+  !kit.logoDataUrl && kit.contactLines.every(line => line.trim() === '');
+
+export const loadBrandKit = (): BrandKit | null => {
+  try {
+    const raw = localStorage.getItem(BRAND_KIT_STORAGE_KEY);
+    if (!raw) return null;
+    const parsed = JSON.parse(raw);
+    return {
+      logoDataUrl: typeof parsed.logoDataUrl === 'string' ? parsed.logoDataUrl : null,
+      primaryColor: typeof parsed.primaryColor === 'string' ? parsed.primaryColor : EMPTY_BRAND_KIT.primaryColor,
+      secondaryColor: typeof parsed.secondaryColor === 'string' ? parsed.secondaryColor : EMPTY_BRAND_KIT.secondaryColor,
+      contactLines: Array.isArray(parsed.contactLines)
+        ? parsed.contactLines.filter((line: unknown): line is string => typeof line === 'string').slice(0, MAX_CONTACT_LINES)
+        : [],
+    };
+  } catch (error) {
+    console.error('Brand Kit: Failed to read the saved brand kit:', error);
+    return null;
+  }
+};
+
+// Throws if the browser refuses the write (usually because the logo is too large for localStorage).
+export const saveBrandKit = (kit: BrandKit): void => {
+  localStorage.setItem(BRAND_KIT_STORAGE_KEY, JSON.stringify(kit));
+};
+
+export const clearBrandKit = (): void => {
+  localStorage.removeItem(BRAND_KIT_STORAGE_KEY);
+};
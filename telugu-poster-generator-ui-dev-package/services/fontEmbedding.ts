@@ -0,0 +1,94 @@
+import type { PosterFont } from '../utils/fontRegistry';
+import notoSansTeluguTelugu from '@fontsource/noto-sans-telugu/files/noto-sans-telugu-telugu-700-normal.woff?url';
+import notoSansTeluguLatin from '@fontsource/noto-sans-telugu/files/noto-sans-telugu-latin-700-normal.woff?url';
+import ramabhadraTelugu from '@fontsource/ramabhadra/files/ramabhadra-telugu-400-normal.woff?url';
+import ramabhadraLatin from '@fontsource/ramabhadra/files/ramabhadra-latin-400-normal.woff?url';
+import mandaliTelugu from '@fontsource/mandali/files/mandali-telugu-400-normal.woff?url';
+import mandaliLatin from '@fontsource/mandali/files/mandali-latin-400-normal.woff?url';
+import ntrTelugu from '@fontsource/ntr/files/ntr-telugu-400-normal.woff?url';
+import ntrLatin from '@fontsource/ntr/files/ntr-latin-400-normal.woff?url';
+import surannaTelugu from '@fontsource/suranna/files/suranna-telugu-400-normal.woff?url';
+import surannaLatin from '@fontsource/suranna/files/suranna-latin-400-normal.woff?url';
+import timmanaTelugu from '@fontsource/timmana/files/timmana-telugu-400-normal.woff?url';
+import timmanaLatin from '@fontsource/timmana/files/timmana-latin-400-normal.woff?url';
+import gurajadaTelugu from '@fontsource/gurajada/files/gurajada-telugu-400-normal.woff?url';
+import gurajadaLatin from '@fontsource/gurajada/files/gurajada-latin-400-normal.woff?url';
+import notoSansKannadaKannada from '@fontsource/noto-sans-kannada/files/noto-sans-kannada-kannada-700-normal.woff?url';
+import notoSansKannadaLatin from '@fontsource/noto-sans-kannada/files/noto-sans-kannada-latin-700-normal.woff?url';
+import notoSansTamilTamil from '@fontsource/noto-sans-tamil/files/noto-sans-tamil-tamil-700-normal.woff?url';
+import notoSansTamilLatin from '@fontsource/noto-sans-tamil/files/noto-sans-tamil-latin-700-normal.woff?url';
+import interLatin from '@fontsource/inter/files/inter-latin-700-normal.woff?url';
+import poppinsLatin from '@fontsource/poppins/files/poppins-latin-700-normal.woff?url';
+import playfairDisplayLatin from '@fontsource/playfair-display/files/playfair-display-latin-700-normal.woff?url';
+import merriweatherLatin from '@fontsource/merriweather/files/merriweather-latin-700-normal.woff?url';
+import oswaldLatin from '@fontsource/oswald/files/oswald-latin-600-normal.woff?url';
+
+// Font files for embedding in exported SVGs and PDFs, so the text looks right on machines without these fonts.
+// Only the subsets poster text can use are listed; the ranges match the @fontsource stylesheets.
+// These are the WOFF files rather than WOFF2: fontkit, which sets the PDF text, cannot subset WOFF2 fonts.
+
+const TELUGU_RANGE = 'U+0951-0952, U+0964-0965, U+0C00-0C7F, U+1CDA, U+200C-200D, U+25CC';
+const KANNADA_RANGE = 'U+0951-0952, U+0964-0965, U+0C80-0CF3, U+1CD0, U+1CD2-1CD3, U+1CDA, U+1CF2, U+1CF4, U+200C-200D, U+20B9, U+25CC, U+A830-A835';
+const TAMIL_RANGE = 'U+0964-0965, U+0B82-0BFA, U+200C-200D, U+20B9, U+25CC';
+const LATIN_RANGE = 'U+0000-00FF, U+0131, U+0152-0153, U+02BB-02BC, U+02C6, U+02DA, U+02DC, U+2000-206F, U+2074, U+20AC, U+2122, U+2191, U+2193, U+2212, U+2215, U+FEFF, U+FFFD';
+
+interface FontFile {
+  url: string;
+  unicodeRange: string;
+}
+
+const FONT_FILES: Record<string, FontFile[]> = {
+  'noto-sans-telugu': [{ url: notoSansTeluguTelugu, unicodeRange: TELUGU_RANGE }, { url: notoSansTeluguLatin, unicodeRange: LATIN_RANGE }],
+  ramabhadra: [{ url: ramabhadraTelugu, unicodeRange: TELUGU_RANGE }, { url: ramabhadraLatin, unicodeRange: LATIN_RANGE }],
+  mandali: [{ url: mandaliTelugu, unicodeRange: TELUGU_RANGE }, { url: mandaliLatin, unicodeRange: LATIN_RANGE }],
+  ntr: [{ url: ntrTelugu, unicodeRange: TELUGU_RANGE }, { url: ntrLatin, unicodeRange: LATIN_RANGE }],
+  suranna: [{ url: surannaTelugu, unicodeRange: TELUGU_RANGE }, { url: surannaLatin, unicodeRange: LATIN_RANGE }],
+  timmana: [{ url: timmanaTelugu, unicodeRange: TELUGU_RANGE }, { url: timmanaLatin, unicodeRange: LATIN_RANGE }],
+  gurajada: [{ url: gurajadaTelugu, unicodeRange: TELUGU_RANGE }, { url: gurajadaLatin, unicodeRange: LATIN_RANGE }],
+  'noto-sans-kannada': [{ url: notoSansKannadaKannada, unicodeRange: KANNADA_RANGE }, { url: notoSansKannadaLatin, unicodeRange: LATIN_RANGE }],
+  'noto-sans-tamil': [{ url: notoSansTamilTamil, unicodeRange: TAMIL_RANGE }, { url: notoSansTamilLatin, unicodeRange: LATIN_RANGE }],
+  inter: [{ url: interLatin, unicodeRange: LATIN_RANGE }],
+  poppins: [{ url: poppinsLatin, unicodeRange: LATIN_RANGE }],
+  'playfair-display': [{ url: playfairDisplayLatin, unicodeRange: LATIN_RANGE }],
+  merriweather: [{ url: merriweatherLatin, unicodeRange: LATIN_RANGE }],
+  oswald: [{ url: oswaldLatin, unicodeRange: LATIN_RANGE }],
+};
+
+const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error ?? new Error('Failed to read font data.'));
+    reader.readAsDataURL(blob);
+  });
+
+const fetchFontFile = async (url: string): Promise<Blob> => {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch font file (${response.status}).`);
+  }
+  // Vite may serve the file without a font MIME type, so set it explicitly.
+  return new Blob([await response.blob()], { type: 'font/woff' });
+};
+
+// Returns @font-face rules with the font files inlined as data URLs.
+export const buildEmbeddedFontCss = async (fonts: PosterFont[]): Promise<string> => {
+  const uniqueFonts = fonts.filter((font, index) => fonts.findIndex(other => other.id === font.id) === index);
+  const rules = await Promise.all(uniqueFonts.flatMap(font =>
+    (FONT_FILES[font.id] ?? []).map(async file => {
+      const dataUrl = await blobToDataUrl(await fetchFontFile(file.url));
+      return `@font-face { font-family: '${font.family}'; font-style: normal; font-weight: ${font.weight}; ` +
+        `src: url('${dataUrl}') format('woff'); unicode-range: ${file.unicodeRange}; }`;
+    })
+  ));
+  return rules.join('\n');
+};
+
+// The font's files as raw bytes, script subset first and Latin last, for fonts that are set glyph by glyph.
+export const loadFontFiles = async (font: PosterFont): Promise<Uint8Array[]> => {
+  const files = FONT_FILES[font.id];
+  if (!files) {
+    throw new Error(`The font "${font.family}" cannot be embedded.`);
+  }
+  return Promise.all(files.map(async file => new Uint8Array(await (await fetchFontFile(file.url)).arrayBuffer())));
+};
@@ -0,0 +1,44 @@
+import type { PosterFont } from '../utils/fontRegistry';
+
+// Canvas text silently falls back to a system font if the web font has not been downloaded yet,
+// so the renderer waits for every face it is about to use.
+
+const FONT_LOAD_TIMEOUT_MS = 8000;
+
+const SAMPLE_TEXT: Record<PosterFont['script'], string> = {
+  telugu: 'తెలుగు అక్షరాలు',
+  kannada: 'ಕನ್ನಡ ಅಕ್ಷರಗಳು',
+  tamil: 'தமிழ் எழுத்துகள்',
+  latin: 'Poster Aa',
+};
+
+const loadedFonts = new Set<string>();
+
+const loadFont = async (font: PosterFont): Promise<void> => {
+  if (loadedFonts.has(font.id)) return;
+  // The sample text makes the browser fetch the unicode-range subset that is actually needed.
+  const faces = await document.fonts.load(`${font.weight} 48px '${font.family}'`, SAMPLE_TEXT[font.script]);
+  if (faces.length === 0) {
+    console.warn(`Font Loader: No font face matched "${font.family}" (${font.weight}); the canvas will use a fallback font.`);
+    return;
+  }
+  loadedFonts.add(font.id);
+};
+
+export const ensureFontsLoaded = async (fonts: PosterFont[]): Promise<void> => {
+  if (typeof document === 'undefined' || !document.fonts) return;
+  let timeoutId: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<void>(resolve => {
+    timeoutId = setTimeout(() => {
+      console.warn('Font Loader: Timed out waiting for poster fonts; rendering with whatever is available.');
+      resolve();
+    }, FONT_LOAD_TIMEOUT_MS);
+  });
+  try {
+    await Promise.race([Promise.all(fonts.map(loadFont)), timeout]);
+  } catch (error) {
+    console.error('Font Loader: Failed to load poster fonts:', error);
+  } finally {
+    clearTimeout(timeoutId);
+  }
+};
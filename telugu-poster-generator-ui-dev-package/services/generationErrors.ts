@@ -0,0 +1,47 @@
+import { isAbortError } from '../utils/retry';
+
+// Typed failures from the AI backends, so an error card can offer the right way out
+// (retry, rephrase, fix the key or wait) instead of only printing the message.
+
+export type GenerationErrorKind =
+  | 'invalid-key' // Missing, wrong or unauthorised API key
+  | 'quota' // Rate limit or daily quota used up
+  | 'safety' // The prompt or the generated image was blocked by the safety filters
+  | 'malformed-response' // The AI answered, but not with the JSON that was asked for
+  | 'unavailable' // The service is overloaded or had an internal error
+  | 'offline' // The request never reached the service
+  | 'cancelled' // Stopped by the user
+  | 'unknown';
+
+export class GenerationError extends Error {
+  readonly kind: GenerationErrorKind;
+  readonly retryAt?: number; // Epoch ms when a 'quota' error says it is worth trying again
+
+  constructor(kind: GenerationErrorKind, message: string, retryAt?: number) {
+    super(message);
+    this.name = 'GenerationError';
+    this.kind = kind;
+    this.retryAt = retryAt;
+  }
+}
+
+// Longer quota waits are left to the user, with a "wait until" card.
+const MAX_AUTOMATIC_QUOTA_WAIT_MS = 10_000;
+
+// What geminiService retries with backoff before giving up.
+export const isRetryableGenerationError = (error: unknown): boolean => {
+  if (!(error instanceof GenerationError)) return false;
+  if (error.kind === 'unavailable' || error.kind === 'offline') return true;
+  return error.kind === 'quota' && (error.retryAt === undefined || error.retryAt - Date.now() <= MAX_AUTOMATIC_QUOTA_WAIT_MS);
+};
+
+// Retrying a rate limit before the time the service gave would only hit the limit again.
+export const generationRetryDelayMs = (error: unknown): number | undefined =>
+  error instanceof GenerationError && error.retryAt !== undefined ? Math.max(0, error.retryAt - Date.now()) : undefined;
+
+// Any error from the poster flow as a GenerationError; plain errors from the app itself count as 'unknown'.
+export const toGenerationError = (error: unknown): GenerationError => {
+  if (error instanceof GenerationError) return error;
+  if (isAbortError(error)) return new GenerationError('cancelled', 'Poster generation was cancelled.');
+  return new GenerationError('unknown', error instanceof Error ? error.message : 'An unknown error occurred.');
+};
@@ -0,0 +1,83 @@
+import type { LanguagePreference, PosterDetails } from '../App'; // Import type
+import { geminiProvider } from './providers/geminiProvider';
+import { mockProvider } from './providers/mockProvider';
+import { proxyProvider } from './providers/proxyProvider';
+import type { ImagenAspectRatio } from '../utils/posterFormats';
+
+export type GenerationProviderId = 'proxy' | 'gemini' | 'mock';
+
+// What one call used, as far as the backend reports it. Text calls report tokens and image calls report images.
+export interface CallUsage {
+  model: string;
+  inputTokens?: number;
+  outputTokens?: number;
+  thinkingTokens?: number; // Billed like output, but at the thinking rate
+  images?: number;
+}
+
+export type UsageListener = (usage: CallUsage) => void;
+
+// A photo of the user's own that the poster text should be written for, e.g. their shop front.
+export interface PromptPhoto {
+  mimeType: string; // image/jpeg, image/png or image/webp
+  data: string; // Base64 without the data: URL prefix
+}
+
+export interface ImageGenerationOptions {
+  aspectRatio?: ImagenAspectRatio; // Defaults to 1:1
+  numberOfImages?: number; // 1-4, defaults to 1
+}
+
+// How much of the previous poster a follow-up prompt changes. 'new' means it asks for an unrelated poster.
+export type RefinementScope = 'text' | 'theme' | 'both' | 'new';
+
+export interface RefinementContext {
+  previousPrompt: string;
+  previousDetails: PosterDetails;
+}
+
+export interface PosterRefinement {
+  scope: RefinementScope;
+  // Complete details for the new version; unchanged fields are copied from the previous poster.
+  details: PosterDetails;
+}
+
+// Everything the poster flow needs from an AI backend. Implementations live in services/providers.
+// Each call takes an optional AbortSignal and rejects with an AbortError once it fires.
+// Other failures are thrown as a GenerationError (see generationErrors.ts), so the UI can tell them apart.
+// onUsage is called once the backend has answered, even if the answer turns out to be unusable.
+export interface GenerationProvider {
+  id: GenerationProviderId;
+  // Returns a 2-5 word chat title, or an empty string for an empty prompt. Failures are thrown like the other calls.
+  summarizePromptForTitle: (userPrompt: string, signal?: AbortSignal, onUsage?: UsageListener) => Promise<string>;
+  // With a photo, the text is written to suit it and the theme describes the photo instead of a background to generate.
+  extractPosterDetailsFromPrompt: (userPrompt: string, languagePreference: LanguagePreference, signal?: AbortSignal, onUsage?: UsageListener, photo?: PromptPhoto) => Promise<PosterDetails>;
+  // Applies a follow-up prompt such as "make the background darker" to the previous poster in the session.
+  refinePosterDetails: (followUpPrompt: string, languagePreference: LanguagePreference, previous: RefinementContext, signal?: AbortSignal, onUsage?: UsageListener) => Promise<PosterRefinement>;
+  // Returns the background images as data URLs; may return fewer than requested, but never none.
+  generateImages: (prompt: string, options?: ImageGenerationOptions, signal?: AbortSignal, onUsage?: UsageListener) => Promise<string[]>;
+}
+
+const PROVIDERS: Record<GenerationProviderId, GenerationProvider> = {
+  proxy: proxyProvider,
+  gemini: geminiProvider,
+  mock: mockProvider,
+};
+
+const DEFAULT_PROVIDER_ID: GenerationProviderId = 'proxy';
+
+let activeProvider: GenerationProvider | null = null;
+
+// Chosen once per page load from POSTER_PROVIDER (see vite.config.ts).
+export const getGenerationProvider = (): GenerationProvider => {
+  if (activeProvider) return activeProvider;
+  const configuredId = (process.env.POSTER_PROVIDER || DEFAULT_PROVIDER_ID).trim().toLowerCase();
+  if (configuredId in PROVIDERS) {
+    activeProvider = PROVIDERS[configuredId as GenerationProviderId];
+  } else {
+    console.warn(`Unknown POSTER_PROVIDER "${configuredId}". Falling back to "${DEFAULT_PROVIDER_ID}".`);
+    activeProvider = PROVIDERS[DEFAULT_PROVIDER_ID];
+  }
+  console.log(`Using "${activeProvider.id}" generation provider.`);
+  return activeProvider;
+};
@@ -0,0 +1,39 @@
+import { DEFAULT_POSTER_LANGUAGES, DEFAULT_SPEECH_LANGUAGE, isLanguageId, type LanguageId } from '../utils/languages';
+
+// The languages last picked for a poster and the language of voice input. Like the other small settings
+// they live in localStorage, so a shop in Chennai does not have to untick Telugu for every poster.
+
+const POSTER_LANGUAGES_STORAGE_KEY = 'poster-languages';
+const SPEECH_LANGUAGE_STORAGE_KEY = 'poster-speech-language';
+
+export const loadPosterLanguages = (): LanguageId[] => {
+  try {
+    const raw = localStorage.getItem(POSTER_LANGUAGES_STORAGE_KEY);
+    if (!raw) return DEFAULT_POSTER_LANGUAGES;
+    const parsed: unknown = JSON.parse(raw);
+    const languages = Array.isArray(parsed)
+      ? parsed.filter((id, index): id is LanguageId => isLanguageId(id) && parsed.indexOf(id) === index)
+      : [];
+    return languages.length > 0 ? languages : DEFAULT_POSTER_LANGUAGES;
+  } catch (error) {
+    console.error('Languages: Failed to read the saved poster languages:', error);
+    return DEFAULT_POSTER_LANGUAGES;
+  }
+};
+
+export const savePosterLanguages = (languages: LanguageId[]): void => {
+  try {
+    localStorage.setItem(POSTER_LANGUAGES_STORAGE_KEY, JSON.stringify(languages));
+  } catch (error) {
+    console.error('Languages: Failed to save the poster languages:', error);
+  }
+};
+
+export const loadSpeechLanguage = (): LanguageId => {
+  const saved = localStorage.getItem(SPEECH_LANGUAGE_STORAGE_KEY);
+  return isLanguageId(saved) ? saved : DEFAULT_SPEECH_LANGUAGE;
+};
+
+export const saveSpeechLanguage = (language: LanguageId): void => {
+  localStorage.setItem(SPEECH_LANGUAGE_STORAGE_KEY, language);
+};
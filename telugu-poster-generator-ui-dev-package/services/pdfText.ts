@@ -0,0 +1,160 @@
+import type { Font, Glyph, Subset } from 'fontkit';
+import { baselineOffsetFor, textStrokeWidth, type PosterLayout } from './posterRenderer';
+import { loadFontFiles } from './fontEmbedding';
+import { parseHexColor } from '../utils/color';
+import type { PosterFont } from '../utils/fontRegistry';
+import type { PdfBox, PdfFont, PdfTextLine, PdfTextRun } from '../utils/pdfWriter';
+
+// Poster text for the PDF export, as real text in embedded fonts. Every line is shaped with fontkit from the
+// font files the SVG export embeds, so conjuncts and vowel signs come out as they do on the canvas, and each
+// glyph is placed where the canvas drew it. Only the glyphs the poster uses end up in the file.
+
+export interface PdfTextPlacement {
+  trimBox: PdfBox; // Where the poster's trim area sits on the page
+  pointsPerPixel: number;
+}
+
+export interface PdfText {
+  fonts: PdfFont[];
+  lines: PdfTextLine[];
+}
+
+interface FontFile {
+  font: Font;
+  subset: Subset | null; // Created when the first glyph from the file is used
+  pdfIndex: number;
+  advances: number[];
+  unicode: string[];
+}
+
+interface ShapedGlyph {
+  glyph: Glyph;
+  xAdvance: number;
+  xOffset: number;
+  yOffset: number;
+}
+
+// fontkit fails on empty mark anchors, which some Indic fonts have (శ్రీ in Noto Sans Telugu, for one).
+const WITHOUT_MARK_POSITIONING = { abvm: false, blwm: false, mark: false, mkmk: false };
+
+const layoutGlyphs = (font: Font, text: string, features?: Record<string, boolean>): ShapedGlyph[] => {
+  const run = font.layout(text, features);
+  return run.glyphs.map((glyph, index) => ({ glyph, ...run.positions[index] }));
+};
+
+// Words fontkit cannot position are set without mark positioning; the rest of the line keeps it.
+const shapeText = (font: Font, text: string): ShapedGlyph[] => {
+  try {
+    return layoutGlyphs(font, text);
+  } catch {
+    return text.split(/(\s+)/).filter(Boolean).flatMap(word => {
+      try {
+        return layoutGlyphs(font, word);
+      } catch {
+        return layoutGlyphs(font, word, WITHOUT_MARK_POSITIONING);
+      }
+    });
+  }
+};
+
+// Fontsource splits each font into one file per script. Each character comes from the file already in use
+// if it has the character, so spaces and joiners stay with their words, and otherwise from the first that does.
+const splitByFile = (line: string, files: FontFile[]): { file: FontFile; text: string }[] => {
+  const pieces: { file: FontFile; text: string }[] = [];
+  for (const char of line) {
+    const codePoint = char.codePointAt(0) ?? 0;
+    const current = pieces[pieces.length - 1];
+    const file = current?.file.font.hasGlyphForCodePoint(codePoint)
+      ? current.file
+      : files.find(candidate => candidate.font.hasGlyphForCodePoint(codePoint)) ?? current?.file ?? files[0];
+    if (current && file === current.file) {
+      current.text += char;
+    } else {
+      pieces.push({ file, text: char });
+    }
+  }
+  return pieces;
+};
+
+export const buildPdfText = async (ctx: CanvasRenderingContext2D, layout: PosterLayout, placement: PdfTextPlacement): Promise<PdfText> => {
+  const { create } = await import('fontkit'); // Only PDF exports need it, so it stays out of the main bundle
+  const { trimBox, pointsPerPixel } = placement;
+  const filesByFont = new Map<string, FontFile[]>();
+  const usedFiles: FontFile[] = [];
+
+  const filesFor = async (font: PosterFont): Promise<FontFile[]> => {
+    let files = filesByFont.get(font.id);
+    if (!files) {
+      // fontkit reads any Uint8Array; its typings ask for a Node Buffer. A font file is never a collection.
+      files = (await loadFontFiles(font)).map(bytes => ({ font: create(bytes as Buffer) as Font, subset: null, pdfIndex: -1, advances: [], unicode: [] }));
+      filesByFont.set(font.id, files);
+    }
+    return files;
+  };
+
+  const cidFor = (file: FontFile, glyph: Glyph): number => {
+    if (!file.subset) {
+      file.subset = file.font.createSubset();
+      file.pdfIndex = usedFiles.push(file) - 1;
+    }
+    // The typings say boolean, but fontkit returns the glyph's id in the subset, which is also its CID.
+    const cid = file.subset.includeGlyph(glyph) as unknown as number;
+    file.advances[cid] = glyph.advanceWidth;
+    file.unicode[cid] = String.fromCodePoint(...glyph.codePoints);
+    return cid;
+  };
+
+  const lines: PdfTextLine[] = [];
+  for (const block of layout.blocks) {
+    const style = block.style ?? layout.textStyle;
+    const files = await filesFor(block.font);
+    const baselineOffset = baselineOffsetFor(ctx, block);
+    block.lines.forEach((line, lineIndex) => {
+      const pieces = splitByFile(line, files).map(piece => ({
+        file: piece.file,
+        scale: block.fontSize / piece.file.font.unitsPerEm,
+        glyphs: shapeText(piece.file.font, piece.text),
+      }));
+      const width = pieces.reduce((sum, piece) => sum + piece.glyphs.reduce((pieceSum, glyph) => pieceSum + glyph.xAdvance, 0) * piece.scale, 0);
+      // Pen position in trim pixels, y down, as the canvas lays it out.
+      let penX = block.align === 'left' ? block.x : block.align === 'center' ? block.x - width / 2 : block.x - width;
+      const baseline = block.lineYs[lineIndex] + baselineOffset;
+      const runs = pieces.map((piece): PdfTextRun => {
+        const glyphs = piece.glyphs.map(shaped => {
+          const glyph = {
+            cid: cidFor(piece.file, shaped.glyph),
+            x: trimBox.x + (penX + shaped.xOffset * piece.scale) * pointsPerPixel,
+            y: trimBox.y + trimBox.height - (baseline - shaped.yOffset * piece.scale) * pointsPerPixel,
+          };
+          penX += shaped.xAdvance * piece.scale;
+          return glyph;
+        });
+        return { font: piece.file.pdfIndex, size: block.fontSize * pointsPerPixel, glyphs };
+      }).filter(run => run.glyphs.length > 0);
+      lines.push({
+        text: line,
+        runs,
+        fill: parseHexColor(style.fill),
+        stroke: style.stroke ? { color: parseHexColor(style.stroke), width: textStrokeWidth(block.fontSize, layout.unit) * pointsPerPixel } : null,
+      });
+    });
+  }
+
+  const fonts = usedFiles.map((file): PdfFont => {
+    const { font } = file;
+    const notdef = font.getGlyph(0);
+    return {
+      postScriptName: font.postscriptName,
+      program: file.subset?.encode() ?? new Uint8Array(),
+      unitsPerEm: font.unitsPerEm,
+      bbox: [font.bbox.minX, font.bbox.minY, font.bbox.maxX, font.bbox.maxY],
+      ascent: font.ascent,
+      descent: font.descent,
+      capHeight: font.capHeight,
+      // The subset always starts with the missing glyph.
+      advances: Array.from({ length: file.advances.length }, (_, cid) => file.advances[cid] ?? (cid === 0 ? notdef.advanceWidth : 0)),
+      unicode: Array.from({ length: file.unicode.length }, (_, cid) => file.unicode[cid] ?? ''),
+    };
+  });
+  return { fonts, lines };
+};
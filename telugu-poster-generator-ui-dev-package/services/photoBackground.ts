@@ -0,0 +1,107 @@
+import type { PromptPhoto } from './generationProvider';
+import { loadImage } from './posterRenderer';
+import type { PosterFormat } from '../utils/posterFormats';
+
+// The user's own photo (a shop front, a family picture) as the poster background, in place of a generated one.
+// The photo is shrunk once when it is attached; each poster then gets a copy fitted to its format.
+
+export type PhotoFit = 'fill' | 'fit';
+
+export const PHOTO_FITS: { id: PhotoFit; label: string; description: string }[] = [
+  { id: 'fill', label: 'Fill', description: 'Crop the photo to the poster size' },
+  { id: 'fit', label: 'Fit', description: 'Show the whole photo on a blurred copy of itself' },
+];
+
+export const DEFAULT_PHOTO_FIT: PhotoFit = 'fill';
+
+export interface AttachedPhoto {
+  dataUrl: string; // JPEG, at most MAX_PHOTO_DIMENSION on its longer side
+  name: string;
+  width: number;
+  height: number;
+}
+
+const MAX_PHOTO_FILE_BYTES = 25 * 1024 * 1024;
+// Large enough for the A4 print format; phone photos are bigger than any poster needs.
+const MAX_PHOTO_DIMENSION = 3000;
+// Gemini only needs to see what is in the photo, so it gets a small copy.
+const PROMPT_PHOTO_DIMENSION = 768;
+const PHOTO_JPEG_QUALITY = 0.92;
+const PROMPT_PHOTO_JPEG_QUALITY = 0.8;
+
+const drawToJpeg = (width: number, height: number, quality: number, draw: (ctx: CanvasRenderingContext2D) => void): string => {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width));
+  canvas.height = Math.max(1, Math.round(height));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Failed to get canvas context');
+  }
+  // Transparent parts of a PNG would turn black in a JPEG.
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  draw(ctx);
+  return canvas.toDataURL('image/jpeg', quality);
+};
+
+// Also used for pasted and dropped images, which arrive as files too.
+export const readPhotoFile = async (file: File): Promise<AttachedPhoto> => {
+  if (!file.type.startsWith('image/')) {
+    throw new Error('Please choose an image file (JPEG, PNG or WebP).');
+  }
+  if (file.size > MAX_PHOTO_FILE_BYTES) {
+    throw new Error(`The photo is larger than ${MAX_PHOTO_FILE_BYTES / 1024 / 1024} MB.`);
+  }
+  const objectUrl = URL.createObjectURL(file);
+  try {
+    const img = await loadImage(objectUrl).catch(() => {
+      throw new Error('That file could not be read as an image. Try saving it as a JPEG first.');
+    });
+    const scale = Math.min(1, MAX_PHOTO_DIMENSION / Math.max(img.width, img.height));
+    const width = Math.max(1, Math.round(img.width * scale));
+    const height = Math.max(1, Math.round(img.height * scale));
+    return {
+      dataUrl: drawToJpeg(width, height, PHOTO_JPEG_QUALITY, ctx => ctx.drawImage(img, 0, 0, width, height)),
+      name: file.name || 'Pasted photo',
+      width,
+      height,
+    };
+  } finally {
+    URL.revokeObjectURL(objectUrl);
+  }
+};
+
+// Returns a background with the format's aspect ratio, ready for drawImageWithTextOverlay.
+// 'fill' crops the middle of the photo; 'fit' keeps all of it and fills the bars with a blurred, enlarged copy.
+export const preparePhotoBackground = async (photo: AttachedPhoto, format: PosterFormat, fit: PhotoFit): Promise<string> => {
+  const img = await loadImage(photo.dataUrl);
+  const formatAspect = format.width / format.height;
+  if (fit === 'fill') {
+    const cropWidth = Math.min(img.width, img.height * formatAspect);
+    const cropHeight = cropWidth / formatAspect;
+    return drawToJpeg(cropWidth, cropHeight, PHOTO_JPEG_QUALITY, ctx =>
+      ctx.drawImage(img, (img.width - cropWidth) / 2, (img.height - cropHeight) / 2, cropWidth, cropHeight, 0, 0, cropWidth, cropHeight));
+  }
+
+  // As large as the photo allows without going past the format's own size.
+  const scale = Math.min(1, Math.max(img.width / format.width, img.height / format.height));
+  const width = format.width * scale;
+  const height = format.height * scale;
+  return drawToJpeg(width, height, PHOTO_JPEG_QUALITY, ctx => {
+    const coverScale = Math.max(width / img.width, height / img.height) * 1.1; // Enlarged so the blurred edges stay off the canvas
+    ctx.filter = `blur(${Math.round(Math.max(width, height) / 40)}px) brightness(0.8)`;
+    ctx.drawImage(img, (width - img.width * coverScale) / 2, (height - img.height * coverScale) / 2, img.width * coverScale, img.height * coverScale);
+    ctx.filter = 'none';
+    const containScale = Math.min(width / img.width, height / img.height);
+    ctx.drawImage(img, (width - img.width * containScale) / 2, (height - img.height * containScale) / 2, img.width * containScale, img.height * containScale);
+  });
+};
+
+// The copy sent along with the prompt, so the text can be written for what the photo shows.
+export const photoForPrompt = async (photo: AttachedPhoto): Promise<PromptPhoto> => {
+  const img = await loadImage(photo.dataUrl);
+  const scale = Math.min(1, PROMPT_PHOTO_DIMENSION / Math.max(img.width, img.height));
+  const dataUrl = drawToJpeg(img.width * scale, img.height * scale, PROMPT_PHOTO_JPEG_QUALITY, ctx =>
+    ctx.drawImage(img, 0, 0, img.width * scale, img.height * scale));
+  return { mimeType: 'image/jpeg', data: dataUrl.slice(dataUrl.indexOf(',') + 1) };
+};
@@ -0,0 +1,237 @@
+import { baselineOffsetFor, drawPoster, loadImage, textShadowFor, textStrokeWidth, type PosterLayout, type PosterRenderOptions } from './posterRenderer';
+import { buildEmbeddedFontCss } from './fontEmbedding';
+import { buildPdfText } from './pdfText';
+import { buildPosterPdf, MM_TO_PT, type PdfBox } from '../utils/pdfWriter';
+import { fontFamilyStack } from '../utils/fontRegistry';
+import { getPosterFormat } from '../utils/posterFormats';
+
+// Turns a poster into downloadable files. Every export redraws the poster from its background and text,
+// so sizes larger than the on-screen PNG stay sharp.
+
+export type ExportFileFormat = 'png' | 'jpeg' | 'webp' | 'pdf' | 'svg';
+
+export type PdfPageSizeId = 'a5' | 'a4' | 'a3' | 'letter' | 'tabloid';
+
+export interface PdfPageSize {
+  id: PdfPageSizeId;
+  label: string;
+  widthMm: number; // Portrait; the sheet is turned to match the poster
+  heightMm: number;
+}
+
+export const PDF_PAGE_SIZES: PdfPageSize[] = [
+  { id: 'a5', label: 'A5', widthMm: 148, heightMm: 210 },
+  { id: 'a4', label: 'A4', widthMm: 210, heightMm: 297 },
+  { id: 'a3', label: 'A3', widthMm: 297, heightMm: 420 },
+  { id: 'letter', label: 'US Letter', widthMm: 215.9, heightMm: 279.4 },
+  { id: 'tabloid', label: 'Tabloid', widthMm: 279.4, heightMm: 431.8 },
+];
+
+export interface PdfExportSettings {
+  pageSizeId: PdfPageSizeId;
+  bleedMm: number;
+  cropMarks: boolean;
+}
+
+export interface RasterExportSettings {
+  format: 'png' | 'jpeg' | 'webp';
+  quality: number; // 0-1, ignored for PNG
+  maxWidth: number | null; // Null keeps the poster's own width
+}
+
+const PRINT_DPI = 300;
+// Mobile Safari refuses canvases above roughly 16.7 million pixels.
+const MAX_CANVAS_PIXELS = 16_000_000;
+const CROP_MARK_GAP_MM = 2;
+const CROP_MARK_LENGTH_MM = 5;
+const PDF_JPEG_QUALITY = 0.95;
+
+const MIME_TYPES: Record<RasterExportSettings['format'], string> = {
+  png: 'image/png',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp',
+};
+
+// Poster size before any export scaling: the format size, or the background size for posters without one.
+const naturalPosterSize = async (options: PosterRenderOptions) => {
+  if (options.formatId) {
+    const format = getPosterFormat(options.formatId);
+    return { width: format.width, height: format.height };
+  }
+  const img = await loadImage(options.baseImageUrl);
+  return { width: img.width, height: img.height };
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality?: number): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(blob => {
+      if (blob) resolve(blob);
+      else reject(new Error('The browser could not encode the poster image.'));
+    }, type, quality);
+  });
+
+export const exportRaster = async (canvas: HTMLCanvasElement, options: PosterRenderOptions, settings: RasterExportSettings): Promise<Blob> => {
+  const natural = await naturalPosterSize(options);
+  const trimWidth = settings.maxWidth && settings.maxWidth < natural.width ? settings.maxWidth : undefined;
+  await drawPoster(canvas, { ...options, output: { trimWidth } });
+  const blob = await canvasToBlob(canvas, MIME_TYPES[settings.format], settings.format === 'png' ? undefined : settings.quality);
+  // Browsers without WebP encoding silently fall back to PNG.
+  if (blob.type !== MIME_TYPES[settings.format]) {
+    throw new Error(`This browser cannot save ${settings.format.toUpperCase()} images. Please choose another format.`);
+  }
+  return blob;
+};
+
+export const dataUrlToBytes = (dataUrl: string): Uint8Array => {
+  const binary = atob(dataUrl.substring(dataUrl.indexOf(',') + 1));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+// The poster is centred on the sheet as large as it fits inside the margin needed for bleed and crop marks.
+// The artwork, with the text's drop shadows, is a 300 dpi image; the text itself is real text in embedded
+// fonts on top of it, so it prints sharp at any size and can be selected and searched.
+export const exportPdf = async (canvas: HTMLCanvasElement, options: PosterRenderOptions, settings: PdfExportSettings, title?: string): Promise<Blob> => {
+  const natural = await naturalPosterSize(options);
+  const sheet = PDF_PAGE_SIZES.find(size => size.id === settings.pageSizeId) ?? PDF_PAGE_SIZES[1];
+  const isLandscape = natural.width > natural.height;
+  const pageWidthMm = isLandscape ? sheet.heightMm : sheet.widthMm;
+  const pageHeightMm = isLandscape ? sheet.widthMm : sheet.heightMm;
+
+  const bleedMm = Math.max(0, settings.bleedMm);
+  const marginMm = settings.cropMarks ? bleedMm + CROP_MARK_GAP_MM + CROP_MARK_LENGTH_MM + 2 : bleedMm;
+  const fitScale = Math.min((pageWidthMm - marginMm * 2) / natural.width, (pageHeightMm - marginMm * 2) / natural.height);
+  const trimWidthMm = natural.width * fitScale;
+  const trimHeightMm = natural.height * fitScale;
+
+  let dpi = PRINT_DPI;
+  const pixelsAt = (dotsPerInch: number) =>
+    ((trimWidthMm + bleedMm * 2) / 25.4 * dotsPerInch) * ((trimHeightMm + bleedMm * 2) / 25.4 * dotsPerInch);
+  if (pixelsAt(dpi) > MAX_CANVAS_PIXELS) dpi = Math.floor(dpi * Math.sqrt(MAX_CANVAS_PIXELS / pixelsAt(dpi)));
+
+  const layout = await drawPoster(canvas, {
+    ...options,
+    output: { trimWidth: Math.round(trimWidthMm / 25.4 * dpi), bleed: Math.round(bleedMm / 25.4 * dpi), text: 'shadows' },
+  });
+  const jpeg = dataUrlToBytes(canvas.toDataURL('image/jpeg', PDF_JPEG_QUALITY));
+
+  // Boxes are derived from the pixels actually drawn, so rounding cannot misalign the trim and the image.
+  const pointsPerPixel = (trimWidthMm * MM_TO_PT) / layout.trim.width;
+  const pageWidth = pageWidthMm * MM_TO_PT;
+  const pageHeight = pageHeightMm * MM_TO_PT;
+  const trimBox: PdfBox = {
+    x: (pageWidth - layout.trim.width * pointsPerPixel) / 2,
+    y: (pageHeight - layout.trim.height * pointsPerPixel) / 2,
+    width: layout.trim.width * pointsPerPixel,
+    height: layout.trim.height * pointsPerPixel,
+  };
+  const bleedPoints = layout.trim.x * pointsPerPixel;
+  const imageBox: PdfBox = {
+    x: trimBox.x - bleedPoints,
+    y: trimBox.y - bleedPoints,
+    width: layout.canvasWidth * pointsPerPixel,
+    height: layout.canvasHeight * pointsPerPixel,
+  };
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Failed to get canvas context');
+  }
+  const text = await buildPdfText(ctx, layout, { trimBox, pointsPerPixel });
+
+  const pdf = buildPosterPdf({
+    pageWidth,
+    pageHeight,
+    jpeg,
+    imageWidth: layout.canvasWidth,
+    imageHeight: layout.canvasHeight,
+    imageBox,
+    trimBox,
+    bleedBox: imageBox,
+    cropMarks: settings.cropMarks
+      ? { offset: bleedPoints + CROP_MARK_GAP_MM * MM_TO_PT, length: CROP_MARK_LENGTH_MM * MM_TO_PT, lineWidth: 0.25 }
+      : null,
+    fonts: text.fonts,
+    text: text.lines,
+    title,
+  });
+  return new Blob([pdf], { type: 'application/pdf' });
+};
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  // Revoking straight away can cancel the download in some browsers.
+  setTimeout(() => URL.revokeObjectURL(url), 10000);
+};
+
+const escapeXml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&apos;');
+
+const TEXT_ANCHORS = { left: 'start', center: 'middle', right: 'end' } as const;
+
+const buildTextLayer = (ctx: CanvasRenderingContext2D, layout: PosterLayout): string => {
+  const { unit } = layout;
+  return layout.blocks.map((block, blockIndex) => {
+    const textStyle = block.style ?? layout.textStyle;
+    const offset = baselineOffsetFor(ctx, block);
+    const strokeAttributes = textStyle.stroke
+      ? ` stroke="${escapeXml(textStyle.stroke)}" stroke-width="${textStrokeWidth(block.fontSize, unit).toFixed(2)}" stroke-linejoin="round" paint-order="stroke"`
+      : '';
+    const lines = block.lines.map((line, lineIndex) =>
+      `      <text x="${block.x.toFixed(2)}" y="${(block.lineYs[lineIndex] + offset).toFixed(2)}" xml:space="preserve">${escapeXml(line)}</text>`
+    ).join('\n');
+    return `    <g id="text-block-${blockIndex + 1}" font-family="${escapeXml(fontFamilyStack(block.font))}" font-weight="${block.font.weight}" ` +
+      `font-size="${block.fontSize.toFixed(2)}" text-anchor="${TEXT_ANCHORS[block.align]}" fill="${escapeXml(textStyle.fill)}"${strokeAttributes}` +
+      `${textStyle.shadow ? ' filter="url(#text-shadow)"' : ''}>\n${lines}\n    </g>`;
+  }).join('\n');
+};
+
+// The artwork (background, backdrops, logo and footer) is embedded as one image and every poster line is
+// a real <text> element in its own layer, so the wording stays editable in Inkscape or Illustrator.
+export const exportSvg = async (canvas: HTMLCanvasElement, options: PosterRenderOptions): Promise<Blob> => {
+  let artworkUrl = '';
+  const layout = await drawPoster(canvas, options, () => { artworkUrl = canvas.toDataURL('image/png'); });
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Failed to get canvas context');
+  }
+  const fontCss = await buildEmbeddedFontCss(layout.blocks.map(block => block.font));
+  const { width, height } = layout.trim;
+  const shadow = textShadowFor(layout.unit);
+
+  const svg = `<?xml version="1.0" encoding="UTF-8"?>
+<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink"
+     xmlns:inkscape="http://www.inkscape.org/namespaces/inkscape"
+     width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">
+  <defs>
+    <style type="text/css"><![CDATA[
+${fontCss}
+    ]]></style>
+    <filter id="text-shadow" x="-10%" y="-10%" width="120%" height="130%">
+      <feGaussianBlur in="SourceAlpha" stdDeviation="${(shadow.blur / 2).toFixed(2)}" />
+      <feOffset dx="${shadow.offset.toFixed(2)}" dy="${shadow.offset.toFixed(2)}" result="offsetBlur" />
+      <feFlood flood-color="#000000" flood-opacity="0.7" />
+      <feComposite in2="offsetBlur" operator="in" />
+      <feMerge>
+        <feMergeNode />
+        <feMergeNode in="SourceGraphic" />
+      </feMerge>
+    </filter>
+  </defs>
+  <g id="artwork" inkscape:groupmode="layer" inkscape:label="Artwork">
+    <image x="0" y="0" width="${width}" height="${height}" preserveAspectRatio="none" xlink:href="${artworkUrl}" />
+  </g>
+  <g id="text" inkscape:groupmode="layer" inkscape:label="Text">
+${buildTextLayer(ctx, layout)}
+  </g>
+</svg>
+`;
+  return new Blob([svg], { type: 'image/svg+xml' });
+};
@@ -0,0 +1,656 @@
+import { breakLines } from '../utils/lineBreaking';
+import { getPosterFormat, type PosterFormatId } from '../utils/posterFormats';
+import {
+  DEFAULT_LAYOUT_TEMPLATE_ID,
+  getLayoutTemplate,
+  type LayoutBackdrop,
+  type LayoutTemplateId,
+  type LayoutTextStyle,
+  type TextAlign,
+  type TextRegion,
+} from '../utils/layoutTemplates';
+import {
+  DEFAULT_FONT_PAIRING_ID,
+  fontFamilyStack,
+  getFontPairing,
+  type FontPairingId,
+  type PosterFont,
+} from '../utils/fontRegistry';
+import { getPosterLanguage, languageOfText, posterFontFor } from '../utils/languages';
+import { mixColors, readableTextColor, withAlpha } from '../utils/color';
+import {
+  chooseCalmestPlacement,
+  chooseTextColors,
+  type NormalizedRect,
+  type PixelBuffer,
+  type TextColorChoice,
+  type TextColorPalette,
+} from '../utils/backgroundAnalysis';
+import { ensureFontsLoaded } from './fontLoader';
+import type { BrandKit } from './brandKitStorage';
+import type { PosterSecondaryText } from '../utils/posterContent';
+import { headlineLayerId, type TextLayerId, type TextLayerOverrides } from '../utils/textLayers';
+import type { PosterHeadline } from '../App'; // Import type
+
+// Draws the poster's headlines and secondary lines over a background image and returns the poster as a PNG data URL.
+// drawPoster is the lower-level entry point used by the exporters for print sizes, bleed and text layers.
+
+export interface PosterRenderOptions extends Partial<PosterSecondaryText> {
+  baseImageUrl: string;
+  headlines: PosterHeadline[]; // Drawn top to bottom in this order
+  // Posters made before formats existed have none; they keep the size of their background image.
+  formatId?: PosterFormatId;
+  layoutId?: LayoutTemplateId;
+  fontPairingId?: FontPairingId;
+  // Logo, footer and colours stamped on top of the poster; null when the poster opts out.
+  brandKit?: BrandKit | null;
+  // Blocks placed by hand in the poster editor; the others keep the layout's automatic placement.
+  textLayers?: TextLayerOverrides;
+  output?: PosterOutputOptions;
+}
+
+// Only used by exports; on-screen posters are drawn at the format's own size without bleed.
+export interface PosterOutputOptions {
+  // Width in pixels of the finished (trimmed) poster; the height follows the format's aspect ratio.
+  trimWidth?: number;
+  // Extra background drawn beyond each trim edge, in output pixels, for printers to cut into.
+  bleed?: number;
+  // 'shadows' leaves out the text itself but keeps its drop shadows, for exporters that add the text as vectors.
+  text?: 'draw' | 'shadows';
+}
+
+// What drawPoster leaves on the canvas, for exporters that rebuild the text as vector layers.
+export interface PosterLayout {
+  canvasWidth: number;
+  canvasHeight: number;
+  // The finished poster area inside the bleed; block positions are relative to its top-left corner.
+  trim: Rect;
+  blocks: LaidOutBlock[];
+  textStyle: LayoutTextStyle;
+  unit: number; // Shorter side of the trim; stroke and shadow sizes derive from it
+}
+
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface Size {
+  width: number;
+  height: number;
+}
+
+// What a block says on the poster; decides its size and, for the call to action, the pill behind it.
+export type TextBlockRole = 'headline' | 'subheadline' | 'details' | 'callToAction' | 'attribution';
+
+interface TextBlockSpec {
+  role: TextBlockRole;
+  layer: TextLayerId;
+  text: string;
+  font: PosterFont;
+  fontSize: number;
+}
+
+export interface LaidOutBlock {
+  role: TextBlockRole;
+  layer: TextLayerId;
+  text: string; // Before wrapping
+  lines: string[];
+  // Vertical centre of each line (the renderer draws with textBaseline = 'middle').
+  lineYs: number[];
+  x: number;
+  align: TextAlign;
+  font: PosterFont;
+  fontSize: number;
+  bounds: Rect;
+  style?: LayoutTextStyle; // Set when the block was styled in the editor; otherwise the layout's textStyle applies
+}
+
+const LINE_HEIGHT = 1.2;
+// Base font sizes of the secondary lines as a fraction of the poster's shorter side, in stacking order.
+// Headlines use 1/18, times their language's headlineScale.
+const SECONDARY_BLOCK_SIZES: { role: Exclude<TextBlockRole, 'headline'>; divisor: number }[] = [
+  { role: 'subheadline', divisor: 26 },
+  { role: 'details', divisor: 32 },
+  { role: 'callToAction', divisor: 28 },
+  { role: 'attribution', divisor: 38 },
+];
+// Long side of the copy used for background analysis; more detail does not change which area is calm.
+const ANALYSIS_SIZE = 256;
+const DEFAULT_SAFE_INSETS = { top: 0.075, right: 0.075, bottom: 0.075, left: 0.075 };
+
+const wrapText = (
+  context: CanvasRenderingContext2D,
+  text: string,
+  maxWidth: number
+): string[] => breakLines(text, maxWidth, candidate => context.measureText(candidate).width);
+
+const fontFor = (fontSize: number, font: PosterFont) => `${font.weight} ${fontSize}px ${fontFamilyStack(font)}`;
+
+export const loadImage = (url: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.crossOrigin = 'anonymous';
+    img.onload = () => resolve(img);
+    img.onerror = (errEvent) => {
+      console.error('Error loading base image to canvas:', errEvent);
+      reject(new Error('Failed to load base image.'));
+    };
+    img.src = url;
+  });
+
+// Scales the image to cover the whole canvas and crops the overflow evenly from both sides.
+const drawImageCover = (ctx: CanvasRenderingContext2D, img: HTMLImageElement, width: number, height: number) => {
+  const scale = Math.max(width / img.width, height / img.height);
+  const drawWidth = img.width * scale;
+  const drawHeight = img.height * scale;
+  ctx.drawImage(img, (width - drawWidth) / 2, (height - drawHeight) / 2, drawWidth, drawHeight);
+};
+
+const resolveRegion = (region: TextRegion, safeArea: Rect): Rect => ({
+  x: safeArea.x + region.x * safeArea.width,
+  y: safeArea.y + region.y * safeArea.height,
+  width: region.width * safeArea.width,
+  height: region.height * safeArea.height,
+});
+
+// Wraps the blocks to the region width and shrinks all of them together until they fit its height.
+const fitBlocksInRegion = (
+  ctx: CanvasRenderingContext2D,
+  specs: TextBlockSpec[],
+  region: TextRegion,
+  regionRect: Rect,
+  minFontSize: number,
+  blockGap: number
+): LaidOutBlock[] => {
+  if (specs.length === 0) return [];
+  const fontSizes = specs.map(spec => Math.max(minFontSize, spec.fontSize));
+
+  const wrapAll = () => specs.map((spec, index) => {
+    ctx.font = fontFor(fontSizes[index], spec.font);
+    return wrapText(ctx, spec.text, regionRect.width);
+  });
+  const totalHeight = (wrapped: string[][]) =>
+    wrapped.reduce((sum, lines, index) => sum + lines.length * fontSizes[index] * LINE_HEIGHT, 0) +
+    blockGap * (specs.length - 1);
+
+  let wrappedLines = wrapAll();
+  const maxIterations = 20;
+  for (let i = 0; i < maxIterations; i++) {
+    if (totalHeight(wrappedLines) <= regionRect.height) break;
+    if (fontSizes.every(size => size <= minFontSize)) break;
+    fontSizes.forEach((size, index) => { fontSizes[index] = Math.max(minFontSize, size * 0.9); });
+    wrappedLines = wrapAll();
+    if (i === maxIterations - 1) console.warn("Max font size reduction iterations reached. Text may still be large.");
+  }
+
+  const blockHeight = totalHeight(wrappedLines);
+  let currentTop = regionRect.y;
+  if (region.verticalAlign === 'middle') currentTop += (regionRect.height - blockHeight) / 2;
+  if (region.verticalAlign === 'bottom') currentTop += regionRect.height - blockHeight;
+
+  const x = region.align === 'left' ? regionRect.x
+    : region.align === 'right' ? regionRect.x + regionRect.width
+    : regionRect.x + regionRect.width / 2;
+
+  return specs.map((spec, index) => {
+    const fontSize = fontSizes[index];
+    const lineHeight = fontSize * LINE_HEIGHT;
+    const lines = wrappedLines[index];
+    ctx.font = fontFor(fontSize, spec.font);
+    const width = Math.max(0, ...lines.map(line => ctx.measureText(line).width));
+    const left = region.align === 'left' ? x : region.align === 'right' ? x - width : x - width / 2;
+    const block: LaidOutBlock = {
+      role: spec.role,
+      layer: spec.layer,
+      text: spec.text,
+      lines,
+      lineYs: lines.map((_, lineIndex) => currentTop + lineHeight * (lineIndex + 0.5)),
+      x,
+      align: region.align,
+      font: spec.font,
+      fontSize,
+      bounds: { x: left, y: currentTop, width, height: lines.length * lineHeight },
+    };
+    currentTop += block.bounds.height + blockGap;
+    return block;
+  });
+};
+
+// Re-wraps the blocks placed in the editor into their own boxes, in the block's font and the given size.
+const applyTextLayers = (
+  ctx: CanvasRenderingContext2D,
+  blocks: LaidOutBlock[],
+  textLayers: TextLayerOverrides,
+  page: Size,
+  unit: number,
+  textStyle: LayoutTextStyle
+): LaidOutBlock[] => blocks.map(block => {
+  const layer = textLayers[block.layer];
+  if (!layer) return block;
+  const fontSize = Math.max(1, layer.fontSize * unit);
+  const lineHeight = fontSize * LINE_HEIGHT;
+  const boxX = layer.x * page.width;
+  const boxWidth = layer.width * page.width;
+  const top = layer.y * page.height;
+  ctx.font = fontFor(fontSize, block.font);
+  const lines = wrapText(ctx, block.text, boxWidth);
+  const width = Math.max(0, ...lines.map(line => ctx.measureText(line).width));
+  const align = layer.align ?? block.align;
+  const x = align === 'left' ? boxX : align === 'right' ? boxX + boxWidth : boxX + boxWidth / 2;
+  const hasOwnStyle = layer.fill !== undefined || layer.stroke !== undefined || layer.shadow !== undefined;
+  return {
+    ...block,
+    lines,
+    lineYs: lines.map((_, lineIndex) => top + lineHeight * (lineIndex + 0.5)),
+    x,
+    align,
+    fontSize,
+    bounds: { x: align === 'left' ? x : align === 'right' ? x - width : x - width / 2, y: top, width, height: lines.length * lineHeight },
+    style: hasOwnStyle ? {
+      fill: layer.fill ?? textStyle.fill,
+      stroke: layer.stroke !== undefined ? layer.stroke : textStyle.stroke,
+      shadow: layer.shadow ?? textStyle.shadow,
+    } : undefined,
+  };
+});
+
+const unionBounds = (blocks: LaidOutBlock[]): Rect | null => {
+  if (blocks.length === 0) return null;
+  const left = Math.min(...blocks.map(block => block.bounds.x));
+  const top = Math.min(...blocks.map(block => block.bounds.y));
+  const right = Math.max(...blocks.map(block => block.bounds.x + block.bounds.width));
+  const bottom = Math.max(...blocks.map(block => block.bounds.y + block.bounds.height));
+  return { x: left, y: top, width: right - left, height: bottom - top };
+};
+
+// Full-bleed backdrops also cover the bleed, so nothing changes colour at a slightly-off trim line.
+const drawBackdrop = (ctx: CanvasRenderingContext2D, backdrop: LayoutBackdrop, blocks: LaidOutBlock[], page: Size, bleed: number, unit: number) => {
+  const { width, height } = page;
+  const textBounds = unionBounds(blocks);
+  const padding = unit * 0.035;
+
+  switch (backdrop.type) {
+    case 'none':
+      return;
+    case 'band': {
+      if (!textBounds) return;
+      ctx.fillStyle = withAlpha(backdrop.color, backdrop.opacity);
+      ctx.fillRect(-bleed, textBounds.y - padding, width + bleed * 2, textBounds.height + padding * 2);
+      return;
+    }
+    case 'sideFade': {
+      const fadeEnd = Math.min(width, (textBounds ? textBounds.x + textBounds.width : width / 2) + padding * 4);
+      const gradient = ctx.createLinearGradient(0, 0, fadeEnd, 0);
+      gradient.addColorStop(0, withAlpha(backdrop.color, backdrop.opacity));
+      gradient.addColorStop(0.7, withAlpha(backdrop.color, backdrop.opacity * 0.7));
+      gradient.addColorStop(1, withAlpha(backdrop.color, 0));
+      ctx.fillStyle = gradient;
+      ctx.fillRect(-bleed, -bleed, fadeEnd + bleed, height + bleed * 2);
+      return;
+    }
+    case 'frame': {
+      const outerInset = unit * 0.025;
+      const innerInset = unit * 0.045;
+      ctx.strokeStyle = backdrop.color;
+      ctx.lineWidth = Math.max(2, unit * 0.008);
+      ctx.strokeRect(outerInset, outerInset, width - outerInset * 2, height - outerInset * 2);
+      ctx.lineWidth = Math.max(1, unit * 0.003);
+      ctx.strokeRect(innerInset, innerInset, width - innerInset * 2, height - innerInset * 2);
+      if (textBounds) {
+        ctx.fillStyle = withAlpha('#000000', backdrop.cardOpacity);
+        ctx.beginPath();
+        ctx.roundRect(textBounds.x - padding, textBounds.y - padding, textBounds.width + padding * 2, textBounds.height + padding * 2, padding);
+        ctx.fill();
+      }
+      return;
+    }
+  }
+};
+
+// A rounded pill in the opposite tone of the text, so the call to action reads like a button.
+const drawCallToActionPills = (ctx: CanvasRenderingContext2D, blocks: LaidOutBlock[], style: LayoutTextStyle) => {
+  for (const block of blocks) {
+    if (block.role !== 'callToAction') continue;
+    ctx.fillStyle = withAlpha(readableTextColor((block.style ?? style).fill), 0.6);
+    const padding = block.fontSize * 0.35;
+    const { x, y, width, height } = block.bounds;
+    ctx.beginPath();
+    ctx.roundRect(x - padding * 2, y - padding, width + padding * 4, height + padding * 2, height / 2 + padding);
+    ctx.fill();
+  }
+};
+
+const drawScrim = (ctx: CanvasRenderingContext2D, blocks: LaidOutBlock[], scrim: NonNullable<TextColorChoice['scrim']>, unit: number) => {
+  const textBounds = unionBounds(blocks);
+  if (!textBounds) return;
+  const padding = unit * 0.035;
+  ctx.fillStyle = withAlpha(scrim.color, scrim.opacity);
+  ctx.beginPath();
+  ctx.roundRect(textBounds.x - padding, textBounds.y - padding, textBounds.width + padding * 2, textBounds.height + padding * 2, padding);
+  ctx.fill();
+};
+
+const readAnalysisPixels = (canvas: HTMLCanvasElement, trim: Rect): PixelBuffer | null => {
+  const scale = Math.min(1, ANALYSIS_SIZE / Math.max(trim.width, trim.height));
+  const analysisCanvas = document.createElement('canvas');
+  analysisCanvas.width = Math.max(1, Math.round(trim.width * scale));
+  analysisCanvas.height = Math.max(1, Math.round(trim.height * scale));
+  const analysisCtx = analysisCanvas.getContext('2d', { willReadFrequently: true });
+  if (!analysisCtx) return null;
+  analysisCtx.drawImage(canvas, trim.x, trim.y, trim.width, trim.height, 0, 0, analysisCanvas.width, analysisCanvas.height);
+  try {
+    return analysisCtx.getImageData(0, 0, analysisCanvas.width, analysisCanvas.height);
+  } catch (error) {
+    console.warn('Could not read the background pixels; falling back to the centred text placement.', error);
+    return null;
+  }
+};
+
+const normalizeRect = (rect: Rect, page: Size, padding: number): NormalizedRect => ({
+  x: (rect.x - padding) / page.width,
+  y: (rect.y - padding) / page.height,
+  width: (rect.width + padding * 2) / page.width,
+  height: (rect.height + padding * 2) / page.height,
+});
+
+// Shared with the SVG export so vector text matches the canvas rendering.
+export const textShadowFor = (unit: number) => ({
+  color: 'rgba(0, 0, 0, 0.7)',
+  blur: Math.max(3, unit / 250),
+  offset: Math.max(1, unit / 400),
+});
+
+export const textStrokeWidth = (fontSize: number, unit: number) => Math.max(1, Math.min(unit / 256, fontSize / 18));
+
+// The canvas draws each line centred on its lineY; vector exports position text by its alphabetic baseline instead.
+export const baselineOffsetFor = (ctx: CanvasRenderingContext2D, block: LaidOutBlock): number => {
+  ctx.font = fontFor(block.fontSize, block.font);
+  ctx.textBaseline = 'alphabetic';
+  const metrics = ctx.measureText('Hg');
+  const ascent = metrics.emHeightAscent ?? metrics.fontBoundingBoxAscent;
+  const descent = metrics.emHeightDescent ?? metrics.fontBoundingBoxDescent;
+  return (ascent - descent) / 2;
+};
+
+// Far enough to put the text itself outside any canvas while its shadow is offset back into place.
+const SHADOW_ONLY_SHIFT = 100_000;
+
+const drawBlocks = (ctx: CanvasRenderingContext2D, blocks: LaidOutBlock[], style: LayoutTextStyle, unit: number, shadowsOnly = false) => {
+  const shadow = textShadowFor(unit);
+  const shift = shadowsOnly ? SHADOW_ONLY_SHIFT : 0;
+  ctx.textBaseline = 'middle';
+
+  for (const block of blocks) {
+    const blockStyle = block.style ?? style;
+    if (shadowsOnly && !blockStyle.shadow) continue;
+    ctx.shadowColor = blockStyle.shadow ? shadow.color : 'transparent';
+    ctx.shadowBlur = blockStyle.shadow ? shadow.blur : 0;
+    ctx.shadowOffsetX = blockStyle.shadow ? shadow.offset + shift : 0;
+    ctx.shadowOffsetY = blockStyle.shadow ? shadow.offset : 0;
+    ctx.font = fontFor(block.fontSize, block.font);
+    ctx.textAlign = block.align;
+    ctx.fillStyle = blockStyle.fill;
+    if (blockStyle.stroke) {
+      ctx.strokeStyle = blockStyle.stroke;
+      ctx.lineWidth = textStrokeWidth(block.fontSize, unit);
+    }
+    block.lines.forEach((line, index) => {
+      if (blockStyle.stroke) ctx.strokeText(line, block.x - shift, block.lineYs[index]);
+      ctx.fillText(line, block.x - shift, block.lineYs[index]);
+    });
+  }
+
+  ctx.shadowColor = 'transparent';
+  ctx.shadowBlur = 0;
+  ctx.shadowOffsetX = 0;
+  ctx.shadowOffsetY = 0;
+};
+
+interface BrandMarks {
+  logo: Rect | null;
+  footer: Rect | null;
+  footerLines: string[];
+  footerFontSize: number;
+}
+
+const uniqueFonts = (fonts: PosterFont[]): PosterFont[] =>
+  fonts.filter((font, index) => fonts.findIndex(other => other.id === font.id) === index);
+
+// Works out where the logo and the contact footer go so the text layout can stay clear of them.
+const measureBrandMarks = (page: Size, brandKit: BrandKit, logo: HTMLImageElement | null, unit: number): BrandMarks => {
+  const margin = unit * 0.03;
+  let logoRect: Rect | null = null;
+  if (logo) {
+    const maxSize = unit * 0.14;
+    const scale = Math.min(maxSize / logo.width, maxSize / logo.height);
+    const width = logo.width * scale;
+    const height = logo.height * scale;
+    logoRect = { x: page.width - margin - width, y: margin, width, height };
+  }
+
+  const footerLines = brandKit.contactLines.map(line => line.trim()).filter(Boolean);
+  const footerFontSize = Math.max(10, unit * 0.028);
+  let footer: Rect | null = null;
+  if (footerLines.length > 0) {
+    const height = footerLines.length * footerFontSize * LINE_HEIGHT + footerFontSize * 1.2;
+    footer = { x: 0, y: page.height - height, width: page.width, height };
+  }
+  return { logo: logoRect, footer, footerLines, footerFontSize };
+};
+
+const drawBrandMarks = (
+  ctx: CanvasRenderingContext2D,
+  marks: BrandMarks,
+  brandKit: BrandKit,
+  logo: HTMLImageElement | null,
+  fonts: PosterFont[],
+  bleed: number,
+  unit: number
+) => {
+  if (marks.footer) {
+    const { footer } = marks;
+    const gradient = ctx.createLinearGradient(0, 0, footer.width, 0);
+    gradient.addColorStop(0, withAlpha(brandKit.primaryColor, 0.92));
+    gradient.addColorStop(1, withAlpha(mixColors(brandKit.primaryColor, brandKit.secondaryColor, 0.35), 0.92));
+    ctx.fillStyle = gradient;
+    ctx.fillRect(footer.x - bleed, footer.y, footer.width + bleed * 2, footer.height + bleed);
+    ctx.fillStyle = brandKit.secondaryColor;
+    ctx.fillRect(footer.x - bleed, footer.y, footer.width + bleed * 2, Math.max(2, unit * 0.006));
+
+    // Contact lines may mix scripts, so list every face they need and let the browser pick per glyph.
+    const families = fonts.map(font => `'${font.family}'`).join(', ');
+    ctx.font = `600 ${marks.footerFontSize}px ${families}, sans-serif`;
+    ctx.fillStyle = readableTextColor(brandKit.primaryColor);
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    const lineHeight = marks.footerFontSize * LINE_HEIGHT;
+    const firstLineY = footer.y + (footer.height - lineHeight * marks.footerLines.length) / 2 + lineHeight / 2;
+    marks.footerLines.forEach((line, index) => {
+      ctx.fillText(line, footer.x + footer.width / 2, firstLineY + index * lineHeight, footer.width - unit * 0.06);
+    });
+  }
+
+  if (logo && marks.logo) {
+    // A soft light plate keeps dark and transparent logos visible on busy backgrounds.
+    const plate = unit * 0.012;
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.8)';
+    ctx.beginPath();
+    ctx.roundRect(marks.logo.x - plate, marks.logo.y - plate, marks.logo.width + plate * 2, marks.logo.height + plate * 2, plate * 1.5);
+    ctx.fill();
+    ctx.drawImage(logo, marks.logo.x, marks.logo.y, marks.logo.width, marks.logo.height);
+  }
+};
+
+// Near-white and near-black pulled towards the brand colours, so text keeps its contrast but matches the kit.
+const brandTextPalette = (brandKit: BrandKit): TextColorPalette => ({
+  light: mixColors('#ffffff', brandKit.secondaryColor, 0.25),
+  dark: mixColors('#000000', brandKit.primaryColor, 0.35),
+});
+
+const tintTextStyle = (style: LayoutTextStyle, brandKit: BrandKit): LayoutTextStyle => {
+  const palette = brandTextPalette(brandKit);
+  return { ...style, fill: palette.light, stroke: style.stroke ? palette.dark : null };
+};
+
+const tintBackdrop = (backdrop: LayoutBackdrop, brandKit: BrandKit): LayoutBackdrop =>
+  backdrop.type === 'frame' ? { ...backdrop, color: brandKit.secondaryColor } : backdrop;
+
+// Draws the finished poster onto the canvas and reports the text layout. `beforeText` runs once everything
+// except the poster text is on the canvas, so exporters can capture the artwork without the text.
+export const drawPoster = async (
+  canvas: HTMLCanvasElement,
+  options: PosterRenderOptions,
+  beforeText?: () => void
+): Promise<PosterLayout> => {
+  const {
+    baseImageUrl,
+    headlines,
+    subheadline = '',
+    dateTime = '',
+    venue = '',
+    callToAction = '',
+    attribution = '',
+    formatId,
+    layoutId = DEFAULT_LAYOUT_TEMPLATE_ID,
+    fontPairingId = DEFAULT_FONT_PAIRING_ID,
+    brandKit = null,
+    textLayers,
+    output = {},
+  } = options;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Failed to get canvas context');
+  }
+
+  const pairing = getFontPairing(fontPairingId);
+  const secondaryTexts: Record<Exclude<TextBlockRole, 'headline'>, string> = {
+    subheadline,
+    details: [dateTime, venue].map(part => part.trim()).filter(Boolean).join('  ·  '),
+    callToAction,
+    attribution,
+  };
+  // Each headline is set in its language's face; secondary lines can be in any script, so the face follows the text.
+  const visibleHeadlines = headlines.filter(headline => headline.text.trim() !== '');
+  const headlineLanguages = visibleHeadlines.map(headline => getPosterLanguage(headline.language));
+  const secondaryLanguages = SECONDARY_BLOCK_SIZES.map(({ role }) => languageOfText(secondaryTexts[role]));
+  // The Latin face comes first for the footer, whose contact lines are mostly phone numbers and addresses.
+  const footerFonts = uniqueFonts(brandKit
+    ? [getPosterLanguage('en'), ...brandKit.contactLines.map(languageOfText)].map(language => posterFontFor(pairing, language))
+    : []);
+  const [img, logo] = await Promise.all([
+    loadImage(baseImageUrl),
+    brandKit?.logoDataUrl ? loadImage(brandKit.logoDataUrl).catch(() => null) : Promise.resolve(null),
+    ensureFontsLoaded(uniqueFonts([...[...headlineLanguages, ...secondaryLanguages].map(language => posterFontFor(pairing, language)), ...footerFonts])),
+  ]);
+  const format = formatId ? getPosterFormat(formatId) : null;
+  const naturalSize: Size = format ? { width: format.width, height: format.height } : { width: img.width, height: img.height };
+  const outputScale = output.trimWidth ? output.trimWidth / naturalSize.width : 1;
+  const page: Size = { width: Math.round(naturalSize.width * outputScale), height: Math.round(naturalSize.height * outputScale) };
+  const bleed = Math.max(0, Math.round(output.bleed ?? 0));
+  canvas.width = page.width + bleed * 2;
+  canvas.height = page.height + bleed * 2;
+  drawImageCover(ctx, img, canvas.width, canvas.height);
+  const trim: Rect = { x: bleed, y: bleed, width: page.width, height: page.height };
+
+  // Everything below is laid out in trim coordinates.
+  ctx.save();
+  ctx.translate(bleed, bleed);
+
+  const template = getLayoutTemplate(layoutId);
+  const insets = format?.safeInsets ?? DEFAULT_SAFE_INSETS;
+  const fontScale = format?.fontScale ?? 1;
+  const safeArea: Rect = {
+    x: page.width * insets.left,
+    y: page.height * insets.top,
+    width: page.width * (1 - insets.left - insets.right),
+    height: page.height * (1 - insets.top - insets.bottom),
+  };
+  // The shorter side drives all sizes so that text looks the same weight on wide and tall formats.
+  const unit = Math.min(page.width, page.height);
+
+  const brandMarks = brandKit ? measureBrandMarks(page, brandKit, logo, unit) : null;
+  if (brandMarks?.logo) {
+    const logoBottom = brandMarks.logo.y + brandMarks.logo.height + unit * 0.02;
+    if (safeArea.y < logoBottom) {
+      safeArea.height -= logoBottom - safeArea.y;
+      safeArea.y = logoBottom;
+    }
+  }
+  if (brandMarks?.footer) {
+    const footerTop = brandMarks.footer.y - unit * 0.02;
+    if (safeArea.y + safeArea.height > footerTop) safeArea.height = footerTop - safeArea.y;
+  }
+  const minFontSize = Math.max(8, unit / 70);
+  const blockGap = Math.max(15, unit * 0.03);
+
+  // Indic glyphs look smaller than Latin ones at the same size, hence the per-language scale.
+  const specs: TextBlockSpec[] = visibleHeadlines.map((headline, index) => ({
+    role: 'headline',
+    layer: headlineLayerId(headline.language),
+    text: headline.text,
+    font: posterFontFor(pairing, headlineLanguages[index]),
+    fontSize: (unit / 18) * fontScale * headlineLanguages[index].headlineScale,
+  }));
+  const headlineCount = specs.length;
+  SECONDARY_BLOCK_SIZES.forEach(({ role, divisor }, index) => {
+    const text = secondaryTexts[role].trim();
+    if (text === '') return;
+    const language = secondaryLanguages[index];
+    specs.push({ role, layer: role, text, font: posterFontFor(pairing, language), fontSize: (unit / divisor) * fontScale * language.headlineScale });
+  });
+  // Headlines after the first are subtitles; secondary lines already have their own smaller sizes.
+  const scaleSubtitle = (spec: TextBlockSpec, index: number): TextBlockSpec =>
+    index > 0 && index < headlineCount ? { ...spec, fontSize: spec.fontSize * template.subtitleScale } : spec;
+
+  let blocks: LaidOutBlock[];
+  let textStyle = brandKit ? tintTextStyle(template.textStyle, brandKit) : template.textStyle;
+  let scrim: TextColorChoice['scrim'] = null;
+  const analysisPixels = template.candidateRegions && specs.length > 0 ? readAnalysisPixels(canvas, trim) : null;
+  if (template.candidateRegions && analysisPixels) {
+    // Lay the text out in every candidate region, then judge each by the pixels its text would cover.
+    const stacked = specs.map(scaleSubtitle);
+    const analysisPadding = unit * 0.02;
+    const placement = chooseCalmestPlacement(analysisPixels, template.candidateRegions.map(region => {
+      const regionRect = resolveRegion(region, safeArea);
+      const laidOut = fitBlocksInRegion(ctx, stacked, region, regionRect, minFontSize, blockGap);
+      return {
+        blocks: laidOut,
+        rect: normalizeRect(unionBounds(laidOut) ?? regionRect, page, analysisPadding),
+        fitRatio: laidOut[0].fontSize / stacked[0].fontSize,
+      };
+    }));
+    blocks = placement.blocks;
+    const colors = chooseTextColors(analysisPixels, placement.rect, { palette: brandKit ? brandTextPalette(brandKit) : undefined });
+    textStyle = { fill: colors.fill, stroke: colors.stroke, shadow: false };
+    scrim = colors.scrim;
+  } else if (template.subtitleRegion && specs.length > 1) {
+    blocks = [
+      ...fitBlocksInRegion(ctx, specs.slice(0, 1), template.headlineRegion, resolveRegion(template.headlineRegion, safeArea), minFontSize, blockGap),
+      ...fitBlocksInRegion(ctx, specs.map(scaleSubtitle).slice(1), template.subtitleRegion, resolveRegion(template.subtitleRegion, safeArea), minFontSize, blockGap),
+    ];
+  } else {
+    const stacked = specs.map(scaleSubtitle);
+    blocks = fitBlocksInRegion(ctx, stacked, template.headlineRegion, resolveRegion(template.headlineRegion, safeArea), minFontSize, blockGap);
+  }
+
+  if (textLayers) blocks = applyTextLayers(ctx, blocks, textLayers, page, unit, textStyle);
+
+  drawBackdrop(ctx, brandKit ? tintBackdrop(template.backdrop, brandKit) : template.backdrop, blocks, page, bleed, unit);
+  if (scrim) drawScrim(ctx, blocks, scrim, unit);
+  // Brand marks never overlap the text area, so they can go down before the text.
+  if (brandKit && brandMarks) drawBrandMarks(ctx, brandMarks, brandKit, logo, footerFonts, bleed, unit);
+  drawCallToActionPills(ctx, blocks, textStyle);
+  beforeText?.();
+  drawBlocks(ctx, blocks, textStyle, unit, output.text === 'shadows');
+  ctx.restore();
+
+  return { canvasWidth: canvas.width, canvasHeight: canvas.height, trim, blocks, textStyle, unit };
+};
+
+export const renderPoster = async (canvas: HTMLCanvasElement, options: PosterRenderOptions): Promise<string> => {
+  await drawPoster(canvas, options);
+  return canvas.toDataURL('image/png');
+};
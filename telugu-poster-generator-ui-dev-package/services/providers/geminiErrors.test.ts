@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { ApiError } from '@google/genai';
+import { GenerationError } from '../generationErrors';
+import { fromGeminiError, parseRetryDelayMs } from './geminiErrors';
+
+const NOW = 1_700_000_000_000;
+const ACTION = 'during image generation';
+
+// Messages in the shape the SDK builds them: "got status: <code> <text>. <response body>".
+const quotaBody = (retryDelay: string) => JSON.stringify({
+  error: {
+    code: 429,
+    message: 'You exceeded your current quota, please check your plan and billing details.',
+    status: 'RESOURCE_EXHAUSTED',
+    details: [{ '@type': 'type.googleapis.com/google.rpc.RetryInfo', retryDelay }],
+  },
+});
+
+describe('parseRetryDelayMs', () => {
+  it('reads the RetryInfo detail', () => {
+    expect(parseRetryDelayMs(`got status: 429 Too Many Requests. ${quotaBody('37s')}`)).toBe(37_000);
+  });
+
+  it('reads the delay from the message and rounds up to whole milliseconds', () => {
+    expect(parseRetryDelayMs('Resource exhausted. Please retry in 12.3456s.')).toBe(12_346);
+  });
+
+  it('returns undefined when there is no delay', () => {
+    expect(parseRetryDelayMs('got status: 429 Too Many Requests. Quota exceeded.')).toBeUndefined();
+  });
+});
+
+describe('fromGeminiError', () => {
+  it('maps a 429 with a retry delay to a quota error with the time to try again', () => {
+    const error = fromGeminiError(new ApiError({ status: 429, message: `got status: 429 Too Many Requests. ${quotaBody('20s')}` }), ACTION, NOW);
+    expect(error.kind).toBe('quota');
+    expect(error.retryAt).toBe(NOW + 20_000);
+    expect(error.message).toContain(ACTION);
+  });
+
+  it('maps a 429 without a retry delay to a quota error without a time', () => {
+    const error = fromGeminiError(new ApiError({ status: 429, message: 'got status: 429 Too Many Requests. Quota exceeded.' }), ACTION, NOW);
+    expect(error.kind).toBe('quota');
+    expect(error.retryAt).toBeUndefined();
+  });
+
+  it.each([401, 403])('maps a %i to an invalid key', status => {
+    const error = fromGeminiError(new ApiError({ status, message: `got status: ${status}. Request had invalid authentication credentials.` }), ACTION, NOW);
+    expect(error.kind).toBe('invalid-key');
+  });
+
+  it('maps a 400 about the API key to an invalid key', () => {
+    const error = fromGeminiError(new ApiError({ status: 400, message: 'got status: 400 Bad Request. API key not valid. Please pass a valid API key.' }), ACTION, NOW);
+    expect(error.kind).toBe('invalid-key');
+  });
+
+  it('maps a 503 to unavailable', () => {
+    const error = fromGeminiError(new ApiError({ status: 503, message: 'got status: 503 Service Unavailable. The model is overloaded.' }), ACTION, NOW);
+    expect(error.kind).toBe('unavailable');
+  });
+
+  it('maps a safety-blocked 400 to a safety error', () => {
+    const error = fromGeminiError(new ApiError({ status: 400, message: 'got status: 400 Bad Request. The prompt was blocked due to safety reasons.' }), ACTION, NOW);
+    expect(error.kind).toBe('safety');
+  });
+
+  it('maps another 400 to unknown, keeping the detail', () => {
+    const error = fromGeminiError(new ApiError({ status: 400, message: 'got status: 400 Bad Request. Invalid JSON payload.' }), ACTION, NOW);
+    expect(error.kind).toBe('unknown');
+    expect(error.message).toContain('Invalid JSON payload');
+  });
+
+  it.each(['Failed to fetch', 'NetworkError when attempting to fetch resource.', 'Load failed'])('maps a network TypeError ("%s") to offline', message => {
+    expect(fromGeminiError(new TypeError(message), ACTION, NOW).kind).toBe('offline');
+  });
+
+  it('maps a missing key before any request to an invalid key', () => {
+    expect(fromGeminiError(new Error('An API Key must be set when running in a browser'), ACTION, NOW).kind).toBe('invalid-key');
+  });
+
+  it('passes GenerationErrors through unchanged', () => {
+    const original = new GenerationError('malformed-response', 'Not JSON.');
+    expect(fromGeminiError(original, ACTION, NOW)).toBe(original);
+  });
+});
@@ -0,0 +1,50 @@
+import { ApiError } from "@google/genai";
+import { GenerationError } from '../generationErrors';
+
+// Maps errors thrown by the @google/genai SDK (or by fetch underneath it) onto GenerationError kinds.
+
+// Timeouts and overloaded or restarting servers. 429 is handled separately as a quota error.
+const UNAVAILABLE_STATUS_CODES = [408, 500, 502, 503, 504];
+const INVALID_KEY_PATTERN = /api[ _]?key|API_KEY_INVALID|PERMISSION_DENIED|UNAUTHENTICATED|permission to access project/i;
+const SAFETY_PATTERN = /safety|blocked|prohibited|responsible ai/i;
+// fetch rejects with a TypeError whose message differs per browser ("Failed to fetch", "NetworkError ...", "Load failed").
+const NETWORK_FAILURE_PATTERN = /fetch|network|load failed/i;
+
+const INVALID_KEY_MESSAGE = "Invalid or incorrectly configured Gemini API Key. Please check your key, its permissions, and ensure it's correctly set in the environment variables.";
+
+// Quota errors carry the wait either as a RetryInfo detail ("retryDelay": "37s") or in the message ("Please retry in 37.5s").
+export const parseRetryDelayMs = (message: string): number | undefined => {
+  const match = message.match(/"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/) ?? message.match(/retry in (\d+(?:\.\d+)?)\s*s/i);
+  return match ? Math.ceil(parseFloat(match[1]) * 1000) : undefined;
+};
+
+// `action` completes the sentence, e.g. "during image generation".
+export const fromGeminiError = (error: unknown, action: string, now: number = Date.now()): GenerationError => {
+  if (error instanceof GenerationError) return error;
+  const detail = error instanceof Error ? error.message : String(error);
+
+  if (error instanceof ApiError) {
+    if (error.status === 429) {
+      const retryDelayMs = parseRetryDelayMs(detail);
+      return new GenerationError('quota', `Gemini API quota was used up ${action}.`, retryDelayMs === undefined ? undefined : now + retryDelayMs);
+    }
+    if (error.status === 401 || error.status === 403 || INVALID_KEY_PATTERN.test(detail)) {
+      return new GenerationError('invalid-key', INVALID_KEY_MESSAGE);
+    }
+    if (UNAVAILABLE_STATUS_CODES.includes(error.status)) {
+      return new GenerationError('unavailable', `Gemini API is temporarily unavailable ${action}: ${detail}`);
+    }
+    if (error.status === 400 && SAFETY_PATTERN.test(detail)) {
+      return new GenerationError('safety', `Gemini blocked the request ${action} for safety reasons.`);
+    }
+    return new GenerationError('unknown', `Gemini API failed ${action}: ${detail}`);
+  }
+  if (error instanceof TypeError && NETWORK_FAILURE_PATTERN.test(detail)) {
+    return new GenerationError('offline', `Could not reach the Gemini API ${action}. Check your internet connection.`);
+  }
+  // The SDK refuses to send a request at all when no key is configured.
+  if (INVALID_KEY_PATTERN.test(detail)) {
+    return new GenerationError('invalid-key', INVALID_KEY_MESSAGE);
+  }
+  return new GenerationError('unknown', `Gemini API failed ${action}: ${detail}`);
+};
@@ -0,0 +1,429 @@
+import { GoogleGenAI, GenerateImagesResponse, GenerateContentResponse, Type, type Schema } from "@google/genai";
+import type { LanguagePreference, PosterDetails } from '../../App'; // Import type
+import type {
+  GenerationProvider,
+  ImageGenerationOptions,
+  PosterRefinement,
+  PromptPhoto,
+  RefinementContext,
+  RefinementScope,
+  UsageListener,
+} from '../generationProvider';
+import { GenerationError } from '../generationErrors';
+import { fromGeminiError } from './geminiErrors';
+import { applyLanguagePreference, REFINEMENT_SCOPES, validatePosterDetails } from '../../utils/posterContent';
+import { isAbortError } from '../../utils/retry';
+import { describeLanguages, getPosterLanguage, LANGUAGE_IDS } from '../../utils/languages';
+
+const TEXT_MODEL = "gemini-2.5-flash-preview-04-17";
+const IMAGE_MODEL = 'imagen-3.0-generate-002';
+
+let ai: GoogleGenAI | null = null;
+
+// The client is created on first use so that other providers can run without an API key.
+const getClient = (): GoogleGenAI => {
+  if (ai) return ai;
+  const API_KEY = process.env.API_KEY;
+
+  if (!API_KEY) {
+    // If the app still runs, it means API_KEY was somehow set post-build, which is not typical for client-side.
+    console.error(
+      "CRITICAL: API_KEY for Gemini is not set in environment variables. " +
+      "The AI Poster Generator cannot function without it. " +
+      "Please ensure the API_KEY environment variable is correctly configured before building/running the application, " +
+      "or set POSTER_PROVIDER=mock to work offline."
+    );
+    // Let the client initialize; if API_KEY is truly missing, the API calls will fail.
+  }
+
+  ai = new GoogleGenAI({ apiKey: API_KEY! }); // Use non-null assertion if confident API_KEY is set by build/env
+  return ai;
+};
+
+const BLOCKED_FINISH_REASONS = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII'];
+
+const reportTextUsage = (response: GenerateContentResponse, onUsage?: UsageListener) => {
+  const usage = response.usageMetadata;
+  onUsage?.({
+    model: TEXT_MODEL,
+    inputTokens: usage?.promptTokenCount ?? 0,
+    outputTokens: usage?.candidatesTokenCount ?? 0,
+    thinkingTokens: usage?.thoughtsTokenCount ?? 0,
+  });
+};
+
+// The text of a response, or a 'safety' error when the prompt or the answer was blocked.
+const readResponseText = (response: GenerateContentResponse): string => {
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (response.promptFeedback?.blockReason || (finishReason && BLOCKED_FINISH_REASONS.includes(finishReason))) {
+    throw new GenerationError('safety', 'Gemini blocked this request for safety reasons. Try rephrasing your idea.');
+  }
+  return (response.text ?? "").trim();
+};
+
+// Descriptions are read by the model, so they double as instructions for each field.
+const POSTER_DETAILS_PROPERTIES: Record<keyof PosterDetails, Schema> = {
+  theme: { type: Type.STRING, description: 'Purely visual description of the background image. Never text to display.' },
+  headlines: {
+    type: Type.ARRAY,
+    description: 'The headline, once in each requested language and in the requested order.',
+    items: {
+      type: Type.OBJECT,
+      properties: {
+        language: { type: Type.STRING, enum: LANGUAGE_IDS, description: 'Language code of this headline.' },
+        text: { type: Type.STRING, description: 'The headline in that language and its own script, or an empty string.' },
+      },
+      required: ['language', 'text'],
+      propertyOrdering: ['language', 'text'],
+    },
+  },
+  subheadline: { type: Type.STRING, description: 'A short supporting line under the headline, or an empty string.' },
+  dateTime: { type: Type.STRING, description: 'Date and/or time of the event as the user gave it, or an empty string.' },
+  venue: { type: Type.STRING, description: 'Place or address of the event as the user gave it, or an empty string.' },
+  callToAction: { type: Type.STRING, description: 'What the reader should do, e.g. "Call 98480 12345" or "All are welcome", or an empty string.' },
+  attribution: { type: Type.STRING, description: 'Who the poster or quote is from, e.g. "- A thought by Hemanth", or an empty string.' },
+};
+const POSTER_DETAILS_KEYS = Object.keys(POSTER_DETAILS_PROPERTIES);
+
+const POSTER_DETAILS_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: POSTER_DETAILS_PROPERTIES,
+  required: POSTER_DETAILS_KEYS,
+  propertyOrdering: POSTER_DETAILS_KEYS,
+};
+
+const REFINEMENT_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    changeScope: { type: Type.STRING, enum: REFINEMENT_SCOPES },
+    ...POSTER_DETAILS_PROPERTIES,
+  },
+  required: ['changeScope', ...POSTER_DETAILS_KEYS],
+  propertyOrdering: ['changeScope', ...POSTER_DETAILS_KEYS],
+};
+
+// What the secondary text fields mean; shared by the extraction and refinement instructions.
+const SECONDARY_FIELDS_INSTRUCTION = `The secondary fields are drawn smaller, under the headline, each with its own style:
+    *   **subheadline**: one short supporting line, only if the poster benefits from it.
+    *   **dateTime**, **venue**: only facts the user actually gave. NEVER invent dates, times, places, phone numbers or names.
+    *   **callToAction**: a short instruction such as "Visit us today!" or "Call 98480 12345", for promotions and invitations.
+    *   **attribution**: who the wishes or quote are from (e.g. "- A thought by Hemanth"), instead of adding it to the headline.
+    *   Use an empty string for every field that does not apply. Write them in one of the poster's languages, whichever reads most naturally.`;
+
+// One line per requested language, in the order the headlines are stacked on the poster.
+const headlineLanguagesInstruction = (languagePreference: LanguagePreference): string =>
+  languagePreference.map((id, index) => {
+    const language = getPosterLanguage(id);
+    return `    ${index + 1}.  "${language.id}" (${language.name}): ${language.promptGuidance}`;
+  }).join('\n');
+
+// e.g. ["en", "te"], as the examples show the requested languages.
+const formatLanguageList = (languagePreference: LanguagePreference): string =>
+  `[${languagePreference.map(id => `"${id}"`).join(', ')}]`;
+
+// Added when the user attached a photo: it becomes the background as it is, so the text has to fit the photo.
+const PHOTO_CONTEXT_INSTRUCTION = `The user attached the photo above. It will be used as the poster background exactly as it is, and no background image will be generated.
+Look at the photo and write text that fits what it shows: the shop, products, people, place or occasion in it. Use names or details that are clearly visible (such as a shop sign) where they suit the user's idea, and never contradict the photo.
+For "theme", describe the photo itself in a few words (its colours, subject and mood) instead of inventing new imagery.`;
+
+// Both a response that is not JSON and one that fails the shared validator count as malformed.
+const parseJsonResponse = (responseText: string, what: string): unknown => {
+  try {
+    return JSON.parse(responseText);
+  } catch (e) {
+    console.error(`Gemini Service: Failed to parse JSON response for ${what}:`, responseText, e);
+    throw new GenerationError('malformed-response', `AI response for ${what} was not valid JSON. Please try again.`);
+  }
+};
+
+const readPosterDetails = (data: unknown, what: string): PosterDetails => {
+  const { details, problems } = validatePosterDetails(data);
+  if (!details) {
+    console.error(`Gemini Service: Parsed JSON does not have the expected structure for ${what}:`, problems, data);
+    throw new GenerationError('malformed-response', `AI failed to provide ${what} in the correct format. Try rephrasing your request.`);
+  }
+  return details;
+};
+
+const summarizePromptForTitle = async (userPrompt: string, signal?: AbortSignal, onUsage?: UsageListener): Promise<string> => {
+  if (!userPrompt || userPrompt.trim().length === 0) {
+    return "";
+  }
+  try {
+    console.log("Gemini Service: Summarizing prompt for title:", userPrompt.substring(0, 100) + "...");
+    const instruction = `Given the user's request: "${userPrompt}", provide a very short title (2-5 words maximum) that accurately summarizes the main subject, product, or theme. This title will be used to name a chat session. 
+    Do not use quotation marks in the output.
+    Examples:
+    - User request: "I need a poster for Ugadi festival with traditional elements"
+      Title: "Ugadi Festival Poster"
+    - User request: "Create an advertisement for my new bakery 'Sweet Delights', featuring cupcakes and coffee"
+      Title: "Sweet Delights Bakery"
+    - User request: "A motivational quote about perseverance for students"
+      Title: "Perseverance Quote"
+    - User request: "Sci-fi movie poster, 'Cybernetic Future'"
+      Title: "Cybernetic Future Movie"
+
+    Return ONLY the short title text. No extra explanations or formatting.`;
+
+    const response: GenerateContentResponse = await getClient().models.generateContent({
+        model: TEXT_MODEL,
+        contents: instruction,
+        config: {
+            // Not using JSON mode as we just need a short string.
+            // Keep thinkingConfig default for quality.
+            abortSignal: signal,
+        }
+    });
+    reportTextUsage(response, onUsage);
+
+    const title = readResponseText(response);
+    console.log("Gemini Service: Summarized title received:", title);
+    // Basic validation, remove quotes if AI adds them
+    return title.replace(/^["']|["']$/g, ''); 
+
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    console.error('Gemini API error in summarizePromptForTitle:', error);
+    throw fromGeminiError(error, 'while naming the chat');
+  }
+};
+
+
+const extractPosterDetailsFromPrompt = async (userPrompt: string, languagePreference: LanguagePreference, signal?: AbortSignal, onUsage?: UsageListener, photo?: PromptPhoto): Promise<PosterDetails> => {
+  try {
+    console.log(`Gemini Service: Sending user idea for creative poster content generation (Lang: ${describeLanguages(languagePreference)}${photo ? ', with photo' : ''}):`, userPrompt.substring(0,150) + "...");
+    
+    const instruction = `Analyze the following user's idea for a poster: "${userPrompt}"
+
+Your task is to act as a creative assistant. Based on the user's idea and the languages they picked, generate compelling content for a poster and a description of the visual theme.
+Provide a JSON object with the keys "theme", "headlines", "subheadline", "dateTime", "venue", "callToAction" and "attribution".
+
+1.  **theme**:
+    *   This field is CRITICAL. It must describe ONLY the PURELY VISUAL elements for a background image.
+    *   It should detail imagery, colors, artistic style, mood, objects, patterns, and scenery inspired by the user's idea.
+    *   It MUST NOT, under any circumstances, include any words, phrases, or text snippets that are intended to be *displayed* on the poster as overlay text. The text content will be handled by 'headlines' and the secondary fields.
+    *   The 'theme' is for visual inspiration for an image model that is explicitly instructed NOT to render any text itself.
+    *   If the user's prompt consists *primarily* of text they want inspiration from (e.g., "My Company Logo text and tagline text"), the theme should be generic and focus on abstract backgrounds, corporate aesthetics, or suitable color palettes, NOT the text itself.
+    *   If the request is general (e.g., "a cool poster"), infer a suitable abstract visual theme based on current trends or a positive sentiment.
+
+2.  **headlines**: a list with exactly one entry per language below, in this order, each as {"language": "<code>", "text": "<headline>"}:
+${headlineLanguagesInstruction(languagePreference)}
+    *   For each language, *creatively compose* a concise and impactful message suitable for the poster. It should capture the essence of the user's request and should NOT be a direct copy of the user's input unless the input itself is already perfect poster copy.
+    *   If the user's idea is "Happy Ugadi poster for friends", the English headline might be "Wishing You a Joyous Ugadi!". If it is "promote my new coffee shop, 'The Daily Grind'", it might be "The Daily Grind: Your Perfect Brew Awaits!"
+    *   If the user mentions specific names or attributions (e.g., "quote of the day by Hemanth"), incorporate them naturally if appropriate for a poster, or put them in "attribution".
+    *   If no clear textual direction is given but a theme is present (e.g., "serene beach sunset"), generate a short, fitting evocative phrase.
+    *   If the user's intent is purely visual and no text makes sense, or a language does not suit the idea, use an empty string as its text. NEVER add languages that are not listed.
+
+3.  ${SECONDARY_FIELDS_INSTRUCTION}
+${photo ? `\n${PHOTO_CONTEXT_INSTRUCTION}\n` : ''}
+Return ONLY a valid JSON object. Ensure all values are strings, except "headlines", which is a list.
+If the idea contains placeholders in double curly braces such as {{name}} or {{date}}, copy them unchanged into the text fields where the value belongs. They are filled in later for each poster of a batch, so never translate or transliterate them.
+In the examples below, secondary fields that are left out are empty strings. Always use the languages requested above, whatever languages an example shows.
+
+Example 1 (Languages: ${formatLanguageList(languagePreference)}):
+User idea: "Sankranti festival wishes for everyone"
+JSON response:
+{
+  "theme": "Vibrant Sankranti festival imagery: kites, sugarcane, traditional Indian decorations, bright festive colors, sunny atmosphere",
+  "headlines": [${languagePreference.map(id => `{ "language": "${id}", "text": "${getPosterLanguage(id).exampleGreeting}" }`).join(', ')}]
+}
+
+Example 2 (Languages: ["en"]):
+User idea: "Poster for a new scifi movie called 'Cyber Dawn'"
+JSON response:
+{
+  "theme": "Futuristic cityscape at dawn, neon lights, advanced technology, spaceships, mysterious atmosphere, elements of cybernetics",
+  "headlines": [{ "language": "en", "text": "Cyber Dawn: The Future Begins Now." }]
+}
+
+Example 3 (Languages: ["te"]):
+User idea: "Motivational quote about strength, by Winston Churchill"
+JSON response:
+{
+  "theme": "Imagery conveying strength and resilience: mountains, an oak tree, a lion, or abstract powerful visuals. Colors could be strong and earthy or bold and inspiring.",
+  "headlines": [{ "language": "te", "text": "విజయం అంతిమం కాదు, వైఫల్యం ప్రాణాంతకం కాదు: కొనసాగించే ధైర్యమే ముఖ్యం." }],
+  "attribution": "- విన్‌స్టన్ చర్చిల్"
+}
+
+Example 4 (Languages: ["en", "te"], but visual focus):
+User idea: "Just a beautiful abstract blue and gold background for meditation."
+JSON response:
+{
+  "theme": "Abstract design featuring flowing blue and gold colors, elegant patterns, possibly with a sense of depth or texture, evoking peace and tranquility",
+  "headlines": [{ "language": "en", "text": "" }, { "language": "te", "text": "" }]
+}
+
+Example 5 (Languages: ["en", "te"]):
+User idea: "Invite everyone to the opening of Sri Lakshmi Sweets on 14 April at 10 AM, Main Road, Guntur"
+JSON response:
+{
+  "theme": "Festive sweet shop entrance with marigold garlands, mango leaf torans, trays of colourful Indian sweets and warm golden lights",
+  "headlines": [{ "language": "en", "text": "Sri Lakshmi Sweets – Grand Opening" }, { "language": "te", "text": "శ్రీ లక్ష్మి స్వీట్స్ – ఘనంగా ప్రారంభోత్సవం" }],
+  "subheadline": "Fresh sweets and savouries, made with pure ghee",
+  "dateTime": "14 April, 10 AM",
+  "venue": "Main Road, Guntur",
+  "callToAction": "All are welcome!",
+  "attribution": ""
+}
+`;
+
+    const response: GenerateContentResponse = await getClient().models.generateContent({
+        model: TEXT_MODEL,
+        contents: photo ? [{ inlineData: { mimeType: photo.mimeType, data: photo.data } }, { text: instruction }] : instruction,
+        config: {
+            responseMimeType: "application/json",
+            responseSchema: POSTER_DETAILS_SCHEMA,
+            abortSignal: signal,
+        }
+    });
+    reportTextUsage(response, onUsage);
+    
+    console.log("Gemini Service: Raw response for creative content generation received.");
+    const details = readPosterDetails(parseJsonResponse(readResponseText(response), 'poster content'), 'poster content');
+    if (details.headlines.some(headline => headline.text && !languagePreference.includes(headline.language))) {
+      console.warn(`Gemini Service: AI returned a headline in a language that was not requested (${languagePreference.join(', ')} only). Dropping it.`, details);
+    }
+    const parsedDetails = applyLanguagePreference(details, languagePreference);
+    console.log("Gemini Service: Parsed creative poster content:", parsedDetails);
+    return parsedDetails;
+
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    console.error('Gemini API error in extractPosterDetailsFromPrompt:', error);
+    throw fromGeminiError(error, 'during creative content generation');
+  }
+};
+
+
+const refinePosterDetails = async (followUpPrompt: string, languagePreference: LanguagePreference, previous: RefinementContext, signal?: AbortSignal, onUsage?: UsageListener): Promise<PosterRefinement> => {
+  try {
+    console.log(`Gemini Service: Sending follow-up request for the previous poster (Lang: ${describeLanguages(languagePreference)}):`, followUpPrompt.substring(0,150) + "...");
+
+    const languageRule = `Return exactly one headline for each of these languages, in this order, and no others (write a new one for a language the poster did not have yet):
+${headlineLanguagesInstruction(languagePreference)}`;
+
+    const instruction = `You are helping a user refine a poster they have just made.
+
+The previous poster was created from this request: "${previous.previousPrompt}"
+It currently has:
+- theme (visual description of the background image): "${previous.previousDetails.theme}"
+- headlines: ${JSON.stringify(previous.previousDetails.headlines)}
+- subheadline: "${previous.previousDetails.subheadline}"
+- dateTime: "${previous.previousDetails.dateTime}"
+- venue: "${previous.previousDetails.venue}"
+- callToAction: "${previous.previousDetails.callToAction}"
+- attribution: "${previous.previousDetails.attribution}"
+
+The user's follow-up request is: "${followUpPrompt}"
+
+Decide what the follow-up changes and return a JSON object with the keys "changeScope", "theme", "headlines", "subheadline", "dateTime", "venue", "callToAction" and "attribution".
+
+1.  **changeScope**: one of
+    *   "text" – only the poster wording changes (e.g. "shorten the Telugu line", "add a Kannada line", "add my name", "add the venue"). The background image will be kept as it is.
+    *   "theme" – only the background visuals change (e.g. "make the background darker", "use more flowers").
+    *   "both" – the wording and the visuals both change.
+    *   "new" – the follow-up asks for a different, unrelated poster. Compose everything from scratch for the new request.
+2.  **theme**: the full visual description for the new version. Copy the previous theme unchanged when changeScope is "text". It MUST describe only visuals and MUST NOT contain any text meant to be displayed on the poster.
+3.  **headlines**: the headline for the new version, as a list of {"language": "<code>", "text": "<headline>"}. Copy lines the user did not ask to change exactly as they are. ${languageRule}
+4.  ${SECONDARY_FIELDS_INSTRUCTION}
+    *   Copy the previous values of these fields unless the follow-up changes them.
+
+Return ONLY a valid JSON object. Ensure all values are strings, except "headlines", which is a list.
+
+Example:
+Follow-up: "make the background darker"
+JSON response:
+{
+  "changeScope": "theme",
+  "theme": "<previous theme>, with a deep, dark colour palette and low-key lighting",
+  "headlines": <previous headlines>,
+  "subheadline": "<previous subheadline>",
+  "dateTime": "<previous dateTime>",
+  "venue": "<previous venue>",
+  "callToAction": "<previous callToAction>",
+  "attribution": "<previous attribution>"
+}
+`;
+
+    const response: GenerateContentResponse = await getClient().models.generateContent({
+        model: TEXT_MODEL,
+        contents: instruction,
+        config: {
+            responseMimeType: "application/json",
+            responseSchema: REFINEMENT_SCHEMA,
+            abortSignal: signal,
+        }
+    });
+    reportTextUsage(response, onUsage);
+
+    console.log("Gemini Service: Raw response for poster refinement received.");
+    const parsedData = parseJsonResponse(readResponseText(response), 'the poster changes');
+    const changeScope = (parsedData as { changeScope?: unknown } | null)?.changeScope;
+    if (!REFINEMENT_SCOPES.includes(changeScope as RefinementScope)) {
+      console.error('Gemini Service: Refinement has no valid changeScope:', parsedData);
+      throw new GenerationError('malformed-response', 'AI failed to describe the poster changes in the correct format. Try rephrasing your request.');
+    }
+    const scope = changeScope as RefinementScope;
+    const parsedDetails = readPosterDetails(parsedData, 'the poster changes');
+    const details = applyLanguagePreference({
+      ...parsedDetails,
+      // A text-only change must keep the exact theme, since the old background is reused.
+      theme: scope === 'text' ? previous.previousDetails.theme : parsedDetails.theme,
+    }, languagePreference);
+    console.log(`Gemini Service: Parsed poster refinement (scope: ${scope}):`, details);
+    return { scope, details };
+
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    console.error('Gemini API error in refinePosterDetails:', error);
+    throw fromGeminiError(error, 'while refining the poster');
+  }
+};
+
+const generateImages = async (prompt: string, options: ImageGenerationOptions = {}, signal?: AbortSignal, onUsage?: UsageListener): Promise<string[]> => {
+  try {
+    console.log("Gemini Service: Sending prompt for image generation:", prompt.substring(0, 100) + "...");
+    const response: GenerateImagesResponse = await getClient().models.generateImages({
+      model: IMAGE_MODEL,
+      prompt: prompt,
+      config: { 
+        numberOfImages: options.numberOfImages ?? 1,
+        outputMimeType: 'image/png',
+        aspectRatio: options.aspectRatio ?? '1:1',
+        includeRaiReason: true, // Tells a safety-filtered result apart from an empty one
+        abortSignal: signal,
+      },
+    });
+    console.log("Gemini Service: Response received from image generation API.");
+
+    // Imagen may silently drop some of the requested images (e.g. safety filtering), so keep whatever came back.
+    const imageDataUrls = (response.generatedImages ?? [])
+      .map(generatedImage => generatedImage.image?.imageBytes)
+      .filter((imageBytes): imageBytes is string => !!imageBytes)
+      .map(base64ImageBytes => `data:image/png;base64,${base64ImageBytes}`);
+    // Only images that come back are billed.
+    onUsage?.({ model: IMAGE_MODEL, images: imageDataUrls.length });
+    if (imageDataUrls.length > 0) {
+      console.log(`Gemini Service: Received ${imageDataUrls.length} image(s).`);
+      return imageDataUrls;
+    } else {
+      console.error('Gemini Service: No image data in response or unexpected response structure:', response);
+      if ((response.generatedImages ?? []).some(generatedImage => generatedImage.raiFilteredReason)) {
+        throw new GenerationError('safety', 'The background image was blocked by the safety filters. Try describing the theme differently.');
+      }
+      throw new Error('No image was generated by the API, or the response was empty.');
+    }
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    console.error('Gemini API error in generateImageWithGemini service:', error);
+    throw fromGeminiError(error, 'during image generation');
+  }
+};
+
+export const geminiProvider: GenerationProvider = {
+  id: 'gemini',
+  summarizePromptForTitle,
+  extractPosterDetailsFromPrompt,
+  refinePosterDetails,
+  generateImages,
+};
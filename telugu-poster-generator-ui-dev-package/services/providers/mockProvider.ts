@@ -0,0 +1,280 @@
+import type { LanguagePreference, PosterDetails, PosterHeadline } from '../../App'; // Import type
+import type {
+  GenerationProvider,
+  ImageGenerationOptions,
+  PosterRefinement,
+  PromptPhoto,
+  RefinementContext,
+  RefinementScope,
+  UsageListener,
+} from '../generationProvider';
+import { GenerationError, type GenerationErrorKind } from '../generationErrors';
+import { applyLanguagePreference, EMPTY_SECONDARY_TEXT } from '../../utils/posterContent';
+import type { ImagenAspectRatio } from '../../utils/posterFormats';
+import { abortableDelay } from '../../utils/retry';
+import { describeLanguages, languageOfText, type LanguageId } from '../../utils/languages';
+
+// Offline provider for development, demos and end-to-end tests.
+// Every result is derived from the prompt text alone, so the same prompt always gives the same poster.
+
+const MOCK_LATENCY_MS = 350;
+// Reported as the model of every call; it has no price, so mock usage always costs nothing.
+const MOCK_MODEL = 'mock';
+// Long side of the generated image; the short side follows the requested aspect ratio.
+const MOCK_IMAGE_SIZE = 1024;
+
+const ASPECT_RATIOS: Record<ImagenAspectRatio, number> = {
+  '1:1': 1,
+  '3:4': 3 / 4,
+  '4:3': 4 / 3,
+  '9:16': 9 / 16,
+  '16:9': 16 / 9,
+};
+
+// Canned headlines exist in every language, so any language choice gets a complete poster.
+const cannedHeadlines = (texts: Record<LanguageId, string>): PosterHeadline[] =>
+  (Object.keys(texts) as LanguageId[]).map(language => ({ language, text: texts[language] }));
+
+interface CannedPoster {
+  keywords: string[];
+  title: string;
+  details: PosterDetails;
+  hues: [number, number];
+}
+
+const CANNED_POSTERS: CannedPoster[] = [
+  {
+    keywords: ['ugadi'],
+    title: 'Ugadi Festival Poster',
+    details: {
+      theme: 'Mango leaf torans, neem flowers and a clay pot of ugadi pachadi on a bright yellow and green festive background',
+      headlines: cannedHeadlines({ en: 'Wishing You a Joyous Ugadi!', te: 'మీకు ఉగాది శుభాకాంక్షలు!', kn: 'ನಿಮಗೆ ಯುಗಾದಿ ಹಬ್ಬದ ಶುಭಾಶಯಗಳು!', ta: 'இனிய யுகாதி நல்வாழ்த்துகள்!' }),
+      ...EMPTY_SECONDARY_TEXT,
+    },
+    hues: [45, 110],
+  },
+  {
+    keywords: ['sankranti', 'pongal', 'kite'],
+    title: 'Sankranti Wishes',
+    details: {
+      theme: 'Colourful kites in a clear sky, sugarcane, rangoli and clay pots, warm sunny harvest atmosphere',
+      headlines: cannedHeadlines({ en: 'Happy Sankranti to All!', te: 'అందరికీ సంక్రాంతి శుభాకాంక్షలు!', kn: 'ಎಲ್ಲರಿಗೂ ಸಂಕ್ರಾಂತಿ ಹಬ್ಬದ ಶುಭಾಶಯಗಳು!', ta: 'அனைவருக்கும் இனிய பொங்கல் நல்வாழ்த்துகள்!' }),
+      ...EMPTY_SECONDARY_TEXT,
+    },
+    hues: [200, 35],
+  },
+  {
+    keywords: ['diwali', 'deepavali', 'deepawali'],
+    title: 'Deepavali Greetings',
+    details: {
+      theme: 'Rows of glowing diyas, soft bokeh lights and fireworks over a deep purple night sky',
+      headlines: cannedHeadlines({ en: 'Happy Deepavali!', te: 'దీపావళి శుభాకాంక్షలు!', kn: 'ದೀಪಾವಳಿ ಹಬ್ಬದ ಶುಭಾಶಯಗಳು!', ta: 'இனிய தீபாவளி நல்வாழ்த்துகள்!' }),
+      ...EMPTY_SECONDARY_TEXT,
+    },
+    hues: [275, 40],
+  },
+  {
+    keywords: ['birthday', 'bday'],
+    title: 'Birthday Wishes',
+    details: {
+      theme: 'Pastel balloons, confetti and soft streamers on a cheerful light background',
+      headlines: cannedHeadlines({ en: 'Happy Birthday!', te: 'పుట్టినరోజు శుభాకాంక్షలు!', kn: 'ಹುಟ್ಟುಹಬ್ಬದ ಶುಭಾಶಯಗಳು!', ta: 'இனிய பிறந்தநாள் நல்வாழ்த்துகள்!' }),
+      ...EMPTY_SECONDARY_TEXT,
+    },
+    hues: [330, 190],
+  },
+  {
+    keywords: ['shop', 'store', 'opening', 'launch', 'bakery', 'cafe'],
+    title: 'Grand Opening Poster',
+    details: {
+      theme: 'Festive ribbon, marigold garlands and warm golden lights in front of a welcoming storefront',
+      headlines: cannedHeadlines({ en: 'Grand Opening – You Are Invited!', te: 'ఘనంగా ప్రారంభోత్సవం – మీకు ఆహ్వానం!', kn: 'ಭವ್ಯ ಉದ್ಘಾಟನೆ – ನಿಮಗೆ ಆಹ್ವಾನ!', ta: 'பிரமாண்ட திறப்பு விழா – அனைவரும் வருக!' }),
+      ...EMPTY_SECONDARY_TEXT,
+      subheadline: 'Special offers on the opening day',
+      callToAction: 'All are welcome!',
+    },
+    hues: [15, 50],
+  },
+];
+
+const FALLBACK_POSTER: CannedPoster = {
+  keywords: [],
+  title: 'Creative Poster',
+  details: {
+    theme: 'Abstract flowing gradients with soft light and gentle geometric shapes',
+    headlines: cannedHeadlines({ en: 'Make Every Day Special', te: 'ప్రతి రోజూ ప్రత్యేకమే', kn: 'ಪ್ರತಿದಿನವೂ ವಿಶೇಷವೇ', ta: 'ஒவ்வொரு நாளும் சிறப்பே' }),
+    ...EMPTY_SECONDARY_TEXT,
+  },
+  hues: [250, 320],
+};
+
+// FNV-1a, used only to seed the pseudo-random generator below.
+const hashString = (text: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// mulberry32: small, fast and deterministic for a given seed.
+const createRandom = (seed: number) => {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// A prompt containing e.g. "[mock-error:quota]" fails with that kind of error, to try the error cards offline.
+const MOCK_ERROR_PATTERN = /\[mock-error:([a-z-]+)\]/;
+const MOCK_QUOTA_WAIT_MS = 60_000;
+
+const throwRequestedError = (prompt: string) => {
+  const kind = prompt.match(MOCK_ERROR_PATTERN)?.[1] as GenerationErrorKind | undefined;
+  if (!kind) return;
+  console.log(`Mock Provider: Simulating a "${kind}" error.`);
+  throw new GenerationError(kind, `Simulated "${kind}" error from the mock provider.`, kind === 'quota' ? Date.now() + MOCK_QUOTA_WAIT_MS : undefined);
+};
+
+const findCannedPoster = (text: string): CannedPoster => {
+  const lowerText = text.toLowerCase();
+  return CANNED_POSTERS.find(poster => poster.keywords.some(keyword => lowerText.includes(keyword))) ?? FALLBACK_POSTER;
+};
+
+// Roughly four characters per token, like the real models, so the usage page has plausible numbers to show.
+const reportTextUsage = (input: string, output: unknown, onUsage?: UsageListener) => {
+  const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+  onUsage?.({ model: MOCK_MODEL, inputTokens: estimateTokens(input), outputTokens: estimateTokens(JSON.stringify(output)) });
+};
+
+const summarizePromptForTitle = async (userPrompt: string, signal?: AbortSignal, onUsage?: UsageListener): Promise<string> => {
+  if (!userPrompt || userPrompt.trim().length === 0) {
+    return "";
+  }
+  await abortableDelay(MOCK_LATENCY_MS, signal);
+  const { title } = findCannedPoster(userPrompt);
+  reportTextUsage(userPrompt, title, onUsage);
+  return title;
+};
+
+// An attached photo is not looked at; the canned text depends on the prompt only.
+const extractPosterDetailsFromPrompt = async (userPrompt: string, languagePreference: LanguagePreference, signal?: AbortSignal, onUsage?: UsageListener, photo?: PromptPhoto): Promise<PosterDetails> => {
+  await abortableDelay(MOCK_LATENCY_MS, signal);
+  throwRequestedError(userPrompt);
+  const { details } = findCannedPoster(userPrompt);
+  reportTextUsage(userPrompt, details, onUsage);
+  console.log(`Mock Provider: Returning canned poster content (Lang: ${describeLanguages(languagePreference)}${photo ? ', photo ignored' : ''}).`);
+  return applyLanguagePreference(details, languagePreference);
+};
+
+// Quoted text at word boundaries, so apostrophes in words like "don't" are not mistaken for quotes.
+const QUOTED_TEXT_PATTERN = /(?:^|\s)["“'‘](.+?)["”'’](?=$|\s|[.,!?])/;
+const TEXT_CHANGE_WORDS = ['text', 'line', 'word', 'telugu', 'english', 'kannada', 'tamil', 'shorten', 'shorter', 'spelling', 'title', 'wording'];
+const THEME_CHANGE_WORDS = ['background', 'colour', 'color', 'darker', 'brighter', 'lighter', 'theme', 'style', 'image', 'scene'];
+
+// Keyword guess at what a follow-up asks for; a different canned poster means a new request altogether.
+const guessRefinementScope = (followUpPrompt: string, previousPrompt: string): RefinementScope => {
+  const lowerPrompt = followUpPrompt.toLowerCase();
+  const followUpPoster = findCannedPoster(followUpPrompt);
+  if (followUpPoster !== FALLBACK_POSTER && followUpPoster !== findCannedPoster(previousPrompt)) return 'new';
+  const changesText = TEXT_CHANGE_WORDS.some(word => lowerPrompt.includes(word)) || QUOTED_TEXT_PATTERN.test(followUpPrompt);
+  const changesTheme = THEME_CHANGE_WORDS.some(word => lowerPrompt.includes(word));
+  if (changesText && changesTheme) return 'both';
+  return changesText ? 'text' : 'theme';
+};
+
+// Quoted text replaces the headline in the language of its script; "shorten" keeps everything up to the first punctuation mark.
+const refineText = (followUpPrompt: string, details: PosterDetails): PosterDetails => {
+  const quoted = followUpPrompt.match(QUOTED_TEXT_PATTERN)?.[1]?.trim();
+  if (quoted) {
+    const language = languageOfText(quoted).id;
+    const others = details.headlines.filter(headline => headline.language !== language);
+    return { ...details, headlines: [...others, { language, text: quoted }] };
+  }
+  const shorten = (text: string) => text.split(/[,:–-]/)[0].trim() || text;
+  return { ...details, headlines: details.headlines.map(headline => ({ ...headline, text: shorten(headline.text) })) };
+};
+
+const refinePosterDetails = async (followUpPrompt: string, languagePreference: LanguagePreference, previous: RefinementContext, signal?: AbortSignal, onUsage?: UsageListener): Promise<PosterRefinement> => {
+  const scope = guessRefinementScope(followUpPrompt, previous.previousPrompt);
+  if (scope === 'new') {
+    return { scope, details: await extractPosterDetailsFromPrompt(followUpPrompt, languagePreference, signal, onUsage) };
+  }
+  await abortableDelay(MOCK_LATENCY_MS, signal);
+  throwRequestedError(followUpPrompt);
+  let details = { ...previous.previousDetails };
+  if (scope !== 'theme') details = refineText(followUpPrompt, details);
+  // The background is drawn from the theme text, so extending it is enough to get a new image.
+  if (scope !== 'text') details = { ...details, theme: `${details.theme}, ${followUpPrompt.trim()}` };
+  reportTextUsage(`${followUpPrompt}${JSON.stringify(previous)}`, details, onUsage);
+  console.log(`Mock Provider: Refining the previous poster (scope: ${scope}, Lang: ${describeLanguages(languagePreference)}).`);
+  return { scope, details: applyLanguagePreference(details, languagePreference) };
+};
+
+// Draws a soft gradient with blurred light orbs and a wave band, coloured after the matching canned poster.
+// The result is an SVG data URL, so the same backgrounds can be made in the browser and in the proxy server.
+const drawBackground = (prompt: string, seed: number, options: ImageGenerationOptions): string => {
+  const random = createRandom(seed);
+  const [baseHue, accentHue] = findCannedPoster(prompt).hues;
+  const jitter = () => Math.round((random() - 0.5) * 30);
+  const round = (value: number) => Math.round(value * 10) / 10;
+
+  const ratio = ASPECT_RATIOS[options.aspectRatio ?? '1:1'];
+  const width = Math.round(ratio >= 1 ? MOCK_IMAGE_SIZE : MOCK_IMAGE_SIZE * ratio);
+  const height = Math.round(ratio >= 1 ? MOCK_IMAGE_SIZE / ratio : MOCK_IMAGE_SIZE);
+
+  const gradients = [
+    `<linearGradient id="bg" gradientUnits="userSpaceOnUse" x1="0" y1="0" x2="${round(width * random())}" y2="${height}">` +
+    `<stop offset="0" stop-color="hsl(${baseHue + jitter()}, 70%, 55%)"/>` +
+    `<stop offset="1" stop-color="hsl(${accentHue + jitter()}, 65%, 35%)"/></linearGradient>`,
+  ];
+  const shapes = [`<rect width="${width}" height="${height}" fill="url(#bg)"/>`];
+
+  for (let i = 0; i < 14; i++) {
+    const x = round(random() * width);
+    const y = round(random() * height);
+    const radius = round(Math.min(width, height) * (0.04 + random() * 0.16));
+    const hue = (random() > 0.5 ? baseHue : accentHue) + jitter();
+    const opacity = round((0.25 + random() * 0.35) * 100) / 100;
+    gradients.push(
+      `<radialGradient id="orb${i}"><stop offset="0" stop-color="hsl(${hue}, 90%, 80%)" stop-opacity="${opacity}"/>` +
+      `<stop offset="1" stop-color="hsl(${hue}, 90%, 80%)" stop-opacity="0"/></radialGradient>`
+    );
+    shapes.push(`<circle cx="${x}" cy="${y}" r="${radius}" fill="url(#orb${i})"/>`);
+  }
+
+  const waveBase = height * (0.7 + random() * 0.15);
+  const amplitude = height * 0.04;
+  const phase = random() * Math.PI;
+  const wavePoints: string[] = [];
+  for (let x = 0; x <= width; x += 16) {
+    wavePoints.push(`L${x} ${round(waveBase + Math.sin((x / width) * Math.PI * 3 + phase) * amplitude)}`);
+  }
+  shapes.push(`<path d="M0 ${height} ${wavePoints.join(' ')} L${width} ${height} Z" fill="hsl(${accentHue}, 60%, 20%)" fill-opacity="0.35"/>`);
+
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">` +
+    `<defs>${gradients.join('')}</defs>${shapes.join('')}</svg>`;
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+};
+
+const generateImages = async (prompt: string, options: ImageGenerationOptions = {}, signal?: AbortSignal, onUsage?: UsageListener): Promise<string[]> => {
+  await abortableDelay(MOCK_LATENCY_MS * 2, signal);
+  const count = options.numberOfImages ?? 1;
+  onUsage?.({ model: MOCK_MODEL, images: count });
+  // The first image only depends on the prompt, so single-image results stay stable.
+  return Array.from({ length: count }, (_, index) =>
+    drawBackground(prompt, hashString(index === 0 ? prompt : `${prompt}#${index}`), options)
+  );
+};
+
+export const mockProvider: GenerationProvider = {
+  id: 'mock',
+  summarizePromptForTitle,
+  extractPosterDetailsFromPrompt,
+  refinePosterDetails,
+  generateImages,
+};
@@ -0,0 +1,144 @@
+import type { LanguagePreference, PosterDetails } from '../../App'; // Import type
+import type {
+  CallUsage,
+  GenerationProvider,
+  ImageGenerationOptions,
+  PosterRefinement,
+  PromptPhoto,
+  RefinementContext,
+  UsageListener,
+} from '../generationProvider';
+import { GenerationError } from '../generationErrors';
+import {
+  isProxyErrorBody,
+  PROXY_ROUTES,
+  type ImagesRequest,
+  type PosterDetailsRequest,
+  type PosterRefinementRequest,
+  type TitleRequest,
+} from '../proxyProtocol';
+import { REFINEMENT_SCOPES, validatePosterDetails } from '../../utils/posterContent';
+import { isAbortError } from '../../utils/retry';
+
+// Sends every AI call to the poster server in server/, which holds the Gemini key,
+// so the key never has to be part of the browser bundle.
+
+const PROXY_URL = (process.env.POSTER_PROXY_URL || '/api').replace(/\/+$/, '');
+
+// Turns an error answer into a GenerationError. Answers that are not from the poster server itself,
+// such as the dev server's own 502 when the poster server is not running, are judged by status alone.
+const fromProxyResponse = (response: Response, body: unknown, action: string): GenerationError => {
+  if (isProxyErrorBody(body)) {
+    const { kind, message, retryAfterMs } = body.error;
+    return new GenerationError(kind, message, retryAfterMs === undefined ? undefined : Date.now() + retryAfterMs);
+  }
+  if (response.status === 429) {
+    const retryAfterSeconds = Number(response.headers.get('Retry-After'));
+    return new GenerationError('quota', `Too many requests ${action}.`, retryAfterSeconds > 0 ? Date.now() + retryAfterSeconds * 1000 : undefined);
+  }
+  if (response.status >= 500) {
+    return new GenerationError('unavailable', `The poster server is not answering ${action} (HTTP ${response.status}). Is it running? Start it with "npm run server".`);
+  }
+  return new GenerationError('unknown', `The poster server failed ${action} (HTTP ${response.status}).`);
+};
+
+// The usage the server passed on from Gemini, if it is well formed.
+const readUsage = (value: unknown): CallUsage | undefined => {
+  const usage = value as Partial<CallUsage> | null | undefined;
+  if (typeof usage?.model !== 'string') return undefined;
+  const count = (field: unknown) => (typeof field === 'number' && field >= 0 ? field : undefined);
+  return {
+    model: usage.model,
+    inputTokens: count(usage.inputTokens),
+    outputTokens: count(usage.outputTokens),
+    thinkingTokens: count(usage.thinkingTokens),
+    images: count(usage.images),
+  };
+};
+
+const postJson = async (route: string, body: unknown, action: string, signal?: AbortSignal, onUsage?: UsageListener): Promise<unknown> => {
+  let response: Response;
+  try {
+    response = await fetch(`${PROXY_URL}${route}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      signal,
+    });
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    throw new GenerationError('offline', `Could not reach the poster server ${action}. Check your internet connection.`);
+  }
+  const data: unknown = await response.json().catch(() => null);
+  signal?.throwIfAborted();
+  const usage = readUsage((data as { usage?: unknown } | null)?.usage);
+  if (usage) onUsage?.(usage);
+  if (!response.ok) throw fromProxyResponse(response, data, action);
+  if (typeof data !== 'object' || data === null) {
+    throw new GenerationError('malformed-response', `The poster server sent an unreadable answer ${action}.`);
+  }
+  return data;
+};
+
+const summarizePromptForTitle = async (userPrompt: string, signal?: AbortSignal, onUsage?: UsageListener): Promise<string> => {
+  if (!userPrompt || userPrompt.trim().length === 0) {
+    return "";
+  }
+  const request: TitleRequest = { prompt: userPrompt };
+  const data = await postJson(PROXY_ROUTES.title, request, 'while naming the chat', signal, onUsage) as { title?: unknown };
+  return typeof data.title === 'string' ? data.title.trim() : "";
+};
+
+const readDetails = (value: unknown, action: string): PosterDetails => {
+  const { details, problems } = validatePosterDetails(value);
+  if (!details) {
+    console.error(`Proxy Provider: Invalid poster details ${action}:`, problems);
+    throw new GenerationError('malformed-response', `The poster server sent incomplete poster text ${action}.`);
+  }
+  return details;
+};
+
+const extractPosterDetailsFromPrompt = async (userPrompt: string, languagePreference: LanguagePreference, signal?: AbortSignal, onUsage?: UsageListener, photo?: PromptPhoto): Promise<PosterDetails> => {
+  const action = 'while reading the prompt';
+  const request: PosterDetailsRequest = { prompt: userPrompt, languagePreference, photo };
+  const data = await postJson(PROXY_ROUTES.posterDetails, request, action, signal, onUsage) as { details?: unknown };
+  return readDetails(data.details, action);
+};
+
+const refinePosterDetails = async (
+  followUpPrompt: string,
+  languagePreference: LanguagePreference,
+  previous: RefinementContext,
+  signal?: AbortSignal,
+  onUsage?: UsageListener
+): Promise<PosterRefinement> => {
+  const action = 'while applying the changes';
+  const request: PosterRefinementRequest = { prompt: followUpPrompt, languagePreference, previous };
+  const data = await postJson(PROXY_ROUTES.posterRefinement, request, action, signal, onUsage) as { refinement?: Partial<PosterRefinement> };
+  const scope = data.refinement?.scope;
+  if (!scope || !REFINEMENT_SCOPES.includes(scope)) {
+    throw new GenerationError('malformed-response', `The poster server did not say what changed ${action}.`);
+  }
+  return { scope, details: readDetails(data.refinement?.details, action) };
+};
+
+const generateImages = async (prompt: string, options: ImageGenerationOptions = {}, signal?: AbortSignal, onUsage?: UsageListener): Promise<string[]> => {
+  const action = 'during image generation';
+  const request: ImagesRequest = { prompt, options };
+  const data = await postJson(PROXY_ROUTES.images, request, action, signal, onUsage) as { images?: unknown };
+  const images = Array.isArray(data.images)
+    ? data.images.filter((image): image is string => typeof image === 'string' && image.startsWith('data:image/'))
+    : [];
+  if (images.length === 0) {
+    throw new GenerationError('malformed-response', `The poster server sent no images ${action}.`);
+  }
+  return images;
+};
+
+export const proxyProvider: GenerationProvider = {
+  id: 'proxy',
+  summarizePromptForTitle,
+  extractPosterDetailsFromPrompt,
+  refinePosterDetails,
+  generateImages,
+};
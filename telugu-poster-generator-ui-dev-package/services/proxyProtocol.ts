@@ -0,0 +1,82 @@
+import type { LanguagePreference, PosterDetails } from '../App'; // Import type
+import type { CallUsage, ImageGenerationOptions, PosterRefinement, PromptPhoto, RefinementContext } from './generationProvider';
+import type { GenerationErrorKind } from './generationErrors';
+
+// Request and response bodies of the poster server in server/, shared by the server and the 'proxy' provider.
+// Every route takes a POST with a JSON body and lives under the proxy URL ('/api' unless POSTER_PROXY_URL says otherwise).
+
+export const PROXY_ROUTES = {
+  title: '/title',
+  posterDetails: '/poster-details',
+  posterRefinement: '/poster-refinement',
+  images: '/images',
+} as const;
+
+// What the upstream call used; missing when it failed before Gemini answered.
+export interface UsageReport {
+  usage?: CallUsage;
+}
+
+export interface TitleRequest {
+  prompt: string;
+}
+
+export interface TitleResponse extends UsageReport {
+  title: string;
+}
+
+export interface PosterDetailsRequest {
+  prompt: string;
+  languagePreference: LanguagePreference;
+  photo?: PromptPhoto; // A small JPEG of the user's own background (see photoBackground.ts)
+}
+
+export interface PosterDetailsResponse extends UsageReport {
+  details: PosterDetails;
+}
+
+export interface PosterRefinementRequest {
+  prompt: string;
+  languagePreference: LanguagePreference;
+  previous: RefinementContext;
+}
+
+export interface PosterRefinementResponse extends UsageReport {
+  refinement: PosterRefinement;
+}
+
+export interface ImagesRequest {
+  prompt: string;
+  options: ImageGenerationOptions;
+}
+
+export interface ImagesResponse extends UsageReport {
+  images: string[]; // Data URLs
+}
+
+export interface ProxyErrorBody extends UsageReport {
+  error: {
+    kind: GenerationErrorKind;
+    message: string;
+    retryAfterMs?: number; // For 'quota'; relative, so clock differences between server and browser do not matter
+  };
+}
+
+// The status the server answers each kind of failure with.
+export const ERROR_STATUS_CODES: Record<GenerationErrorKind, number> = {
+  'invalid-key': 502, // The server's key is at fault, not the request
+  quota: 429,
+  safety: 422,
+  'malformed-response': 502,
+  unavailable: 503,
+  offline: 504,
+  cancelled: 499,
+  unknown: 500,
+};
+
+export const isProxyErrorBody = (value: unknown): value is ProxyErrorBody => {
+  const error = (value as Partial<ProxyErrorBody> | null)?.error;
+  return typeof error === 'object' && error !== null &&
+    typeof error.kind === 'string' && error.kind in ERROR_STATUS_CODES &&
+    typeof error.message === 'string';
+};
@@ -0,0 +1,43 @@
+import { DEFAULT_SESSION_SORT_ORDER, SESSION_SORT_ORDERS, type SessionSortOrder } from '../utils/sessionList';
+
+// Chat folders and the sidebar's sort order are small settings, so like the brand kit they live in localStorage.
+// Which folder a chat is in is saved with the chat itself (ConversationSession.folderId).
+
+export interface SessionFolder {
+  id: string;
+  name: string;
+}
+
+const SESSION_FOLDERS_STORAGE_KEY = 'poster-chat-folders';
+const SESSION_SORT_ORDER_STORAGE_KEY = 'poster-chat-sort-order';
+
+export const loadSessionFolders = (): SessionFolder[] => {
+  try {
+    const raw = localStorage.getItem(SESSION_FOLDERS_STORAGE_KEY);
+    if (!raw) return [];
+    const parsed: unknown = JSON.parse(raw);
+    return Array.isArray(parsed)
+      ? parsed.filter((folder): folder is SessionFolder => typeof folder?.id === 'string' && typeof folder.name === 'string')
+      : [];
+  } catch (error) {
+    console.error('Session Folders: Failed to read the saved folders:', error);
+    return [];
+  }
+};
+
+export const saveSessionFolders = (folders: SessionFolder[]): void => {
+  try {
+    localStorage.setItem(SESSION_FOLDERS_STORAGE_KEY, JSON.stringify(folders));
+  } catch (error) {
+    console.error('Session Folders: Failed to save the folders:', error);
+  }
+};
+
+export const loadSessionSortOrder = (): SessionSortOrder => {
+  const saved = localStorage.getItem(SESSION_SORT_ORDER_STORAGE_KEY);
+  return SESSION_SORT_ORDERS.some(order => order.id === saved) ? saved as SessionSortOrder : DEFAULT_SESSION_SORT_ORDER;
+};
+
+export const saveSessionSortOrder = (order: SessionSortOrder): void => {
+  localStorage.setItem(SESSION_SORT_ORDER_STORAGE_KEY, order);
+};
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import type { ConversationSession } from '../App';
+import { ITEM_SCHEMA_VERSION } from './storageService';
+import { buildSessionFile, readSessionFile, SESSION_FILE_FORMAT, SESSION_FILE_VERSION, SessionFileError } from './sessionTransfer';
+
+const IMAGE = 'data:image/png;base64,iVBORw0KGgo=';
+
+const chatFile = (item: Record<string, unknown>, images: Record<string, unknown> = { poster: IMAGE }, session: Record<string, unknown> = {}) =>
+  new File([JSON.stringify({
+    format: SESSION_FILE_FORMAT,
+    version: SESSION_FILE_VERSION,
+    itemSchemaVersion: ITEM_SCHEMA_VERSION,
+    exportedAt: 0,
+    sessions: [{ id: 'chat-1', title: 'Diwali', createdAt: 0, items: [{ id: 'item-1', type: 'aiResponse', ...item }], ...session }],
+    images,
+  })], 'chat.posterchats.json');
+
+describe('readSessionFile', () => {
+  it('reads images from the file\'s image table', async () => {
+    const [session] = await readSessionFile(chatFile({ imageUrl: { __imageRef: 'poster' }, baseImageUrl: null }));
+    expect(session.items[0].imageUrl).toBe(IMAGE);
+    expect(session.items[0].baseImageUrl).toBeNull();
+  });
+
+  it.each(['javascript:alert(1)', 'https://example.com/poster.png', 'blob:https://example.com/1234'])('rejects a poster linking to %s', async url => {
+    await expect(readSessionFile(chatFile({ imageUrl: url }))).rejects.toThrow(SessionFileError);
+    await expect(readSessionFile(chatFile({ baseImageUrl: url }))).rejects.toThrow(SessionFileError);
+  });
+
+  it('rejects a variant linking outside the file', async () => {
+    const variants = [{ id: 'v1', baseImageUrl: { __imageRef: 'poster' }, imageUrl: 'javascript:alert(1)' }];
+    await expect(readSessionFile(chatFile({ variants }))).rejects.toThrow(SessionFileError);
+  });
+
+  it('ignores image table entries that are not inline images', async () => {
+    const [session] = await readSessionFile(chatFile({ imageUrl: { __imageRef: 'poster' } }, { poster: 'https://example.com/poster.png' }));
+    expect(session.items[0].imageUrl).toBeNull();
+  });
+
+  it('keeps whether a chat is pinned, its folder and when it last changed', async () => {
+    const chat: ConversationSession = { id: 'chat-1', title: 'Diwali', items: [], createdAt: 1, updatedAt: 2, pinned: true, folderId: 'folder-1' };
+    const exported = await buildSessionFile([chat]);
+    const [session] = await readSessionFile(new File([exported], 'chat.posterchats.json'));
+    expect(session).toEqual(chat);
+  });
+
+  it('reads chats exported before those fields were included', async () => {
+    const [session] = await readSessionFile(chatFile({}));
+    expect(session.pinned).toBeUndefined();
+    expect(session.folderId).toBeUndefined();
+    expect(session.updatedAt).toBeUndefined();
+  });
+
+  it.each([{ pinned: 'yes' }, { folderId: 7 }, { updatedAt: '2026-10-19' }])('rejects a chat with %o', async session => {
+    await expect(readSessionFile(chatFile({}, {}, session))).rejects.toThrow(SessionFileError);
+  });
+});
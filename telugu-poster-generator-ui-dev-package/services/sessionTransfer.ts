@@ -0,0 +1,208 @@
+import type { ConversationItem, ConversationSession } from '../App'; // Import type
+import { externalizeImages, ITEM_SCHEMA_VERSION, restoreItem, type StoredItem } from './storageService';
+import { validatePosterDetails } from '../utils/posterContent';
+import { readTextLayerOverrides } from '../utils/textLayers';
+
+// Chats saved to a single JSON file, so they can be opened in another browser or on another machine.
+// Items are written the way storageService keeps them: plain JSON with every image replaced by a reference
+// into the file's image table. Images are inlined as data URLs, so the file is complete on its own.
+
+export const SESSION_FILE_FORMAT = 'telugu-poster-chats';
+// Bump this when the layout of the file itself changes; item changes are covered by ITEM_SCHEMA_VERSION.
+export const SESSION_FILE_VERSION = 1;
+export const SESSION_FILE_EXTENSION = '.posterchats.json';
+
+const MAX_SESSION_FILE_BYTES = 200 * 1024 * 1024;
+const ITEM_TYPES: ConversationItem['type'][] = ['userPrompt', 'aiResponse'];
+
+interface SessionFileSession {
+  id: string;
+  title: string;
+  createdAt: number;
+  updatedAt?: number; // The sidebar fields are missing from files exported before they were included
+  pinned?: boolean;
+  folderId?: string; // Kept even if the folder does not exist where the file is opened; the sidebar then shows no folder
+  items: StoredItem[];
+}
+
+interface SessionFile {
+  format: typeof SESSION_FILE_FORMAT;
+  version: number;
+  itemSchemaVersion: number;
+  exportedAt: number;
+  sessions: SessionFileSession[];
+  images: Record<string, string>; // Data URLs by image reference
+}
+
+export class SessionFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SessionFileError';
+  }
+}
+
+export interface SessionImportResult {
+  sessions: ConversationSession[]; // The existing chats followed by the imported ones
+  importedIds: string[];
+  renamedCount: number; // Imported chats that got a new id because the id was already taken
+}
+
+const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error ?? new Error('Failed to read image data.'));
+    reader.readAsDataURL(blob);
+  });
+
+// Saved chats show their images through blob: URLs, which mean nothing outside this tab.
+const toDataUrl = async (url: string): Promise<string> =>
+  url.startsWith('data:') ? url : blobToDataUrl(await (await fetch(url)).blob());
+
+export const buildSessionFile = async (sessions: ConversationSession[]): Promise<Blob> => {
+  const imageUrls = new Map<string, string>();
+  const fileSessions: SessionFileSession[] = sessions.map(session => ({
+    id: session.id,
+    title: session.title,
+    createdAt: session.createdAt,
+    updatedAt: session.updatedAt,
+    pinned: session.pinned,
+    folderId: session.folderId,
+    items: session.items.map(item => externalizeImages(item, `${session.id}/${item.id}`, imageUrls) as StoredItem),
+  }));
+  const images: Record<string, string> = {};
+  for (const [key, url] of imageUrls) {
+    images[key] = await toDataUrl(url);
+  }
+  const file: SessionFile = {
+    format: SESSION_FILE_FORMAT,
+    version: SESSION_FILE_VERSION,
+    itemSchemaVersion: ITEM_SCHEMA_VERSION,
+    exportedAt: Date.now(),
+    sessions: fileSessions,
+    images,
+  };
+  return new Blob([JSON.stringify(file)], { type: 'application/json' });
+};
+
+// e.g. "diwali_wishes.posterchats.json" for one chat, "poster_chats_2026-10-19.posterchats.json" for several.
+export const sessionFileName = (sessions: ConversationSession[]): string => {
+  const base = sessions.length === 1
+    ? sessions[0].title.substring(0, 40).replace(/[^a-z0-9]+/gi, '_').replace(/^_+|_+$/g, '').toLowerCase() || 'poster_chat'
+    : `poster_chats_${new Date().toISOString().slice(0, 10)}`;
+  return `${base}${SESSION_FILE_EXTENSION}`;
+};
+
+const isOptionalString = (value: unknown): boolean => value === undefined || value === null || typeof value === 'string';
+const isOptional = (value: unknown, type: 'number' | 'boolean' | 'string'): boolean => value === undefined || typeof value === type;
+
+// Only images from the file's own image table are let through; any other URL left in an item could point anywhere.
+const isOptionalInlineImage = (value: unknown): boolean =>
+  value === undefined || value === null || (typeof value === 'string' && value.startsWith('data:image/'));
+
+const readItem = (value: unknown, schemaVersion: number, images: Record<string, string>, chatTitle: string): ConversationItem => {
+  const record = value as StoredItem | null;
+  if (typeof record !== 'object' || record === null || typeof record.id !== 'string' || !ITEM_TYPES.includes(record.type as ConversationItem['type'])) {
+    throw new SessionFileError(`A message in "${chatTitle}" is not readable.`);
+  }
+  const item = restoreItem(record, schemaVersion, key => images[key] ?? null);
+  if (!isOptionalString(item.promptText) || !isOptionalString(item.originalUserQuery)) {
+    throw new SessionFileError(`A message in "${chatTitle}" has fields of the wrong type.`);
+  }
+  if (!isOptionalInlineImage(item.imageUrl) || !isOptionalInlineImage(item.baseImageUrl)) {
+    throw new SessionFileError(`A poster in "${chatTitle}" links to an image outside the file.`);
+  }
+  if (item.posterDetails !== undefined) {
+    const { details, problems } = validatePosterDetails(item.posterDetails);
+    if (!details) {
+      console.error(`Session Transfer: Invalid poster details in "${chatTitle}":`, problems);
+      throw new SessionFileError(`A poster in "${chatTitle}" has unreadable text.`);
+    }
+    item.posterDetails = details;
+  }
+  if (item.textLayers !== undefined) {
+    item.textLayers = readTextLayerOverrides(item.textLayers);
+  }
+  if (item.variants !== undefined) {
+    if (Array.isArray(item.variants) && item.variants.some(variant => !isOptionalInlineImage(variant?.baseImageUrl) || !isOptionalInlineImage(variant?.imageUrl))) {
+      throw new SessionFileError(`A poster in "${chatTitle}" links to an image outside the file.`);
+    }
+    // Variants whose images did not make it into the file are dropped rather than shown blank.
+    item.variants = Array.isArray(item.variants)
+      ? item.variants.filter(variant => typeof variant?.id === 'string' && typeof variant.baseImageUrl === 'string' && typeof variant.imageUrl === 'string')
+      : undefined;
+  }
+  return item;
+};
+
+const readSession = (value: unknown, schemaVersion: number, images: Record<string, string>): ConversationSession => {
+  const record = value as Partial<SessionFileSession> | null;
+  if (typeof record?.id !== 'string' || typeof record.title !== 'string' || typeof record.createdAt !== 'number' || !Array.isArray(record.items)) {
+    throw new SessionFileError('The file contains a chat that is not readable.');
+  }
+  const title = record.title;
+  if (!isOptional(record.updatedAt, 'number') || !isOptional(record.pinned, 'boolean') || !isOptional(record.folderId, 'string')) {
+    throw new SessionFileError(`The chat "${title || 'Untitled Chat'}" has fields of the wrong type.`);
+  }
+  return {
+    id: record.id,
+    title,
+    createdAt: record.createdAt,
+    updatedAt: record.updatedAt,
+    pinned: record.pinned,
+    folderId: record.folderId,
+    items: record.items.map(item => readItem(item, schemaVersion, images, title || 'Untitled Chat')),
+  };
+};
+
+// Throws a SessionFileError with a message for the user when the file is not a chat export this app can read.
+export const readSessionFile = async (file: File): Promise<ConversationSession[]> => {
+  if (file.size > MAX_SESSION_FILE_BYTES) {
+    throw new SessionFileError(`The file is larger than ${MAX_SESSION_FILE_BYTES / 1024 / 1024} MB.`);
+  }
+  let parsed: Partial<SessionFile> | null;
+  try {
+    parsed = JSON.parse(await file.text());
+  } catch {
+    throw new SessionFileError('The file is not a chat export (it is not valid JSON).');
+  }
+  if (parsed?.format !== SESSION_FILE_FORMAT || typeof parsed.version !== 'number' || typeof parsed.itemSchemaVersion !== 'number') {
+    throw new SessionFileError('The file is not a chat export from this app.');
+  }
+  if (parsed.version > SESSION_FILE_VERSION || parsed.itemSchemaVersion > ITEM_SCHEMA_VERSION) {
+    throw new SessionFileError('The file was exported by a newer version of the app. Update this one and try again.');
+  }
+  if (!Array.isArray(parsed.sessions) || parsed.sessions.length === 0) {
+    throw new SessionFileError('The file does not contain any chats.');
+  }
+  const images: Record<string, string> = {};
+  for (const [key, url] of Object.entries(parsed.images ?? {})) {
+    // Anything but an inline image is ignored, so a file cannot make the app load outside URLs.
+    if (typeof url === 'string' && url.startsWith('data:image/')) images[key] = url;
+  }
+  const itemSchemaVersion = parsed.itemSchemaVersion;
+  return parsed.sessions.map(session => readSession(session, itemSchemaVersion, images));
+};
+
+// Imported chats keep their ids unless one is already taken, in which case the copy gets a fresh id and title.
+export const mergeImportedSessions = (existing: ConversationSession[], imported: ConversationSession[]): SessionImportResult => {
+  const takenIds = new Set(existing.map(session => session.id));
+  const importedSessions: ConversationSession[] = [];
+  let renamedCount = 0;
+  for (const session of imported) {
+    let id = session.id;
+    if (takenIds.has(id)) {
+      let suffix = 1;
+      while (takenIds.has(`${session.id}-import-${suffix}`)) suffix++;
+      id = `${session.id}-import-${suffix}`;
+      renamedCount++;
+    }
+    takenIds.add(id);
+    importedSessions.push(id === session.id ? session : { ...session, id, title: `${session.title || 'Untitled Chat'} (copy)` });
+  }
+  return {
+    sessions: [...existing, ...importedSessions],
+    importedIds: importedSessions.map(session => session.id),
+    renamedCount,
+  };
+};
@@ -0,0 +1,297 @@
+import type { ConversationItem, ConversationSession } from '../App'; // Import type
+import { EMPTY_SECONDARY_TEXT } from '../utils/posterContent';
+
+// IndexedDB persistence for chat sessions.
+// Session records keep their items as plain JSON; every image URL found inside an item
+// (data: or blob: URLs) is moved into the images store as a Blob and replaced by a reference.
+
+const DB_NAME = 'telugu-poster-generator';
+const DB_VERSION = 1;
+const SESSIONS_STORE = 'sessions';
+const IMAGES_STORE = 'images';
+const IMAGES_BY_SESSION_INDEX = 'bySessionId';
+
+// Bump this whenever the shape of a ConversationItem changes and register a migration below.
+export const ITEM_SCHEMA_VERSION = 3;
+
+export type StoredItem = Record<string, unknown>;
+
+// Each entry upgrades an item from (version - 1) to (version).
+const ITEM_MIGRATIONS: Record<number, (item: StoredItem) => StoredItem> = {
+  // Version 2 added the secondary poster lines (subheadline, date & time, venue, call to action, attribution).
+  2: item => {
+    const details = item.posterDetails;
+    if (typeof details !== 'object' || details === null) return item;
+    return { ...item, posterDetails: { ...EMPTY_SECONDARY_TEXT, ...details } };
+  },
+  // Version 3 replaced the English and Telugu headline fields with a list of headlines tagged by language,
+  // and renamed the matching text layers after those languages.
+  3: item => {
+    const migrated = { ...item };
+    const details = item.posterDetails as Record<string, unknown> | null | undefined;
+    if (typeof details === 'object' && details !== null && !('headlines' in details)) {
+      const { englishText, teluguText, ...rest } = details;
+      const headlines = [
+        { language: 'en', text: typeof englishText === 'string' ? englishText : '' },
+        { language: 'te', text: typeof teluguText === 'string' ? teluguText : '' },
+      ];
+      // A poster made in one language keeps only that headline; one with no headline keeps both fields to fill in.
+      const withText = headlines.filter(headline => headline.text.trim() !== '');
+      migrated.posterDetails = { ...rest, headlines: withText.length > 0 ? withText : headlines };
+    }
+    const layers = item.textLayers as Record<string, unknown> | null | undefined;
+    if (typeof layers === 'object' && layers !== null) {
+      const { englishHeadline, teluguHeadline, ...rest } = layers;
+      migrated.textLayers = { ...rest, 'headline:en': englishHeadline, 'headline:te': teluguHeadline };
+    }
+    return migrated;
+  },
+};
+
+interface StoredImageRef {
+  __imageRef: string;
+}
+
+interface StoredSession {
+  id: string;
+  title: string;
+  createdAt: number;
+  updatedAt?: number;
+  pinned?: boolean;
+  folderId?: string;
+  schemaVersion: number;
+  items: StoredItem[];
+}
+
+interface StoredImage {
+  key: string;
+  sessionId: string;
+  blob: Blob;
+}
+
+// Image URL last written (or hydrated) for each image key, so unchanged images are not rewritten.
+const knownImageUrls = new Map<string, string>();
+let dbPromise: Promise<IDBDatabase> | null = null;
+let saveQueue: Promise<void> = Promise.resolve();
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('IndexedDB transaction aborted.'));
+  });
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available in this browser.'));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      const oldVersion = event.oldVersion;
+      if (oldVersion < 1) {
+        db.createObjectStore(SESSIONS_STORE, { keyPath: 'id' });
+        const images = db.createObjectStore(IMAGES_STORE, { keyPath: 'key' });
+        images.createIndex(IMAGES_BY_SESSION_INDEX, 'sessionId');
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => console.warn('Storage Service: Database upgrade is blocked by another open tab.');
+  });
+  dbPromise.catch(() => { dbPromise = null; });
+  return dbPromise;
+};
+
+// The only kinds of image URL the app makes itself: generated images and photos inline, saved ones from the images store.
+export const isImageUrl = (value: unknown): value is string =>
+  typeof value === 'string' && (value.startsWith('data:image/') || value.startsWith('blob:'));
+
+const isImageRef = (value: unknown): value is StoredImageRef =>
+  typeof value === 'object' && value !== null && typeof (value as StoredImageRef).__imageRef === 'string';
+
+// Replaces image URLs with references, collecting key -> URL pairs along the way.
+// The same URL appearing twice (e.g. the chosen variant and the poster itself) is stored once.
+// Also used to write chat export files, which keep their images the same way.
+export const externalizeImages = (value: unknown, keyPrefix: string, found: Map<string, string>): unknown => {
+  if (isImageUrl(value)) {
+    const existingKey = [...found].find(([, url]) => url === value)?.[0];
+    if (existingKey) return { __imageRef: existingKey } satisfies StoredImageRef;
+    found.set(keyPrefix, value);
+    return { __imageRef: keyPrefix } satisfies StoredImageRef;
+  }
+  if (Array.isArray(value)) {
+    return value.map((entry, index) => externalizeImages(entry, `${keyPrefix}.${index}`, found));
+  }
+  if (typeof value === 'object' && value !== null) {
+    const result: Record<string, unknown> = {};
+    for (const [field, entry] of Object.entries(value)) {
+      result[field] = externalizeImages(entry, `${keyPrefix}.${field}`, found);
+    }
+    return result;
+  }
+  return value;
+};
+
+export const resolveImageRefs = (value: unknown, resolveRef: (key: string) => string | null): unknown => {
+  if (isImageRef(value)) return resolveRef(value.__imageRef);
+  if (Array.isArray(value)) return value.map(entry => resolveImageRefs(entry, resolveRef));
+  if (typeof value === 'object' && value !== null) {
+    const result: Record<string, unknown> = {};
+    for (const [field, entry] of Object.entries(value)) {
+      result[field] = resolveImageRefs(entry, resolveRef);
+    }
+    return result;
+  }
+  return value;
+};
+
+const migrateItem = (item: StoredItem, fromVersion: number): StoredItem => {
+  let migrated = item;
+  for (let version = fromVersion + 1; version <= ITEM_SCHEMA_VERSION; version++) {
+    const migration = ITEM_MIGRATIONS[version];
+    if (migration) migrated = migration(migrated);
+  }
+  return migrated;
+};
+
+// Brings an item saved at schemaVersion up to date and puts its images back, for saved and imported chats alike.
+export const restoreItem = (rawItem: StoredItem, schemaVersion: number, resolveRef: (key: string) => string | null): ConversationItem => {
+  const item = resolveImageRefs(migrateItem(rawItem, schemaVersion), resolveRef) as ConversationItem;
+  if (item.isLoading) {
+    // The tab was closed mid-generation; there is nothing left to wait for.
+    return { ...item, isLoading: false, loadingStep: undefined, errorText: item.errorText || 'This generation was interrupted when the page was closed.' };
+  }
+  return item;
+};
+
+const collectImageKeys = (value: unknown, keys: Set<string>) => {
+  if (isImageRef(value)) {
+    keys.add(value.__imageRef);
+  } else if (Array.isArray(value)) {
+    value.forEach(entry => collectImageKeys(entry, keys));
+  } else if (typeof value === 'object' && value !== null) {
+    Object.values(value).forEach(entry => collectImageKeys(entry, keys));
+  }
+};
+
+export const loadSessions = async (): Promise<ConversationSession[]> => {
+  const db = await openDatabase();
+  const transaction = db.transaction([SESSIONS_STORE, IMAGES_STORE], 'readonly');
+  const storedSessions = await requestToPromise<StoredSession[]>(transaction.objectStore(SESSIONS_STORE).getAll());
+
+  const imageKeys = new Set<string>();
+  storedSessions.forEach(session => collectImageKeys(session.items, imageKeys));
+  const imagesStore = transaction.objectStore(IMAGES_STORE);
+  const storedImages = await Promise.all(
+    [...imageKeys].map(key => requestToPromise<StoredImage | undefined>(imagesStore.get(key)))
+  );
+
+  const imageUrls = new Map<string, string>();
+  storedImages.forEach(image => {
+    if (!image) return;
+    const objectUrl = URL.createObjectURL(image.blob);
+    imageUrls.set(image.key, objectUrl);
+    knownImageUrls.set(image.key, objectUrl);
+  });
+
+  const sessions: ConversationSession[] = [];
+  for (const stored of storedSessions) {
+    if (stored.schemaVersion > ITEM_SCHEMA_VERSION) {
+      console.warn(`Storage Service: Skipping session ${stored.id} saved by a newer version of the app.`);
+      continue;
+    }
+    const items = stored.items.map(rawItem => restoreItem(rawItem, stored.schemaVersion, key => imageUrls.get(key) ?? null));
+    sessions.push({
+      id: stored.id,
+      title: stored.title,
+      createdAt: stored.createdAt,
+      updatedAt: stored.updatedAt,
+      pinned: stored.pinned,
+      folderId: stored.folderId,
+      items,
+    });
+  }
+  console.log(`Storage Service: Restored ${sessions.length} session(s) from IndexedDB.`);
+  return sessions;
+};
+
+const writeSession = async (session: ConversationSession): Promise<void> => {
+  const imageUrls = new Map<string, string>();
+  const items = session.items.map(item => externalizeImages(item, `${session.id}/${item.id}`, imageUrls) as StoredItem);
+
+  // Blobs must be read before the transaction opens: awaiting fetch() would auto-commit it.
+  const changedImages: StoredImage[] = [];
+  for (const [key, url] of imageUrls) {
+    if (knownImageUrls.get(key) === url) continue;
+    const blob = await (await fetch(url)).blob();
+    changedImages.push({ key, sessionId: session.id, blob });
+  }
+
+  const db = await openDatabase();
+  const transaction = db.transaction([SESSIONS_STORE, IMAGES_STORE], 'readwrite');
+  const record: StoredSession = {
+    id: session.id,
+    title: session.title,
+    createdAt: session.createdAt,
+    updatedAt: session.updatedAt,
+    pinned: session.pinned,
+    folderId: session.folderId,
+    schemaVersion: ITEM_SCHEMA_VERSION,
+    items,
+  };
+  transaction.objectStore(SESSIONS_STORE).put(record);
+
+  const imagesStore = transaction.objectStore(IMAGES_STORE);
+  changedImages.forEach(image => imagesStore.put(image));
+  const existingKeys = await requestToPromise(imagesStore.index(IMAGES_BY_SESSION_INDEX).getAllKeys(session.id));
+  existingKeys.forEach(key => {
+    if (!imageUrls.has(String(key))) imagesStore.delete(key);
+  });
+
+  await transactionDone(transaction);
+  changedImages.forEach(image => knownImageUrls.set(image.key, imageUrls.get(image.key)!));
+};
+
+// Saves are queued so an older snapshot can never overwrite a newer one.
+export const saveSessions = (sessions: ConversationSession[]): Promise<void> => {
+  const next = saveQueue.then(async () => {
+    for (const session of sessions) {
+      // Empty placeholder chats are recreated on startup; there is nothing worth keeping.
+      if (session.items.length === 0) continue;
+      await writeSession(session);
+    }
+  });
+  saveQueue = next.catch(error => console.error('Storage Service: Failed to save sessions:', error));
+  return next;
+};
+
+export const deleteSession = (sessionId: string): Promise<void> => {
+  const next = saveQueue.then(async () => {
+    const db = await openDatabase();
+    const transaction = db.transaction([SESSIONS_STORE, IMAGES_STORE], 'readwrite');
+    transaction.objectStore(SESSIONS_STORE).delete(sessionId);
+    const imagesStore = transaction.objectStore(IMAGES_STORE);
+    const imageKeys = await requestToPromise(imagesStore.index(IMAGES_BY_SESSION_INDEX).getAllKeys(sessionId));
+    imageKeys.forEach(key => imagesStore.delete(key));
+    await transactionDone(transaction);
+
+    for (const [key, url] of knownImageUrls) {
+      if (!key.startsWith(`${sessionId}/`)) continue;
+      if (url.startsWith('blob:')) URL.revokeObjectURL(url);
+      knownImageUrls.delete(key);
+    }
+    console.log(`Storage Service: Deleted session ${sessionId} and ${imageKeys.length} stored image(s).`);
+  });
+  saveQueue = next.catch(error => console.error('Storage Service: Failed to delete session:', error));
+  return next;
+};
@@ -0,0 +1,121 @@
+import type { GenerationProviderId } from './generationProvider';
+import type { GenerationErrorKind } from './generationErrors';
+
+// A log of every AI call made through geminiService, for the usage page and the soft budgets.
+// Like the brand kit it is small enough for localStorage; records older than RETENTION_DAYS are dropped as new ones come in.
+
+export type UsageOperation = 'title' | 'posterDetails' | 'refinement' | 'images';
+
+export type UsageOutcome = 'success' | GenerationErrorKind;
+
+export interface UsageRecord {
+  id: string;
+  timestamp: number; // When the call started
+  sessionId: string | null; // null for calls outside a chat, such as batch posters
+  operation: UsageOperation;
+  provider: GenerationProviderId;
+  model: string; // 'unknown' when the call failed before the backend answered
+  inputTokens: number;
+  outputTokens: number;
+  thinkingTokens: number;
+  images: number;
+  latencyMs: number;
+  outcome: UsageOutcome;
+  costUsd: number; // Estimated from list prices when the call was made
+}
+
+// Soft limits in US dollars; null means no limit. Going over only shows a warning.
+export interface UsageBudgets {
+  dailyUsd: number | null;
+  sessionUsd: number | null;
+}
+
+const USAGE_LOG_STORAGE_KEY = 'poster-usage-log';
+const USAGE_BUDGETS_STORAGE_KEY = 'poster-usage-budgets';
+const RETENTION_DAYS = 90;
+const MAX_RECORDS = 5000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const USAGE_OPERATIONS: UsageOperation[] = ['title', 'posterDetails', 'refinement', 'images'];
+
+export const NO_BUDGETS: UsageBudgets = { dailyUsd: null, sessionUsd: null };
+
+const isUsageRecord = (value: unknown): value is UsageRecord => {
+  const record = value as Partial<UsageRecord> | null;
+  return typeof record?.id === 'string' &&
+    typeof record.timestamp === 'number' &&
+    (record.sessionId === null || typeof record.sessionId === 'string') &&
+    USAGE_OPERATIONS.includes(record.operation as UsageOperation) &&
+    typeof record.model === 'string' &&
+    typeof record.costUsd === 'number' &&
+    typeof record.latencyMs === 'number' &&
+    typeof record.outcome === 'string';
+};
+
+const readRecords = (): UsageRecord[] => {
+  try {
+    const raw = localStorage.getItem(USAGE_LOG_STORAGE_KEY);
+    if (!raw) return [];
+    const parsed: unknown = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed.filter(isUsageRecord) : [];
+  } catch (error) {
+    console.error('Usage: Failed to read the usage log:', error);
+    return [];
+  }
+};
+
+// The log is read once and then kept in memory. Every change replaces the array,
+// so it can be handed to useSyncExternalStore as a snapshot.
+let records: UsageRecord[] | null = null;
+const listeners = new Set<() => void>();
+
+const replaceRecords = (next: UsageRecord[]) => {
+  records = next;
+  try {
+    localStorage.setItem(USAGE_LOG_STORAGE_KEY, JSON.stringify(next));
+  } catch (error) {
+    // The in-memory log still covers this visit.
+    console.error('Usage: Failed to save the usage log:', error);
+  }
+  listeners.forEach(listener => listener());
+};
+
+export const getUsageRecords = (): UsageRecord[] => {
+  records ??= readRecords();
+  return records;
+};
+
+export const subscribeToUsage = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const recordUsage = (record: UsageRecord): void => {
+  const cutoff = record.timestamp - RETENTION_DAYS * DAY_MS;
+  replaceRecords([...getUsageRecords().filter(existing => existing.timestamp >= cutoff), record].slice(-MAX_RECORDS));
+};
+
+export const clearUsageRecords = (): void => {
+  replaceRecords([]);
+};
+
+const readBudget = (value: unknown): number | null =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : null;
+
+export const loadUsageBudgets = (): UsageBudgets => {
+  try {
+    const raw = localStorage.getItem(USAGE_BUDGETS_STORAGE_KEY);
+    if (!raw) return NO_BUDGETS;
+    const parsed = JSON.parse(raw);
+    return { dailyUsd: readBudget(parsed.dailyUsd), sessionUsd: readBudget(parsed.sessionUsd) };
+  } catch (error) {
+    console.error('Usage: Failed to read the saved budgets:', error);
+    return NO_BUDGETS;
+  }
+};
+
+export const saveUsageBudgets = (budgets: UsageBudgets): void => {
+  localStorage.setItem(USAGE_BUDGETS_STORAGE_KEY, JSON.stringify(budgets));
+};
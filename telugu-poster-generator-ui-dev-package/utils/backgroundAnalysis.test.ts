@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import { chooseCalmestPlacement, chooseTextColors, WCAG_AA_CONTRAST, type PixelBuffer } from './backgroundAnalysis';
+
+const SIZE = 64;
+
+// A grey-scale image from a function of the pixel position returning 0-255.
+const greyImage = (grey: (x: number, y: number) => number): PixelBuffer => {
+  const data = new Uint8ClampedArray(SIZE * SIZE * 4);
+  for (let y = 0; y < SIZE; y++) {
+    for (let x = 0; x < SIZE; x++) {
+      const offset = (y * SIZE + x) * 4;
+      data.fill(grey(x, y), offset, offset + 3);
+      data[offset + 3] = 255;
+    }
+  }
+  return { width: SIZE, height: SIZE, data };
+};
+
+const flat = (grey: number) => greyImage(() => grey);
+// Left half a fine black and white checkerboard, right half flat grey.
+const busyLeftFlatRight = greyImage((x, y) => (x < SIZE / 2 ? ((x + y) % 2 === 0 ? 0 : 255) : 128));
+
+const LEFT = { x: 0, y: 0, width: 0.5, height: 1 };
+const RIGHT = { x: 0.5, y: 0, width: 0.5, height: 1 };
+const WHOLE = { x: 0, y: 0, width: 1, height: 1 };
+
+describe('chooseCalmestPlacement', () => {
+  it('prefers the flat half over the busy half', () => {
+    const left = { id: 'left', rect: LEFT, fitRatio: 1 };
+    const right = { id: 'right', rect: RIGHT, fitRatio: 1 };
+    expect(chooseCalmestPlacement(busyLeftFlatRight, [left, right]).id).toBe('right');
+    expect(chooseCalmestPlacement(busyLeftFlatRight, [right, left]).id).toBe('right');
+  });
+
+  it('accepts a busier placement when the calm one would shrink the text a lot', () => {
+    const left = { id: 'left', rect: LEFT, fitRatio: 1 };
+    const right = { id: 'right', rect: RIGHT, fitRatio: 0.2 };
+    expect(chooseCalmestPlacement(busyLeftFlatRight, [right, left]).id).toBe('left');
+  });
+
+  it('keeps the first candidate on a tie', () => {
+    const top = { id: 'top', rect: { x: 0, y: 0, width: 1, height: 0.5 }, fitRatio: 1 };
+    const bottom = { id: 'bottom', rect: { x: 0, y: 0.5, width: 1, height: 0.5 }, fitRatio: 1 };
+    expect(chooseCalmestPlacement(flat(90), [top, bottom]).id).toBe('top');
+  });
+
+  it('throws without candidates', () => {
+    expect(() => chooseCalmestPlacement(flat(90), [])).toThrow();
+  });
+});
+
+describe('chooseTextColors', () => {
+  it('uses light text without an outline on a dark background', () => {
+    const choice = chooseTextColors(flat(20), WHOLE);
+    expect(choice.fill).toBe('#ffffff');
+    expect(choice.scrim).toBeNull();
+    expect(choice.stroke).toBeNull();
+    expect(choice.contrast).toBeGreaterThanOrEqual(WCAG_AA_CONTRAST);
+  });
+
+  it('uses dark text on a light background', () => {
+    const choice = chooseTextColors(flat(240), WHOLE);
+    expect(choice.fill).toBe('#000000');
+    expect(choice.scrim).toBeNull();
+    expect(choice.contrast).toBeGreaterThanOrEqual(WCAG_AA_CONTRAST);
+  });
+
+  it('adds an outline when the contrast only just passes', () => {
+    // Mid grey: black text passes 4.5:1, white text does not.
+    const choice = chooseTextColors(flat(119), WHOLE);
+    expect(choice.fill).toBe('#000000');
+    expect(choice.stroke).toBe('#ffffff');
+    expect(choice.scrim).toBeNull();
+    expect(choice.contrast).toBeGreaterThanOrEqual(WCAG_AA_CONTRAST);
+    expect(choice.contrast).toBeLessThan(7);
+  });
+
+  it('adds a scrim when neither colour reaches the threshold', () => {
+    const choice = chooseTextColors(flat(119), WHOLE, { minContrast: 7 });
+    expect(choice.scrim).not.toBeNull();
+    expect(choice.scrim!.opacity).toBeGreaterThan(0);
+    expect(choice.contrast).toBeGreaterThanOrEqual(7);
+  });
+
+  it('falls back to black and white when the brand colours are too close', () => {
+    const choice = chooseTextColors(flat(119), WHOLE, { palette: { light: '#888888', dark: '#777777' } });
+    expect(choice.fill).toBe('#000000');
+    expect(choice.contrast).toBeGreaterThanOrEqual(WCAG_AA_CONTRAST);
+  });
+
+  it('keeps a brand palette that is readable', () => {
+    const choice = chooseTextColors(flat(20), WHOLE, { palette: { light: '#fff3c4', dark: '#3b0764' } });
+    expect(choice.fill).toBe('#fff3c4');
+  });
+
+  it('only looks at the pixels under the text', () => {
+    const halves = greyImage(x => (x < SIZE / 2 ? 10 : 245));
+    expect(chooseTextColors(halves, LEFT).fill).toBe('#ffffff');
+    expect(chooseTextColors(halves, RIGHT).fill).toBe('#000000');
+  });
+});
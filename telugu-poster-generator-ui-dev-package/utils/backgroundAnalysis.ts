@@ -0,0 +1,205 @@
+import { contrastRatio, parseHexColor, relativeLuminance, type RGB } from './color';
+
+// Pixel analysis behind the 'auto' layout: finds calm parts of a background and picks text colours
+// that stay readable on them. Everything here is a pure function of the pixels, so it works on any
+// ImageData-shaped object and needs no DOM.
+
+export interface PixelBuffer {
+  width: number;
+  height: number;
+  data: ArrayLike<number>; // RGBA, 4 values per pixel, like ImageData.data
+}
+
+// Fractions of the image size (0-1), so results do not depend on the analysis resolution.
+export interface NormalizedRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface RegionStats {
+  meanLuma: number; // 0-1, perceptual brightness
+  lumaStdDev: number;
+  edgeDensity: number; // Share of sampled pixels on a strong brightness edge, 0-1
+  busyness: number; // 0 (flat) to 1 (very busy)
+}
+
+export interface PlacementCandidate {
+  rect: NormalizedRect;
+  // Font size the text ended up with in this placement divided by the size it asked for; 1 means it fit untouched.
+  fitRatio: number;
+}
+
+export interface TextColorPalette {
+  light: string;
+  dark: string;
+}
+
+export interface TextColorChoice {
+  fill: string;
+  stroke: string | null;
+  scrim: { color: string; opacity: number } | null;
+  // Contrast the text reaches against all but the worst few percent of pixels under it.
+  contrast: number;
+}
+
+export const WCAG_AA_CONTRAST = 4.5;
+
+const DEFAULT_PALETTE: TextColorPalette = { light: '#ffffff', dark: '#000000' };
+
+const MAX_SAMPLES = 4096;
+// Brightness step between neighbouring pixels that counts as an edge.
+const EDGE_THRESHOLD = 0.08;
+// Edge density and spread at which a region counts as fully busy.
+const BUSY_EDGE_DENSITY = 0.35;
+const BUSY_STD_DEV = 0.25;
+// How much a placement is penalised for having to shrink the text, relative to busyness.
+const FIT_WEIGHT = 1.5;
+// Text only covers part of its box, so a few very contrasting pixels are ignored.
+const CONTRAST_PERCENTILE = 0.05;
+// Above this contrast the outline adds nothing and is left off.
+const STROKE_BELOW_CONTRAST = 7;
+const SCRIM_OPACITY_STEP = 0.05;
+const MAX_SCRIM_OPACITY = 0.9;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const toPixelBounds = (image: PixelBuffer, rect: NormalizedRect) => {
+  const x0 = clamp(Math.floor(rect.x * image.width), 0, image.width);
+  const y0 = clamp(Math.floor(rect.y * image.height), 0, image.height);
+  const x1 = clamp(Math.ceil((rect.x + rect.width) * image.width), x0, image.width);
+  const y1 = clamp(Math.ceil((rect.y + rect.height) * image.height), y0, image.height);
+  // Sample on a regular grid so that large regions cost the same as small ones.
+  const step = Math.max(1, Math.floor(Math.sqrt(((x1 - x0) * (y1 - y0)) / MAX_SAMPLES)));
+  return { x0, y0, x1, y1, step };
+};
+
+const pixelAt = (image: PixelBuffer, x: number, y: number): RGB => {
+  const offset = (y * image.width + x) * 4;
+  return { r: image.data[offset], g: image.data[offset + 1], b: image.data[offset + 2] };
+};
+
+// Rec. 601 luma on the sRGB values; closer to perceived brightness than linear luminance.
+const lumaAt = (image: PixelBuffer, x: number, y: number): number => {
+  const { r, g, b } = pixelAt(image, x, y);
+  return (0.299 * r + 0.587 * g + 0.114 * b) / 255;
+};
+
+export const analyzeRegion = (image: PixelBuffer, rect: NormalizedRect): RegionStats => {
+  const { x0, y0, x1, y1, step } = toPixelBounds(image, rect);
+  let count = 0;
+  let sum = 0;
+  let sumOfSquares = 0;
+  let edges = 0;
+  for (let y = y0; y < y1; y += step) {
+    for (let x = x0; x < x1; x += step) {
+      const luma = lumaAt(image, x, y);
+      sum += luma;
+      sumOfSquares += luma * luma;
+      count++;
+      const right = x + 1 < image.width ? lumaAt(image, x + 1, y) : luma;
+      const below = y + 1 < image.height ? lumaAt(image, x, y + 1) : luma;
+      if (Math.abs(luma - right) + Math.abs(luma - below) > EDGE_THRESHOLD) edges++;
+    }
+  }
+  if (count === 0) return { meanLuma: 0, lumaStdDev: 0, edgeDensity: 0, busyness: 0 };
+
+  const meanLuma = sum / count;
+  const lumaStdDev = Math.sqrt(Math.max(0, sumOfSquares / count - meanLuma * meanLuma));
+  const edgeDensity = edges / count;
+  const busyness = 0.6 * Math.min(1, edgeDensity / BUSY_EDGE_DENSITY) + 0.4 * Math.min(1, lumaStdDev / BUSY_STD_DEV);
+  return { meanLuma, lumaStdDev, edgeDensity, busyness };
+};
+
+// Picks the placement with the calmest pixels under the text, trading off how much the text had to shrink.
+// Ties go to the earlier candidate, so callers list their preferred placements first.
+export const chooseCalmestPlacement = <T extends PlacementCandidate>(image: PixelBuffer, candidates: T[]): T => {
+  if (candidates.length === 0) {
+    throw new Error('chooseCalmestPlacement needs at least one candidate.');
+  }
+  let best = candidates[0];
+  let bestScore = Infinity;
+  for (const candidate of candidates) {
+    const score = analyzeRegion(image, candidate.rect).busyness + (1 - clamp(candidate.fitRatio, 0, 1)) * FIT_WEIGHT;
+    if (score < bestScore) {
+      best = candidate;
+      bestScore = score;
+    }
+  }
+  return best;
+};
+
+const sampleRegion = (image: PixelBuffer, rect: NormalizedRect): RGB[] => {
+  const { x0, y0, x1, y1, step } = toPixelBounds(image, rect);
+  const samples: RGB[] = [];
+  for (let y = y0; y < y1; y += step) {
+    for (let x = x0; x < x1; x += step) samples.push(pixelAt(image, x, y));
+  }
+  return samples;
+};
+
+// Canvas composites in sRGB, so the scrim is blended the same way before measuring.
+const blend = (pixel: RGB, overlay: RGB, opacity: number): RGB => ({
+  r: pixel.r + (overlay.r - pixel.r) * opacity,
+  g: pixel.g + (overlay.g - pixel.g) * opacity,
+  b: pixel.b + (overlay.b - pixel.b) * opacity,
+});
+
+const percentileContrast = (samples: RGB[], fill: string, scrim: { color: string; opacity: number } | null): number => {
+  const fillLuminance = relativeLuminance(parseHexColor(fill));
+  const scrimRgb = scrim ? parseHexColor(scrim.color) : null;
+  const ratios = samples
+    .map(pixel => contrastRatio(fillLuminance, relativeLuminance(scrimRgb && scrim ? blend(pixel, scrimRgb, scrim.opacity) : pixel)))
+    .sort((a, b) => a - b);
+  return ratios[Math.floor((ratios.length - 1) * CONTRAST_PERCENTILE)];
+};
+
+const choosePaletteColors = (samples: RGB[], palette: TextColorPalette, minContrast: number): TextColorChoice | null => {
+  const options = [
+    { fill: palette.light, other: palette.dark },
+    { fill: palette.dark, other: palette.light },
+  ].map(option => ({ ...option, contrast: percentileContrast(samples, option.fill, null) }))
+    .sort((a, b) => b.contrast - a.contrast);
+
+  const [best] = options;
+  if (best.contrast >= minContrast) {
+    return { fill: best.fill, stroke: best.contrast < STROKE_BELOW_CONTRAST ? best.other : null, scrim: null, contrast: best.contrast };
+  }
+
+  // Not readable on the bare pixels: use the lightest scrim in the opposite colour that gets there.
+  let bestWithScrim: TextColorChoice | null = null;
+  for (const option of options) {
+    for (let opacity = SCRIM_OPACITY_STEP; opacity <= MAX_SCRIM_OPACITY + 1e-9; opacity += SCRIM_OPACITY_STEP) {
+      const scrim = { color: option.other, opacity: Math.round(opacity * 100) / 100 };
+      const contrast = percentileContrast(samples, option.fill, scrim);
+      if (contrast >= minContrast) {
+        if (!bestWithScrim || scrim.opacity < (bestWithScrim.scrim?.opacity ?? Infinity)) {
+          bestWithScrim = { fill: option.fill, stroke: null, scrim, contrast };
+        }
+        break;
+      }
+    }
+  }
+  return bestWithScrim;
+};
+
+// Chooses fill, outline and, if needed, a scrim so the text meets `minContrast` against the pixels under `rect`.
+// A brand palette is tried first; if its colours are too close to each other to get there, black and white are used.
+export const chooseTextColors = (
+  image: PixelBuffer,
+  rect: NormalizedRect,
+  { minContrast = WCAG_AA_CONTRAST, palette = DEFAULT_PALETTE }: { minContrast?: number; palette?: TextColorPalette } = {}
+): TextColorChoice => {
+  const samples = sampleRegion(image, rect);
+  if (samples.length === 0) {
+    return { fill: palette.light, stroke: palette.dark, scrim: null, contrast: 1 };
+  }
+  const choice = choosePaletteColors(samples, palette, minContrast)
+    ?? (palette !== DEFAULT_PALETTE ? choosePaletteColors(samples, DEFAULT_PALETTE, minContrast) : null);
+  if (choice) return choice;
+
+  // Even a near-opaque scrim was not enough (only possible with an unreachable minContrast).
+  const scrim = { color: DEFAULT_PALETTE.dark, opacity: MAX_SCRIM_OPACITY };
+  return { fill: DEFAULT_PALETTE.light, stroke: null, scrim, contrast: percentileContrast(samples, DEFAULT_PALETTE.light, scrim) };
+};
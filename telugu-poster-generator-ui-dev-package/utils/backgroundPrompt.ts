@@ -0,0 +1,15 @@
+import { describeOrientation, type PosterFormat } from './posterFormats';
+
+// Image prompt for a text-free poster background. Text is drawn by the overlay renderer afterwards,
+// so the prompt insists on no lettering and leaves room for it.
+export const buildBackgroundPrompt = (theme: string, format: PosterFormat, colorPalette?: string): string =>
+  `IMPORTANT: Generate a background image ONLY. This image MUST be 100% free of any text, letters, words, numbers, symbols, glyphs, characters, lettering, typography, or writing.
+The image is for a visual backdrop.
+Visual theme inspiration: "${theme}".${colorPalette ? `\nColour palette: ${colorPalette}.` : ''}
+The theme description above is for VISUAL INSPIRATION ONLY. Do NOT render any words from the theme description as text on the image. For example, if the theme is "Mystical Forest", show a mystical forest, DO NOT write "Mystical Forest".
+Image style: High-quality, visually rich, suitable for poster background.
+Composition: Provide ample clear space or negative space suitable for text overlay. The background should complement, not compete with, text that will be added later.
+Aspect ratio: ${format.aspectLabel === 'A4' ? '1:1.41 (A4 page)' : format.aspectLabel}, ${describeOrientation(format)} orientation for a ${format.label} poster. Arrange the composition for this frame.
+The final image MUST be PURELY PICTORIAL, containing absolutely NO TEXTUAL ELEMENTS of any kind.
+Focus on: colors, patterns, textures, scenery, abstract visuals. NO TEXT.
+Confirm: NO TEXT.`;
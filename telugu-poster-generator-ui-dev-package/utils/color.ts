@@ -0,0 +1,57 @@
+// Small colour helpers for the renderer. Colours are '#rrggbb' strings unless noted otherwise.
+
+export interface RGB {
+  r: number;
+  g: number;
+  b: number;
+}
+
+export const parseHexColor = (hexColor: string): RGB => {
+  let hex = hexColor.trim().replace('#', '');
+  if (hex.length === 3) hex = hex.split('').map(char => char + char).join('');
+  return {
+    r: parseInt(hex.substring(0, 2), 16) || 0,
+    g: parseInt(hex.substring(2, 4), 16) || 0,
+    b: parseInt(hex.substring(4, 6), 16) || 0,
+  };
+};
+
+export const toHexColor = ({ r, g, b }: RGB): string =>
+  '#' + [r, g, b].map(channel => Math.round(Math.min(255, Math.max(0, channel))).toString(16).padStart(2, '0')).join('');
+
+export const withAlpha = (hexColor: string, alpha: number): string => {
+  const { r, g, b } = parseHexColor(hexColor);
+  return `rgba(${r}, ${g}, ${b}, ${alpha})`;
+};
+
+// Moves `base` towards `tint` by `amount` (0 = base, 1 = tint).
+export const mixColors = (base: string, tint: string, amount: number): string => {
+  const from = parseHexColor(base);
+  const to = parseHexColor(tint);
+  return toHexColor({
+    r: from.r + (to.r - from.r) * amount,
+    g: from.g + (to.g - from.g) * amount,
+    b: from.b + (to.b - from.b) * amount,
+  });
+};
+
+// WCAG 2.x relative luminance, 0 (black) to 1 (white).
+export const relativeLuminance = ({ r, g, b }: RGB): number => {
+  const linear = (channel: number) => {
+    const value = channel / 255;
+    return value <= 0.03928 ? value / 12.92 : Math.pow((value + 0.055) / 1.055, 2.4);
+  };
+  return 0.2126 * linear(r) + 0.7152 * linear(g) + 0.0722 * linear(b);
+};
+
+export const contrastRatio = (luminanceA: number, luminanceB: number): number => {
+  const lighter = Math.max(luminanceA, luminanceB);
+  const darker = Math.min(luminanceA, luminanceB);
+  return (lighter + 0.05) / (darker + 0.05);
+};
+
+// Black or white, whichever reads better on the given background colour.
+export const readableTextColor = (backgroundHex: string): string => {
+  const luminance = relativeLuminance(parseHexColor(backgroundHex));
+  return contrastRatio(luminance, 1) >= contrastRatio(luminance, 0) ? '#ffffff' : '#000000';
+};
@@ -0,0 +1,72 @@
+// Parses a CSV file or a table pasted from a spreadsheet into rows keyed by the header row.
+// Quoting follows RFC 4180: fields may be wrapped in double quotes, with "" for a literal quote,
+// and quoted fields may contain delimiters and line breaks.
+
+export interface ParsedTable {
+  headers: string[];
+  rows: Record<string, string>[];
+}
+
+// Spreadsheets copy cells as tab-separated text, and European Excel saves CSV with semicolons.
+const detectDelimiter = (firstLine: string): string => {
+  if (firstLine.includes('\t')) return '\t';
+  const semicolons = firstLine.split(';').length;
+  const commas = firstLine.split(',').length;
+  return semicolons > commas ? ';' : ',';
+};
+
+const parseRecords = (text: string, delimiter: string): string[][] => {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+  return records;
+};
+
+// Header names are trimmed; blank lines are skipped and missing trailing cells read as empty.
+export const parseTable = (text: string): ParsedTable => {
+  const withoutBom = text.replace(/^\uFEFF/, '');
+  const firstLine = withoutBom.split(/\r?\n/, 1)[0] ?? '';
+  const records = parseRecords(withoutBom, detectDelimiter(firstLine))
+    .filter(record => record.some(cell => cell.trim() !== ''));
+  if (records.length === 0) {
+    return { headers: [], rows: [] };
+  }
+
+  const headers = records[0].map((header, index) => header.trim() || `column${index + 1}`);
+  const rows = records.slice(1).map(record =>
+    Object.fromEntries(headers.map((header, index) => [header, (record[index] ?? '').trim()]))
+  );
+  return { headers, rows };
+};
@@ -0,0 +1,59 @@
+// Fonts available for poster text. The font files are bundled from @fontsource packages
+// (imported in fonts.ts), so posters render the same offline and on every machine.
+
+export type FontScript = 'telugu' | 'kannada' | 'tamil' | 'latin';
+
+export interface PosterFont {
+  id: string;
+  family: string; // CSS family name as declared by the @fontsource stylesheet
+  script: FontScript;
+  weight: number;
+  fallback: string;
+}
+
+export type FontPairingId = 'classic' | 'festive' | 'elegant' | 'bold' | 'friendly' | 'playful' | 'literary';
+
+export interface FontPairing {
+  id: FontPairingId;
+  label: string;
+  // Scripts missing here use their language's own font (see utils/languages.ts).
+  fontIds: Partial<Record<FontScript, string>>;
+}
+
+export const POSTER_FONTS: PosterFont[] = [
+  { id: 'noto-sans-telugu', family: 'Noto Sans Telugu', script: 'telugu', weight: 700, fallback: 'sans-serif' },
+  { id: 'ramabhadra', family: 'Ramabhadra', script: 'telugu', weight: 400, fallback: 'sans-serif' },
+  { id: 'mandali', family: 'Mandali', script: 'telugu', weight: 400, fallback: 'sans-serif' },
+  { id: 'ntr', family: 'NTR', script: 'telugu', weight: 400, fallback: 'sans-serif' },
+  { id: 'suranna', family: 'Suranna', script: 'telugu', weight: 400, fallback: 'serif' },
+  { id: 'timmana', family: 'Timmana', script: 'telugu', weight: 400, fallback: 'sans-serif' },
+  { id: 'gurajada', family: 'Gurajada', script: 'telugu', weight: 400, fallback: 'serif' },
+  { id: 'noto-sans-kannada', family: 'Noto Sans Kannada', script: 'kannada', weight: 700, fallback: 'sans-serif' },
+  { id: 'noto-sans-tamil', family: 'Noto Sans Tamil', script: 'tamil', weight: 700, fallback: 'sans-serif' },
+  { id: 'inter', family: 'Inter', script: 'latin', weight: 700, fallback: 'Arial, sans-serif' },
+  { id: 'poppins', family: 'Poppins', script: 'latin', weight: 700, fallback: 'Arial, sans-serif' },
+  { id: 'playfair-display', family: 'Playfair Display', script: 'latin', weight: 700, fallback: 'Georgia, serif' },
+  { id: 'merriweather', family: 'Merriweather', script: 'latin', weight: 700, fallback: 'Georgia, serif' },
+  { id: 'oswald', family: 'Oswald', script: 'latin', weight: 600, fallback: 'Impact, sans-serif' },
+];
+
+export const FONT_PAIRINGS: FontPairing[] = [
+  { id: 'classic', label: 'Classic', fontIds: { telugu: 'noto-sans-telugu', latin: 'inter' } },
+  { id: 'festive', label: 'Festive', fontIds: { telugu: 'ramabhadra', latin: 'poppins' } },
+  { id: 'elegant', label: 'Elegant', fontIds: { telugu: 'suranna', latin: 'playfair-display' } },
+  { id: 'bold', label: 'Bold', fontIds: { telugu: 'ntr', latin: 'oswald' } },
+  { id: 'friendly', label: 'Friendly', fontIds: { telugu: 'mandali', latin: 'poppins' } },
+  { id: 'playful', label: 'Playful', fontIds: { telugu: 'timmana', latin: 'poppins' } },
+  { id: 'literary', label: 'Literary', fontIds: { telugu: 'gurajada', latin: 'merriweather' } },
+];
+
+export const DEFAULT_FONT_PAIRING_ID: FontPairingId = 'classic';
+
+export const getPosterFont = (fontId: string): PosterFont =>
+  POSTER_FONTS.find(font => font.id === fontId) ?? POSTER_FONTS[0];
+
+export const getFontPairing = (pairingId: FontPairingId): FontPairing =>
+  FONT_PAIRINGS.find(pairing => pairing.id === pairingId) ?? FONT_PAIRINGS[0];
+
+// Value for the family part of a CSS/canvas font shorthand.
+export const fontFamilyStack = (font: PosterFont): string => `'${font.family}', ${font.fallback}`;
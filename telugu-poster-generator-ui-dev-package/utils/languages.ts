@@ -0,0 +1,108 @@
+import { fontFamilyStack, getPosterFont, type FontPairing, type FontScript, type PosterFont } from './fontRegistry';
+
+// Languages a poster can be written in. Adding one here (plus its font in fontRegistry.ts and fonts.ts)
+// makes it available in the language picker, the prompts, the renderer and speech input.
+
+export type LanguageId = 'en' | 'te' | 'kn' | 'ta';
+
+export interface PosterLanguage {
+  id: LanguageId;
+  name: string; // In English, as the prompts and labels use it
+  nativeName: string; // In the language's own script, for the language picker
+  script: FontScript;
+  // Characters of the script, used to tell which language a line is in; null for Latin, which is the fallback.
+  scriptPattern: RegExp | null;
+  fontId: string; // Used by font pairings that have no face of their own for this script
+  speechLocale: string; // BCP 47 tag for the browser's speech recognition
+  phoneticTyping: boolean; // Whether text boxes can turn English letters into this script (see utils/transliteration.ts)
+  // Headline size relative to English; these scripts look smaller than Latin at the same font size.
+  headlineScale: number;
+  // Added to the content prompt, on top of the general instructions for every headline.
+  promptGuidance: string;
+  exampleGreeting: string; // "Happy Sankranti to all!" in the language, used in the prompt examples
+}
+
+export const POSTER_LANGUAGES: PosterLanguage[] = [
+  {
+    id: 'en',
+    name: 'English',
+    nativeName: 'English',
+    script: 'latin',
+    scriptPattern: null,
+    fontId: 'inter',
+    speechLocale: 'en-IN',
+    phoneticTyping: false,
+    headlineScale: 1,
+    promptGuidance: 'Write it in English.',
+    exampleGreeting: 'Happy Sankranti to All!',
+  },
+  {
+    id: 'te',
+    name: 'Telugu',
+    nativeName: 'తెలుగు',
+    script: 'telugu',
+    scriptPattern: /[\u0C00-\u0C7F]/,
+    fontId: 'noto-sans-telugu',
+    speechLocale: 'te-IN',
+    phoneticTyping: true,
+    headlineScale: 18 / 16,
+    promptGuidance: 'Write it in Telugu script. It should read as natural, culturally fitting Telugu in its own right, not a literal translation of another headline.',
+    exampleGreeting: 'అందరికీ సంక్రాంతి శుభాకాంక్షలు!',
+  },
+  {
+    id: 'kn',
+    name: 'Kannada',
+    nativeName: 'ಕನ್ನಡ',
+    script: 'kannada',
+    scriptPattern: /[\u0C80-\u0CFF]/,
+    fontId: 'noto-sans-kannada',
+    speechLocale: 'kn-IN',
+    phoneticTyping: false,
+    headlineScale: 18 / 16,
+    promptGuidance: 'Write it in Kannada script. It should read as natural, culturally fitting Kannada in its own right, not a literal translation of another headline.',
+    exampleGreeting: 'ಎಲ್ಲರಿಗೂ ಸಂಕ್ರಾಂತಿ ಹಬ್ಬದ ಶುಭಾಶಯಗಳು!',
+  },
+  {
+    id: 'ta',
+    name: 'Tamil',
+    nativeName: 'தமிழ்',
+    script: 'tamil',
+    scriptPattern: /[\u0B80-\u0BFF]/,
+    fontId: 'noto-sans-tamil',
+    speechLocale: 'ta-IN',
+    phoneticTyping: false,
+    // Tamil words run long, so the headline stays at the English size to keep lines from breaking too often.
+    headlineScale: 1,
+    promptGuidance: 'Write it in Tamil script. It should read as natural, culturally fitting Tamil in its own right, not a literal translation of another headline. Sankranti is Pongal in Tamil Nadu; use the local names of festivals.',
+    exampleGreeting: 'அனைவருக்கும் இனிய பொங்கல் நல்வாழ்த்துகள்!',
+  },
+];
+
+// What posters were before languages could be chosen freely.
+export const DEFAULT_POSTER_LANGUAGES: LanguageId[] = ['en', 'te'];
+// Voice input used to be Telugu only; Telugu speech recognition also copes with English words.
+export const DEFAULT_SPEECH_LANGUAGE: LanguageId = 'te';
+
+export const LANGUAGE_IDS = POSTER_LANGUAGES.map(language => language.id);
+
+export const isLanguageId = (value: unknown): value is LanguageId => LANGUAGE_IDS.includes(value as LanguageId);
+
+export const getPosterLanguage = (languageId: LanguageId): PosterLanguage =>
+  POSTER_LANGUAGES.find(language => language.id === languageId) ?? POSTER_LANGUAGES[0];
+
+// The language whose script the text is written in; Latin text counts as English.
+export const languageOfText = (text: string): PosterLanguage =>
+  POSTER_LANGUAGES.find(language => language.scriptPattern?.test(text)) ?? getPosterLanguage('en');
+
+// The pairing's face for the language's script, or the language's own font when the pairing has none.
+export const posterFontFor = (pairing: FontPairing, language: PosterLanguage): PosterFont =>
+  getPosterFont(pairing.fontIds[language.script] ?? language.fontId);
+
+// For showing text in the language in the app itself, e.g. in text boxes and the language picker.
+export const languageFontStack = (language: PosterLanguage): string => fontFamilyStack(getPosterFont(language.fontId));
+
+// e.g. "English, Telugu and Tamil".
+export const describeLanguages = (languageIds: LanguageId[]): string => {
+  const names = languageIds.map(id => getPosterLanguage(id).name);
+  return names.length > 1 ? `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}` : names[0] ?? '';
+};
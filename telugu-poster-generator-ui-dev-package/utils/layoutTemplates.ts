@@ -0,0 +1,127 @@
+// Named text placements for the overlay renderer.
+// Region coordinates are fractions of the format's safe area (the canvas minus its safe insets).
+
+export type LayoutTemplateId = 'centered' | 'topHeadline' | 'lowerThird' | 'leftColumn' | 'framed' | 'auto';
+
+export type TextAlign = 'left' | 'center' | 'right';
+export type VerticalAlign = 'top' | 'middle' | 'bottom';
+
+export interface TextRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  align: TextAlign;
+  verticalAlign: VerticalAlign;
+}
+
+export type LayoutBackdrop =
+  | { type: 'none' }
+  // Full-width strip behind the text, sized to the text rather than to the region.
+  | { type: 'band'; color: string; opacity: number }
+  // Gradient from the left edge that fades out behind the right side of the text.
+  | { type: 'sideFade'; color: string; opacity: number }
+  // Double border around the poster plus a soft card behind the text.
+  | { type: 'frame'; color: string; cardOpacity: number };
+
+export interface LayoutTextStyle {
+  fill: string;
+  stroke: string | null;
+  shadow: boolean;
+}
+
+export interface LayoutTemplate {
+  id: LayoutTemplateId;
+  label: string;
+  description: string;
+  // The first text block goes into the headline region. Later blocks go into the subtitle region,
+  // or are stacked under the headline when the template has no separate subtitle region.
+  headlineRegion: TextRegion;
+  subtitleRegion: TextRegion | null;
+  // Font size multiplier for subtitle blocks relative to their normal size.
+  subtitleScale: number;
+  backdrop: LayoutBackdrop;
+  textStyle: LayoutTextStyle;
+  // When set, the renderer stacks all text in whichever of these regions is calmest on the background
+  // and picks the text colours from the pixels underneath; headlineRegion and textStyle are only fallbacks.
+  candidateRegions?: TextRegion[];
+}
+
+export const LAYOUT_TEMPLATES: LayoutTemplate[] = [
+  {
+    id: 'centered',
+    label: 'Centred',
+    description: 'Both lines stacked in the middle of the poster',
+    headlineRegion: { x: 0, y: 0, width: 1, height: 1, align: 'center', verticalAlign: 'middle' },
+    subtitleRegion: null,
+    subtitleScale: 1,
+    backdrop: { type: 'none' },
+    textStyle: { fill: '#ffffff', stroke: '#000000', shadow: true },
+  },
+  {
+    id: 'topHeadline',
+    label: 'Top headline',
+    description: 'Headline across the top, subtitle along the bottom',
+    headlineRegion: { x: 0, y: 0, width: 1, height: 0.34, align: 'center', verticalAlign: 'top' },
+    subtitleRegion: { x: 0, y: 0.72, width: 1, height: 0.28, align: 'center', verticalAlign: 'bottom' },
+    subtitleScale: 0.8,
+    backdrop: { type: 'none' },
+    textStyle: { fill: '#ffffff', stroke: '#000000', shadow: true },
+  },
+  {
+    id: 'lowerThird',
+    label: 'Lower third',
+    description: 'Text on a translucent band in the lower part of the poster',
+    headlineRegion: { x: 0.02, y: 0.6, width: 0.96, height: 0.4, align: 'left', verticalAlign: 'bottom' },
+    subtitleRegion: null,
+    subtitleScale: 0.85,
+    backdrop: { type: 'band', color: '#000000', opacity: 0.55 },
+    textStyle: { fill: '#ffffff', stroke: null, shadow: false },
+  },
+  {
+    id: 'leftColumn',
+    label: 'Left column',
+    description: 'Left-aligned text over a shaded left side, leaving the right side for the picture',
+    headlineRegion: { x: 0, y: 0, width: 0.5, height: 1, align: 'left', verticalAlign: 'middle' },
+    subtitleRegion: null,
+    subtitleScale: 0.85,
+    backdrop: { type: 'sideFade', color: '#000000', opacity: 0.65 },
+    textStyle: { fill: '#ffffff', stroke: null, shadow: true },
+  },
+  {
+    id: 'framed',
+    label: 'Framed',
+    description: 'Decorative border with the text on a soft card inside it',
+    headlineRegion: { x: 0.08, y: 0.08, width: 0.84, height: 0.84, align: 'center', verticalAlign: 'middle' },
+    subtitleRegion: null,
+    subtitleScale: 0.9,
+    backdrop: { type: 'frame', color: '#FDE68A', cardOpacity: 0.45 },
+    textStyle: { fill: '#ffffff', stroke: '#000000', shadow: true },
+  },
+  {
+    id: 'auto',
+    label: 'Smart',
+    description: 'Text placed on the calmest part of the background, in colours that stay readable there',
+    headlineRegion: { x: 0, y: 0, width: 1, height: 1, align: 'center', verticalAlign: 'middle' },
+    subtitleRegion: null,
+    subtitleScale: 0.85,
+    backdrop: { type: 'none' },
+    textStyle: { fill: '#ffffff', stroke: '#000000', shadow: true },
+    candidateRegions: [
+      { x: 0, y: 0, width: 1, height: 0.4, align: 'center', verticalAlign: 'top' },
+      { x: 0, y: 0.6, width: 1, height: 0.4, align: 'center', verticalAlign: 'bottom' },
+      { x: 0, y: 0.3, width: 1, height: 0.4, align: 'center', verticalAlign: 'middle' },
+      { x: 0, y: 0, width: 0.55, height: 1, align: 'left', verticalAlign: 'middle' },
+      { x: 0.45, y: 0, width: 0.55, height: 1, align: 'right', verticalAlign: 'middle' },
+      { x: 0, y: 0, width: 0.6, height: 0.5, align: 'left', verticalAlign: 'top' },
+      { x: 0.4, y: 0.5, width: 0.6, height: 0.5, align: 'right', verticalAlign: 'bottom' },
+    ],
+  },
+];
+
+export const DEFAULT_LAYOUT_TEMPLATE_ID: LayoutTemplateId = 'centered';
+// New posters start with smart placement; DEFAULT_LAYOUT_TEMPLATE_ID stays what older posters were drawn with.
+export const NEW_POSTER_LAYOUT_TEMPLATE_ID: LayoutTemplateId = 'auto';
+
+export const getLayoutTemplate = (layoutId: LayoutTemplateId): LayoutTemplate =>
+  LAYOUT_TEMPLATES.find(template => template.id === layoutId) ?? LAYOUT_TEMPLATES[0];
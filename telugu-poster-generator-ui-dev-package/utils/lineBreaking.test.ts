@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { breakLines, splitIntoAksharas, type MeasureText } from './lineBreaking';
+
+// One unit per code point, so widths are predictable without a canvas.
+const measureByCodePoints: MeasureText = text => Array.from(text).length;
+
+const VIRAMA = '\u0C4D';
+const ZWJ = '\u200D';
+const ZWNJ = '\u200C';
+
+describe('splitIntoAksharas', () => {
+  it('keeps conjuncts and their vowel signs together', () => {
+    expect(splitIntoAksharas('సంక్రాంతి')).toEqual(['సం', 'క్రాం', 'తి']);
+    expect(splitIntoAksharas('శుభాకాంక్షలు')).toEqual(['శు', 'భా', 'కాం', 'క్ష', 'లు']);
+    expect(splitIntoAksharas('శ్రీ')).toEqual(['శ్రీ']);
+  });
+
+  it('keeps ZWJ and ZWNJ attached to the letters on both sides', () => {
+    expect(splitIntoAksharas(`క${VIRAMA}${ZWJ}ష`)).toEqual([`క${VIRAMA}${ZWJ}ష`]);
+    expect(splitIntoAksharas(`క${VIRAMA}${ZWNJ}ష`)).toEqual([`క${VIRAMA}${ZWNJ}ష`]);
+  });
+
+  it('splits Latin text into letters', () => {
+    expect(splitIntoAksharas('Diwali', 'en')).toEqual(['D', 'i', 'w', 'a', 'l', 'i']);
+  });
+});
+
+describe('breakLines', () => {
+  it('keeps a greeting that fits on one line', () => {
+    expect(breakLines('దీపావళి శుభాకాంక్షలు', 40, measureByCodePoints)).toEqual(['దీపావళి శుభాకాంక్షలు']);
+  });
+
+  it('breaks a multi-word greeting at spaces', () => {
+    const greeting = 'మీకు మరియు మీ కుటుంబ సభ్యులకు సంక్రాంతి శుభాకాంక్షలు';
+    const lines = breakLines(greeting, 20, measureByCodePoints);
+    expect(lines.length).toBeGreaterThan(1);
+    expect(lines.join(' ')).toBe(greeting);
+    for (const line of lines) expect(measureByCodePoints(line)).toBeLessThanOrEqual(20);
+  });
+
+  it('balances line lengths instead of leaving a short last line', () => {
+    const greeting = 'అందరికీ ఉగాది పండుగ శుభాకాంక్షలు';
+    const greedy = breakLines(greeting, 26, measureByCodePoints, { balance: false });
+    const balanced = breakLines(greeting, 26, measureByCodePoints);
+    expect(greedy).toEqual(['అందరికీ ఉగాది పండుగ', 'శుభాకాంక్షలు']);
+    expect(balanced).toHaveLength(greedy.length);
+    const spread = (lines: string[]) => {
+      const widths = lines.map(measureByCodePoints);
+      return Math.max(...widths) - Math.min(...widths);
+    };
+    expect(spread(balanced)).toBeLessThan(spread(greedy));
+    expect(balanced.join(' ')).toBe(greeting);
+  });
+
+  it('splits an overlong word between aksharas, never inside a conjunct', () => {
+    const lines = breakLines('శుభాకాంక్షలు', 5, measureByCodePoints);
+    expect(lines.join('')).toBe('శుభాకాంక్షలు');
+    expect(lines.length).toBeGreaterThan(1);
+    for (const line of lines) {
+      expect(line.endsWith(VIRAMA)).toBe(false);
+      expect(splitIntoAksharas(line).join('')).toBe(line);
+    }
+    expect(lines.some(line => line.includes('క్ష'))).toBe(true);
+  });
+
+  it('starts a new line at every explicit newline', () => {
+    expect(breakLines('హ్యాపీ దసరా\nవిజయదశమి శుభాకాంక్షలు', 100, measureByCodePoints)).toEqual(['హ్యాపీ దసరా', 'విజయదశమి శుభాకాంక్షలు']);
+  });
+});
@@ -0,0 +1,201 @@
+// Line breaking for poster text.
+// Breaks at spaces where possible, then at word boundaries inside long runs, and as a last resort
+// between aksharams (syllable clusters), so a consonant + virama + consonant + vowel sign group is never split.
+
+export type MeasureText = (text: string) => number;
+
+export interface BreakLinesOptions {
+  locale?: string;
+  // Even out line lengths instead of filling each line greedily. Defaults to true.
+  balance?: boolean;
+}
+
+interface SegmentData {
+  segment: string;
+  index: number;
+  isWordLike?: boolean;
+}
+
+interface Segmenter {
+  segment: (input: string) => Iterable<SegmentData>;
+}
+
+type SegmenterConstructor = new (locale?: string, options?: { granularity: 'grapheme' | 'word' | 'sentence' }) => Segmenter;
+
+// Not in the ES2020 lib typings yet, and missing from some older browsers.
+const SegmenterImpl = (Intl as unknown as { Segmenter?: SegmenterConstructor }).Segmenter;
+
+const ZWJ = '\u200D';
+const ZWNJ = '\u200C';
+// Viramas of Devanagari, Tamil, Telugu, Kannada and Malayalam.
+const VIRAMA_REGEX = /[\u094D\u0BCD\u0C4D\u0CCD\u0D4D]$/;
+const COMBINING_MARK_REGEX = /^\p{M}/u;
+
+const segmenterCache = new Map<string, Segmenter>();
+
+const getSegmenter = (locale: string, granularity: 'grapheme' | 'word'): Segmenter | null => {
+  if (!SegmenterImpl) return null;
+  const cacheKey = `${locale}:${granularity}`;
+  let segmenter = segmenterCache.get(cacheKey);
+  if (!segmenter) {
+    segmenter = new SegmenterImpl(locale, { granularity });
+    segmenterCache.set(cacheKey, segmenter);
+  }
+  return segmenter;
+};
+
+const segmentGraphemes = (text: string, locale: string): string[] => {
+  const segmenter = getSegmenter(locale, 'grapheme');
+  if (!segmenter) return Array.from(text);
+  return Array.from(segmenter.segment(text), data => data.segment);
+};
+
+// Groups grapheme clusters into aksharams. Older grapheme segmenters split conjuncts after the virama,
+// and ZWJ/ZWNJ must stay attached to the letters on both sides, so those joins are made here.
+export const splitIntoAksharas = (text: string, locale = 'te'): string[] => {
+  const aksharas: string[] = [];
+  for (const grapheme of segmentGraphemes(text, locale)) {
+    const previous = aksharas[aksharas.length - 1];
+    const joinsPrevious = previous !== undefined && (
+      VIRAMA_REGEX.test(previous) ||
+      previous.endsWith(ZWJ) ||
+      previous.endsWith(ZWNJ) ||
+      grapheme.startsWith(ZWJ) ||
+      grapheme.startsWith(ZWNJ) ||
+      COMBINING_MARK_REGEX.test(grapheme)
+    );
+    if (joinsPrevious) {
+      aksharas[aksharas.length - 1] = previous + grapheme;
+    } else {
+      aksharas.push(grapheme);
+    }
+  }
+  return aksharas;
+};
+
+// Word-level pieces of a run without spaces. Punctuation stays attached to the word before it.
+const splitIntoWordPieces = (run: string, locale: string): string[] => {
+  const segmenter = getSegmenter(locale, 'word');
+  if (!segmenter) return [run];
+  const pieces: string[] = [];
+  for (const data of segmenter.segment(run)) {
+    if (data.isWordLike || pieces.length === 0) {
+      pieces.push(data.segment);
+    } else {
+      pieces[pieces.length - 1] += data.segment;
+    }
+  }
+  return pieces;
+};
+
+interface BreakUnit {
+  text: string;
+  // False when the unit continues the previous word, i.e. no space goes between them.
+  spaceBefore: boolean;
+}
+
+const packGreedily = (parts: string[], maxWidth: number, measure: MeasureText): string[] => {
+  const packed: string[] = [];
+  let current = '';
+  for (const part of parts) {
+    if (current && measure(current + part) > maxWidth) {
+      packed.push(current);
+      current = part;
+    } else {
+      current += part;
+    }
+  }
+  if (current) packed.push(current);
+  return packed;
+};
+
+// Splits a word that is wider than the line, preferring word boundaries over aksharam boundaries.
+const splitOverlongWord = (word: string, maxWidth: number, measure: MeasureText, locale: string): string[] => {
+  const pieces: string[] = [];
+  for (const piece of packGreedily(splitIntoWordPieces(word, locale), maxWidth, measure)) {
+    if (measure(piece) <= maxWidth) {
+      pieces.push(piece);
+    } else {
+      pieces.push(...packGreedily(splitIntoAksharas(piece, locale), maxWidth, measure));
+    }
+  }
+  return pieces;
+};
+
+const buildUnits = (paragraph: string, maxWidth: number, measure: MeasureText, locale: string): BreakUnit[] => {
+  const units: BreakUnit[] = [];
+  for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+    const pieces = measure(word) > maxWidth ? splitOverlongWord(word, maxWidth, measure, locale) : [word];
+    pieces.forEach((piece, index) => units.push({ text: piece, spaceBefore: index === 0 }));
+  }
+  return units;
+};
+
+const layoutUnits = (units: BreakUnit[], maxWidth: number, measure: MeasureText): string[] => {
+  const lines: string[] = [];
+  let current = '';
+  for (const unit of units) {
+    if (!current) {
+      current = unit.text;
+      continue;
+    }
+    const candidate = current + (unit.spaceBefore ? ' ' : '') + unit.text;
+    if (measure(candidate) > maxWidth) {
+      lines.push(current);
+      current = unit.text;
+    } else {
+      current = candidate;
+    }
+  }
+  if (current) lines.push(current);
+  return lines;
+};
+
+// Finds the narrowest width that still needs no more lines than the greedy layout, so lines come out even.
+const layoutBalanced = (units: BreakUnit[], maxWidth: number, measure: MeasureText): string[] => {
+  const greedyLines = layoutUnits(units, maxWidth, measure);
+  if (greedyLines.length < 2) return greedyLines;
+
+  let low = Math.max(...units.map(unit => measure(unit.text)));
+  let high = maxWidth;
+  let best = greedyLines;
+  for (let i = 0; i < 16 && high - low > 1; i++) {
+    const mid = (low + high) / 2;
+    const candidate = layoutUnits(units, mid, measure);
+    if (candidate.length <= greedyLines.length) {
+      best = candidate;
+      high = mid;
+    } else {
+      low = mid;
+    }
+  }
+  return best;
+};
+
+export const breakLines = (
+  text: string,
+  maxWidth: number,
+  measure: MeasureText,
+  options: BreakLinesOptions = {}
+): string[] => {
+  if (!text) return [];
+  const { locale = 'te', balance = true } = options;
+  const widthCache = new Map<string, number>();
+  const cachedMeasure: MeasureText = (candidate) => {
+    let width = widthCache.get(candidate);
+    if (width === undefined) {
+      width = measure(candidate);
+      widthCache.set(candidate, width);
+    }
+    return width;
+  };
+
+  const lines: string[] = [];
+  // Explicit newlines always start a new line.
+  for (const paragraph of text.split(/\r?\n/)) {
+    const units = buildUnits(paragraph, maxWidth, cachedMeasure, locale);
+    if (units.length === 0) continue;
+    lines.push(...(balance ? layoutBalanced(units, maxWidth, cachedMeasure) : layoutUnits(units, maxWidth, cachedMeasure)));
+  }
+  return lines;
+};
@@ -0,0 +1,253 @@
+import type { RGB } from './color';
+
+// Minimal single-page PDF 1.4 writer for print exports: one JPEG image, text set in embedded TrueType fonts
+// and optional crop marks. Lengths and positions are in PDF points (1/72 inch) with the origin at the
+// bottom-left of the page.
+
+export const MM_TO_PT = 72 / 25.4;
+
+export interface PdfBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface PdfCropMarks {
+  offset: number; // Gap between the trim line and the start of each mark; should clear the bleed
+  length: number;
+  lineWidth: number;
+}
+
+// A TrueType font embedded as a CID font. Text refers to glyphs by CID, which is the glyph id in `program`.
+export interface PdfFont {
+  postScriptName: string;
+  program: Uint8Array; // The TrueType font file, usually a subset with just the glyphs the text uses
+  unitsPerEm: number;
+  bbox: [number, number, number, number]; // Font units
+  ascent: number;
+  descent: number;
+  capHeight: number;
+  advances: number[]; // Advance width of each CID in font units
+  unicode: string[]; // Text each CID stands for, so that copying and searching find the words; '' when unknown
+}
+
+export interface PdfGlyph {
+  cid: number;
+  x: number; // Pen position on the baseline
+  y: number;
+}
+
+export interface PdfTextRun {
+  font: number; // Index into the page's fonts
+  size: number;
+  glyphs: PdfGlyph[];
+}
+
+export interface PdfTextLine {
+  text: string; // The line as written, reported to text extraction in place of the glyphs' own mapping
+  runs: PdfTextRun[];
+  fill: RGB;
+  stroke: { color: RGB; width: number } | null; // Painted under the fill, as the canvas does
+}
+
+export interface PdfPosterPage {
+  pageWidth: number;
+  pageHeight: number;
+  jpeg: Uint8Array;
+  imageWidth: number; // Pixels
+  imageHeight: number;
+  imageBox: PdfBox; // Where the image is painted; the trim box plus the bleed
+  trimBox: PdfBox;
+  bleedBox: PdfBox;
+  cropMarks?: PdfCropMarks | null;
+  fonts?: PdfFont[];
+  text?: PdfTextLine[];
+  title?: string;
+}
+
+const encoder = new TextEncoder();
+// Each font takes five objects after the fixed ones: Type0 font, CID font, descriptor, font file and ToUnicode map.
+const FIRST_FONT_OBJECT = 7;
+
+const formatNumber = (value: number): string => {
+  const rounded = Math.round(value * 1000) / 1000;
+  return Object.is(rounded, -0) ? '0' : String(rounded);
+};
+
+const boxArray = (box: PdfBox): string =>
+  `[${[box.x, box.y, box.x + box.width, box.y + box.height].map(formatNumber).join(' ')}]`;
+
+const utf16Hex = (text: string): string => {
+  let hex = '';
+  for (let i = 0; i < text.length; i++) hex += text.charCodeAt(i).toString(16).padStart(4, '0').toUpperCase();
+  return hex;
+};
+
+// UTF-16BE hex string with a byte order mark, so titles in Telugu survive.
+const textString = (text: string): string => `<FEFF${utf16Hex(text)}>`;
+
+// Shaped scripts turn one character into several glyphs and several characters into one, so the line's
+// real text is attached to it as ActualText. The outline repeats the glyphs, so its ActualText is empty to
+// keep text extraction from reading the line twice.
+const textLineContent = (line: PdfTextLine): string => {
+  const color = ({ r, g, b }: RGB) => [r, g, b].map(value => formatNumber(value / 255)).join(' ');
+  const showRuns = (renderMode: number) => line.runs.map(run =>
+    `${renderMode} Tr /F${run.font + 1} ${formatNumber(run.size)} Tf\n` +
+    run.glyphs.map(glyph => `1 0 0 1 ${formatNumber(glyph.x)} ${formatNumber(glyph.y)} Tm <${glyph.cid.toString(16).padStart(4, '0')}> Tj`).join('\n')
+  ).join('\n');
+  return [
+    line.stroke ? `/Span << /ActualText () >> BDC\nBT ${color(line.stroke.color)} RG ${formatNumber(line.stroke.width)} w\n${showRuns(1)}\nET\nEMC` : '',
+    `/Span << /ActualText ${textString(line.text)} >> BDC`,
+    `BT ${color(line.fill)} rg\n${showRuns(0)}\nET`,
+    'EMC',
+  ].filter(Boolean).join('\n');
+};
+
+// Maps each CID back to its text, in blocks of at most 100 entries as the CMap format requires.
+const toUnicodeCMap = (font: PdfFont): string => {
+  const entries = font.unicode
+    .map((text, cid) => ({ cid, text }))
+    .filter(entry => entry.text !== '')
+    .map(entry => `<${entry.cid.toString(16).padStart(4, '0')}> <${utf16Hex(entry.text)}>`);
+  const chunks: string[] = [];
+  for (let i = 0; i < entries.length; i += 100) {
+    const chunk = entries.slice(i, i + 100);
+    chunks.push(`${chunk.length} beginbfchar\n${chunk.join('\n')}\nendbfchar`);
+  }
+  return [
+    '/CIDInit /ProcSet findresource begin',
+    '12 dict begin',
+    'begincmap',
+    '/CIDSystemInfo << /Registry (Adobe) /Ordering (UCS) /Supplement 0 >> def',
+    '/CMapName /Adobe-Identity-UCS def',
+    '/CMapType 2 def',
+    '1 begincodespacerange\n<0000> <FFFF>\nendcodespacerange',
+    ...chunks,
+    'endcmap',
+    'CMapName currentdict /CMap defineresource pop',
+    'end',
+    'end',
+  ].join('\n');
+};
+
+// Embedded subsets are named with a six-letter tag, different for every font in the file.
+const subsetTag = (index: number): string => {
+  let tag = '';
+  for (let i = 0, rest = index; i < 6; i++, rest = Math.floor(rest / 26)) tag = String.fromCharCode(65 + (rest % 26)) + tag;
+  return tag;
+};
+
+const pdfDate = (date: Date): string => {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `D:${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+};
+
+const cropMarkPath = (trim: PdfBox, marks: PdfCropMarks): string => {
+  const left = trim.x;
+  const right = trim.x + trim.width;
+  const bottom = trim.y;
+  const top = trim.y + trim.height;
+  const segments: string[] = [];
+  for (const x of [left, right]) {
+    for (const y of [bottom, top]) {
+      const outwardX = x === left ? -1 : 1;
+      const outwardY = y === bottom ? -1 : 1;
+      // One horizontal and one vertical mark per corner, both pointing away from the poster.
+      segments.push(`${formatNumber(x + outwardX * marks.offset)} ${formatNumber(y)} m ${formatNumber(x + outwardX * (marks.offset + marks.length))} ${formatNumber(y)} l S`);
+      segments.push(`${formatNumber(x)} ${formatNumber(y + outwardY * marks.offset)} m ${formatNumber(x)} ${formatNumber(y + outwardY * (marks.offset + marks.length))} l S`);
+    }
+  }
+  return `q 0 G ${formatNumber(marks.lineWidth)} w\n${segments.join('\n')}\nQ`;
+};
+
+export const buildPosterPdf = (page: PdfPosterPage): Uint8Array => {
+  const chunks: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+
+  const write = (data: string | Uint8Array) => {
+    const bytes = typeof data === 'string' ? encoder.encode(data) : data;
+    chunks.push(bytes);
+    length += bytes.length;
+  };
+  const beginObject = (id: number) => {
+    offsets[id] = length;
+    write(`${id} 0 obj\n`);
+  };
+
+  const { imageBox, fonts = [], text = [] } = page;
+  const content = [
+    `q ${formatNumber(imageBox.width)} 0 0 ${formatNumber(imageBox.height)} ${formatNumber(imageBox.x)} ${formatNumber(imageBox.y)} cm /Im1 Do Q`,
+    ...text.map(textLineContent),
+    page.cropMarks ? cropMarkPath(page.trimBox, page.cropMarks) : '',
+  ].filter(Boolean).join('\n');
+  const fontObject = (index: number) => FIRST_FONT_OBJECT + index * 5;
+  const fontResources = fonts.map((_, index) => `/F${index + 1} ${fontObject(index)} 0 R`).join(' ');
+
+  // The second line marks the file as binary for transfer tools, as the PDF spec recommends.
+  write('%PDF-1.4\n');
+  write(new Uint8Array([0x25, 0xe2, 0xe3, 0xcf, 0xd3, 0x0a]));
+
+  beginObject(1);
+  write('<< /Type /Catalog /Pages 2 0 R >>\nendobj\n');
+  beginObject(2);
+  write('<< /Type /Pages /Kids [3 0 R] /Count 1 >>\nendobj\n');
+  beginObject(3);
+  write(`<< /Type /Page /Parent 2 0 R /MediaBox ${boxArray({ x: 0, y: 0, width: page.pageWidth, height: page.pageHeight })} ` +
+    `/BleedBox ${boxArray(page.bleedBox)} /TrimBox ${boxArray(page.trimBox)} ` +
+    `/Resources << /XObject << /Im1 5 0 R >>${fontResources ? ` /Font << ${fontResources} >>` : ''} >> /Contents 4 0 R >>\nendobj\n`);
+  beginObject(4);
+  const contentBytes = encoder.encode(content);
+  write(`<< /Length ${contentBytes.length} >>\nstream\n`);
+  write(contentBytes);
+  write('\nendstream\nendobj\n');
+  beginObject(5);
+  write(`<< /Type /XObject /Subtype /Image /Width ${page.imageWidth} /Height ${page.imageHeight} ` +
+    `/ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${page.jpeg.length} >>\nstream\n`);
+  write(page.jpeg);
+  write('\nendstream\nendobj\n');
+  beginObject(6);
+  write(`<< /Producer ${textString('AI Poster Gen')} /CreationDate (${pdfDate(new Date())})` +
+    (page.title ? ` /Title ${textString(page.title)}` : '') + ' >>\nendobj\n');
+
+  fonts.forEach((font, index) => {
+    const id = fontObject(index);
+    const toThousandths = (value: number) => formatNumber(value * 1000 / font.unitsPerEm);
+    const name = `/${subsetTag(index)}+${font.postScriptName.replace(/[^A-Za-z0-9-]/g, '')}`;
+    beginObject(id);
+    write(`<< /Type /Font /Subtype /Type0 /BaseFont ${name} /Encoding /Identity-H /DescendantFonts [${id + 1} 0 R] /ToUnicode ${id + 4} 0 R >>\nendobj\n`);
+    beginObject(id + 1);
+    write(`<< /Type /Font /Subtype /CIDFontType2 /BaseFont ${name} /CIDSystemInfo << /Registry (Adobe) /Ordering (Identity) /Supplement 0 >> ` +
+      `/FontDescriptor ${id + 2} 0 R /W [0 [${font.advances.map(toThousandths).join(' ')}]] /CIDToGIDMap /Identity >>\nendobj\n`);
+    beginObject(id + 2);
+    write(`<< /Type /FontDescriptor /FontName ${name} /Flags 4 /FontBBox [${font.bbox.map(toThousandths).join(' ')}] /ItalicAngle 0 ` +
+      `/Ascent ${toThousandths(font.ascent)} /Descent ${toThousandths(font.descent)} /CapHeight ${toThousandths(font.capHeight)} /StemV 80 ` +
+      `/FontFile2 ${id + 3} 0 R >>\nendobj\n`);
+    beginObject(id + 3);
+    write(`<< /Length ${font.program.length} /Length1 ${font.program.length} >>\nstream\n`);
+    write(font.program);
+    write('\nendstream\nendobj\n');
+    beginObject(id + 4);
+    const cmapBytes = encoder.encode(toUnicodeCMap(font));
+    write(`<< /Length ${cmapBytes.length} >>\nstream\n`);
+    write(cmapBytes);
+    write('\nendstream\nendobj\n');
+  });
+
+  const objectCount = fonts.length > 0 ? fontObject(fonts.length) - 1 : 6;
+  const xrefOffset = length;
+  write(`xref\n0 ${objectCount + 1}\n0000000000 65535 f \n`);
+  for (let id = 1; id <= objectCount; id++) {
+    write(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`);
+  }
+  write(`trailer\n<< /Size ${objectCount + 1} /Root 1 0 R /Info 6 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+  const pdf = new Uint8Array(length);
+  let position = 0;
+  for (const chunk of chunks) {
+    pdf.set(chunk, position);
+    position += chunk.length;
+  }
+  return pdf;
+};
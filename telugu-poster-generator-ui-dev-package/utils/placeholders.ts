@@ -0,0 +1,35 @@
+// {{placeholder}} templates for batch posters. Names match table columns ignoring case, spaces at either end
+// and repeated spaces, so {{Name}}, {{ name }} and a "NAME" column all line up, as do "Shop  Name" and "shop name".
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([^{}]+?)\s*\}\}/g;
+
+const normalizeName = (name: string): string => name.trim().toLowerCase().replace(/\s+/g, ' ');
+
+// Placeholder names used in the templates, in order of first appearance.
+export const findPlaceholders = (...templates: string[]): string[] => {
+  const names: string[] = [];
+  for (const template of templates) {
+    for (const match of template.matchAll(PLACEHOLDER_PATTERN)) {
+      if (!names.some(name => normalizeName(name) === normalizeName(match[1]))) names.push(match[1]);
+    }
+  }
+  return names;
+};
+
+// Placeholders that no column in `headers` can fill.
+export const findUnknownPlaceholders = (placeholders: string[], headers: string[]): string[] => {
+  const known = new Set(headers.map(normalizeName));
+  return placeholders.filter(name => !known.has(normalizeName(name)));
+};
+
+const valueFor = (row: Record<string, string>, name: string): string | undefined => {
+  const key = Object.keys(row).find(column => normalizeName(column) === normalizeName(name));
+  return key === undefined ? undefined : row[key];
+};
+
+// Placeholders among `placeholders` that are blank in this row.
+export const findEmptyPlaceholders = (placeholders: string[], row: Record<string, string>): string[] =>
+  placeholders.filter(name => !valueFor(row, name)?.trim());
+
+export const fillPlaceholders = (template: string, row: Record<string, string>): string =>
+  template.replace(PLACEHOLDER_PATTERN, (_, name: string) => valueFor(row, name) ?? '');
@@ -0,0 +1,120 @@
+import type { LanguagePreference, PosterDetails, PosterHeadline } from '../App'; // Import type
+import type { RefinementScope } from '../services/generationProvider';
+import { isLanguageId } from './languages';
+
+// The poster content model: an ordered list of headlines, each in one language, plus optional secondary lines,
+// and the one runtime validator for content that comes from outside the app (AI responses, stored items).
+
+// Secondary lines, in the order the renderer stacks them under the headline.
+export const SECONDARY_TEXT_FIELDS = ['subheadline', 'dateTime', 'venue', 'callToAction', 'attribution'] as const;
+
+export type SecondaryTextField = typeof SECONDARY_TEXT_FIELDS[number];
+export type PosterSecondaryText = Pick<PosterDetails, SecondaryTextField>;
+// Everything drawn on the poster, i.e. the details without the background theme.
+export type PosterText = Omit<PosterDetails, 'theme'>;
+
+export const REFINEMENT_SCOPES: RefinementScope[] = ['text', 'theme', 'both', 'new'];
+
+export const SECONDARY_TEXT_LABELS: Record<SecondaryTextField, string> = {
+  subheadline: 'Subheadline',
+  dateTime: 'Date & time',
+  venue: 'Venue',
+  callToAction: 'Call to action',
+  attribution: 'Attribution',
+};
+
+export const EMPTY_SECONDARY_TEXT: PosterSecondaryText = {
+  subheadline: '',
+  dateTime: '',
+  venue: '',
+  callToAction: '',
+  attribution: '',
+};
+
+export const secondaryTextOf = (details: PosterSecondaryText): PosterSecondaryText => ({
+  subheadline: details.subheadline,
+  dateTime: details.dateTime,
+  venue: details.venue,
+  callToAction: details.callToAction,
+  attribution: details.attribution,
+});
+
+export const posterTextOf = (details: PosterText): PosterText => ({
+  headlines: details.headlines.map(headline => ({ ...headline })),
+  ...secondaryTextOf(details),
+});
+
+// Every line of text on the poster, headlines first, including empty ones.
+export const textLinesOf = (text: PosterText): string[] => [
+  ...text.headlines.map(headline => headline.text),
+  ...SECONDARY_TEXT_FIELDS.map(field => text[field]),
+];
+
+// The first headline with any text, e.g. to name a chat or an exported file after the poster.
+export const leadHeadlineText = (details: Pick<PosterDetails, 'headlines'>): string =>
+  details.headlines.find(headline => headline.text.trim() !== '')?.text ?? '';
+
+export interface PosterDetailsValidation {
+  details: PosterDetails | null; // Null when there are problems
+  problems: string[];
+}
+
+// The theme and the headline list must be present (empty strings are fine); secondary lines
+// may be missing and default to empty. Every field that is present has to be a string.
+// Headlines need a known language; a second headline in the same language is dropped.
+export const validatePosterDetails = (value: unknown): PosterDetailsValidation => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return { details: null, problems: ['expected a JSON object'] };
+  }
+  const record = value as Record<string, unknown>;
+  const problems: string[] = [];
+  const readField = (field: Exclude<keyof PosterDetails, 'headlines'>, isRequired: boolean): string => {
+    const fieldValue = record[field];
+    if (typeof fieldValue === 'string') return fieldValue.trim();
+    if (fieldValue === undefined || fieldValue === null) {
+      if (isRequired) problems.push(`"${field}" is missing`);
+    } else {
+      problems.push(`"${field}" should be a string`);
+    }
+    return '';
+  };
+  const readHeadlines = (): PosterHeadline[] => {
+    if (!Array.isArray(record.headlines)) {
+      problems.push(record.headlines === undefined ? '"headlines" is missing' : '"headlines" should be a list');
+      return [];
+    }
+    const headlines: PosterHeadline[] = [];
+    record.headlines.forEach((entry: unknown, index) => {
+      const headline = entry as Partial<Record<keyof PosterHeadline, unknown>> | null;
+      if (typeof headline?.text !== 'string' || !isLanguageId(headline.language)) {
+        problems.push(`headline ${index + 1} should have a known "language" and a string "text"`);
+        return;
+      }
+      if (headlines.some(existing => existing.language === headline.language)) return;
+      headlines.push({ language: headline.language, text: headline.text.trim() });
+    });
+    return headlines;
+  };
+
+  const details: PosterDetails = {
+    theme: readField('theme', true),
+    headlines: readHeadlines(),
+    subheadline: readField('subheadline', false),
+    dateTime: readField('dateTime', false),
+    venue: readField('venue', false),
+    callToAction: readField('callToAction', false),
+    attribution: readField('attribution', false),
+  };
+  return problems.length > 0 ? { details: null, problems } : { details, problems };
+};
+
+// One headline per chosen language, in the chosen order: headlines in other languages are dropped and
+// missing ones are added empty, so the text editor has a field for each. Secondary lines are kept,
+// since names, dates and venues often stay in one script whatever the poster's language.
+export const applyLanguagePreference = (details: PosterDetails, languagePreference: LanguagePreference): PosterDetails => ({
+  ...details,
+  headlines: languagePreference.map(language => ({
+    language,
+    text: details.headlines.find(headline => headline.language === language)?.text ?? '',
+  })),
+});
@@ -0,0 +1,88 @@
+// Output size presets. Imagen only supports a few aspect ratios, so each format asks for the
+// closest one and the renderer crops the background to the exact format size.
+
+export type PosterFormatId = 'square' | 'portrait' | 'story' | 'landscape' | 'a4';
+
+export type ImagenAspectRatio = '1:1' | '3:4' | '4:3' | '9:16' | '16:9';
+
+export interface PosterFormat {
+  id: PosterFormatId;
+  label: string;
+  aspectLabel: string;
+  description: string;
+  width: number;
+  height: number;
+  imagenAspectRatio: ImagenAspectRatio;
+  // Fractions of the canvas kept free of text, e.g. where WhatsApp draws its status bar and reply box.
+  safeInsets: { top: number; right: number; bottom: number; left: number };
+  // Multiplies the default font sizes; small phone formats need relatively larger text.
+  fontScale: number;
+}
+
+export const POSTER_FORMATS: PosterFormat[] = [
+  {
+    id: 'square',
+    label: 'Instagram Post',
+    aspectLabel: '1:1',
+    description: 'Square post for Instagram and Facebook feeds',
+    width: 1080,
+    height: 1080,
+    imagenAspectRatio: '1:1',
+    safeInsets: { top: 0.075, right: 0.075, bottom: 0.075, left: 0.075 },
+    fontScale: 1,
+  },
+  {
+    id: 'portrait',
+    label: 'Instagram Portrait',
+    aspectLabel: '4:5',
+    description: 'Tall feed post that fills more of the screen',
+    width: 1080,
+    height: 1350,
+    imagenAspectRatio: '3:4',
+    safeInsets: { top: 0.07, right: 0.075, bottom: 0.07, left: 0.075 },
+    fontScale: 1.05,
+  },
+  {
+    id: 'story',
+    label: 'WhatsApp Status',
+    aspectLabel: '9:16',
+    description: 'Full-screen WhatsApp Status, Instagram Story or Reel cover',
+    width: 1080,
+    height: 1920,
+    imagenAspectRatio: '9:16',
+    safeInsets: { top: 0.14, right: 0.08, bottom: 0.2, left: 0.08 },
+    fontScale: 1.15,
+  },
+  {
+    id: 'landscape',
+    label: 'Banner',
+    aspectLabel: '16:9',
+    description: 'Wide banner for YouTube, websites and screens',
+    width: 1920,
+    height: 1080,
+    imagenAspectRatio: '16:9',
+    safeInsets: { top: 0.075, right: 0.075, bottom: 0.075, left: 0.075 },
+    fontScale: 1,
+  },
+  {
+    id: 'a4',
+    label: 'A4 Print',
+    aspectLabel: 'A4',
+    description: 'A4 portrait at 300 DPI for printing',
+    width: 2480,
+    height: 3508,
+    imagenAspectRatio: '3:4',
+    safeInsets: { top: 0.06, right: 0.08, bottom: 0.06, left: 0.08 },
+    fontScale: 1,
+  },
+];
+
+export const DEFAULT_POSTER_FORMAT_ID: PosterFormatId = 'square';
+
+export const getPosterFormat = (formatId: PosterFormatId): PosterFormat =>
+  POSTER_FORMATS.find(format => format.id === formatId) ?? POSTER_FORMATS[0];
+
+export const describeOrientation = (format: PosterFormat): string => {
+  if (format.width === format.height) return 'square';
+  return format.width > format.height ? 'landscape (wide)' : 'portrait (tall)';
+};
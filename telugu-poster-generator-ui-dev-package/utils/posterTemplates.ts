@@ -0,0 +1,203 @@
+import type { FontPairingId } from './fontRegistry';
+import type { LayoutTemplateId } from './layoutTemplates';
+import { POSTER_LANGUAGES, type LanguageId } from './languages';
+import type { PosterHeadline } from '../App'; // Import type
+
+// Curated starting points for the festivals and occasions people make most posters for.
+// A template supplies the theme and greetings directly, so no prompt has to be interpreted.
+
+export type PosterTemplateId =
+  | 'sankranti' | 'ugadi' | 'vinayaka-chavithi' | 'bathukamma' | 'dasara' | 'deepavali'
+  | 'birthday' | 'shop-opening' | 'wedding';
+
+export type PosterTemplateCategory = 'festival' | 'occasion';
+
+// One celebration of a festival; single-day festivals leave out `end`. Dates are 'YYYY-MM-DD'.
+export interface FestivalDate {
+  start: string;
+  end?: string;
+}
+
+export interface PosterTemplate {
+  id: PosterTemplateId;
+  category: PosterTemplateCategory;
+  label: string;
+  teluguLabel: string;
+  themePrompt: string; // Visual theme for the background, as extractPosterDetailsFromPrompt would return it
+  greetings: Record<LanguageId, string>; // The greeting in every language, so any language choice works
+  layoutId: LayoutTemplateId;
+  fontPairingId: FontPairingId;
+  colors: string[]; // Suggested palette, '#rrggbb', most prominent first
+  colorNames: string; // The same palette in words, for the image prompt
+  // Festivals follow the Telugu lunar calendar, so their dates are listed per year. Add each new year's dates here.
+  dates?: FestivalDate[];
+}
+
+export const POSTER_TEMPLATES: PosterTemplate[] = [
+  {
+    id: 'sankranti',
+    category: 'festival',
+    label: 'Sankranti',
+    teluguLabel: 'సంక్రాంతి',
+    themePrompt: 'Village Sankranti morning with colourful rangoli muggulu, clay pots of pongal, sugarcane, kites in a bright sky and a decorated Gangireddu bull',
+    greetings: { en: 'Happy Sankranti', te: 'సంక్రాంతి శుభాకాంక్షలు', kn: 'ಸಂಕ್ರಾಂತಿ ಹಬ್ಬದ ಶುಭಾಶಯಗಳು', ta: 'இனிய பொங்கல் நல்வாழ்த்துகள்' },
+    layoutId: 'topHeadline',
+    fontPairingId: 'festive',
+    colors: ['#f59e0b', '#dc2626', '#16a34a'],
+    colorNames: 'marigold yellow, kumkum red and sugarcane green',
+    dates: [{ start: '2025-01-13', end: '2025-01-15' }, { start: '2026-01-13', end: '2026-01-15' }, { start: '2027-01-14', end: '2027-01-16' }],
+  },
+  {
+    id: 'ugadi',
+    category: 'festival',
+    label: 'Ugadi',
+    teluguLabel: 'ఉగాది',
+    themePrompt: 'Telugu New Year with fresh mango leaf torans, neem flowers, a brass bowl of ugadi pachadi and soft spring sunrise light',
+    greetings: { en: 'Happy Ugadi', te: 'ఉగాది శుభాకాంక్షలు', kn: 'ಯುಗಾದಿ ಹಬ್ಬದ ಶುಭಾಶಯಗಳು', ta: 'இனிய யுகாதி நல்வாழ்த்துகள்' },
+    layoutId: 'centered',
+    fontPairingId: 'classic',
+    colors: ['#15803d', '#facc15', '#f97316'],
+    colorNames: 'mango leaf green, turmeric yellow and saffron',
+    dates: [{ start: '2025-03-30' }, { start: '2026-03-19' }, { start: '2027-04-07' }],
+  },
+  {
+    id: 'vinayaka-chavithi',
+    category: 'festival',
+    label: 'Vinayaka Chavithi',
+    teluguLabel: 'వినాయక చవితి',
+    themePrompt: 'Lord Ganesha idol decorated with flowers and patri leaves, modak offerings, glowing diyas and a festive pandal backdrop',
+    greetings: { en: 'Happy Vinayaka Chavithi', te: 'వినాయక చవితి శుభాకాంక్షలు', kn: 'ಗಣೇಶ ಚತುರ್ಥಿಯ ಶುಭಾಶಯಗಳು', ta: 'விநாயகர் சதுர்த்தி நல்வாழ்த்துகள்' },
+    layoutId: 'lowerThird',
+    fontPairingId: 'bold',
+    colors: ['#ea580c', '#b91c1c', '#fde047'],
+    colorNames: 'saffron orange, deep red and gold',
+    dates: [{ start: '2025-08-27' }, { start: '2026-09-14' }, { start: '2027-09-04' }],
+  },
+  {
+    id: 'bathukamma',
+    category: 'festival',
+    label: 'Bathukamma',
+    teluguLabel: 'బతుకమ్మ',
+    themePrompt: 'Tall conical Bathukamma flower stacks of tangedu, gunugu and marigold beside a village lake at dusk with women in colourful sarees',
+    greetings: { en: 'Happy Bathukamma', te: 'బతుకమ్మ శుభాకాంక్షలు', kn: 'ಬತುಕಮ್ಮ ಹಬ್ಬದ ಶುಭಾಶಯಗಳು', ta: 'பதுகம்மா நல்வாழ்த்துகள்' },
+    layoutId: 'framed',
+    fontPairingId: 'friendly',
+    colors: ['#db2777', '#facc15', '#7c3aed'],
+    colorNames: 'celosia pink, tangedu yellow and purple',
+    dates: [{ start: '2025-09-21', end: '2025-09-30' }, { start: '2026-10-10', end: '2026-10-18' }, { start: '2027-09-29', end: '2027-10-07' }],
+  },
+  {
+    id: 'dasara',
+    category: 'festival',
+    label: 'Dasara',
+    teluguLabel: 'దసరా',
+    themePrompt: 'Goddess Durga in golden light with jammi leaves, a temple festival at night, lamps and a triumphant festive mood',
+    greetings: { en: 'Happy Dasara', te: 'విజయదశమి శుభాకాంక్షలు', kn: 'ದಸರಾ ಹಬ್ಬದ ಶುಭಾಶಯಗಳು', ta: 'இனிய விஜயதசமி நல்வாழ்த்துகள்' },
+    layoutId: 'topHeadline',
+    fontPairingId: 'elegant',
+    colors: ['#b91c1c', '#f59e0b', '#7f1d1d'],
+    colorNames: 'vermilion, gold and deep maroon',
+    dates: [{ start: '2025-10-02' }, { start: '2026-10-20' }, { start: '2027-10-09' }],
+  },
+  {
+    id: 'deepavali',
+    category: 'festival',
+    label: 'Deepavali',
+    teluguLabel: 'దీపావళి',
+    themePrompt: 'Rows of glowing clay diyas, sparklers and fireworks in a deep night sky with rangoli and a warm golden glow',
+    greetings: { en: 'Happy Deepavali', te: 'దీపావళి శుభాకాంక్షలు', kn: 'ದೀಪಾವಳಿ ಹಬ್ಬದ ಶುಭಾಶಯಗಳು', ta: 'இனிய தீபாவளி நல்வாழ்த்துகள்' },
+    layoutId: 'auto',
+    fontPairingId: 'festive',
+    colors: ['#1e1b4b', '#f59e0b', '#f97316'],
+    colorNames: 'midnight indigo, diya gold and flame orange',
+    dates: [{ start: '2025-10-20' }, { start: '2026-11-08' }, { start: '2027-10-29' }],
+  },
+  {
+    id: 'birthday',
+    category: 'occasion',
+    label: 'Birthday',
+    teluguLabel: 'పుట్టినరోజు',
+    themePrompt: 'Cheerful birthday celebration with balloons, confetti, a decorated cake and soft bokeh lights',
+    greetings: { en: 'Happy Birthday', te: 'పుట్టినరోజు శుభాకాంక్షలు', kn: 'ಹುಟ್ಟುಹಬ್ಬದ ಶುಭಾಶಯಗಳು', ta: 'இனிய பிறந்தநாள் நல்வாழ்த்துகள்' },
+    layoutId: 'auto',
+    fontPairingId: 'playful',
+    colors: ['#ec4899', '#8b5cf6', '#38bdf8'],
+    colorNames: 'pink, lavender and sky blue',
+  },
+  {
+    id: 'shop-opening',
+    category: 'occasion',
+    label: 'Shop Opening',
+    teluguLabel: 'ప్రారంభోత్సవం',
+    themePrompt: 'Grand shop inauguration with a ribbon-cutting entrance, marigold garlands, banana leaf arches and a bright welcoming storefront',
+    greetings: { en: 'Grand Opening', te: 'ప్రారంభోత్సవ ఆహ్వానం', kn: 'ಉದ್ಘಾಟನಾ ಆಹ್ವಾನ', ta: 'திறப்பு விழா அழைப்பு' },
+    layoutId: 'lowerThird',
+    fontPairingId: 'bold',
+    colors: ['#dc2626', '#f59e0b', '#166534'],
+    colorNames: 'ribbon red, marigold and banana leaf green',
+  },
+  {
+    id: 'wedding',
+    category: 'occasion',
+    label: 'Wedding',
+    teluguLabel: 'వివాహం',
+    themePrompt: 'Traditional Telugu wedding mandapam with jasmine and marigold garlands, talambralu rice, banana plants and warm lamplight',
+    greetings: { en: 'Wedding Invitation', te: 'వివాహ ఆహ్వానం', kn: 'ವಿವಾಹ ಆಮಂತ್ರಣ', ta: 'திருமண அழைப்பிதழ்' },
+    layoutId: 'framed',
+    fontPairingId: 'literary',
+    colors: ['#9f1239', '#ca8a04', '#fef3c7'],
+    colorNames: 'maroon, antique gold and ivory',
+  },
+];
+
+// Festivals within this many days are highlighted in the gallery.
+export const UPCOMING_FESTIVAL_DAYS = 30;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export const getPosterTemplate = (id: PosterTemplateId): PosterTemplate | undefined =>
+  POSTER_TEMPLATES.find(template => template.id === id);
+
+// The greetings as headlines, in the registry's language order; the language choice picks and orders them later.
+export const templateGreetings = (template: PosterTemplate): PosterHeadline[] =>
+  POSTER_LANGUAGES.map(language => ({ language: language.id, text: template.greetings[language.id] }));
+
+// Calendar dates are compared at local midnight, so "today" does not depend on the time of day.
+const parseLocalDate = (date: string): Date => {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+const startOfDay = (date: Date): Date => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+const nextOccurrence = (template: PosterTemplate, today: Date): FestivalDate | undefined => {
+  const todayStart = startOfDay(today).getTime();
+  return (template.dates ?? []).find(festivalDate => parseLocalDate(festivalDate.end ?? festivalDate.start).getTime() >= todayStart);
+};
+
+// First day of the template's current or next celebration; null for occasions or when no listed date is ahead.
+export const nextFestivalDate = (template: PosterTemplate, today: Date = new Date()): Date | null => {
+  const occurrence = nextOccurrence(template, today);
+  return occurrence ? parseLocalDate(occurrence.start) : null;
+};
+
+// Days until the next celebration, 0 while it is on.
+export const daysUntilFestival = (template: PosterTemplate, today: Date = new Date()): number | null => {
+  const start = nextFestivalDate(template, today);
+  if (!start) return null;
+  return Math.max(0, Math.round((start.getTime() - startOfDay(today).getTime()) / MS_PER_DAY));
+};
+
+// Festivals coming up within UPCOMING_FESTIVAL_DAYS, soonest first.
+export const getUpcomingFestivals = (today: Date = new Date()): { template: PosterTemplate; daysUntil: number }[] =>
+  POSTER_TEMPLATES
+    .map(template => ({ template, daysUntil: daysUntilFestival(template, today) }))
+    .filter((entry): entry is { template: PosterTemplate; daysUntil: number } =>
+      entry.daysUntil !== null && entry.daysUntil <= UPCOMING_FESTIVAL_DAYS)
+    .sort((a, b) => a.daysUntil - b.daysUntil);
+
+export const describeDaysUntil = (daysUntil: number): string => {
+  if (daysUntil === 0) return 'Today';
+  if (daysUntil === 1) return 'Tomorrow';
+  return `In ${daysUntil} days`;
+};
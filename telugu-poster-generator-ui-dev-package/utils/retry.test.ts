@@ -0,0 +1,97 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { backoffDelay, isAbortError, withRetry } from './retry';
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('withRetry', () => {
+  it('waits at least as long as the failure asks before the next attempt', async () => {
+    vi.useFakeTimers();
+    const operation = vi.fn()
+      .mockRejectedValueOnce(new Error('rate limited'))
+      .mockResolvedValueOnce('done');
+    const result = withRetry(operation, { shouldRetry: () => true, baseDelayMs: 10, maxDelayMs: 20, minimumDelayMs: () => 5000 });
+
+    await vi.advanceTimersByTimeAsync(4999);
+    expect(operation).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    await expect(result).resolves.toBe('done');
+    expect(operation).toHaveBeenCalledTimes(2);
+  });
+
+  it('keeps the backoff when the failure asks for less', async () => {
+    vi.useFakeTimers();
+    const operation = vi.fn()
+      .mockRejectedValueOnce(new Error('unavailable'))
+      .mockResolvedValueOnce('done');
+    const result = withRetry(operation, { shouldRetry: () => true, baseDelayMs: 1000, maxDelayMs: 1000, minimumDelayMs: () => undefined });
+
+    await vi.advanceTimersByTimeAsync(499);
+    expect(operation).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(501);
+    await expect(result).resolves.toBe('done');
+  });
+
+  it('stops waiting and makes no further attempt once the signal is aborted', async () => {
+    vi.useFakeTimers();
+    const controller = new AbortController();
+    const operation = vi.fn().mockRejectedValue(new Error('unavailable'));
+    const result = withRetry(operation, { shouldRetry: () => true, signal: controller.signal });
+    const settled = result.catch(error => error);
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(operation).toHaveBeenCalledTimes(1);
+    controller.abort();
+    expect(isAbortError(await settled)).toBe(true);
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+
+  it('never calls the operation when the signal is already aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const operation = vi.fn().mockResolvedValue('done');
+    const error = await withRetry(operation, { shouldRetry: () => true, signal: controller.signal }).catch(caught => caught);
+    expect(isAbortError(error)).toBe(true);
+    expect(operation).not.toHaveBeenCalled();
+  });
+
+  it('throws an error shouldRetry rejects after one attempt', async () => {
+    const failure = new Error('invalid key');
+    const operation = vi.fn().mockRejectedValue(failure);
+    await expect(withRetry(operation, { shouldRetry: () => false })).rejects.toBe(failure);
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+
+  it('throws the last error after maxAttempts, reporting each attempt', async () => {
+    vi.useFakeTimers();
+    const operation = vi.fn()
+      .mockRejectedValueOnce(new Error('first'))
+      .mockRejectedValueOnce(new Error('second'))
+      .mockRejectedValueOnce(new Error('third'));
+    const onAttempt = vi.fn();
+    const result = withRetry(operation, { shouldRetry: () => true, maxAttempts: 3, onAttempt });
+    const settled = result.catch(error => error);
+
+    await vi.runAllTimersAsync();
+    expect(await settled).toHaveProperty('message', 'third');
+    expect(operation).toHaveBeenCalledTimes(3);
+    expect(onAttempt.mock.calls).toEqual([[1, 3], [2, 3], [3, 3]]);
+  });
+});
+
+describe('backoffDelay', () => {
+  it('waits between half the ceiling and the ceiling, which doubles with each attempt', () => {
+    expect(backoffDelay(1, 1000, 8000, () => 0)).toBe(500);
+    expect(backoffDelay(1, 1000, 8000, () => 1)).toBe(1000);
+    expect(backoffDelay(3, 1000, 8000, () => 0)).toBe(2000);
+    expect(backoffDelay(3, 1000, 8000, () => 0.5)).toBe(3000);
+    expect(backoffDelay(3, 1000, 8000, () => 1)).toBe(4000);
+  });
+
+  it('caps the ceiling at maxDelayMs', () => {
+    expect(backoffDelay(10, 1000, 8000, () => 0)).toBe(4000);
+    expect(backoffDelay(10, 1000, 8000, () => 1)).toBe(8000);
+  });
+});
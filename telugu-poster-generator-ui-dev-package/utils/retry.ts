@@ -0,0 +1,75 @@
+// Retrying flaky network calls with exponential backoff and jitter, and stopping them early with an AbortSignal.
+
+export interface RetryOptions {
+  maxAttempts?: number; // Including the first try, defaults to 3
+  baseDelayMs?: number; // Wait before the second attempt; doubles for each attempt after that
+  maxDelayMs?: number;
+  signal?: AbortSignal;
+  shouldRetry: (error: unknown) => boolean;
+  // Shortest wait the failure itself asks for, e.g. a rate limit's "retry after"; the backoff never waits less.
+  minimumDelayMs?: (error: unknown) => number | undefined;
+  // Called before every attempt, so the UI can show "attempt 2 of 3".
+  onAttempt?: (attempt: number, maxAttempts: number) => void;
+}
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+const DEFAULT_BASE_DELAY_MS = 1000;
+const DEFAULT_MAX_DELAY_MS = 8000;
+
+export const createAbortError = (): DOMException => new DOMException('The request was cancelled.', 'AbortError');
+
+// fetch, the Gemini SDK and abortableDelay all reject with an error named AbortError once the signal fires.
+export const isAbortError = (error: unknown): boolean =>
+  typeof error === 'object' && error !== null && (error as { name?: unknown }).name === 'AbortError';
+
+// "Equal jitter": half of the exponential delay is fixed and the other half random,
+// so clients that failed together do not all come back at the same moment.
+export const backoffDelay = (attempt: number, baseDelayMs: number, maxDelayMs: number, random: () => number = Math.random): number => {
+  const ceiling = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+  return ceiling / 2 + random() * (ceiling / 2);
+};
+
+export const abortableDelay = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createAbortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+// Runs `operation` until it succeeds, fails with an error `shouldRetry` rejects, or runs out of attempts.
+// Cancelling the signal stops both a running attempt (if the operation honours it) and the wait between attempts.
+export const withRetry = async <T>(operation: () => Promise<T>, options: RetryOptions): Promise<T> => {
+  const {
+    maxAttempts = DEFAULT_MAX_ATTEMPTS,
+    baseDelayMs = DEFAULT_BASE_DELAY_MS,
+    maxDelayMs = DEFAULT_MAX_DELAY_MS,
+    signal,
+    shouldRetry,
+    minimumDelayMs,
+    onAttempt,
+  } = options;
+
+  for (let attempt = 1; ; attempt++) {
+    if (signal?.aborted) throw createAbortError();
+    onAttempt?.(attempt, maxAttempts);
+    try {
+      return await operation();
+    } catch (error) {
+      if (signal?.aborted) throw createAbortError();
+      if (isAbortError(error) || attempt >= maxAttempts || !shouldRetry(error)) throw error;
+      const delayMs = Math.max(backoffDelay(attempt, baseDelayMs, maxDelayMs), minimumDelayMs?.(error) ?? 0);
+      console.warn(`Retry: Attempt ${attempt} of ${maxAttempts} failed, trying again in ${Math.round(delayMs)} ms.`, error);
+      await abortableDelay(delayMs, signal);
+    }
+  }
+};
@@ -0,0 +1,68 @@
+import type { ConversationSession } from '../App'; // Import type
+import { textLinesOf } from './posterContent';
+
+// Ordering and search for the chat list in the sidebar.
+
+export type SessionSortOrder = 'modified' | 'created' | 'name';
+
+export const SESSION_SORT_ORDERS: { id: SessionSortOrder; label: string }[] = [
+  { id: 'modified', label: 'Last modified' },
+  { id: 'created', label: 'Date created' },
+  { id: 'name', label: 'Name' },
+];
+
+export const DEFAULT_SESSION_SORT_ORDER: SessionSortOrder = 'modified';
+
+export interface SessionSearchMatch {
+  session: ConversationSession;
+  snippet: string | null; // Where the search matched, when it was not the title
+}
+
+const SNIPPET_CONTEXT = 30;
+
+// Chats saved before changes were tracked count as last modified when they were created.
+export const lastModifiedOf = (session: ConversationSession): number => session.updatedAt ?? session.createdAt;
+
+const titleCollator = new Intl.Collator(undefined, { sensitivity: 'base', numeric: true });
+
+// Newest first for the dates, A to Z for names. Pinned chats are not treated specially here.
+export const sortSessions = (sessions: ConversationSession[], order: SessionSortOrder): ConversationSession[] =>
+  [...sessions].sort((a, b) => {
+    switch (order) {
+      case 'created': return b.createdAt - a.createdAt;
+      case 'name': return titleCollator.compare(a.title || 'Untitled Chat', b.title || 'Untitled Chat') || b.createdAt - a.createdAt;
+      default: return lastModifiedOf(b) - lastModifiedOf(a);
+    }
+  });
+
+// Everything a search looks through besides the title: prompts and the text drawn on the posters.
+const searchableTextsOf = (session: ConversationSession): string[] =>
+  session.items.flatMap(item =>
+    [item.promptText, ...(item.posterDetails ? textLinesOf(item.posterDetails) : [])].filter((text): text is string => !!text)
+  );
+
+const snippetAround = (text: string, index: number, length: number): string => {
+  const start = Math.max(0, index - SNIPPET_CONTEXT);
+  const end = Math.min(text.length, index + length + SNIPPET_CONTEXT);
+  return `${start > 0 ? '…' : ''}${text.slice(start, end).replace(/\s+/g, ' ').trim()}${end < text.length ? '…' : ''}`;
+};
+
+// Every word of the query has to appear somewhere in the chat, ignoring case. Results keep the given order.
+export const searchSessions = (sessions: ConversationSession[], query: string): SessionSearchMatch[] => {
+  const terms = query.toLocaleLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return sessions.map(session => ({ session, snippet: null }));
+  const matches: SessionSearchMatch[] = [];
+  for (const session of sessions) {
+    const title = (session.title || '').toLocaleLowerCase();
+    const texts = searchableTextsOf(session);
+    const lowerTexts = texts.map(text => text.toLocaleLowerCase());
+    if (!terms.every(term => title.includes(term) || lowerTexts.some(text => text.includes(term)))) continue;
+    const snippetTerm = terms.find(term => !title.includes(term));
+    const textIndex = snippetTerm === undefined ? -1 : lowerTexts.findIndex(text => text.includes(snippetTerm));
+    matches.push({
+      session,
+      snippet: textIndex === -1 ? null : snippetAround(texts[textIndex], lowerTexts[textIndex].indexOf(snippetTerm!), snippetTerm!.length),
+    });
+  }
+  return matches;
+};
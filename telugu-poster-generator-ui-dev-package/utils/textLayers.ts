@@ -0,0 +1,138 @@
+import type { TextAlign } from './layoutTemplates';
+import { getPosterLanguage, LANGUAGE_IDS, type LanguageId } from './languages';
+
+// Text boxes placed by hand in the poster editor. Each one replaces the automatic layout of one text block,
+// while the wording still comes from the poster text, so editing the text keeps the boxes where they are.
+// Positions and sizes are fractions of the poster, so the same boxes work at every export size.
+
+// Each headline is its own layer, keyed by its language, e.g. 'headline:te'.
+export type HeadlineLayerId = `headline:${LanguageId}`;
+export type SecondaryLayerId = 'subheadline' | 'details' | 'callToAction' | 'attribution';
+export type TextLayerId = HeadlineLayerId | SecondaryLayerId;
+
+const SECONDARY_LAYER_LABELS: Record<SecondaryLayerId, string> = {
+  subheadline: 'Subheadline',
+  details: 'Date & venue',
+  callToAction: 'Call to action',
+  attribution: 'Attribution',
+};
+
+export const headlineLayerId = (language: LanguageId): HeadlineLayerId => `headline:${language}`;
+
+export const textLayerLabel = (id: TextLayerId): string =>
+  id.startsWith('headline:')
+    ? `${getPosterLanguage(id.slice('headline:'.length) as LanguageId).name} headline`
+    : SECONDARY_LAYER_LABELS[id as SecondaryLayerId];
+
+const TEXT_LAYER_IDS: TextLayerId[] = [...LANGUAGE_IDS.map(headlineLayerId), ...Object.keys(SECONDARY_LAYER_LABELS) as SecondaryLayerId[]];
+const TEXT_ALIGNS: TextAlign[] = ['left', 'center', 'right'];
+
+export interface TextLayerOverride {
+  // The box's left and top edges and its width as fractions of the poster; the height follows the wrapped text.
+  x: number;
+  y: number;
+  width: number;
+  fontSize: number; // Fraction of the poster's shorter side
+  // Missing style fields keep what the layout chose, e.g. the colours picked to stand out from the background.
+  align?: TextAlign;
+  fill?: string;
+  stroke?: string | null;
+  shadow?: boolean;
+}
+
+export type TextLayerOverrides = Partial<Record<TextLayerId, TextLayerOverride>>;
+
+export const MIN_LAYER_WIDTH = 0.08;
+export const MIN_LAYER_FONT_SIZE = 0.012;
+export const MAX_LAYER_FONT_SIZE = 0.3;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// Keeps at least part of the box on the poster, so a box can never be dragged out of reach.
+export const clampTextLayer = (layer: TextLayerOverride): TextLayerOverride => {
+  const width = clamp(layer.width, MIN_LAYER_WIDTH, 1.5);
+  return {
+    ...layer,
+    width,
+    x: clamp(layer.x, -width + MIN_LAYER_WIDTH, 1 - MIN_LAYER_WIDTH),
+    y: clamp(layer.y, -0.05, 0.97),
+    fontSize: clamp(layer.fontSize, MIN_LAYER_FONT_SIZE, MAX_LAYER_FONT_SIZE),
+  };
+};
+
+const isHexColor = (value: unknown): value is string => typeof value === 'string' && /^#[0-9a-f]{6}$/i.test(value);
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+// For text layers read back from storage or an imported file; unreadable layers are dropped.
+export const readTextLayerOverrides = (value: unknown): TextLayerOverrides | undefined => {
+  if (typeof value !== 'object' || value === null) return undefined;
+  const overrides: TextLayerOverrides = {};
+  for (const id of TEXT_LAYER_IDS) {
+    const layer = (value as Record<string, Partial<TextLayerOverride> | undefined>)[id];
+    if (!layer || !isFiniteNumber(layer.x) || !isFiniteNumber(layer.y) || !isFiniteNumber(layer.width) || !isFiniteNumber(layer.fontSize)) continue;
+    overrides[id] = clampTextLayer({
+      x: layer.x,
+      y: layer.y,
+      width: layer.width,
+      fontSize: layer.fontSize,
+      align: layer.align && TEXT_ALIGNS.includes(layer.align) ? layer.align : undefined,
+      fill: isHexColor(layer.fill) ? layer.fill : undefined,
+      stroke: layer.stroke === null || isHexColor(layer.stroke) ? layer.stroke : undefined,
+      shadow: typeof layer.shadow === 'boolean' ? layer.shadow : undefined,
+    });
+  }
+  return Object.keys(overrides).length > 0 ? overrides : undefined;
+};
+
+// A box in fractions of the poster, as the editor snaps it.
+export interface LayerBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface SnapTargets {
+  vertical: number[]; // x positions of vertical guides
+  horizontal: number[]; // y positions of horizontal guides
+}
+
+export interface SnapGuide {
+  orientation: 'vertical' | 'horizontal';
+  position: number;
+}
+
+// The poster's edges and centre lines, the safe area, and the edges and centres of the other boxes.
+export const snapTargetsFor = (safeInsets: { top: number; right: number; bottom: number; left: number }, otherBoxes: LayerBox[]): SnapTargets => ({
+  vertical: [0, 0.5, 1, safeInsets.left, 1 - safeInsets.right, ...otherBoxes.flatMap(box => [box.x, box.x + box.width / 2, box.x + box.width])],
+  horizontal: [0, 0.5, 1, safeInsets.top, 1 - safeInsets.bottom, ...otherBoxes.flatMap(box => [box.y, box.y + box.height / 2, box.y + box.height])],
+});
+
+// How far a value has to move to sit on the nearest target within the threshold, or null if none is that close.
+const snapOffset = (edges: number[], targets: number[], threshold: number): { offset: number; target: number } | null => {
+  let best: { offset: number; target: number } | null = null;
+  for (const edge of edges) {
+    for (const target of targets) {
+      const offset = target - edge;
+      if (Math.abs(offset) <= threshold && (!best || Math.abs(offset) < Math.abs(best.offset))) best = { offset, target };
+    }
+  }
+  return best;
+};
+
+// Moves a dragged box so its nearest edge or centre lines up with a guide. Thresholds are in fractions too,
+// one per axis, because the same distance on screen is a different fraction of a wide and a tall poster.
+export const snapBox = (box: LayerBox, targets: SnapTargets, threshold: { x: number; y: number }): { box: LayerBox; guides: SnapGuide[] } => {
+  const guides: SnapGuide[] = [];
+  const snapX = snapOffset([box.x, box.x + box.width / 2, box.x + box.width], targets.vertical, threshold.x);
+  const snapY = snapOffset([box.y, box.y + box.height / 2, box.y + box.height], targets.horizontal, threshold.y);
+  if (snapX) guides.push({ orientation: 'vertical', position: snapX.target });
+  if (snapY) guides.push({ orientation: 'horizontal', position: snapY.target });
+  return { box: { ...box, x: box.x + (snapX?.offset ?? 0), y: box.y + (snapY?.offset ?? 0) }, guides };
+};
+
+// Snaps a single edge, for resizing.
+export const snapEdge = (edge: number, targets: number[], threshold: number): { edge: number; guide: number | null } => {
+  const snap = snapOffset([edge], targets, threshold);
+  return { edge: edge + (snap?.offset ?? 0), guide: snap?.target ?? null };
+};
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { getTransliterationSuggestions, transliterate, transliterateByRules } from './transliteration';
+
+describe('transliterate', () => {
+  it('writes everyday poster spellings from the lexicon', () => {
+    expect(transliterate('ugadi subhakankshalu')).toBe('ఉగాది శుభాకాంక్షలు');
+  });
+
+  it('matches lexicon words whatever their case, vowel length or aspiration', () => {
+    expect(transliterate('Shubhaakaankshalu')).toBe('శుభాకాంక్షలు');
+    expect(transliterate('DEEPAWALI')).toBe('దీపావళి');
+  });
+
+  it('leaves digits, punctuation and Telugu as they are', () => {
+    expect(transliterate('Happy Diwali, 2026! మీకు deepavali subhakankshalu.')).toBe('హ్యాపీ డివలి, 2026! మీకు దీపావళి శుభాకాంక్షలు.');
+  });
+});
+
+describe('transliterateByRules', () => {
+  it('reads doubled vowels and capitals as long vowels', () => {
+    expect(transliterateByRules('shubhaakaankshalu')).toBe('శుభాకాంక్షలు');
+    expect(transliterateByRules('kShamA')).toBe('క్షమా');
+  });
+
+  it('reads capitals as retroflex consonants', () => {
+    expect(transliterateByRules('raamuDu')).toBe('రాముడు');
+  });
+
+  it('writes n and m before a consonant as an anusvara, except where Telugu keeps the letter', () => {
+    expect(transliterateByRules('sankranti')).toBe('సంక్రంతి');
+    expect(transliterateByRules('kalam')).toBe('కలం');
+    expect(transliterateByRules('amma')).toBe('అమ్మ');
+    expect(transliterateByRules('anyaya')).toBe('అన్యయ');
+  });
+
+  it('reads H as a visarga', () => {
+    expect(transliterateByRules('namaH')).toBe('నమః');
+  });
+});
+
+describe('getTransliterationSuggestions', () => {
+  it('puts the lexicon entry before the rule readings', () => {
+    expect(getTransliterationSuggestions('deepavali')).toEqual(['దీపావళి', 'దీపవలి', 'డీపవళి']);
+  });
+
+  it('follows the strict reading with casual ones', () => {
+    expect(getTransliterationSuggestions('ledu')).toEqual(['లెదు', 'ళెడు', 'లేదు']);
+    expect(getTransliterationSuggestions('thoTa')).toEqual(['థొట', 'తొట', 'థోట']);
+  });
+
+  it('offers longer lexicon words for an unfinished word, up to the limit', () => {
+    expect(getTransliterationSuggestions('sub')).toEqual(['సుబ్', 'శుభాకాంక్షలు', 'శుభ', 'శుభోదయం', 'శుభరాత్రి']);
+    expect(getTransliterationSuggestions('sub', 2)).toEqual(['సుబ్', 'శుభాకాంక్షలు']);
+  });
+
+  it('suggests nothing for an empty word', () => {
+    expect(getTransliterationSuggestions('')).toEqual([]);
+  });
+});
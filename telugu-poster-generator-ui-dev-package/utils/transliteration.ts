@@ -0,0 +1,234 @@
+// Offline phonetic English-to-Telugu transliteration, following the RTS conventions used by Lekhini:
+// capitals mark long vowels and retroflex consonants (E = ఏ, T = ట, N = ణ, L = ళ), 'h' marks aspiration
+// (th = థ), M is an explicit anusvara and H a visarga. Everyday spellings such as "ugadi" rarely follow
+// those rules, so a small lexicon of poster words is checked first and the rules fill in the rest.
+
+interface VowelRule {
+  independent: string;
+  sign: string; // Vowel sign after a consonant; empty for the inherent 'a'
+}
+
+const VOWELS: Record<string, VowelRule> = {
+  a: { independent: 'అ', sign: '' },
+  aa: { independent: 'ఆ', sign: 'ా' },
+  A: { independent: 'ఆ', sign: 'ా' },
+  i: { independent: 'ఇ', sign: 'ి' },
+  ii: { independent: 'ఈ', sign: 'ీ' },
+  ee: { independent: 'ఈ', sign: 'ీ' },
+  I: { independent: 'ఈ', sign: 'ీ' },
+  u: { independent: 'ఉ', sign: 'ు' },
+  uu: { independent: 'ఊ', sign: 'ూ' },
+  oo: { independent: 'ఊ', sign: 'ూ' },
+  U: { independent: 'ఊ', sign: 'ూ' },
+  R: { independent: 'ఋ', sign: 'ృ' },
+  e: { independent: 'ఎ', sign: 'ె' },
+  E: { independent: 'ఏ', sign: 'ే' },
+  ae: { independent: 'ఏ', sign: 'ే' },
+  ai: { independent: 'ఐ', sign: 'ై' },
+  o: { independent: 'ఒ', sign: 'ొ' },
+  O: { independent: 'ఓ', sign: 'ో' },
+  au: { independent: 'ఔ', sign: 'ౌ' },
+  ou: { independent: 'ఔ', sign: 'ౌ' },
+};
+
+const CONSONANTS: Record<string, string> = {
+  k: 'క', kh: 'ఖ', K: 'ఖ', g: 'గ', gh: 'ఘ', G: 'ఘ', '~m': 'ఙ',
+  c: 'చ', ch: 'చ', Ch: 'ఛ', chh: 'ఛ', j: 'జ', jh: 'ఝ', J: 'ఝ', z: 'జ', '~n': 'ఞ',
+  T: 'ట', Th: 'ఠ', D: 'డ', Dh: 'ఢ', N: 'ణ',
+  t: 'త', th: 'థ', d: 'ద', dh: 'ధ', n: 'న',
+  p: 'ప', ph: 'ఫ', P: 'ఫ', f: 'ఫ', b: 'బ', bh: 'భ', B: 'భ', m: 'మ',
+  y: 'య', r: 'ర', l: 'ల', L: 'ళ', v: 'వ', w: 'వ',
+  S: 'శ', sh: 'శ', Sh: 'ష', s: 'స', h: 'హ', q: 'క',
+  x: 'క్ష', ksh: 'క్ష', kSh: 'క్ష', jn: 'జ్ఞ',
+};
+
+const VIRAMA = '్';
+const ANUSVARA = 'ం';
+const VISARGA = 'ః';
+const MAX_KEY_LENGTH = 3;
+
+// After a vowel, n and m before another consonant are written as an anusvara (sankranti = సంక్రాంతి),
+// except before these, where Telugu keeps the full letter (amma = అమ్మ, anyaya = అన్యాయ).
+const KEEPS_NASAL_BEFORE = new Set(['n', 'm', 'y', 'r', 'l', 'v', 'w', 'h']);
+
+// Common poster words, each with the spellings people actually type. Matching ignores case,
+// vowel length and aspiration, so "Shubhaakaankshalu" finds the same entry as "subhakankshalu".
+const LEXICON: [telugu: string, spellings: string[]][] = [
+  ['ఉగాది', ['ugadi', 'ugaadi']],
+  ['శుభాకాంక్షలు', ['subhakankshalu', 'shubhakankshalu', 'subhakamkshalu']],
+  ['శుభ', ['subha', 'shubha']],
+  ['శుభోదయం', ['subhodayam', 'shubhodayam']],
+  ['శుభరాత్రి', ['subharatri', 'shubharatri']],
+  ['సంక్రాంతి', ['sankranti', 'sankranthi', 'sankrathi']],
+  ['దీపావళి', ['deepavali', 'dipavali', 'deepawali']],
+  ['దసరా', ['dasara', 'dussehra']],
+  ['వినాయక', ['vinayaka']],
+  ['చవితి', ['chavithi', 'chaviti']],
+  ['బతుకమ్మ', ['bathukamma', 'batukamma']],
+  ['బోనాలు', ['bonalu']],
+  ['శ్రీ', ['sri', 'shri', 'sree']],
+  ['రామ', ['rama']],
+  ['నవమి', ['navami']],
+  ['కృష్ణ', ['krishna', 'krushna']],
+  ['అష్టమి', ['ashtami']],
+  ['శివరాత్రి', ['sivaratri', 'shivaratri', 'shivarathri']],
+  ['మహా', ['maha']],
+  ['వరలక్ష్మి', ['varalakshmi']],
+  ['వ్రతం', ['vratam', 'vratham']],
+  ['కార్తీక', ['karthika', 'kartika']],
+  ['పౌర్ణమి', ['pournami', 'pournima']],
+  ['రాఖీ', ['rakhi']],
+  ['హోలీ', ['holi']],
+  ['పొంగల్', ['pongal']],
+  ['రంజాన్', ['ramzan', 'ramjan']],
+  ['క్రిస్మస్', ['christmas', 'krismas']],
+  ['నూతన', ['nutana', 'nuthana']],
+  ['సంవత్సర', ['samvatsara', 'samvathsara']],
+  ['సంవత్సరం', ['samvatsaram', 'samvathsaram']],
+  ['స్వాతంత్ర్య', ['swatantrya', 'swathanthrya']],
+  ['గణతంత్ర', ['ganatantra', 'ganathanthra']],
+  ['దినోత్సవం', ['dinotsavam', 'dinothsavam']],
+  ['పుట్టినరోజు', ['puttinaroju']],
+  ['జన్మదిన', ['janmadina']],
+  ['పెళ్లి', ['pelli']],
+  ['వివాహం', ['vivaham', 'vivaaham']],
+  ['ఆహ్వానం', ['ahvanam', 'aahvanam', 'aahwanam']],
+  ['స్వాగతం', ['swagatam', 'swagatham', 'svagatam']],
+  ['ధన్యవాదాలు', ['dhanyavadalu', 'dhanyavaadaalu']],
+  ['అభినందనలు', ['abhinandanalu']],
+  ['ప్రారంభోత్సవం', ['prarambhotsavam', 'praarambhothsavam']],
+  ['మీ', ['mee', 'mi']],
+  ['మీకు', ['meeku', 'miku']],
+  ['అందరికీ', ['andariki', 'andarikee']],
+  ['కుటుంబ', ['kutumba']],
+  ['కుటుంబం', ['kutumbam']],
+  ['తెలుగు', ['telugu']],
+  ['అమ్మ', ['amma']],
+  ['నాన్న', ['nanna']],
+  ['ప్రేమ', ['prema']],
+  ['సంతోషం', ['santosham', 'santhosham']],
+  ['నమస్కారం', ['namaskaram', 'namaskaaram']],
+  ['జై', ['jai', 'jay']],
+  ['భారత్', ['bharat', 'bharath']],
+  ['గురు', ['guru']],
+  ['పూర్ణిమ', ['purnima', 'poornima']],
+  ['హ్యాపీ', ['happy']],
+  ['బర్త్‌డే', ['birthday']],
+];
+
+export const LATIN_WORD_PATTERN = /[A-Za-z~]+$/;
+
+// Loose spelling key: case, vowel length, aspiration and a few interchangeable letters are ignored.
+const spellingKey = (word: string): string =>
+  word.toLowerCase()
+    .replace(/sh/g, 's')
+    .replace(/([kgcjtdpb])h/g, '$1')
+    .replace(/aa/g, 'a').replace(/ee|ii/g, 'i').replace(/oo|uu/g, 'u')
+    .replace(/w/g, 'v').replace(/z/g, 'j');
+
+const LEXICON_BY_KEY = new Map<string, string>();
+for (const [telugu, spellings] of LEXICON) {
+  for (const spelling of spellings) {
+    const key = spellingKey(spelling);
+    if (!LEXICON_BY_KEY.has(key)) LEXICON_BY_KEY.set(key, telugu);
+  }
+}
+
+type Token =
+  | { kind: 'vowel'; key: string; rule: VowelRule }
+  | { kind: 'consonant'; key: string; letter: string }
+  | { kind: 'mark'; key: string; letter: string }
+  | { kind: 'other'; key: string };
+
+// Longest match first; keys are case-sensitive, with a lower-case retry so stray capitals still type something.
+const tokenize = (word: string): Token[] => {
+  const tokens: Token[] = [];
+  let index = 0;
+  while (index < word.length) {
+    let token: Token | null = null;
+    for (let length = Math.min(MAX_KEY_LENGTH, word.length - index); length > 0 && !token; length--) {
+      const piece = word.slice(index, index + length);
+      for (const key of [piece, piece.toLowerCase()]) {
+        if (CONSONANTS[key]) token = { kind: 'consonant', key, letter: CONSONANTS[key] };
+        else if (VOWELS[key]) token = { kind: 'vowel', key, rule: VOWELS[key] };
+        else if (key === 'M') token = { kind: 'mark', key, letter: ANUSVARA };
+        else if (key === 'H') token = { kind: 'mark', key, letter: VISARGA };
+        if (token) {
+          index += length;
+          break;
+        }
+      }
+    }
+    if (!token) {
+      token = { kind: 'other', key: word[index] };
+      index++;
+    }
+    tokens.push(token);
+  }
+  return tokens;
+};
+
+// Applies the rule table alone, without the lexicon.
+export const transliterateByRules = (word: string): string => {
+  const tokens = tokenize(word);
+  let output = '';
+  let afterConsonant = false;
+  tokens.forEach((token, index) => {
+    const next = tokens[index + 1];
+    switch (token.kind) {
+      case 'consonant': {
+        const isNasal = token.key === 'n' || token.key === 'm';
+        const followsVowel = index > 0 && !afterConsonant;
+        if (isNasal && followsVowel && (
+          (next?.kind === 'consonant' && !KEEPS_NASAL_BEFORE.has(next.key.toLowerCase())) ||
+          (token.key === 'm' && !next)
+        )) {
+          output += ANUSVARA;
+          afterConsonant = false;
+          break;
+        }
+        output += (afterConsonant ? VIRAMA : '') + token.letter;
+        afterConsonant = true;
+        break;
+      }
+      case 'vowel':
+        output += afterConsonant ? token.rule.sign : token.rule.independent;
+        afterConsonant = false;
+        break;
+      case 'mark':
+      case 'other':
+        output += (afterConsonant ? VIRAMA : '') + (token.kind === 'mark' ? token.letter : token.key);
+        afterConsonant = false;
+        break;
+    }
+  });
+  return afterConsonant ? output + VIRAMA : output;
+};
+
+const lookupLexicon = (word: string): string | undefined => LEXICON_BY_KEY.get(spellingKey(word));
+
+export const transliterateWord = (word: string): string => lookupLexicon(word) ?? transliterateByRules(word);
+
+// Converts every Latin word in `text`, leaving digits, punctuation and existing Telugu untouched.
+export const transliterate = (text: string): string => text.replace(/[A-Za-z~]+/g, transliterateWord);
+
+// Candidates for one word, best first: the lexicon entry, the strict RTS reading, then readings of
+// the casual spellings people use for Telugu (th for త, plain letters for retroflex ones, e for ఏ),
+// and finally longer lexicon words that start the same way, so a word can be picked before it is finished.
+export const getTransliterationSuggestions = (word: string, limit = 5): string[] => {
+  if (!word) return [];
+  const key = spellingKey(word);
+  const candidates = [
+    lookupLexicon(word),
+    transliterateByRules(word),
+    transliterateByRules(word.replace(/([td])h/g, '$1')),
+    transliterateByRules(word.replace(/[tdl](?!h)/g, letter => letter.toUpperCase())),
+    transliterateByRules(word.replace(/(?<![aeAE])e(?![ei])/g, 'E').replace(/(?<![aoAO])o(?![ou])/g, 'O')),
+  ];
+  for (const [entryKey, telugu] of LEXICON_BY_KEY) {
+    if (entryKey.length > key.length && entryKey.startsWith(key)) candidates.push(telugu);
+  }
+  const unique = candidates.filter((candidate, index): candidate is string =>
+    !!candidate && candidates.indexOf(candidate) === index);
+  return unique.slice(0, limit);
+};
@@ -0,0 +1,33 @@
+import type { CallUsage } from '../services/generationProvider';
+
+// Published list prices in US dollars, used to estimate what each AI call cost.
+// Prices change and free tiers are not taken into account, so every figure shown from these is an estimate.
+
+interface ModelPrice {
+  inputPerMillionTokens?: number;
+  outputPerMillionTokens?: number;
+  thinkingPerMillionTokens?: number;
+  perImage?: number;
+}
+
+const MODEL_PRICES: Record<string, ModelPrice> = {
+  'gemini-2.5-flash-preview-04-17': { inputPerMillionTokens: 0.15, outputPerMillionTokens: 0.6, thinkingPerMillionTokens: 3.5 },
+  'imagen-3.0-generate-002': { perImage: 0.03 },
+};
+
+// Models without a price (the offline mock, or a model this table does not know yet) count as free.
+export const estimateCallCostUsd = (usage: CallUsage): number => {
+  const price = MODEL_PRICES[usage.model];
+  if (!price) return 0;
+  return ((usage.inputTokens ?? 0) * (price.inputPerMillionTokens ?? 0) +
+    (usage.outputTokens ?? 0) * (price.outputPerMillionTokens ?? 0) +
+    (usage.thinkingTokens ?? 0) * (price.thinkingPerMillionTokens ?? 0)) / 1_000_000 +
+    (usage.images ?? 0) * (price.perImage ?? 0);
+};
+
+// Small amounts keep more digits, so a single title call does not show up as $0.00.
+export const formatUsd = (amount: number): string => {
+  if (amount === 0) return '$0.00';
+  if (amount < 0.01) return `$${amount.toFixed(4)}`;
+  return `$${amount.toFixed(2)}`;
+};
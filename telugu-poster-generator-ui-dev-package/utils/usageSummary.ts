@@ -0,0 +1,125 @@
+import type { GenerationProviderId } from '../services/generationProvider';
+import type { UsageBudgets, UsageOperation, UsageRecord } from '../services/usageLog';
+import { formatUsd } from './usagePricing';
+
+// Totals and estimates over the usage log, for the sidebar, the usage page and the budget warnings.
+
+export interface UsageTotals {
+  calls: number;
+  failedCalls: number;
+  costUsd: number;
+  inputTokens: number;
+  outputTokens: number; // Includes thinking tokens
+  images: number;
+  latencyMs: number; // Summed; divide by calls for the average
+}
+
+export interface DailyUsage {
+  dayStart: number; // Local midnight
+  totals: UsageTotals;
+}
+
+// What a generation is about to ask for, so its cost can be estimated before it starts.
+export interface GenerationPlan {
+  operations: UsageOperation[]; // Text calls, in any order
+  images: number;
+}
+
+const EMPTY_TOTALS: UsageTotals = { calls: 0, failedCalls: 0, costUsd: 0, inputTokens: 0, outputTokens: 0, images: 0, latencyMs: 0 };
+
+// Used until there are successful calls to average over; roughly what a typical call costs at list prices.
+const FALLBACK_COST_USD: Record<UsageOperation, number> = {
+  title: 0.001,
+  posterDetails: 0.004,
+  refinement: 0.005,
+  images: 0.03, // Per image
+};
+const RECENT_CALLS_FOR_ESTIMATE = 10;
+
+const addRecord = (totals: UsageTotals, record: UsageRecord): UsageTotals => ({
+  calls: totals.calls + 1,
+  failedCalls: totals.failedCalls + (record.outcome === 'success' ? 0 : 1),
+  costUsd: totals.costUsd + record.costUsd,
+  inputTokens: totals.inputTokens + record.inputTokens,
+  outputTokens: totals.outputTokens + record.outputTokens + record.thinkingTokens,
+  images: totals.images + record.images,
+  latencyMs: totals.latencyMs + record.latencyMs,
+});
+
+export const totalUsage = (records: UsageRecord[]): UsageTotals => records.reduce(addRecord, EMPTY_TOTALS);
+
+const groupTotals = <K extends string>(records: UsageRecord[], keyOf: (record: UsageRecord) => K | null): Partial<Record<K, UsageTotals>> => {
+  const groups: Partial<Record<K, UsageTotals>> = {};
+  for (const record of records) {
+    const key = keyOf(record);
+    if (key === null) continue;
+    groups[key] = addRecord(groups[key] ?? EMPTY_TOTALS, record);
+  }
+  return groups;
+};
+
+// Calls made outside a chat (sessionId null) are left out.
+export const usageBySession = (records: UsageRecord[]): Partial<Record<string, UsageTotals>> =>
+  groupTotals(records, record => record.sessionId);
+
+export const usageByOperation = (records: UsageRecord[]): Partial<Record<UsageOperation, UsageTotals>> =>
+  groupTotals(records, record => record.operation);
+
+export const startOfDay = (time: number): number => {
+  const day = new Date(time);
+  day.setHours(0, 0, 0, 0);
+  return day.getTime();
+};
+
+export const usageSince = (records: UsageRecord[], since: number): UsageRecord[] =>
+  records.filter(record => record.timestamp >= since);
+
+// One entry per calendar day, oldest first, ending today; days without calls have empty totals.
+export const dailyUsage = (records: UsageRecord[], days: number, now: number = Date.now()): DailyUsage[] => {
+  const dayStarts: number[] = [];
+  const day = new Date(startOfDay(now));
+  for (let i = 0; i < days; i++) {
+    dayStarts.unshift(day.getTime());
+    day.setDate(day.getDate() - 1); // Not minus 24 h, which goes wrong across daylight saving changes
+  }
+  const byDay = groupTotals(usageSince(records, dayStarts[0]), record => String(startOfDay(record.timestamp)));
+  return dayStarts.map(dayStart => ({ dayStart, totals: byDay[String(dayStart)] ?? EMPTY_TOTALS }));
+};
+
+// Average cost of the latest successful calls of one kind (per image for 'images') on the current provider.
+const typicalCostUsd = (records: UsageRecord[], operation: UsageOperation, provider: GenerationProviderId): number => {
+  const recent = records
+    .filter(record => record.operation === operation && record.provider === provider && record.outcome === 'success')
+    .slice(-RECENT_CALLS_FOR_ESTIMATE);
+  if (recent.length === 0) return provider === 'mock' ? 0 : FALLBACK_COST_USD[operation];
+  const { costUsd, images } = totalUsage(recent);
+  return operation === 'images' ? (images > 0 ? costUsd / images : FALLBACK_COST_USD.images) : costUsd / recent.length;
+};
+
+export const estimateGenerationCostUsd = (records: UsageRecord[], plan: GenerationPlan, provider: GenerationProviderId): number =>
+  plan.operations.reduce((sum, operation) => sum + typicalCostUsd(records, operation, provider), 0) +
+  plan.images * typicalCostUsd(records, 'images', provider);
+
+// One sentence per budget the next generation would take past its limit; empty when all is well.
+export const findBudgetWarnings = (
+  records: UsageRecord[],
+  budgets: UsageBudgets,
+  sessionId: string | null,
+  estimatedCostUsd: number,
+  now: number = Date.now()
+): string[] => {
+  const warnings: string[] = [];
+  if (budgets.dailyUsd !== null) {
+    const spentToday = totalUsage(usageSince(records, startOfDay(now))).costUsd;
+    if (spentToday + estimatedCostUsd > budgets.dailyUsd) {
+      warnings.push(`Today's spend would reach about ${formatUsd(spentToday + estimatedCostUsd)}, over your daily budget of ${formatUsd(budgets.dailyUsd)}.`);
+    }
+  }
+  if (budgets.sessionUsd !== null && sessionId !== null) {
+    const spentInSession = totalUsage(records.filter(record => record.sessionId === sessionId)).costUsd;
+    if (spentInSession + estimatedCostUsd > budgets.sessionUsd) {
+      warnings.push(`This chat would reach about ${formatUsd(spentInSession + estimatedCostUsd)}, over your per-chat budget of ${formatUsd(budgets.sessionUsd)}.`);
+    }
+  }
+  return warnings;
+};
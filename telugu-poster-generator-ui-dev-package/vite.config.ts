@@ -3,10 +3,27 @@ import { defineConfig, loadEnv } from 'vite';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    // 'proxy' (default) sends AI calls through the poster server in server/, which keeps the key;
+    // 'gemini' calls Gemini straight from the browser; 'mock' works fully offline for development and tests
+    const provider = (env.POSTER_PROVIDER || 'proxy').trim().toLowerCase();
+    // Anything defined here ends up readable in the bundle, so the key is only included when the browser calls Gemini itself
+    const browserApiKey = provider === 'gemini' ? env.GEMINI_API_KEY : '';
+    // `npm run dev` and `npm run preview` pass /api on to the poster server (`npm run server`)
+    const apiProxy = {
+      '/api': { target: `http://127.0.0.1:${env.PROXY_PORT || 8787}`, xfwd: true },
+    };
     return {
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.API_KEY': JSON.stringify(browserApiKey),
+        'process.env.GEMINI_API_KEY': JSON.stringify(browserApiKey),
+        'process.env.POSTER_PROVIDER': JSON.stringify(provider),
+        'process.env.POSTER_PROXY_URL': JSON.stringify(env.POSTER_PROXY_URL || '/api')
+      },
+      server: {
+        proxy: apiProxy
+      },
+      preview: {
+        proxy: apiProxy
       },
       resolve: {
         alias: {